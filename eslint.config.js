@@ -23,6 +23,13 @@ export default [
         setTimeout: "readonly",
         clearTimeout: "readonly",
         FormData: "readonly",
+        Response: "readonly",
+        Intl: "readonly",
+        TextDecoder: "readonly",
+        TextEncoder: "readonly",
+        ReadableStream: "readonly",
+        ReadableStreamDefaultReader: "readonly",
+        Blob: "readonly",
       },
     },
     plugins: {
@@ -52,6 +59,11 @@ export default [
         fetch: "readonly",
         URL: "readonly",
         URLSearchParams: "readonly",
+        Headers: "readonly",
+        TextEncoder: "readonly",
+        Response: "readonly",
+        FormData: "readonly",
+        File: "readonly",
         global: "writable",
         describe: "writable",
         test: "writable",
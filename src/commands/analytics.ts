@@ -1,7 +1,7 @@
 // posterboy - Analytics command
 
 import { parseArgs } from "node:util";
-import { readConfig, getApiKey } from "../lib/config";
+import { loadConfigContext, getApiKey, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../lib/config";
 import { ApiClient } from "../lib/api";
 import { createOutputFormatter } from "../lib/output";
 import { UserError } from "../lib/errors";
@@ -49,9 +49,14 @@ export async function analytics(
   }
 
   // Get config and API key
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
 
   // Call API
   const result = await client.getAnalytics(profile, platforms, facebookPage, linkedinPage);
@@ -3,7 +3,8 @@
 import { parseArgs } from "node:util";
 import { stdin, stdout } from "node:process";
 import { createInterface } from "node:readline";
-import { readConfig, writeConfig, resolveConfigPath } from "../../lib/config";
+import { CONFIG_VERSION } from "../../constants";
+import { loadConfigContext, writeConfig, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
 import { ApiClient } from "../../lib/api";
 import { createOutputFormatter } from "../../lib/output";
 import { UserError } from "../../lib/errors";
@@ -35,17 +36,34 @@ export async function authLogin(
     }
   }
 
+  // Load existing config (network settings apply to the validation call).
+  // --context may name a context that does not exist yet; login creates it.
+  const loaded = loadConfigContext({ config: globalFlags.config });
+  const { path: configPath, file: existingConfig } = loaded;
+  const context = globalFlags.context ?? loaded.context;
+
   // Validate the key by calling API
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(existingConfig),
+    timeouts: getTimeoutPolicy(existingConfig, globalFlags.timeout),
+    network: getNetworkPolicy(existingConfig),
+  });
   const accountInfo = await client.me();
 
-  // Load existing config (or create new one)
-  const existingConfig = readConfig();
-  const config = existingConfig || { version: 1 };
-  config.api_key = apiKey;
+  // Update existing config (or create new one), in the context if one is given
+  const config = existingConfig || { version: CONFIG_VERSION };
+  if (context) {
+    config.contexts = {
+      ...config.contexts,
+      [context]: { ...config.contexts?.[context], api_key: apiKey },
+    };
+  } else {
+    config.api_key = apiKey;
+  }
 
   // Save config
-  await writeConfig(config);
+  await writeConfig(config, configPath);
 
   // Output success
   const formatter = createOutputFormatter(
@@ -54,34 +72,36 @@ export async function authLogin(
     true
   );
 
-  const configPath = resolveConfigPath(globalFlags.config);
-
   if (formatter.mode() === "json") {
     formatter.json({
       success: true,
       email: accountInfo.email,
       plan: accountInfo.plan,
-      message: `API key saved to ${configPath}`,
+      context,
+      message: context
+        ? `API key saved to context ${context} in ${configPath}`
+        : `API key saved to ${configPath}`,
     });
   } else {
     formatter.pretty([
       "API key validated and saved.",
       `  ${formatter.label("Account:")} ${accountInfo.email}`,
       `  ${formatter.label("Plan:")}    ${accountInfo.plan}`,
+      ...(context ? [`  ${formatter.label("Context:")} ${context}`] : []),
       `  ${formatter.label("Config:")}  ${configPath}`,
     ]);
   }
 }
 
 // Prompt for API key
-async function promptForKey(): Promise<string> {
+export async function promptForKey(question = "Enter your Upload-Post API key: "): Promise<string> {
   const rl = createInterface({
     input: stdin,
     output: stdout,
   });
 
   return new Promise((resolve) => {
-    rl.question("Enter your Upload-Post API key: ", (answer) => {
+    rl.question(question, (answer) => {
       rl.close();
       resolve(answer.trim());
     });
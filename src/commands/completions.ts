@@ -10,7 +10,7 @@ _posterboy() {
   local cur prev commands
   cur="\${COMP_WORDS[COMP_CWORD]}"
   prev="\${COMP_WORDS[COMP_CWORD-1]}"
-  commands="auth profiles post schedule status history queue platforms analytics completions"
+  commands="auth context config profiles post schedule status history queue platforms analytics ledger jobs lint completions"
 
   case "\${prev}" in
     posterboy)
@@ -19,11 +19,17 @@ _posterboy() {
     auth)
       COMPREPLY=($(compgen -W "login status" -- "\${cur}"))
       ;;
+    context)
+      COMPREPLY=($(compgen -W "list use add remove" -- "\${cur}"))
+      ;;
+    config)
+      COMPREPLY=($(compgen -W "get set unset list edit path" -- "\${cur}"))
+      ;;
     profiles)
       COMPREPLY=($(compgen -W "list create delete connect" -- "\${cur}"))
       ;;
     post)
-      COMPREPLY=($(compgen -W "text photo video document" -- "\${cur}"))
+      COMPREPLY=($(compgen -W "text photo video document apply batch retry" -- "\${cur}"))
       ;;
     schedule)
       COMPREPLY=($(compgen -W "list cancel modify" -- "\${cur}"))
@@ -37,11 +43,20 @@ _posterboy() {
     pages)
       COMPREPLY=($(compgen -W "facebook linkedin pinterest" -- "\${cur}"))
       ;;
+    ledger)
+      COMPREPLY=($(compgen -W "list show search export" -- "\${cur}"))
+      ;;
+    jobs)
+      COMPREPLY=($(compgen -W "list watch prune" -- "\${cur}"))
+      ;;
+    lint)
+      COMPREPLY=($(compgen -W "text photo video document" -- "\${cur}") $(compgen -f -- "\${cur}"))
+      ;;
     completions)
       COMPREPLY=($(compgen -W "bash zsh fish" -- "\${cur}"))
       ;;
     *)
-      COMPREPLY=($(compgen -W "--json --pretty --verbose --profile --config --api-key --help --version" -- "\${cur}"))
+      COMPREPLY=($(compgen -W "--json --pretty --verbose --profile --config --context --api-key --help --version" -- "\${cur}"))
       ;;
   esac
 }
@@ -63,6 +78,7 @@ _posterboy() {
     '--pretty[Force pretty output]' \\
     '--verbose[Show request/response details]' \\
     '--config[Override config file path]:file:_files' \\
+    '--context[Use a named context]:context:' \\
     '--api-key[Override API key]:key:' \\
     '--profile[Override default profile]:profile:' \\
     '--help[Print help]' \\
@@ -73,6 +89,8 @@ _posterboy() {
       local -a commands
       commands=(
         'auth:Authentication and account management'
+        'context:Named contexts (accounts)'
+        'config:Read and change config settings'
         'profiles:Profile management'
         'post:Content posting'
         'schedule:Scheduled post management'
@@ -81,6 +99,9 @@ _posterboy() {
         'queue:Queue management'
         'platforms:List connected platforms'
         'analytics:View profile analytics'
+        'ledger:Local record of submitted posts'
+        'jobs:Track async uploads and scheduled posts'
+        'lint:Check a post offline'
         'completions:Generate shell completions'
       )
       _describe 'command' commands
@@ -90,11 +111,17 @@ _posterboy() {
         auth)
           _arguments '1: :(login status)'
           ;;
+        context)
+          _arguments '1: :(list use add remove)'
+          ;;
+        config)
+          _arguments '1: :(get set unset list edit path)'
+          ;;
         profiles)
           _arguments '1: :(list create delete connect)'
           ;;
         post)
-          _arguments '1: :(text photo video document)'
+          _arguments '1: :(text photo video document apply batch retry)'
           ;;
         schedule)
           _arguments '1: :(list cancel modify)'
@@ -105,6 +132,15 @@ _posterboy() {
         platforms)
           _arguments '1: :(pages)' '2: :(facebook linkedin pinterest)'
           ;;
+        ledger)
+          _arguments '1: :(list show search export)'
+          ;;
+        jobs)
+          _arguments '1: :(list watch prune)'
+          ;;
+        lint)
+          _alternative 'types:post type:(text photo video document)' 'files:manifest:_files'
+          ;;
         completions)
           _arguments '1: :(bash zsh fish)'
           ;;
@@ -123,6 +159,7 @@ complete -c posterboy -l json -d "Force JSON output"
 complete -c posterboy -l pretty -d "Force pretty output"
 complete -c posterboy -l verbose -d "Show request/response details"
 complete -c posterboy -l config -d "Override config file path" -r
+complete -c posterboy -l context -d "Use a named context" -r
 complete -c posterboy -l api-key -d "Override API key" -r
 complete -c posterboy -l profile -d "Override default profile" -r
 complete -c posterboy -l help -d "Print help"
@@ -130,6 +167,8 @@ complete -c posterboy -l version -d "Print version"
 
 # Main commands
 complete -c posterboy -f -n "__fish_use_subcommand" -a "auth" -d "Authentication and account management"
+complete -c posterboy -f -n "__fish_use_subcommand" -a "context" -d "Named contexts (accounts)"
+complete -c posterboy -f -n "__fish_use_subcommand" -a "config" -d "Read and change config settings"
 complete -c posterboy -f -n "__fish_use_subcommand" -a "profiles" -d "Profile management"
 complete -c posterboy -f -n "__fish_use_subcommand" -a "post" -d "Content posting"
 complete -c posterboy -f -n "__fish_use_subcommand" -a "schedule" -d "Scheduled post management"
@@ -138,12 +177,29 @@ complete -c posterboy -f -n "__fish_use_subcommand" -a "history" -d "View upload
 complete -c posterboy -f -n "__fish_use_subcommand" -a "queue" -d "Queue management"
 complete -c posterboy -f -n "__fish_use_subcommand" -a "platforms" -d "List connected platforms"
 complete -c posterboy -f -n "__fish_use_subcommand" -a "analytics" -d "View profile analytics"
+complete -c posterboy -f -n "__fish_use_subcommand" -a "ledger" -d "Local record of submitted posts"
+complete -c posterboy -f -n "__fish_use_subcommand" -a "jobs" -d "Track async uploads and scheduled posts"
+complete -c posterboy -f -n "__fish_use_subcommand" -a "lint" -d "Check a post offline"
 complete -c posterboy -f -n "__fish_use_subcommand" -a "completions" -d "Generate shell completions"
 
 # auth subcommands
 complete -c posterboy -f -n "__fish_seen_subcommand_from auth" -a "login" -d "Store API key in config"
 complete -c posterboy -f -n "__fish_seen_subcommand_from auth" -a "status" -d "Show account info"
 
+# context subcommands
+complete -c posterboy -f -n "__fish_seen_subcommand_from context" -a "list" -d "List contexts"
+complete -c posterboy -f -n "__fish_seen_subcommand_from context" -a "use" -d "Switch the current context"
+complete -c posterboy -f -n "__fish_seen_subcommand_from context" -a "add" -d "Add a context"
+complete -c posterboy -f -n "__fish_seen_subcommand_from context" -a "remove" -d "Remove a context"
+
+# config subcommands
+complete -c posterboy -f -n "__fish_seen_subcommand_from config" -a "get" -d "Print a setting"
+complete -c posterboy -f -n "__fish_seen_subcommand_from config" -a "set" -d "Change a setting"
+complete -c posterboy -f -n "__fish_seen_subcommand_from config" -a "unset" -d "Remove a setting"
+complete -c posterboy -f -n "__fish_seen_subcommand_from config" -a "list" -d "List all settings"
+complete -c posterboy -f -n "__fish_seen_subcommand_from config" -a "edit" -d "Open the config in an editor"
+complete -c posterboy -f -n "__fish_seen_subcommand_from config" -a "path" -d "Print the config file path"
+
 # profiles subcommands
 complete -c posterboy -f -n "__fish_seen_subcommand_from profiles" -a "list" -d "List all connected profiles"
 complete -c posterboy -f -n "__fish_seen_subcommand_from profiles" -a "create" -d "Create a new profile"
@@ -155,6 +211,9 @@ complete -c posterboy -f -n "__fish_seen_subcommand_from post" -a "text" -d "Pos
 complete -c posterboy -f -n "__fish_seen_subcommand_from post" -a "photo" -d "Post photo/carousel"
 complete -c posterboy -f -n "__fish_seen_subcommand_from post" -a "video" -d "Post video content"
 complete -c posterboy -f -n "__fish_seen_subcommand_from post" -a "document" -d "Post document (LinkedIn)"
+complete -c posterboy -f -n "__fish_seen_subcommand_from post" -a "apply" -d "Post from a manifest file"
+complete -c posterboy -f -n "__fish_seen_subcommand_from post" -a "batch" -d "Post every row of a CSV file"
+complete -c posterboy -f -n "__fish_seen_subcommand_from post" -a "retry" -d "Retry failed platforms of a post"
 
 # schedule subcommands
 complete -c posterboy -f -n "__fish_seen_subcommand_from schedule" -a "list" -d "List scheduled posts"
@@ -174,6 +233,20 @@ complete -c posterboy -f -n "__fish_seen_subcommand_from pages" -a "facebook" -d
 complete -c posterboy -f -n "__fish_seen_subcommand_from pages" -a "linkedin" -d "List LinkedIn pages"
 complete -c posterboy -f -n "__fish_seen_subcommand_from pages" -a "pinterest" -d "List Pinterest boards"
 
+# ledger subcommands
+complete -c posterboy -f -n "__fish_seen_subcommand_from ledger" -a "list" -d "List recorded posts"
+complete -c posterboy -f -n "__fish_seen_subcommand_from ledger" -a "show" -d "Show a recorded post"
+complete -c posterboy -f -n "__fish_seen_subcommand_from ledger" -a "search" -d "Search recorded posts"
+complete -c posterboy -f -n "__fish_seen_subcommand_from ledger" -a "export" -d "Export recorded posts"
+
+# jobs subcommands
+complete -c posterboy -f -n "__fish_seen_subcommand_from jobs" -a "list" -d "List tracked jobs"
+complete -c posterboy -f -n "__fish_seen_subcommand_from jobs" -a "watch" -d "Poll pending jobs"
+complete -c posterboy -f -n "__fish_seen_subcommand_from jobs" -a "prune" -d "Remove finished jobs"
+
+# lint post types (manifest files complete as well)
+complete -c posterboy -n "__fish_seen_subcommand_from lint" -a "text photo video document" -d "Post type"
+
 # completions subcommands
 complete -c posterboy -f -n "__fish_seen_subcommand_from completions" -a "bash" -d "Generate bash completion"
 complete -c posterboy -f -n "__fish_seen_subcommand_from completions" -a "zsh" -d "Generate zsh completion"
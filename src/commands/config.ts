@@ -0,0 +1,282 @@
+// posterboy - Config commands (read and change settings without editing JSON)
+
+import { spawnSync } from "node:child_process";
+import { parseArgs } from "node:util";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { CONFIG_VERSION } from "../constants";
+import {
+  readConfig,
+  writeConfig,
+  migrateConfigFile,
+  resolveConfigPath,
+  parseConfigValue,
+  validateConfig,
+} from "../lib/config";
+import { createOutputFormatter, maskApiKey, printDone } from "../lib/output";
+import { UserError } from "../lib/errors";
+import type { Config, GlobalFlags } from "../lib/types";
+
+/**
+ * Print the config file path in use
+ */
+export async function configPath(
+  _args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const path = resolveConfigPath(globalFlags.config);
+  const formatter = createOutputFormatter(globalFlags.json, globalFlags.pretty, true);
+  if (formatter.mode() === "json") {
+    formatter.json({ path, exists: existsSync(path) });
+  } else {
+    console.log(path);
+  }
+}
+
+/**
+ * Print every setting as dotted keys, with API keys masked
+ */
+export async function configList(
+  _args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const path = resolveConfigPath(globalFlags.config);
+  const settings: Record<string, unknown> = {};
+  flatten(maskSecrets(readConfig(path) ?? {}, "") as Record<string, unknown>, "", settings);
+
+  const formatter = createOutputFormatter(globalFlags.json, globalFlags.pretty, true);
+  if (formatter.mode() === "json") {
+    formatter.json({ path, settings });
+    return;
+  }
+
+  const entries = Object.entries(settings);
+  if (entries.length === 0) {
+    formatter.pretty([formatter.muted(`No config file at ${path}`)]);
+    return;
+  }
+  formatter.pretty(
+    entries.map(([key, value]) => `${formatter.label(key)} = ${formatValue(value)}`)
+  );
+}
+
+/**
+ * Print the value of one setting (or a whole section). API keys are masked
+ * unless --reveal is given.
+ */
+export async function configGet(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      reveal: { type: "boolean", default: false },
+    },
+    strict: false,
+    allowPositionals: true,
+  });
+
+  const key = requireKey(positionals, "get");
+  const stored = lookup(readConfig(resolveConfigPath(globalFlags.config)), key);
+  if (stored === undefined) {
+    throw new UserError(`Config key not set: ${key}`);
+  }
+  const value = values.reveal ? stored : maskSecrets(stored, key);
+
+  const formatter = createOutputFormatter(globalFlags.json, globalFlags.pretty, true);
+  if (formatter.mode() === "json") {
+    formatter.json({ key, value });
+  } else {
+    console.log(typeof value === "object" ? JSON.stringify(value, null, 2) : formatValue(value));
+  }
+}
+
+/**
+ * Change one setting; the whole config is validated before it is saved
+ */
+export async function configSet(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const key = requireKey(args, "set");
+  const input = args[1];
+  if (input === undefined) {
+    throw new UserError(
+      `Value required for ${key}.\n` +
+      "Usage: posterboy config set <key> <value>"
+    );
+  }
+  const value = parseConfigValue(key, input);
+
+  const path = resolveConfigPath(globalFlags.config);
+  const config: Config = readConfig(path) ?? { version: CONFIG_VERSION };
+  const segments = key.split(".");
+  let parent = config as unknown as Record<string, unknown>;
+  for (const segment of segments.slice(0, -1)) {
+    const child = parent[segment];
+    if (typeof child !== "object" || child === null || Array.isArray(child)) {
+      parent[segment] = {};
+    }
+    parent = parent[segment] as Record<string, unknown>;
+  }
+  parent[segments[segments.length - 1]!] = value;
+
+  await writeConfig(config, path);
+  printDone(globalFlags, { success: true, key, value }, `Set ${key} = ${formatValue(value)}`);
+}
+
+/**
+ * Remove one setting, and any section it leaves empty
+ */
+export async function configUnset(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const key = requireKey(args, "unset");
+  if (key === "version") {
+    throw new UserError("version is managed by posterboy and cannot be unset");
+  }
+
+  const path = resolveConfigPath(globalFlags.config);
+  const config = readConfig(path);
+  if (lookup(config, key) === undefined) {
+    throw new UserError(`Config key not set: ${key}`);
+  }
+
+  // Walk down, remembering each section to prune it on the way back up
+  const segments = key.split(".");
+  const sections = [config as unknown as Record<string, unknown>];
+  for (const segment of segments.slice(0, -1)) {
+    sections.push(sections[sections.length - 1]![segment] as Record<string, unknown>);
+  }
+  delete sections[sections.length - 1]![segments[segments.length - 1]!];
+  for (let i = sections.length - 1; i > 0; i--) {
+    if (Object.keys(sections[i]!).length > 0) break;
+    delete sections[i - 1]![segments[i - 1]!];
+  }
+
+  await writeConfig(config!, path);
+  printDone(globalFlags, { success: true, key }, `Unset ${key}`);
+}
+
+/**
+ * Open the config in $VISUAL or $EDITOR. The edited copy is validated and
+ * only then saved over the config; an invalid edit is kept for another try.
+ */
+export async function configEdit(
+  _args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const path = resolveConfigPath(globalFlags.config);
+  const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+  const draftPath = `${path}.edit.json`;
+
+  // Resume an edit that failed validation rather than discarding it
+  if (!existsSync(draftPath)) {
+    const config = readConfig(path) ?? { version: CONFIG_VERSION };
+    mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+    writeFileSync(draftPath, JSON.stringify(config, null, 2) + "\n", { mode: 0o600 });
+  }
+
+  // Same as git: the editor may carry arguments, e.g. "code --wait"
+  const result = spawnSync("sh", ["-c", `${editor} "$@"`, editor, draftPath], {
+    stdio: "inherit",
+  });
+  if (result.error || result.status !== 0) {
+    throw new UserError(
+      `Editor '${editor}' did not exit cleanly; the config was not changed.\n` +
+      `Your edits are kept in ${draftPath}`
+    );
+  }
+
+  let config: Config;
+  let warnings: string[];
+  try {
+    config = JSON.parse(readFileSync(draftPath, "utf-8")) as Config;
+    warnings = validateConfig(config);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new UserError(
+      `Edited config is not valid: ${reason}\n` +
+      `The config was not changed. Run 'posterboy config edit' again to fix ${draftPath}`
+    );
+  }
+
+  await writeConfig(config, path);
+  rmSync(draftPath, { force: true });
+  for (const warning of warnings) {
+    console.error(`Warning: ${warning}`);
+  }
+  printDone(globalFlags, { success: true, path }, `Saved ${path}`);
+}
+
+/**
+ * Save a config written by an older posterboy in the current schema,
+ * keeping a backup of the old file
+ */
+export async function configMigrate(
+  _args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const path = resolveConfigPath(globalFlags.config);
+  const { from, to, backupPath } = migrateConfigFile(path);
+
+  if (!backupPath) {
+    printDone(globalFlags, { success: true, path, version: to, migrated: false }, `${path} is already at version ${to}`);
+    return;
+  }
+  printDone(
+    globalFlags,
+    { success: true, path, version: to, migrated: true, from, backup: backupPath },
+    `Migrated ${path} from version ${from} to ${to} (the old file is saved as ${backupPath})`
+  );
+}
+
+function requireKey(args: string[], subcommand: string): string {
+  const key = args[0];
+  if (!key || key.startsWith("-")) {
+    throw new UserError(
+      "Config key required, e.g. default_platforms or platform_defaults.facebook.page.\n" +
+      `Usage: posterboy config ${subcommand} <key>${subcommand === "set" ? " <value>" : ""}`
+    );
+  }
+  return key;
+}
+
+// Value at a dotted key, or undefined when any part of it is missing
+function lookup(config: Config | null, key: string): unknown {
+  let value: unknown = config;
+  for (const segment of key.split(".")) {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+// Copy of a value with every api_key in it masked
+function maskSecrets(value: unknown, key: string): unknown {
+  if (typeof value === "string" && (key === "api_key" || key.endsWith(".api_key"))) {
+    return maskApiKey(value);
+  }
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, child]) => [name, maskSecrets(child, key ? `${key}.${name}` : name)])
+    );
+  }
+  return value;
+}
+
+function flatten(value: Record<string, unknown>, prefix: string, into: Record<string, unknown>): void {
+  for (const [key, child] of Object.entries(value)) {
+    if (typeof child === "object" && child !== null && !Array.isArray(child)) {
+      flatten(child as Record<string, unknown>, `${prefix}${key}.`, into);
+    } else {
+      into[`${prefix}${key}`] = child;
+    }
+  }
+}
+
+function formatValue(value: unknown): string {
+  return Array.isArray(value) ? value.join(",") : String(value);
+}
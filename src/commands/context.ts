@@ -0,0 +1,199 @@
+// posterboy - Context commands (named accounts in one config file)
+
+import { parseArgs } from "node:util";
+import { stdin } from "node:process";
+import { CONFIG_VERSION } from "../constants";
+import { readConfig, writeConfig, resolveConfigPath, resolveContextName } from "../lib/config";
+import { createOutputFormatter, maskApiKey, printDone } from "../lib/output";
+import { UserError } from "../lib/errors";
+import { validatePlatforms } from "../lib/validation";
+import { promptForKey } from "./auth/login";
+import type { Config, ContextSettings, GlobalFlags } from "../lib/types";
+
+const CONTEXT_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * List configured contexts, marking the active one
+ */
+export async function contextList(
+  _args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const config = readConfig(resolveConfigPath(globalFlags.config));
+  const current = resolveContextName(globalFlags.context, config);
+  const contexts = Object.entries(config?.contexts ?? {}).map(([name, settings]) => ({
+    name,
+    current: name === current,
+    api_key: settings.api_key ? maskApiKey(settings.api_key) : null,
+    default_profile: settings.default_profile ?? null,
+    default_platforms: settings.default_platforms ?? [],
+  }));
+
+  const formatter = createOutputFormatter(
+    globalFlags.json,
+    globalFlags.pretty,
+    true
+  );
+
+  if (formatter.mode() === "json") {
+    formatter.json({ current_context: current ?? null, contexts });
+    return;
+  }
+
+  if (contexts.length === 0) {
+    formatter.pretty([
+      formatter.muted("No contexts configured."),
+      formatter.muted("Add one with: posterboy context add <name>"),
+    ]);
+    return;
+  }
+
+  formatter.table(
+    ["", "NAME", "PROFILE", "PLATFORMS", "API KEY"],
+    contexts.map((context) => [
+      context.current ? "*" : "",
+      context.name,
+      context.default_profile ?? "-",
+      context.default_platforms.join(",") || "-",
+      context.api_key ?? "-",
+    ])
+  );
+}
+
+/**
+ * Make a context the current one for later commands
+ */
+export async function contextUse(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const name = requireName(args, "use");
+  const path = resolveConfigPath(globalFlags.config);
+  const config = readConfig(path);
+  requireContext(config, name);
+
+  config.current_context = name;
+  await writeConfig(config, path);
+
+  printDone(globalFlags, { success: true, current_context: name }, `Switched to context ${name}`);
+}
+
+/**
+ * Add a context with its account settings. The API key is prompted for, or
+ * read from stdin with --key-stdin, so it never appears in argv.
+ */
+export async function contextAdd(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      key: { type: "string" },
+      "key-stdin": { type: "boolean", default: false },
+      "default-profile": { type: "string" },
+      "default-platforms": { type: "string" },
+      use: { type: "boolean", default: false },
+    },
+    strict: false,
+    allowPositionals: true,
+  });
+
+  const name = requireName(positionals, "add");
+  if (values.key !== undefined) {
+    throw new UserError(
+      "--key is not accepted: it would leave the API key in your shell history.\n" +
+      `Enter the key when prompted, or pipe it in: posterboy context add ${name} --key-stdin < key.txt`
+    );
+  }
+  if (!CONTEXT_NAME.test(name)) {
+    throw new UserError(
+      `Invalid context name: ${name}\n` +
+      "Use letters, digits, '.', '_' and '-', starting with a letter or digit."
+    );
+  }
+
+  const path = resolveConfigPath(globalFlags.config);
+  const config: Config = readConfig(path) ?? { version: CONFIG_VERSION };
+  if (config.contexts?.[name]) {
+    throw new UserError(
+      `Context already exists: ${name}\n` +
+      `Change its key with 'posterboy auth login --context ${name}', or remove it first.`
+    );
+  }
+
+  // Check the platforms before asking for a key
+  const platforms = values["default-platforms"] !== undefined
+    ? validatePlatforms((values["default-platforms"] as string).split(",").map((p) => p.trim()))
+    : undefined;
+
+  let apiKey: string | undefined;
+  if (values["key-stdin"]) {
+    apiKey = (await Bun.stdin.text()).trim();
+    if (!apiKey) throw new UserError("No API key on stdin");
+  } else if (stdin.isTTY) {
+    apiKey = await promptForKey(`Enter the API key for ${name} (empty to add one later): `);
+  }
+
+  const settings: ContextSettings = {};
+  if (apiKey) settings.api_key = apiKey;
+  if (values["default-profile"] !== undefined) {
+    settings.default_profile = values["default-profile"] as string;
+  }
+  if (platforms) settings.default_platforms = platforms;
+
+  config.contexts = { ...config.contexts, [name]: settings };
+  if (values.use) config.current_context = name;
+  await writeConfig(config, path);
+
+  printDone(
+    globalFlags,
+    { success: true, context: name, current_context: config.current_context ?? null },
+    values.use ? `Added context ${name} and switched to it` : `Added context ${name}`
+  );
+}
+
+/**
+ * Remove a context (and stop using it, if it is the current one)
+ */
+export async function contextRemove(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const name = requireName(args, "remove");
+  const path = resolveConfigPath(globalFlags.config);
+  const config = readConfig(path);
+  requireContext(config, name);
+
+  delete config.contexts[name];
+  if (config.current_context === name) delete config.current_context;
+  await writeConfig(config, path);
+
+  printDone(globalFlags, { success: true, removed: name }, `Removed context ${name}`);
+}
+
+function requireName(args: string[], subcommand: string): string {
+  const name = args.find((arg) => !arg.startsWith("-"));
+  if (!name) {
+    throw new UserError(
+      "Context name required.\n" +
+      `Usage: posterboy context ${subcommand} <name>`
+    );
+  }
+  return name;
+}
+
+function requireContext(
+  config: Config | null,
+  name: string
+): asserts config is Config & { contexts: Record<string, ContextSettings> } {
+  if (config?.contexts?.[name]) return;
+
+  const names = Object.keys(config?.contexts ?? {});
+  throw new UserError(
+    `Unknown context: ${name}\n` +
+    (names.length > 0
+      ? `Configured contexts: ${names.join(", ")}`
+      : "No contexts configured. Add one with 'posterboy context add <name>'.")
+  );
+}
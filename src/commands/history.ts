@@ -1,7 +1,7 @@
 // posterboy - History command
 
 import { parseArgs } from "node:util";
-import { readConfig, getApiKey, getDefaultProfile } from "../lib/config";
+import { loadConfigContext, getApiKey, getDefaultProfile, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../lib/config";
 import { ApiClient } from "../lib/api";
 import { createOutputFormatter } from "../lib/output";
 import { UserError } from "../lib/errors";
@@ -35,9 +35,14 @@ export async function history(
   }
 
   // Get config and API key
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
 
   // Profile is optional for history command (falls back to default)
   const profile = values.profile as string | undefined || globalFlags.profile || getDefaultProfile(undefined, config);
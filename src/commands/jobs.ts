@@ -0,0 +1,324 @@
+// posterboy - Jobs commands (track async uploads and scheduled posts)
+
+import { parseArgs } from "node:util";
+import { configForContext, getApiKey, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy, readConfig, resolveConfigPath } from "../lib/config";
+import { ApiClient } from "../lib/api";
+import { createOutputFormatter } from "../lib/output";
+import { ApiError, RateLimitError, UserError } from "../lib/errors";
+import { EXIT_CODES } from "../constants";
+import { FINISHED_JOB_STATUSES, openExistingLedger, resolveLedgerPath, type Ledger } from "../lib/ledger";
+import { DEFAULT_POLL_INTERVAL_MS, DEFAULT_WAIT_TIMEOUT_SECONDS } from "../lib/status";
+import type { OutputFormatter } from "../lib/output";
+import type { GlobalFlags, TrackedJob } from "../lib/types";
+
+/**
+ * List tracked jobs, newest first
+ */
+export async function jobsList(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      pending: { type: "boolean", default: false },
+      refresh: { type: "boolean", default: false },
+      limit: { type: "string" },
+    },
+    strict: false,
+  });
+
+  const limit = parseLimit(values.limit, 20);
+  const formatter = createOutputFormatter(
+    globalFlags.json,
+    globalFlags.pretty,
+    true
+  );
+
+  // Without a ledger nothing has been tracked yet
+  const ledger = openExistingLedger(resolveLedgerPath(globalFlags.config));
+  if (!ledger) {
+    if (formatter.mode() === "json") {
+      formatter.json({ jobs: [] });
+    } else {
+      printJobs([], formatter);
+    }
+    return;
+  }
+
+  try {
+    if (values.refresh) {
+      await refreshJobs(createClients(globalFlags), ledger, formatter);
+    }
+
+    const jobs = ledger.listJobs({ pending: values.pending as boolean, limit });
+    if (formatter.mode() === "json") {
+      formatter.json({ jobs });
+    } else {
+      printJobs(jobs, formatter);
+    }
+  } finally {
+    ledger.close();
+  }
+}
+
+/**
+ * Poll every job in flight until all have finished, showing a live table.
+ * Scheduled posts are left out, since they only finish once published.
+ * Gives up after --max-wait; Ctrl+C stops watching and exits 130, like --wait.
+ */
+export async function jobsWatch(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      interval: { type: "string" },
+      "max-wait": { type: "string" },
+    },
+    strict: false,
+  });
+
+  const intervalMs = values.interval
+    ? parseInt(values.interval as string, 10) * 1000
+    : DEFAULT_POLL_INTERVAL_MS;
+  if (isNaN(intervalMs) || intervalMs < 1000) {
+    throw new UserError("Interval must be a positive number of seconds");
+  }
+  const maxWaitSeconds = values["max-wait"]
+    ? parseInt(values["max-wait"] as string, 10)
+    : DEFAULT_WAIT_TIMEOUT_SECONDS;
+  if (isNaN(maxWaitSeconds) || maxWaitSeconds < 1) {
+    throw new UserError("--max-wait must be a positive number of seconds");
+  }
+
+  const formatter = createOutputFormatter(
+    globalFlags.json,
+    globalFlags.pretty,
+    true
+  );
+  const live = formatter.mode() === "pretty" && !!process.stdout.isTTY;
+
+  // Only jobs in flight when watching starts are shown
+  const ledger = openExistingLedger(resolveLedgerPath(globalFlags.config));
+  let polling = (ledger?.listJobs({ pending: true }) ?? []).filter((job) => job.status !== "scheduled");
+  const watched = new Set(polling.map((job) => job.id));
+  if (!ledger || watched.size === 0) {
+    ledger?.close();
+    if (formatter.mode() === "json") {
+      formatter.json({ jobs: [] });
+    } else {
+      formatter.pretty([formatter.muted("No pending jobs.")]);
+    }
+    return;
+  }
+
+  // Exit the way an interrupted --wait does, so scripts can tell the two apart
+  const sigintHandler = () => {
+    ledger.close();
+    if (live) {
+      console.log("\nStopped watching.");
+    }
+    process.exit(EXIT_CODES.INTERRUPTED);
+  };
+  process.on("SIGINT", sigintHandler);
+
+  try {
+
+    const clientFor = createClients(globalFlags);
+    const deadline = Date.now() + maxWaitSeconds * 1000;
+    for (;;) {
+      const stillPolling = new Set(await refreshJobs(clientFor, ledger, formatter, polling));
+      polling = polling.filter((job) => stillPolling.has(job.id));
+      const jobs = ledger.listJobs().filter((job) => watched.has(job.id));
+
+      if (live) {
+        // Clear the screen and redraw
+        process.stdout.write("\x1b[2J\x1b[H");
+        formatter.pretty([
+          formatter.header(`Watching ${watched.size} job${watched.size === 1 ? "" : "s"}`),
+          formatter.muted(`Updated ${new Date().toLocaleTimeString()} - Ctrl+C to stop`),
+          "",
+        ]);
+        printJobs(jobs, formatter);
+      }
+
+      if (polling.length === 0) {
+        if (formatter.mode() === "json") {
+          formatter.json({ jobs });
+        } else if (!live) {
+          printJobs(jobs, formatter);
+        }
+        return;
+      }
+
+      if (Date.now() + intervalMs > deadline) {
+        throw new UserError(
+          `Stopped watching after ${maxWaitSeconds}s with ${polling.length} job${polling.length === 1 ? "" : "s"} still pending.\n` +
+            "Run 'posterboy jobs watch' again to keep watching."
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  } finally {
+    process.off("SIGINT", sigintHandler);
+    ledger.close();
+  }
+}
+
+/**
+ * Remove completed and failed jobs from the tracker
+ */
+export async function jobsPrune(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      "older-than": { type: "string" },
+    },
+    strict: false,
+  });
+
+  let before: Date | undefined;
+  if (values["older-than"] !== undefined) {
+    const days = parseInt(values["older-than"] as string, 10);
+    if (isNaN(days) || days < 0) {
+      throw new UserError("--older-than must be a non-negative number of days");
+    }
+    before = new Date(Date.now() - days * 24 * 3600 * 1000);
+  }
+
+  const ledger = openExistingLedger(resolveLedgerPath(globalFlags.config));
+  let removed = 0;
+  if (ledger) {
+    try {
+      removed = ledger.pruneJobs(before);
+    } finally {
+      ledger.close();
+    }
+  }
+
+  const formatter = createOutputFormatter(
+    globalFlags.json,
+    globalFlags.pretty,
+    true
+  );
+  if (formatter.mode() === "json") {
+    formatter.json({ success: true, removed });
+  } else {
+    formatter.pretty([
+      formatter.success(`Removed ${removed} finished job${removed === 1 ? "" : "s"}`),
+    ]);
+  }
+}
+
+/**
+ * Check jobs (by default every pending one) concurrently, each with the
+ * API key of the context it was posted with, and store their new status.
+ * Returns the ids of the jobs worth checking again.
+ */
+async function refreshJobs(
+  clientFor: (job: TrackedJob) => ApiClient,
+  ledger: Ledger,
+  formatter: OutputFormatter,
+  jobs: TrackedJob[] = ledger.listJobs({ pending: true })
+): Promise<string[]> {
+  // A job whose context can no longer be loaded fails on its own
+  const checks = await Promise.allSettled(
+    jobs.map(async (job) => clientFor(job).getStatus(job.id, job.id_type))
+  );
+
+  const pending: string[] = [];
+  checks.forEach((check, index) => {
+    const job = jobs[index]!;
+    if (check.status === "fulfilled") {
+      ledger.updateJob(job.id, check.value);
+      if (!FINISHED_JOB_STATUSES.includes(check.value.status)) pending.push(job.id);
+      return;
+    }
+
+    // Keep polling jobs whose status could not be fetched this round,
+    // unless the API rejected the check itself (unknown id, bad key, ...)
+    const permanent = isPermanentFailure(check.reason);
+    if (!permanent) pending.push(job.id);
+    if (formatter.mode() === "pretty") {
+      const reason = check.reason instanceof Error ? check.reason.message : "Unknown error";
+      console.error(`Warning: could not check ${job.id}: ${reason}${permanent ? " (no longer checking it)" : ""}`);
+    }
+  });
+
+  return pending;
+}
+
+function isPermanentFailure(error: unknown): boolean {
+  // A removed context or missing API key will not fix itself while watching
+  if (error instanceof UserError) return true;
+  return (
+    error instanceof ApiError &&
+    !(error instanceof RateLimitError) &&
+    error.statusCode >= 400 &&
+    error.statusCode < 500 &&
+    error.statusCode !== 408 &&
+    error.statusCode !== 429
+  );
+}
+
+function printJobs(jobs: TrackedJob[], formatter: OutputFormatter): void {
+  if (jobs.length === 0) {
+    formatter.pretty([formatter.muted("No jobs found.")]);
+    return;
+  }
+
+  formatter.table(
+    ["ID", "TYPE", "STATUS", "PROGRESS", "PLATFORMS", "SUBMITTED", "TITLE"],
+    jobs.map((job) => [
+      job.id,
+      job.type,
+      job.status,
+      job.total !== undefined ? `${job.completed ?? 0}/${job.total}` : "-",
+      job.platforms.join(","),
+      job.created_at.substring(0, 16).replace("T", " "),
+      truncate(job.title.replace(/\s+/g, " "), 40),
+    ])
+  );
+}
+
+// One client per context jobs were posted with, created on first use.
+// Jobs posted without a context use the top-level account.
+function createClients(globalFlags: GlobalFlags): (job: TrackedJob) => ApiClient {
+  const file = readConfig(resolveConfigPath(globalFlags.config));
+  const clients = new Map<string, ApiClient>();
+
+  return (job) => {
+    const name = job.context ?? "";
+    let client = clients.get(name);
+    if (!client) {
+      const config = configForContext(file, job.context);
+      client = new ApiClient(getApiKey(globalFlags.apiKey, config?.api_key), {
+        verbose: globalFlags.verbose,
+        retry: getRetryPolicy(config),
+        timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+        network: getNetworkPolicy(config),
+      });
+      clients.set(name, client);
+    }
+    return client;
+  };
+}
+
+function parseLimit(value: unknown, defaultLimit: number): number {
+  if (value === undefined) return defaultLimit;
+  const limit = parseInt(value as string, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new UserError("Limit must be a positive integer");
+  }
+  return limit;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
@@ -0,0 +1,327 @@
+// posterboy - Ledger commands (local record of submitted posts)
+
+import { parseArgs } from "node:util";
+import { writeFileSync } from "node:fs";
+import { openExistingLedger, resolveLedgerPath, type Ledger } from "../lib/ledger";
+import { createOutputFormatter } from "../lib/output";
+import { UserError } from "../lib/errors";
+import { formatCsv } from "../lib/csv";
+import { validatePlatforms } from "../lib/validation";
+import { validatePostType } from "../lib/post-request";
+import type { GlobalFlags, LedgerEntry, LedgerQuery } from "../lib/types";
+
+const FILTER_OPTIONS = {
+  profile: { type: "string" },
+  platform: { type: "string" },
+  type: { type: "string" },
+  limit: { type: "string" },
+} as const;
+
+const EXPORT_COLUMNS = [
+  "id",
+  "created_at",
+  "type",
+  "profile",
+  "platforms",
+  "title",
+  "request_id",
+  "job_id",
+  "success",
+  "urls",
+  "metadata",
+] as const;
+
+/**
+ * List recorded submissions, newest first
+ */
+export async function ledgerList(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: FILTER_OPTIONS,
+    strict: false,
+  });
+
+  const query = buildQuery(values, globalFlags, 20);
+  printEntries(withLedger(globalFlags, (ledger) => ledger.list(query)), globalFlags);
+}
+
+/**
+ * Search captions, params, results and metadata for a term
+ */
+export async function ledgerSearch(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: FILTER_OPTIONS,
+    strict: false,
+    allowPositionals: true,
+  });
+
+  const term = positionals.join(" ").trim();
+  if (!term) {
+    throw new UserError(
+      "Search term required.\n" +
+        "Usage: posterboy ledger search <term> [--platform <name>] [--type <type>]"
+    );
+  }
+
+  const query = { ...buildQuery(values, globalFlags, 20), search: term };
+  printEntries(withLedger(globalFlags, (ledger) => ledger.list(query)), globalFlags);
+}
+
+/**
+ * Show a single submission by ledger id, request_id or job_id
+ */
+export async function ledgerShow(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const { positionals } = parseArgs({
+    args,
+    options: {},
+    strict: false,
+    allowPositionals: true,
+  });
+
+  const [id] = positionals;
+  if (!id) {
+    throw new UserError(
+      "Ledger entry ID required.\n" +
+        "Usage: posterboy ledger show <id|request_id|job_id>"
+    );
+  }
+
+  const entry = withLedger(globalFlags, (ledger) => ledger.find(id));
+  if (!entry) {
+    throw new UserError(`No ledger entry found for: ${id}`);
+  }
+
+  const formatter = createOutputFormatter(
+    globalFlags.json,
+    globalFlags.pretty,
+    true
+  );
+
+  if (formatter.mode() === "json") {
+    formatter.json(entry);
+    return;
+  }
+
+  const lines = [
+    formatter.header(`Ledger Entry #${entry.id}`),
+    "",
+    `  ${formatter.label("Date:")}        ${entry.created_at}`,
+    `  ${formatter.label("Type:")}        ${entry.type}`,
+    `  ${formatter.label("Profile:")}     ${entry.profile}`,
+    `  ${formatter.label("Platforms:")}   ${entry.platforms.join(", ")}`,
+    `  ${formatter.label("Title:")}       ${entry.title}`,
+  ];
+
+  if (entry.request_id) {
+    lines.push(`  ${formatter.label("Request ID:")}  ${entry.request_id}`);
+  }
+  if (entry.job_id) {
+    lines.push(`  ${formatter.label("Job ID:")}      ${entry.job_id}`);
+  }
+  if (entry.result.scheduled_date) {
+    lines.push(`  ${formatter.label("Scheduled:")}   ${entry.result.scheduled_date}`);
+  }
+
+  if (entry.result.results) {
+    lines.push("", formatter.label("Results:"));
+    for (const [platform, platformResult] of Object.entries(entry.result.results)) {
+      if (platformResult.success) {
+        lines.push(`  ${platform.padEnd(12)} ${platformResult.url ?? "posted"}`);
+      } else {
+        lines.push(
+          `  ${platform.padEnd(12)} ${formatter.color("FAILED", "RED")} - ${platformResult.error ?? "unknown error"}`
+        );
+      }
+    }
+  }
+
+  if (entry.metadata) {
+    lines.push("", formatter.label("Metadata:"));
+    for (const [key, value] of Object.entries(entry.metadata)) {
+      lines.push(`  ${key} = ${value}`);
+    }
+  }
+
+  lines.push("", formatter.label("Params:"), JSON.stringify(entry.params, null, 2));
+  formatter.pretty(lines);
+}
+
+/**
+ * Export submissions as JSON or CSV, to stdout or a file
+ */
+export async function ledgerExport(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...FILTER_OPTIONS,
+      format: { type: "string" },
+      output: { type: "string" },
+    },
+    strict: false,
+  });
+
+  const format = (values.format as string | undefined) ?? "json";
+  if (format !== "json" && format !== "csv") {
+    throw new UserError(`Invalid export format: ${format}. Valid formats: json, csv`);
+  }
+
+  const query = buildQuery(values, globalFlags);
+  const entries = withLedger(globalFlags, (ledger) => ledger.list(query)) ?? [];
+  const content =
+    format === "json"
+      ? JSON.stringify(entries, null, 2) + "\n"
+      : formatCsv([[...EXPORT_COLUMNS], ...entries.map(toCsvRow)]);
+
+  const outputPath = values.output as string | undefined;
+  if (!outputPath) {
+    process.stdout.write(content);
+    return;
+  }
+
+  try {
+    writeFileSync(outputPath, content);
+  } catch (error) {
+    throw new UserError(
+      `Failed to write export: ${outputPath}\n` +
+        `Error: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  const formatter = createOutputFormatter(
+    globalFlags.json,
+    globalFlags.pretty,
+    true
+  );
+  if (formatter.mode() === "json") {
+    formatter.json({ success: true, path: outputPath, count: entries.length });
+  } else {
+    formatter.pretty([
+      formatter.success(
+        `Exported ${entries.length} ledger entr${entries.length === 1 ? "y" : "ies"} to ${outputPath}`
+      ),
+    ]);
+  }
+}
+
+/**
+ * Translate filter flags into a ledger query
+ */
+function buildQuery(
+  values: Record<string, string | boolean | (string | boolean)[] | undefined>,
+  globalFlags: GlobalFlags,
+  defaultLimit?: number
+): LedgerQuery {
+  const query: LedgerQuery = {};
+
+  const profile = (values.profile as string | undefined) || globalFlags.profile;
+  if (profile) query.profile = profile;
+
+  if (values.platform) {
+    query.platform = validatePlatforms([values.platform as string])[0];
+  }
+  if (values.type) {
+    query.type = validatePostType(values.type);
+  }
+
+  if (values.limit) {
+    const limit = parseInt(values.limit as string, 10);
+    if (isNaN(limit) || limit < 1) {
+      throw new UserError("Limit must be a positive integer");
+    }
+    query.limit = limit;
+  } else if (defaultLimit !== undefined) {
+    query.limit = defaultLimit;
+  }
+
+  return query;
+}
+
+/**
+ * Read from the ledger, or return undefined if nothing has been recorded yet.
+ * Reading never creates the ledger file.
+ */
+function withLedger<T>(globalFlags: GlobalFlags, fn: (ledger: Ledger) => T): T | undefined {
+  const ledger = openExistingLedger(resolveLedgerPath(globalFlags.config));
+  if (!ledger) return undefined;
+  try {
+    return fn(ledger);
+  } finally {
+    ledger.close();
+  }
+}
+
+// Entries are undefined when there is no ledger yet
+function printEntries(entries: LedgerEntry[] | undefined, globalFlags: GlobalFlags): void {
+  const formatter = createOutputFormatter(
+    globalFlags.json,
+    globalFlags.pretty,
+    true
+  );
+
+  if (formatter.mode() === "json") {
+    formatter.json({ entries: entries ?? [] });
+    return;
+  }
+
+  if (!entries) {
+    formatter.pretty([formatter.muted("No posts recorded yet.")]);
+    return;
+  }
+  if (entries.length === 0) {
+    formatter.pretty([formatter.muted("No ledger entries found.")]);
+    return;
+  }
+
+  formatter.table(
+    ["ID", "DATE", "TYPE", "PLATFORMS", "REQUEST/JOB", "TITLE"],
+    entries.map((entry) => [
+      String(entry.id),
+      entry.created_at.substring(0, 16).replace("T", " "),
+      entry.type,
+      entry.platforms.join(","),
+      entry.request_id ?? entry.job_id ?? "-",
+      truncate(entry.title.replace(/\s+/g, " "), 50),
+    ])
+  );
+}
+
+function toCsvRow(entry: LedgerEntry): Array<string | number | undefined> {
+  const urls = Object.entries(entry.result.results ?? {})
+    .filter(([, r]) => r.url)
+    .map(([platform, r]) => `${platform}=${r.url}`)
+    .join(";");
+  const metadata = Object.entries(entry.metadata ?? {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join(";");
+
+  return [
+    entry.id,
+    entry.created_at,
+    entry.type,
+    entry.profile,
+    entry.platforms.join(","),
+    entry.title,
+    entry.request_id,
+    entry.job_id,
+    entry.success ? "true" : "false",
+    urls,
+    metadata,
+  ];
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
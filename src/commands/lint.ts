@@ -0,0 +1,205 @@
+// posterboy - Lint command (offline validation of post drafts)
+
+import { parseArgs } from "node:util";
+import { loadConfigContext } from "../lib/config";
+import { createOutputFormatter } from "../lib/output";
+import { UserError } from "../lib/errors";
+import { lintPostSpec } from "../lib/lint";
+import { readManifest } from "../lib/manifest";
+import { POST_FIELDS, POST_TYPES, specFromFlags } from "../lib/post-fields";
+import type { OutputFormatter } from "../lib/output";
+import type { Config, GlobalFlags, LintReport, PostType } from "../lib/types";
+
+type FlagOptions = Record<string, { type: "string" | "boolean"; multiple?: boolean }>;
+
+// Accepted for compatibility with 'post' commands; they do not affect linting
+const POST_ONLY_FLAGS: FlagOptions = {
+  "dry-run": { type: "boolean" },
+  meta: { type: "string", multiple: true },
+  "idempotency-key": { type: "string" },
+  force: { type: "boolean" },
+  wait: { type: "boolean" },
+  "wait-timeout": { type: "string" },
+  "fail-on": { type: "string" },
+};
+
+// Flags that may be repeated, one value each
+const REPEATED_FIELDS = new Set(["x_poll_options"]);
+
+/**
+ * Lint a post given as 'post' command flags, or one or more manifest files.
+ * Every issue is reported; the command fails if any of them is an error.
+ */
+export async function lint(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const [first, ...rest] = args;
+  if (!first || first.startsWith("-")) {
+    throw new UserError(
+      "Nothing to lint. Provide a post type with its flags, or manifest files:\n" +
+        "  posterboy lint text --body \"Hello\" --platforms x\n" +
+        "  posterboy lint campaign/launch.yaml campaign/teaser.yaml"
+    );
+  }
+
+  const { config } = loadConfigContext(globalFlags);
+  const reports: LintReport[] = [];
+
+  if (POST_TYPES.includes(first as PostType)) {
+    reports.push(await lintFlags(first as PostType, rest, config, globalFlags));
+  } else {
+    const { positionals } = parseArgs({
+      args,
+      options: {},
+      strict: false,
+      allowPositionals: true,
+    });
+    for (const path of positionals) {
+      reports.push(await lintManifest(path, config, globalFlags));
+    }
+  }
+
+  const formatter = createOutputFormatter(
+    globalFlags.json,
+    globalFlags.pretty,
+    true
+  );
+  const valid = reports.every((report) => report.valid);
+
+  if (formatter.mode() === "json") {
+    formatter.json({ valid, reports });
+  } else {
+    printReports(reports, formatter);
+  }
+
+  if (!valid) {
+    const errors = reports.flatMap((r) => r.issues).filter((i) => i.level === "error");
+    const failed = reports.filter((r) => !r.valid).length;
+    throw new UserError(
+      `Lint found ${errors.length} error${errors.length === 1 ? "" : "s"}` +
+        (reports.length > 1 ? ` in ${failed} of ${reports.length} posts` : "")
+    );
+  }
+}
+
+async function lintManifest(
+  path: string,
+  config: Config | null,
+  globalFlags: GlobalFlags
+): Promise<LintReport> {
+  let manifest;
+  try {
+    manifest = readManifest(path);
+  } catch (error) {
+    if (!(error instanceof UserError)) throw error;
+    return { source: path, valid: false, issues: [{ level: "error", message: error.message }] };
+  }
+
+  return lintPostSpec(path, manifest.spec, config, {
+    baseDir: manifest.baseDir,
+    profile: globalFlags.profile,
+  });
+}
+
+/**
+ * Lint a post given as the flags of 'post <type>'
+ */
+async function lintFlags(
+  type: PostType,
+  args: string[],
+  config: Config | null,
+  globalFlags: GlobalFlags
+): Promise<LintReport> {
+  const options: FlagOptions = { ...POST_ONLY_FLAGS };
+  for (const [field, kind] of Object.entries(POST_FIELDS[type])) {
+    // Text comes from --body, --file or --stdin below
+    if (type === "text" && field === "text") continue;
+    options[field.replaceAll("_", "-")] =
+      kind === "boolean"
+        ? { type: "boolean" }
+        : { type: "string", multiple: REPEATED_FIELDS.has(field) };
+  }
+  if (type === "text") {
+    Object.assign(options, {
+      body: { type: "string" },
+      file: { type: "string" },
+      stdin: { type: "boolean" },
+      thread: { type: "boolean" },
+      "number-parts": { type: "boolean" },
+    });
+  }
+
+  const { values } = parseArgs({ args, options, strict: false });
+
+  const spec = specFromFlags(type, values);
+
+  if (type === "text") {
+    try {
+      spec.text = await readText(values);
+    } catch (error) {
+      if (!(error instanceof UserError)) throw error;
+      return { source: type, valid: false, issues: [{ level: "error", message: error.message }] };
+    }
+  }
+
+  return lintPostSpec(type, spec, config, {
+    profile: globalFlags.profile,
+    thread: values.thread ? { numbered: values["number-parts"] as boolean } : undefined,
+  });
+}
+
+/**
+ * Text content from exactly one of --body, --file or --stdin
+ */
+async function readText(
+  values: Record<string, string | boolean | (string | boolean)[] | undefined>
+): Promise<string> {
+  const inputs = [!!values.body, !!values.file, !!values.stdin].filter(Boolean).length;
+  if (inputs !== 1) {
+    throw new UserError(
+      "Text content required. Provide exactly one of:\n" +
+        "  --body <text>    Text content inline\n" +
+        "  --file <path>    Read text from file\n" +
+        "  --stdin          Read text from stdin"
+    );
+  }
+
+  if (values.body) return values.body as string;
+
+  const source = values.file ? Bun.file(values.file as string) : Bun.stdin;
+  try {
+    return await source.text();
+  } catch (error) {
+    throw new UserError(
+      `Failed to read ${values.file ? `file: ${values.file}` : "from stdin"}\n` +
+        `Error: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+function printReports(reports: LintReport[], formatter: OutputFormatter): void {
+  const lines: string[] = [];
+
+  for (const report of reports) {
+    if (report.issues.length === 0) {
+      lines.push(`${formatter.success("✓")} ${report.source}`);
+      continue;
+    }
+
+    const mark = report.valid ? formatter.warning("!") : formatter.color("✗", "RED");
+    lines.push(`${mark} ${formatter.label(report.source)}`);
+    for (const issue of report.issues) {
+      const level =
+        issue.level === "error" ? formatter.color("error  ", "RED") : formatter.warning("warning");
+      const [first, ...more] = issue.message.split("\n");
+      const prefix = issue.platform ? `${issue.platform}: ` : "";
+      lines.push(`    ${level} ${prefix}${first}`);
+      for (const line of more) {
+        lines.push(`            ${formatter.muted(line)}`);
+      }
+    }
+  }
+
+  formatter.pretty(lines);
+}
@@ -1,7 +1,7 @@
 // posterboy - Platforms command
 
 import { parseArgs } from "node:util";
-import { getApiKey, readConfig, getDefaultProfile } from "../lib/config";
+import { getApiKey, loadConfigContext, getDefaultProfile, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../lib/config";
 import { ApiClient } from "../lib/api";
 import { createOutputFormatter } from "../lib/output";
 import { UserError } from "../lib/errors";
@@ -22,7 +22,7 @@ export async function platforms(
   });
 
   // Load config
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
 
   // Resolve profile (command flag > global flag > config default)
   const profile =
@@ -41,7 +41,12 @@ export async function platforms(
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
 
   // Call API to get user profile
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
   const result = await client.getUserProfile(profile);
 
   // Output results
@@ -105,7 +110,7 @@ export async function platformsPages(
   });
 
   // Load config
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
 
   // Resolve profile (command flag > global flag > config default)
   const profile =
@@ -124,7 +129,12 @@ export async function platformsPages(
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
 
   // Create API client
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
 
   // Output formatter
   const formatter = createOutputFormatter(
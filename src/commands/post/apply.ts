@@ -0,0 +1,143 @@
+// posterboy - Post apply command (campaign manifests)
+
+import { parseArgs } from "node:util";
+import { loadConfigContext, getApiKey, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
+import { ApiClient } from "../../lib/api";
+import { createOutputFormatter } from "../../lib/output";
+import { UserError } from "../../lib/errors";
+import { readManifest } from "../../lib/manifest";
+import { buildPostRequest, submitPostRequest } from "../../lib/post-request";
+import { resolveLedgerPath } from "../../lib/ledger";
+import { resolveWaitTimeout } from "../../lib/status";
+import {
+  displayPostResult,
+  enforceFailOn,
+  parseFailOn,
+  summarizePostResult,
+} from "../../lib/post-result";
+import { waitForPost } from "../status";
+import type { GlobalFlags } from "../../lib/types";
+
+/**
+ * Post from a declarative YAML/JSON manifest
+ *
+ * The manifest holds the post type, content, platforms and any
+ * per-platform options, using the same field names as the post payload:
+ *
+ *   type: video
+ *   title: Launch day
+ *   file: ./launch.mp4
+ *   platforms: [youtube, tiktok]
+ *   youtube:
+ *     tags: [launch, product]
+ *     privacy: public
+ *   meta:
+ *     campaign: fall-launch
+ *
+ * `meta` is recorded in the local ledger only and never sent to the API.
+ */
+export async function postApply(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  // Parse command-specific flags
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      "dry-run": { type: "boolean", default: false },
+      "idempotency-key": { type: "string" },
+      force: { type: "boolean", default: false },
+      wait: { type: "boolean", default: false },
+      "wait-timeout": { type: "string" },
+      "fail-on": { type: "string" },
+    },
+    strict: false,
+    allowPositionals: true,
+  });
+
+  const [manifestPath] = positionals;
+  if (!manifestPath) {
+    throw new UserError(
+      "Manifest file required.\n" +
+        "Usage: posterboy post apply <manifest.yaml|manifest.json> [--dry-run] [--wait]"
+    );
+  }
+
+  const manifest = readManifest(manifestPath);
+  const { config, path: configPath, context } = loadConfigContext(globalFlags);
+
+  // Build and validate the request exactly like the post/* commands
+  const request = await buildPostRequest(manifest.spec, config, {
+    baseDir: manifest.baseDir,
+    profile: globalFlags.profile,
+  });
+
+  // Validate --wait and --fail-on before anything is posted
+  const waitTimeout = resolveWaitTimeout(values, request.params);
+  const failOn = parseFailOn(values["fail-on"]);
+
+  const formatter = createOutputFormatter(
+    globalFlags.json,
+    globalFlags.pretty,
+    true
+  );
+
+  // Dry run mode - print payload and exit
+  if (values["dry-run"]) {
+    if (formatter.mode() === "json") {
+      formatter.json({
+        dry_run: true,
+        type: request.type,
+        payload: request.params,
+      });
+    } else {
+      formatter.pretty([
+        formatter.header(`Dry Run - ${request.type} post from ${manifestPath}:`),
+        "",
+        JSON.stringify(request.params, null, 2),
+      ]);
+    }
+    return;
+  }
+
+  // Get API key and create client
+  const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
+
+  // Call API
+  const result = await submitPostRequest(client, request, {
+    metadata: manifest.metadata,
+    idempotencyKey: values["idempotency-key"] as string | undefined,
+    force: values.force as boolean,
+    ledgerPath: resolveLedgerPath(configPath),
+    context,
+  });
+
+  // Wait for the post to go live and report the final status
+  if (waitTimeout !== undefined) {
+    await waitForPost(client, result, waitTimeout, failOn, globalFlags);
+    return;
+  }
+
+  const summary = summarizePostResult(result);
+  if (formatter.mode() === "json") {
+    formatter.json({ ...result, summary });
+  } else {
+    displayPostResult(formatter, result, {
+      scheduled: `Manifest ${request.type} post scheduled successfully!`,
+      queued: `Manifest ${request.type} post queued successfully!`,
+      posted: `Posted ${request.type}`,
+      statusHint: true,
+    });
+  }
+
+  // Exit non-zero when platforms failed, per --fail-on
+  if (summary) {
+    enforceFailOn(summary, failOn);
+  }
+}
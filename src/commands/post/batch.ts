@@ -0,0 +1,325 @@
+// posterboy - Post batch command (bulk posting from CSV)
+
+import { parseArgs } from "node:util";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { loadConfigContext, getApiKey, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
+import { ApiClient } from "../../lib/api";
+import { createOutputFormatter } from "../../lib/output";
+import { InterruptedError, PublishError, RateLimitError, UserError } from "../../lib/errors";
+import { formatCsv, parseCsvRecords } from "../../lib/csv";
+import { buildPostRequest, submitPostRequest } from "../../lib/post-request";
+import { resolveLedgerPath } from "../../lib/ledger";
+import { pollStatus, postResultToStatus, resolveWaitTimeout } from "../../lib/status";
+import { parseFailOn, summarizeStatus } from "../../lib/post-result";
+import type { BatchRowResult, BatchSummary, GlobalFlags, StatusResult } from "../../lib/types";
+
+const REPORT_COLUMNS = [
+  "row",
+  "type",
+  "status",
+  "request_id",
+  "job_id",
+  "scheduled_date",
+  "failed_platforms",
+  "poll_error",
+  "error",
+] as const;
+
+/**
+ * Submit one post per CSV row
+ *
+ * Columns use the same names as manifest fields (type, text/body, title,
+ * file, files, url, urls, platforms, schedule, youtube_tags, ...). Rows are
+ * validated and submitted independently: a failing row is reported and the
+ * batch moves on. Submission stops early when the API reports the quota is
+ * exhausted (or down to --reserve remaining posts). Rerunning a batch skips
+ * rows that were already submitted unless --force is given.
+ *
+ * --fail-on applies across rows: "any" exits non-zero when any row or
+ * platform failed, "all" only when nothing was posted.
+ */
+export async function postBatch(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  // Parse command-specific flags
+  const { values } = parseArgs({
+    args,
+    options: {
+      csv: { type: "string" },
+      report: { type: "string" },
+      reserve: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+      wait: { type: "boolean", default: false },
+      "wait-timeout": { type: "string" },
+      "fail-on": { type: "string" },
+    },
+    strict: false,
+  });
+
+  if (!values.csv) {
+    throw new UserError(
+      "CSV file required.\n" +
+        "Usage: posterboy post batch --csv <posts.csv> [--report <results.csv|results.json>]"
+    );
+  }
+
+  const csvPath = resolve(values.csv as string);
+  if (!existsSync(csvPath)) {
+    throw new UserError(`File not found: ${values.csv}`);
+  }
+
+  const reserve = values.reserve ? parseInt(values.reserve as string, 10) : 0;
+  if (isNaN(reserve) || reserve < 0) {
+    throw new UserError("Reserve must be a non-negative integer");
+  }
+
+  const reportPath = values.report as string | undefined;
+  if (reportPath && !/\.(csv|json)$/i.test(reportPath)) {
+    throw new UserError("Report file must end in .csv or .json");
+  }
+
+  // Scheduled and queued rows are never waited on, so validate flags only
+  const waitTimeout = resolveWaitTimeout(values, {});
+  const failOn = parseFailOn(values["fail-on"]);
+
+  const records = parseCsvRecords(readFileSync(csvPath, "utf-8"));
+  if (records.length === 0) {
+    throw new UserError(`No rows found in ${values.csv}`);
+  }
+
+  const { config, path: configPath, context } = loadConfigContext(globalFlags);
+  const dryRun = values["dry-run"] as boolean;
+
+  // Only require an API key when we are actually going to post
+  let client: ApiClient | undefined;
+  if (!dryRun) {
+    const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
+    client = new ApiClient(apiKey, {
+      verbose: globalFlags.verbose,
+      retry: getRetryPolicy(config),
+      timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+      network: getNetworkPolicy(config),
+    });
+  }
+
+  const results: BatchRowResult[] = [];
+  // Submitted rows that did not publish on any platform
+  const unpublishedRows = new Set<number>();
+  let stopReason: string | undefined;
+  // Ctrl+C while waiting on a row: the report is still written
+  let interrupted: InterruptedError | undefined;
+
+  for (const { line: row, record } of records) {
+
+    if (stopReason) {
+      results.push({ row, status: "skipped", error: stopReason });
+      continue;
+    }
+
+    let rowResult: BatchRowResult = { row, status: "failed" };
+    try {
+      const { spec, metadata } = normalizeRecord(record);
+      const request = await buildPostRequest(spec, config, {
+        baseDir: dirname(csvPath),
+        profile: globalFlags.profile,
+      });
+      rowResult.type = request.type;
+
+      if (!client) {
+        rowResult.status = "valid";
+      } else {
+        const result = await submitPostRequest(client, request, {
+          metadata,
+          force: values.force as boolean,
+          ledgerPath: resolveLedgerPath(configPath),
+          context,
+        });
+        rowResult = {
+          ...rowResult,
+          status: "submitted",
+          request_id: result.request_id,
+          job_id: result.job_id,
+          scheduled_date: result.scheduled_date,
+        };
+
+        // With --wait, async uploads are polled until they publish. The row
+        // is posted either way, so a failure to follow it is kept apart.
+        let status: StatusResult | undefined;
+        if (waitTimeout !== undefined && result.request_id && !result.results && !result.scheduled) {
+          try {
+            status = await pollStatus(client, result.request_id, "request_id", { timeoutMs: waitTimeout });
+          } catch (error) {
+            rowResult.poll_error = error instanceof Error ? error.message : "Unknown error";
+            if (error instanceof InterruptedError) {
+              interrupted = error;
+              stopReason = "Interrupted";
+            }
+          }
+        } else {
+          status = postResultToStatus(result);
+        }
+
+        if (status) {
+          const postSummary = summarizeStatus(status);
+          const failedPlatforms = postSummary.failed.map((f) => f.platform);
+          if (postSummary.status === "failed") {
+            unpublishedRows.add(row);
+          }
+          if (postSummary.status !== "succeeded") {
+            rowResult.failed_platforms = failedPlatforms.length > 0 ? failedPlatforms : ["all"];
+          }
+        }
+
+        if (result.usage && result.usage.remaining <= reserve) {
+          stopReason =
+            `Quota reserve reached (${result.usage.remaining} of ${result.usage.limit} remaining)`;
+        }
+      }
+    } catch (error) {
+      rowResult.error = error instanceof Error ? error.message : "Unknown error";
+      if (error instanceof RateLimitError) {
+        stopReason =
+          `Rate limit reached (${error.usage.count} / ${error.usage.limit} used)`;
+      }
+    }
+
+    results.push(rowResult);
+  }
+
+  const summary: BatchSummary = {
+    total: results.length,
+    submitted: results.filter((r) => r.status === "submitted").length,
+    valid: results.filter((r) => r.status === "valid").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    skipped: results.filter((r) => r.status === "skipped").length,
+  };
+
+  // Display results
+  const formatter = createOutputFormatter(
+    globalFlags.json,
+    globalFlags.pretty,
+    true
+  );
+
+  if (formatter.mode() === "json") {
+    formatter.json({ dry_run: dryRun, summary, results });
+  } else {
+    formatter.pretty([
+      formatter.header(`${dryRun ? "Dry Run - " : ""}Batch results for ${values.csv}:`),
+      "",
+    ]);
+    formatter.table(
+      ["ROW", "TYPE", "STATUS", "ID", "DETAILS"],
+      results.map((r) => [
+        String(r.row),
+        r.type ?? "-",
+        r.status,
+        r.request_id ?? r.job_id ?? "-",
+        r.error ??
+          (r.poll_error ? `not confirmed: ${r.poll_error.split("\n")[0]}` : undefined) ??
+          (r.failed_platforms ? `failed on ${r.failed_platforms.join(", ")}` : r.scheduled_date ?? ""),
+      ])
+    );
+
+    const lines = [
+      "",
+      `${summary.submitted} submitted, ${summary.valid} valid, ` +
+        `${summary.failed} failed, ${summary.skipped} skipped`,
+    ];
+    if (stopReason) {
+      lines.push(formatter.warning(`Stopped early: ${stopReason}`));
+    }
+    formatter.pretty(lines);
+  }
+
+  // Written after display so a bad report path never hides the results
+  if (reportPath) {
+    writeReport(reportPath, results, summary);
+    if (formatter.mode() === "pretty") {
+      formatter.pretty([formatter.muted(`Report written to ${reportPath}`)]);
+    }
+  }
+
+  if (interrupted) {
+    throw interrupted;
+  }
+
+  // Exit code follows --fail-on across all rows
+  const problemRows = results.filter(
+    (r) => r.status === "failed" || r.status === "skipped" || r.failed_platforms || r.poll_error
+  );
+  if (failOn !== "none" && problemRows.length > 0) {
+    const anyPosted = results.some(
+      (r) => (r.status === "submitted" && !unpublishedRows.has(r.row)) || r.status === "valid"
+    );
+    if (failOn === "any" || !anyPosted) {
+      throw new PublishError(
+        `${problemRows.length} of ${results.length} rows did not fully post: ` +
+          `rows ${problemRows.map((r) => r.row).join(", ")}`,
+        [...new Set(problemRows.flatMap((r) => r.failed_platforms ?? []))],
+        anyPosted
+      );
+    }
+  }
+}
+
+/**
+ * Normalize CSV headers to field names (youtube-tags / youtube.tags -> youtube_tags).
+ * Columns named meta.<key> become ledger metadata instead of post fields.
+ */
+function normalizeRecord(record: Record<string, string>): {
+  spec: Record<string, unknown>;
+  metadata: Record<string, string>;
+} {
+  const spec: Record<string, unknown> = {};
+  const metadata: Record<string, string> = {};
+  for (const [column, value] of Object.entries(record)) {
+    const trimmed = value.trim();
+    if (trimmed === "") continue;
+
+    if (column.toLowerCase().startsWith("meta.")) {
+      metadata[column.slice("meta.".length)] = trimmed;
+    } else {
+      spec[column.toLowerCase().replace(/[-.\s]/g, "_")] = trimmed;
+    }
+  }
+  return { spec, metadata };
+}
+
+function writeReport(
+  path: string,
+  results: BatchRowResult[],
+  summary: BatchSummary
+): void {
+  try {
+    if (path.toLowerCase().endsWith(".json")) {
+      writeFileSync(path, JSON.stringify({ summary, results }, null, 2) + "\n");
+    } else {
+      writeFileSync(
+        path,
+        formatCsv([
+          [...REPORT_COLUMNS],
+          ...results.map((r) => [
+            r.row,
+            r.type,
+            r.status,
+            r.request_id,
+            r.job_id,
+            r.scheduled_date,
+            r.failed_platforms?.join(","),
+            r.poll_error,
+            r.error,
+          ]),
+        ])
+      );
+    }
+  } catch (error) {
+    throw new UserError(
+      `Failed to write report: ${path}\n` +
+        `Error: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
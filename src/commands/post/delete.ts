@@ -1,9 +1,11 @@
 // posterboy - Post delete command
 
 import { parseArgs } from "node:util";
+import { getNetworkPolicy, loadConfigContext } from "../../lib/config";
 import { UserError } from "../../lib/errors";
+import { fetchOptions } from "../../lib/network";
 import { createOutputFormatter } from "../../lib/output";
-import type { GlobalFlags } from "../../lib/types";
+import type { GlobalFlags, NetworkPolicy } from "../../lib/types";
 
 /**
  * Delete a post from a platform
@@ -70,7 +72,9 @@ export async function postDelete(
 
   // Handle deletion based on platform
   if (platform === "bluesky") {
-    await deleteBlueskyPost(postId, postUrl, formatter, globalFlags);
+    // Bluesky is called directly, through the same proxy as the API
+    const network = getNetworkPolicy(loadConfigContext(globalFlags).config);
+    await deleteBlueskyPost(postId, postUrl, formatter, globalFlags, network);
   } else {
     // For all other platforms, show error
     if (formatter.mode() === "json") {
@@ -149,7 +153,8 @@ async function deleteBlueskyPost(
   rkey: string,
   postUrl: string,
   formatter: ReturnType<typeof createOutputFormatter>,
-  globalFlags: GlobalFlags
+  globalFlags: GlobalFlags,
+  network: NetworkPolicy
 ): Promise<void> {
   // Get Bluesky credentials from environment
   const handle = process.env.BLUESKY_HANDLE;
@@ -168,7 +173,9 @@ async function deleteBlueskyPost(
       console.error("Authenticating with Bluesky...");
     }
 
-    const loginResponse = await fetch("https://bsky.social/xrpc/com.atproto.server.createSession", {
+    const loginUrl = "https://bsky.social/xrpc/com.atproto.server.createSession";
+    const loginResponse = await fetch(loginUrl, {
+      ...fetchOptions(network, loginUrl),
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -199,7 +206,9 @@ async function deleteBlueskyPost(
       console.error(`Deleting post record: at://${session.did}/app.bsky.feed.post/${rkey}`);
     }
 
-    const deleteResponse = await fetch("https://bsky.social/xrpc/com.atproto.repo.deleteRecord", {
+    const deleteUrl = "https://bsky.social/xrpc/com.atproto.repo.deleteRecord";
+    const deleteResponse = await fetch(deleteUrl, {
+      ...fetchOptions(network, deleteUrl),
       method: "POST",
       headers: {
         "Content-Type": "application/json",
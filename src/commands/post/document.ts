@@ -1,41 +1,25 @@
 // posterboy - Post document command
 
 import { parseArgs } from "node:util";
-import { readConfig, getApiKey, getDefaultProfile } from "../../lib/config";
+import { loadConfigContext, getApiKey, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
 import { ApiClient } from "../../lib/api";
-import { createOutputFormatter } from "../../lib/output";
-import { UserError } from "../../lib/errors";
+import { checkPostSpec, collectingChecker, submitPostRequest } from "../../lib/post-request";
+import { resolveLedgerPath } from "../../lib/ledger";
+import { specFromFlags } from "../../lib/post-fields";
+import { resolveWaitTimeout } from "../../lib/status";
 import {
-  validateMutuallyExclusive,
-  validateISODate,
-  validateTimezone,
-} from "../../lib/validation";
+  displayPostResult,
+  enforceFailOn,
+  parseFailOn,
+  summarizePostResult,
+} from "../../lib/post-result";
+import { waitForPost } from "../status";
+import { createOutputFormatter } from "../../lib/output";
+import { createUploadProgress } from "../../lib/progress";
+import { ValidationCollector } from "../../lib/errors";
+import { parseMetadata } from "../../lib/validation";
 import type { GlobalFlags, DocumentPostParams } from "../../lib/types";
 
-/**
- * Validate document file exists and meets format/size requirements
- */
-async function validateDocumentFile(filePath: string): Promise<void> {
-  const validExts = [".pdf", ".ppt", ".pptx", ".doc", ".docx"];
-  const maxSize = 100 * 1024 * 1024; // 100MB
-
-  const file = Bun.file(filePath);
-  if (!(await file.exists())) {
-    throw new UserError(`File not found: ${filePath}`);
-  }
-  if (file.size > maxSize) {
-    throw new UserError(
-      `File exceeds 100MB limit: ${filePath} (${(file.size / (1024 * 1024)).toFixed(1)}MB)`
-    );
-  }
-  const ext = filePath.toLowerCase().match(/\.([^./\\]+)$/)?.[1];
-  if (!ext || !validExts.includes(`.${ext}`)) {
-    throw new UserError(
-      `Unsupported format: ${filePath}. Supported: PDF, PPT, PPTX, DOC, DOCX`
-    );
-  }
-}
-
 export async function postDocument(
   args: string[],
   globalFlags: GlobalFlags
@@ -54,99 +38,41 @@ export async function postDocument(
       "linkedin-visibility": { type: "string" },
       schedule: { type: "string" },
       timezone: { type: "string" },
-      queue: { type: "boolean", default: false },
-      async: { type: "boolean", default: false },
+      queue: { type: "boolean" },
+      async: { type: "boolean" },
       "dry-run": { type: "boolean", default: false },
+      meta: { type: "string", multiple: true },
+      "idempotency-key": { type: "string" },
+      force: { type: "boolean", default: false },
+      wait: { type: "boolean", default: false },
+      "wait-timeout": { type: "string" },
+      "fail-on": { type: "string" },
     },
     strict: false,
   });
 
-  // Validate mutually exclusive file/url
-  validateMutuallyExclusive(
-    {
-      "--file": !!values.file,
-      "--url": !!values.url,
-    },
-    "Must provide either --file or --url (not both)"
-  );
-
-  // Validate title is required
-  if (!values.title) {
-    throw new UserError("--title is required for document posts");
-  }
-
-  // Validate file if provided
-  if (values.file) {
-    await validateDocumentFile(values.file as string);
-  }
-
-  // Resolve profile
-  const config = readConfig();
-  const profile =
-    (values.profile as string | undefined) ||
-    globalFlags.profile ||
-    getDefaultProfile(undefined, config);
-
-  if (!profile) {
-    throw new UserError(
-      "Profile required. Provide one of:\n" +
-        "  --profile <name>                           (command flag)\n" +
-        "  --profile <name> (global flag)             (before 'post')\n" +
-        "  POSTERBOY_PROFILE=<name>                   (environment variable)\n" +
-        '  "default_profile": "<name>"                (in ~/.posterboy/config.json)'
-    );
-  }
-
-  // Documents are LinkedIn-only - validate if user passed --platforms
-  if (values.platforms) {
-    const platformList = (values.platforms as string)
-      .split(",")
-      .map((p) => p.trim())
-      .filter((p) => p.length > 0);
-    const nonLinkedin = platformList.filter((p) => p !== "linkedin");
-    if (nonLinkedin.length > 0) {
-      throw new UserError(
-        `Document posts are only supported on LinkedIn. Unsupported: ${nonLinkedin.join(", ")}`
-      );
-    }
-  }
-
-  // Validate scheduling flags
-  if (values.schedule && values.queue) {
-    throw new UserError(
-      "--schedule and --queue are mutually exclusive.\n" +
-        "Use --schedule for a specific date/time, or --queue to use the next available slot."
-    );
-  }
+  // Collect every validation problem and report them together
+  const errors = new ValidationCollector();
 
-  if (values.schedule) {
-    validateISODate(values.schedule as string);
-  }
+  // Parse metadata recorded with the post in the local ledger
+  const metadata = errors.check(() => parseMetadata(values.meta as string[] | undefined)) ?? {};
 
-  if (values.timezone) {
-    validateTimezone(values.timezone as string);
-  }
+  // Validate the post the same way manifests and batch rows are validated
+  const { config, path: configPath, context } = loadConfigContext(globalFlags);
+  const request = await checkPostSpec(
+    specFromFlags("document", values),
+    config,
+    collectingChecker(errors),
+    { profile: globalFlags.profile }
+  );
+  const params = (request?.params ?? {}) as Partial<DocumentPostParams>;
 
-  // Build full DocumentPostParams
-  const postParams: DocumentPostParams = {
-    profile,
-    file: values.file as string | undefined,
-    url: values.url as string | undefined,
-    title: values.title as string,
-  };
+  // Validate --wait and --fail-on before anything is posted
+  const waitTimeout = errors.check(() => resolveWaitTimeout(values, params));
+  const failOn = errors.check(() => parseFailOn(values["fail-on"])) ?? "any";
 
-  // Add optional fields
-  if (values.description) postParams.description = values.description as string;
-  if (values["linkedin-page"] || config?.platform_defaults?.linkedin?.page_id) {
-    postParams.linkedin_page = (values["linkedin-page"] as string) || config?.platform_defaults?.linkedin?.page_id;
-  }
-  if (values["linkedin-visibility"] || config?.platform_defaults?.linkedin?.visibility) {
-    postParams.linkedin_visibility = (values["linkedin-visibility"] as string) || config?.platform_defaults?.linkedin?.visibility;
-  }
-  if (values.schedule) postParams.schedule = values.schedule as string;
-  if (values.timezone) postParams.timezone = values.timezone as string;
-  if (values.queue) postParams.queue = values.queue as boolean;
-  if (values.async) postParams.async = values.async as boolean;
+  errors.throwIfErrors();
+  const postParams = request!.params as DocumentPostParams;
 
   // Dry run mode - print payload and exit
   if (values["dry-run"]) {
@@ -173,61 +99,55 @@ export async function postDocument(
 
   // Get API key and create client
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
-
-  // Call API
-  const result = await client.postDocument(postParams);
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
 
-  // Display results
+  // Show progress while local files are uploaded
   const formatter = createOutputFormatter(
     globalFlags.json,
     globalFlags.pretty,
     true
   );
+  const progress = createUploadProgress(formatter);
 
-  if (formatter.mode() === "json") {
-    formatter.json(result);
-  } else {
-    // Pretty output
-    if (result.scheduled) {
-      formatter.pretty([
-        formatter.success("Document post scheduled successfully on LinkedIn!"),
-        `  ${formatter.label("Job ID:")}        ${result.job_id}`,
-        `  ${formatter.label("Scheduled for:")} ${result.scheduled_date}`,
-      ]);
-    } else if (result.results) {
-      // Immediate post
-      const lines = [
-        formatter.success("Document posted to LinkedIn successfully!"),
-        "",
-      ];
+  // Call API
+  const result = await submitPostRequest(
+    client,
+    { type: "document", params: postParams },
+    {
+      metadata,
+      idempotencyKey: values["idempotency-key"] as string | undefined,
+      force: values.force as boolean,
+      ledgerPath: resolveLedgerPath(configPath),
+      context,
+      onProgress: progress?.update,
+    }
+  ).finally(() => progress?.end());
 
-      // Show results (should only be LinkedIn)
-      for (const [platform, platformResult] of Object.entries(result.results)) {
-        if (platformResult.success && platformResult.url) {
-          lines.push(`  ${platform.padEnd(12)} ${platformResult.url}`);
-        } else if (!platformResult.success && platformResult.error) {
-          lines.push(
-            `  ${platform.padEnd(12)} ${formatter.color("FAILED", "RED")} - ${platformResult.error}`
-          );
-        }
-      }
+  // Wait for the post to go live and report the final status
+  if (waitTimeout !== undefined) {
+    await waitForPost(client, result, waitTimeout, failOn, globalFlags);
+    return;
+  }
 
-      // Show usage if available
-      if (result.usage) {
-        lines.push("");
-        lines.push(
-          `Usage: ${result.usage.count} / ${result.usage.limit} (${result.usage.remaining} remaining)`
-        );
-      }
+  // Display results
+  const summary = summarizePostResult(result);
+  if (formatter.mode() === "json") {
+    formatter.json({ ...result, summary });
+  } else {
+    displayPostResult(formatter, result, {
+      scheduled: "Document post scheduled successfully on LinkedIn!",
+      queued: "Document post queued successfully!",
+      posted: "Posted document",
+    });
+  }
 
-      formatter.pretty(lines);
-    } else {
-      // Async mode
-      formatter.pretty([
-        formatter.success("Document post queued successfully!"),
-        `  ${formatter.label("Request ID:")} ${result.request_id || "N/A"}`,
-      ]);
-    }
+  // Exit non-zero when platforms failed, per --fail-on
+  if (summary) {
+    enforceFailOn(summary, failOn);
   }
 }
@@ -1,47 +1,39 @@
 // posterboy - Post photo command
 
 import { parseArgs } from "node:util";
-import { readConfig, getApiKey, getDefaultProfile } from "../../lib/config";
+import { loadConfigContext, getApiKey, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
 import { ApiClient } from "../../lib/api";
-import { createOutputFormatter } from "../../lib/output";
-import { UserError } from "../../lib/errors";
+import { checkPostSpec, collectingChecker, submitPostRequest } from "../../lib/post-request";
+import { resolveLedgerPath } from "../../lib/ledger";
+import { specFromFlags } from "../../lib/post-fields";
+import { resolveWaitTimeout } from "../../lib/status";
 import {
-  validatePlatforms,
-  validateMutuallyExclusive,
-  validateISODate,
-  validateTimezone,
-} from "../../lib/validation";
+  displayPostResult,
+  enforceFailOn,
+  parseFailOn,
+  summarizePostResult,
+} from "../../lib/post-result";
+import { validateImageMetadata } from "../../lib/media-rules";
 import {
-  validateContentTypeForPlatforms,
-  validatePlatformRequirements,
-} from "../../lib/platforms";
-import type { GlobalFlags, Platform, PhotoPostParams } from "../../lib/types";
-
-/**
- * Validate photo files exist and meet format/size requirements
- */
-async function validatePhotoFiles(files: string[]): Promise<void> {
-  const validExts = [".jpg", ".jpeg", ".png", ".gif"];
-  const maxSize = 8 * 1024 * 1024; // 8MB
-
-  for (const filePath of files) {
-    const file = Bun.file(filePath);
-    if (!(await file.exists())) {
-      throw new UserError(`File not found: ${filePath}`);
-    }
-    if (file.size > maxSize) {
-      throw new UserError(
-        `File exceeds 8MB limit: ${filePath} (${(file.size / (1024 * 1024)).toFixed(1)}MB)`
-      );
-    }
-    const ext = filePath.toLowerCase().match(/\.([^./\\]+)$/)?.[1];
-    if (!ext || !validExts.includes(`.${ext}`)) {
-      throw new UserError(
-        `Unsupported format: ${filePath}. Supported: JPEG, PNG, GIF`
-      );
-    }
-  }
-}
+  displayPhotoVariants,
+  parseFitMode,
+  planAutoFit,
+  postPhotoVariants,
+  variantLines,
+  variantPhotos,
+} from "../../lib/image-fit";
+import { waitForPost } from "../status";
+import { createOutputFormatter } from "../../lib/output";
+import { createUploadProgress } from "../../lib/progress";
+import { ValidationCollector } from "../../lib/errors";
+import { parseMetadata } from "../../lib/validation";
+import type {
+  FitMode,
+  GlobalFlags,
+  PhotoFile,
+  PhotoPostParams,
+  PhotoVariant,
+} from "../../lib/types";
 
 export async function postPhoto(
   args: string[],
@@ -59,10 +51,17 @@ export async function postPhoto(
       profile: { type: "string" },
       schedule: { type: "string" },
       timezone: { type: "string" },
-      queue: { type: "boolean", default: false },
-      async: { type: "boolean", default: false },
+      queue: { type: "boolean" },
+      async: { type: "boolean" },
       "first-comment": { type: "string" },
       "dry-run": { type: "boolean", default: false },
+      meta: { type: "string", multiple: true },
+      "idempotency-key": { type: "string" },
+      force: { type: "boolean", default: false },
+      wait: { type: "boolean", default: false },
+      "wait-timeout": { type: "string" },
+      "fail-on": { type: "string" },
+      "auto-fit": { type: "string" },
       // Instagram-specific
       "instagram-title": { type: "string" },
       "instagram-media-type": { type: "string" },
@@ -100,167 +99,64 @@ export async function postPhoto(
     strict: false,
   });
 
-  // Validate mutually exclusive files/urls
-  validateMutuallyExclusive(
+  // Collect every validation problem and report them together
+  const errors = new ValidationCollector();
+
+  // Parse metadata recorded with the post in the local ledger
+  const metadata = errors.check(() => parseMetadata(values.meta as string[] | undefined)) ?? {};
+
+  // Validate the post the same way manifests and batch rows are validated
+  const { config, path: configPath, context } = loadConfigContext(globalFlags);
+  let photos: PhotoFile[] | undefined;
+  const request = await checkPostSpec(
+    specFromFlags("photo", values),
+    config,
     {
-      "--files": !!values.files,
-      "--urls": !!values.urls,
+      ...collectingChecker(errors),
+      // Checked below, per fitted copy with --auto-fit
+      images: (_platforms, checked) => {
+        photos = checked;
+      },
     },
-    "Must provide either --files or --urls (not both)"
+    { profile: globalFlags.profile }
   );
-
-  // Validate title is required
-  if (!values.title) {
-    throw new UserError("--title is required for photo posts");
-  }
-
-  // Parse and validate files or URLs
-  let files: string[] | undefined;
-  let urls: string[] | undefined;
-
-  if (values.files) {
-    files = (values.files as string)
-      .split(",")
-      .map((f) => f.trim())
-      .filter((f) => f.length > 0);
-    await validatePhotoFiles(files);
-  } else if (values.urls) {
-    urls = (values.urls as string)
-      .split(",")
-      .map((u) => u.trim())
-      .filter((u) => u.length > 0);
-  }
-
-  // Resolve profile
-  const config = readConfig();
-  const profile =
-    (values.profile as string | undefined) ||
-    globalFlags.profile ||
-    getDefaultProfile(undefined, config);
-
-  if (!profile) {
-    throw new UserError(
-      "Profile required. Provide one of:\n" +
-        "  --profile <name>                           (command flag)\n" +
-        "  --profile <name> (global flag)             (before 'post')\n" +
-        "  POSTERBOY_PROFILE=<name>                   (environment variable)\n" +
-        '  "default_profile": "<name>"                (in ~/.posterboy/config.json)'
-    );
-  }
-
-  // Resolve platforms
-  let platforms: Platform[];
-  if (values.platforms) {
-    const platformList = (values.platforms as string)
-      .split(",")
-      .map((p) => p.trim())
-      .filter((p) => p.length > 0);
-    platforms = validatePlatforms(platformList);
-  } else if (config?.default_platforms && config.default_platforms.length > 0) {
-    platforms = config.default_platforms;
-  } else {
-    throw new UserError(
-      "Platforms required. Provide one of:\n" +
-        "  --platforms <list>                         (comma-separated: instagram,tiktok,facebook)\n" +
-        "  POSTERBOY_PLATFORMS=<list>                 (environment variable)\n" +
-        '  "default_platforms": [...]                 (in ~/.posterboy/config.json)'
-    );
-  }
-
-  // Validate all platforms support photo
-  validateContentTypeForPlatforms("photo", platforms);
-
-  // Build params object for validation
-  const params: Record<string, unknown> = {
-    profile,
-    platforms,
-    facebook_page: values["facebook-page"] || config?.platform_defaults?.facebook?.page_id,
-    pinterest_board: values["pinterest-board"] || config?.platform_defaults?.pinterest?.board_id,
-    reddit_subreddit: values["reddit-subreddit"] || config?.platform_defaults?.reddit?.subreddit,
-  };
-
-  // Validate platform-specific requirements
-  validatePlatformRequirements(platforms, params);
-
-  // Validate scheduling flags
-  if (values.schedule && values.queue) {
-    throw new UserError(
-      "--schedule and --queue are mutually exclusive.\n" +
-        "Use --schedule for a specific date/time, or --queue to use the next available slot."
-    );
-  }
-
-  if (values.schedule) {
-    validateISODate(values.schedule as string);
-  }
-
-  if (values.timezone) {
-    validateTimezone(values.timezone as string);
+  const params = (request?.params ?? {}) as Partial<PhotoPostParams>;
+  const platforms = params.platforms ?? [];
+
+  // Validate --wait and --fail-on before anything is posted
+  const waitTimeout = errors.check(() => resolveWaitTimeout(values, params));
+  const failOn = errors.check(() => parseFailOn(values["fail-on"])) ?? "any";
+
+  // Plan per-platform copies with --auto-fit
+  let fitMode: FitMode | undefined;
+  let variants: PhotoVariant[] | undefined;
+  if (values["auto-fit"] !== undefined) {
+    fitMode = errors.check(() => parseFitMode(values["auto-fit"]));
+    if (params.urls) {
+      errors.add("--auto-fit needs local photos. Use --files instead of --urls.");
+    }
+    if (waitTimeout !== undefined) {
+      errors.add("--wait cannot be combined with --auto-fit. Use 'posterboy status' for each request instead.");
+    }
+    if (fitMode && params.files && photos) {
+      const mode = fitMode;
+      const local = photos;
+      variants = errors.check(() => planAutoFit(platforms, local, mode));
+    }
   }
 
-  // Build full PhotoPostParams
-  const postParams: PhotoPostParams = {
-    profile,
-    platforms,
-    files,
-    urls,
-    title: values.title as string,
-  };
-
-  // Add optional scheduling fields
-  if (values.description) postParams.description = values.description as string;
-  if (values.schedule) postParams.schedule = values.schedule as string;
-  if (values.timezone) postParams.timezone = values.timezone as string;
-  if (values.queue) postParams.queue = values.queue as boolean;
-  if (values.async) postParams.async = values.async as boolean;
-  if (values["first-comment"]) postParams.first_comment = values["first-comment"] as string;
-
-  // Instagram-specific
-  if (values["instagram-title"]) postParams.instagram_title = values["instagram-title"] as string;
-  if (values["instagram-media-type"]) postParams.instagram_media_type = values["instagram-media-type"] as string;
-  if (values["instagram-collaborators"]) postParams.instagram_collaborators = values["instagram-collaborators"] as string;
-  if (values["instagram-location"]) postParams.instagram_location = values["instagram-location"] as string;
-  if (values["instagram-user-tags"]) postParams.instagram_user_tags = values["instagram-user-tags"] as string;
-
-  // Facebook-specific
-  if (values["facebook-page"]) postParams.facebook_page = values["facebook-page"] as string;
-  if (values["facebook-media-type"]) postParams.facebook_media_type = values["facebook-media-type"] as string;
-
-  // TikTok-specific
-  if (values["tiktok-title"]) postParams.tiktok_title = values["tiktok-title"] as string;
-  if (values["tiktok-privacy"]) postParams.tiktok_privacy = values["tiktok-privacy"] as string;
-  if (values["tiktok-disable-comments"] !== undefined) postParams.tiktok_disable_comments = values["tiktok-disable-comments"] as boolean;
-  if (values["tiktok-auto-music"] !== undefined) postParams.tiktok_auto_music = values["tiktok-auto-music"] as boolean;
-  if (values["tiktok-cover-index"]) {
-    const coverIndex = parseInt(values["tiktok-cover-index"] as string, 10);
-    if (!isNaN(coverIndex)) {
-      postParams.tiktok_cover_index = coverIndex;
+  // Check photo shapes and counts against platform requirements
+  if (variants) {
+    for (const variant of variants) {
+      errors.check(() => validateImageMetadata(variant.platforms, variantPhotos(variant)));
     }
+  } else if (photos) {
+    const checked = photos;
+    errors.check(() => validateImageMetadata(platforms, checked));
   }
 
-  // X-specific
-  if (values["x-title"]) postParams.x_title = values["x-title"] as string;
-  if (values["x-thread-image-layout"]) postParams.x_thread_image_layout = values["x-thread-image-layout"] as string;
-
-  // LinkedIn-specific
-  if (values["linkedin-title"]) postParams.linkedin_title = values["linkedin-title"] as string;
-  if (values["linkedin-page"]) postParams.linkedin_page = values["linkedin-page"] as string;
-  if (values["linkedin-visibility"]) postParams.linkedin_visibility = values["linkedin-visibility"] as string;
-
-  // Threads-specific
-  if (values["threads-title"]) postParams.threads_title = values["threads-title"] as string;
-
-  // Pinterest-specific
-  if (values["pinterest-board"]) postParams.pinterest_board = values["pinterest-board"] as string;
-  if (values["pinterest-link"]) postParams.pinterest_link = values["pinterest-link"] as string;
-  if (values["pinterest-alt-text"]) postParams.pinterest_alt_text = values["pinterest-alt-text"] as string;
-
-  // Reddit-specific
-  if (values["reddit-subreddit"]) postParams.reddit_subreddit = values["reddit-subreddit"] as string;
-  if (values["reddit-flair"]) postParams.reddit_flair = values["reddit-flair"] as string;
-
-  // Bluesky-specific
-  if (values["bluesky-title"]) postParams.bluesky_title = values["bluesky-title"] as string;
+  errors.throwIfErrors();
+  const postParams = request!.params as PhotoPostParams;
 
   // Dry run mode - print payload and exit
   if (values["dry-run"]) {
@@ -274,12 +170,14 @@ export async function postPhoto(
       formatter.json({
         dry_run: true,
         payload: postParams,
+        ...(variants ? { variants } : {}),
       });
     } else {
       formatter.pretty([
         formatter.header("Dry Run - Request Payload:"),
         "",
         JSON.stringify(postParams, null, 2),
+        ...(variants && fitMode ? variantLines(formatter, variants, fitMode) : []),
       ]);
     }
     return;
@@ -287,64 +185,78 @@ export async function postPhoto(
 
   // Get API key and create client
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
-
-  // Call API
-  const result = await client.postPhotos(postParams);
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
 
-  // Display results
+  // Show progress while local files are uploaded
   const formatter = createOutputFormatter(
     globalFlags.json,
     globalFlags.pretty,
     true
   );
+  const progress = createUploadProgress(formatter);
+
+  // Post each set of fitted photos to its platforms
+  if (variants && fitMode && variants.some((v) => v.aspect_ratio)) {
+    const posted = await postPhotoVariants(client, postParams, variants, fitMode, {
+      metadata,
+      idempotencyKey: values["idempotency-key"] as string | undefined,
+      force: values.force as boolean,
+      ledgerPath: resolveLedgerPath(configPath),
+      context,
+      onProgress: progress?.update,
+    }).finally(() => progress?.end());
 
-  if (formatter.mode() === "json") {
-    formatter.json(result);
-  } else {
-    // Pretty output
-    if (result.scheduled) {
-      formatter.pretty([
-        formatter.success("Photo post scheduled successfully!"),
-        `  ${formatter.label("Job ID:")}        ${result.job_id}`,
-        `  ${formatter.label("Scheduled for:")} ${result.scheduled_date}`,
-      ]);
-    } else if (result.results) {
-      // Immediate post
-      const successCount = Object.values(result.results).filter(
-        (r) => r.success
-      ).length;
-      const lines = [
-        formatter.success(`Posted photos to ${successCount} platform${successCount === 1 ? "" : "s"}:`),
-        "",
-      ];
-
-      // Show results per platform
-      for (const [platform, platformResult] of Object.entries(result.results)) {
-        if (platformResult.success && platformResult.url) {
-          lines.push(`  ${platform.padEnd(12)} ${platformResult.url}`);
-        } else if (!platformResult.success && platformResult.error) {
-          lines.push(
-            `  ${platform.padEnd(12)} ${formatter.color("FAILED", "RED")} - ${platformResult.error}`
-          );
-        }
-      }
+    if (formatter.mode() === "json") {
+      formatter.json({ success: posted.summary?.status !== "failed", ...posted });
+    } else {
+      displayPhotoVariants(formatter, posted.variants, fitMode);
+    }
 
-      // Show usage if available
-      if (result.usage) {
-        lines.push("");
-        lines.push(
-          `Usage: ${result.usage.count} / ${result.usage.limit} (${result.usage.remaining} remaining)`
-        );
-      }
+    if (posted.summary) {
+      enforceFailOn(posted.summary, failOn);
+    }
+    return;
+  }
 
-      formatter.pretty(lines);
-    } else {
-      // Async mode
-      formatter.pretty([
-        formatter.success("Photo post queued successfully!"),
-        `  ${formatter.label("Request ID:")} ${result.request_id || "N/A"}`,
-      ]);
+  // Call API
+  const result = await submitPostRequest(
+    client,
+    { type: "photo", params: postParams },
+    {
+      metadata,
+      idempotencyKey: values["idempotency-key"] as string | undefined,
+      force: values.force as boolean,
+      ledgerPath: resolveLedgerPath(configPath),
+      context,
+      onProgress: progress?.update,
     }
+  ).finally(() => progress?.end());
+
+  // Wait for the post to go live and report the final status
+  if (waitTimeout !== undefined) {
+    await waitForPost(client, result, waitTimeout, failOn, globalFlags);
+    return;
+  }
+
+  // Display results
+  const summary = summarizePostResult(result);
+  if (formatter.mode() === "json") {
+    formatter.json({ ...result, summary });
+  } else {
+    displayPostResult(formatter, result, {
+      scheduled: "Photo post scheduled successfully!",
+      queued: "Photo post queued successfully!",
+      posted: "Posted photos",
+    });
+  }
+
+  // Exit non-zero when platforms failed, per --fail-on
+  if (summary) {
+    enforceFailOn(summary, failOn);
   }
 }
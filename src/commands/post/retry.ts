@@ -0,0 +1,368 @@
+// posterboy - Post retry command (resubmit failed platforms)
+
+import { parseArgs } from "node:util";
+import { loadConfigContext, getApiKey, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
+import { ApiClient } from "../../lib/api";
+import { createOutputFormatter } from "../../lib/output";
+import { UserError, ValidationCollector } from "../../lib/errors";
+import { openExistingLedger, resolveLedgerPath } from "../../lib/ledger";
+import { readManifest } from "../../lib/manifest";
+import { buildPostRequest, checkPostSpec, collectingChecker, submitPostRequest } from "../../lib/post-request";
+import { resolveWaitTimeout } from "../../lib/status";
+import {
+  displayPhotoVariants,
+  parseFitMode,
+  planAutoFit,
+  postPhotoVariants,
+  variantLines,
+  variantPhotos,
+} from "../../lib/image-fit";
+import { validateImageMetadata } from "../../lib/media-rules";
+import {
+  displayPostResult,
+  enforceFailOn,
+  parseFailOn,
+  summarizePostResult,
+  summarizeStatus,
+} from "../../lib/post-result";
+import { waitForPost } from "../status";
+import type {
+  Config,
+  FitMode,
+  GlobalFlags,
+  LedgerEntry,
+  PhotoFile,
+  PhotoPostParams,
+  PhotoVariant,
+  Platform,
+  PostRequest,
+  PostSummary,
+  StatusResult,
+} from "../../lib/types";
+
+// The post a retry resubmits: its content and the platforms it failed on
+interface RetrySource {
+  // Ledger id of the original post, or the request_id/job_id it was looked up by
+  retryOf: number | string;
+  // How messages name it: "#12" or the request_id/job_id
+  ref: string;
+  spec: Record<string, unknown>;
+  profile?: string;
+  baseDir?: string;
+  metadata?: Record<string, string>;
+  platforms: Platform[];
+}
+
+/**
+ * Resubmit a previous post to the platforms it failed on
+ *
+ * The original post is looked up in the local ledger by ledger id,
+ * request_id or job_id. Failed platforms come from the recorded result,
+ * or from 'status' for async and scheduled posts. Only those platforms are
+ * posted to again, with the original content and per-platform options.
+ * A post that is not in the ledger is looked up with 'status', and its
+ * content is taken from a manifest (--manifest), since the API does not
+ * return it.
+ * Retries are posted immediately, even if the original was scheduled.
+ * Auto-fitted photos are recorded as their originals and fitted again.
+ */
+export async function postRetry(
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  // Parse command-specific flags
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      "dry-run": { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+      wait: { type: "boolean", default: false },
+      "wait-timeout": { type: "string" },
+      "fail-on": { type: "string" },
+      manifest: { type: "string" },
+    },
+    strict: false,
+    allowPositionals: true,
+  });
+
+  const [id] = positionals;
+  if (!id) {
+    throw new UserError(
+      "Post ID required.\n" +
+        "Usage: posterboy post retry <request_id|job_id|ledger id> [--manifest <file>] [--dry-run]"
+    );
+  }
+
+  const waitTimeout = resolveWaitTimeout(values, {});
+  const failOn = parseFailOn(values["fail-on"]);
+
+  const { config, path: configPath, context } = loadConfigContext(globalFlags);
+
+  const ledger = openExistingLedger(resolveLedgerPath(configPath));
+  let entry: LedgerEntry | null = null;
+  try {
+    entry = ledger?.find(id) ?? null;
+  } finally {
+    ledger?.close();
+  }
+  if (entry && values.manifest !== undefined) {
+    throw new UserError(`--manifest is only used for posts that are not in the local ledger; #${entry.id} is`);
+  }
+
+  let client: ApiClient | undefined;
+  const getClient = () => {
+    if (!client) {
+      const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
+      client = new ApiClient(apiKey, {
+        verbose: globalFlags.verbose,
+        retry: getRetryPolicy(config),
+        timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+        network: getNetworkPolicy(config),
+      });
+    }
+    return client;
+  };
+
+  const source = entry
+    ? await fromLedger(entry, getClient)
+    : await fromStatus(id, values.manifest as string | undefined, getClient);
+  const { platforms } = source;
+  if (platforms.length === 0) {
+    throw new UserError(`Nothing to retry: ${id} published on every platform`);
+  }
+
+  // Same content and options, only the failed platforms, posted now
+  const spec: Record<string, unknown> = { ...source.spec, platforms };
+  delete spec.schedule;
+  delete spec.queue;
+  const autoFit = source.metadata?.auto_fit;
+  const fitMode = autoFit ? parseFitMode(autoFit.split(" ")[0]) : undefined;
+  if (fitMode && waitTimeout !== undefined) {
+    throw new UserError("--wait cannot be combined with an auto-fitted post. Use 'posterboy status' for each request instead.");
+  }
+
+  let request: PostRequest;
+  let variants: PhotoVariant[] | undefined;
+  const options = { baseDir: source.baseDir, profile: source.profile ?? globalFlags.profile };
+  if (fitMode) {
+    ({ request, variants } = await buildFittedRequest(spec, config, options, fitMode));
+  } else {
+    request = await buildPostRequest(spec, config, options);
+  }
+
+  const formatter = createOutputFormatter(
+    globalFlags.json,
+    globalFlags.pretty,
+    true
+  );
+
+  // Dry run mode - print payload and exit
+  if (values["dry-run"]) {
+    if (formatter.mode() === "json") {
+      formatter.json({
+        dry_run: true,
+        retry_of: source.retryOf,
+        type: request.type,
+        payload: request.params,
+        ...(variants ? { variants } : {}),
+      });
+    } else {
+      formatter.pretty([
+        formatter.header(
+          `Dry Run - retry ${request.type} post ${source.ref} on ${platforms.join(", ")}:`
+        ),
+        "",
+        JSON.stringify(request.params, null, 2),
+        ...(variants && fitMode ? variantLines(formatter, variants, fitMode) : []),
+      ]);
+    }
+    return;
+  }
+
+  if (formatter.mode() === "pretty") {
+    console.error(`Retrying post ${source.ref} on ${platforms.join(", ")}...`);
+  }
+
+  const metadata: Record<string, string> = { ...source.metadata, retry_of: String(source.retryOf) };
+  delete metadata.auto_fit;
+
+  // Fit the original photos again, one request per set of platforms
+  if (variants && fitMode) {
+    const posted = await postPhotoVariants(getClient(), request.params as PhotoPostParams, variants, fitMode, {
+      metadata,
+      force: values.force as boolean,
+      ledgerPath: resolveLedgerPath(configPath),
+      context,
+    });
+
+    if (formatter.mode() === "json") {
+      formatter.json({ success: posted.summary?.status !== "failed", ...posted, retry_of: source.retryOf });
+    } else {
+      displayPhotoVariants(formatter, posted.variants, fitMode);
+    }
+
+    if (posted.summary) {
+      enforceFailOn(posted.summary, failOn);
+    }
+    return;
+  }
+
+  const result = await submitPostRequest(getClient(), request, {
+    metadata,
+    force: values.force as boolean,
+    ledgerPath: resolveLedgerPath(configPath),
+    context,
+  });
+
+  // Wait for the post to go live and report the final status
+  if (waitTimeout !== undefined) {
+    await waitForPost(getClient(), result, waitTimeout, failOn, globalFlags);
+    return;
+  }
+
+  const summary = summarizePostResult(result);
+  if (formatter.mode() === "json") {
+    formatter.json({ ...result, retry_of: source.retryOf, summary });
+  } else {
+    displayPostResult(formatter, result, {
+      scheduled: "Retry scheduled successfully!",
+      queued: "Retry queued successfully!",
+      posted: `Reposted ${request.type}`,
+      statusHint: true,
+    });
+  }
+
+  // Exit non-zero when platforms failed, per --fail-on
+  if (summary) {
+    enforceFailOn(summary, failOn);
+  }
+}
+
+/**
+ * Build the retry of an auto-fitted photo post. The originals may not fit
+ * the platforms as they are, so only their fitted copies are checked.
+ */
+async function buildFittedRequest(
+  spec: Record<string, unknown>,
+  config: Config | null,
+  options: { baseDir?: string; profile?: string },
+  mode: FitMode
+): Promise<{ request: PostRequest; variants: PhotoVariant[] }> {
+  const errors = new ValidationCollector();
+  let photos: PhotoFile[] = [];
+  const request = await checkPostSpec(
+    spec,
+    config,
+    {
+      ...collectingChecker(errors),
+      images: (_platforms, checked) => {
+        photos = checked;
+      },
+    },
+    options
+  );
+  errors.throwIfErrors();
+
+  const variants = planAutoFit((request!.params as PhotoPostParams).platforms, photos, mode);
+  for (const variant of variants) {
+    errors.check(() => validateImageMetadata(variant.platforms, variantPhotos(variant)));
+  }
+  errors.throwIfErrors();
+  return { request: request!, variants };
+}
+
+/**
+ * A post recorded in the local ledger, and the platforms it did not
+ * publish on. Async and scheduled posts have no results locally, so the
+ * API is asked.
+ */
+async function fromLedger(
+  entry: LedgerEntry,
+  getClient: () => ApiClient
+): Promise<RetrySource> {
+  const source = {
+    retryOf: entry.id,
+    ref: `#${entry.id}`,
+    spec: { ...entry.params, type: entry.type },
+    profile: entry.profile,
+    metadata: entry.metadata,
+  };
+
+  let summary: PostSummary | undefined = summarizePostResult(entry.result);
+  if (!summary) {
+    const statusId = entry.request_id ?? entry.job_id;
+    if (!statusId) {
+      throw new UserError(`Post #${entry.id} has no request_id or job_id to check`);
+    }
+    const status = await getClient().getStatus(
+      statusId,
+      entry.request_id ? "request_id" : "job_id"
+    );
+    summary = finishedSummary(status, source.ref, statusId);
+  }
+
+  return { ...source, platforms: failedPlatforms(summary, entry.platforms) };
+}
+
+/**
+ * A post submitted from elsewhere: its failed platforms come from the API,
+ * its content from the --manifest file
+ */
+async function fromStatus(
+  id: string,
+  manifestPath: string | undefined,
+  getClient: () => ApiClient
+): Promise<RetrySource> {
+  if (/^\d+$/.test(id)) {
+    throw new UserError(
+      `No local record found for: ${id}\n` +
+        "See 'posterboy ledger list' for the posts submitted from this machine."
+    );
+  }
+
+  const status = await getClient().getStatus(id, id.startsWith("req_") ? "request_id" : "job_id");
+  const summary = finishedSummary(status, id, id);
+  const failed = summary.failed.map((f) => f.platform as Platform);
+
+  if (!manifestPath) {
+    throw new UserError(
+      `${id} is not in the local ledger, so its content is not known` +
+        (failed.length > 0 ? ` (it failed on ${failed.join(", ")})` : "") + ".\n" +
+        `Write the post in a manifest (see 'posterboy post apply') and run 'posterboy post retry ${id} --manifest <file>'.`
+    );
+  }
+
+  // A failed upload without per-platform results failed everywhere
+  const manifest = readManifest(manifestPath);
+  const everywhere = summary.status === "failed" && failed.length === 0;
+  return {
+    retryOf: id,
+    ref: id,
+    spec: manifest.spec,
+    baseDir: manifest.baseDir,
+    metadata: manifest.metadata,
+    platforms: everywhere && Array.isArray(manifest.spec.platforms) ? manifest.spec.platforms as Platform[] : failed,
+  };
+}
+
+// Summary of a post that has finished; a retry waits until then
+function finishedSummary(status: StatusResult, ref: string, statusId: string): PostSummary {
+  if (status.status !== "completed" && status.status !== "failed") {
+    throw new UserError(
+      `Post ${ref} is still ${status.status}. Retry once it has finished.\n` +
+        `Use 'posterboy status ${statusId}' to check progress.`
+    );
+  }
+  return summarizeStatus(status);
+}
+
+// Platforms of a post that did not publish
+function failedPlatforms(summary: PostSummary, platforms: Platform[]): Platform[] {
+  // A failed upload without per-platform results failed everywhere
+  if (summary.status === "failed" && summary.failed.length === 0) {
+    return platforms;
+  }
+
+  const failed = new Set(summary.failed.map((f) => f.platform));
+  return platforms.filter((platform) => failed.has(platform));
+}
@@ -1,7 +1,7 @@
 // posterboy - Profile connect command
 
 import { parseArgs } from "node:util";
-import { getApiKey, readConfig } from "../../lib/config";
+import { getApiKey, loadConfigContext, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
 import { ApiClient } from "../../lib/api";
 import { createOutputFormatter } from "../../lib/output";
 import { UserError } from "../../lib/errors";
@@ -40,13 +40,18 @@ export async function profilesConnect(
   }
 
   // Load config
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
 
   // Get API key from config/env/flag
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
 
   // Call API to generate JWT
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
   const result = await client.generateJwt(username, { platforms, redirect_url: redirect });
 
   // Output results
@@ -1,7 +1,7 @@
 // posterboy - Profile create command
 
 import { parseArgs } from "node:util";
-import { getApiKey, readConfig } from "../../lib/config";
+import { getApiKey, loadConfigContext, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
 import { ApiClient } from "../../lib/api";
 import { createOutputFormatter } from "../../lib/output";
 import { UserError } from "../../lib/errors";
@@ -29,13 +29,18 @@ export async function profilesCreate(
   }
 
   // Load config
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
 
   // Get API key from config/env/flag
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
 
   // Call API
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
   const result = await client.createUser(username);
 
   // Output results
@@ -3,7 +3,7 @@
 import { parseArgs } from "node:util";
 import { stdin, stdout } from "node:process";
 import { createInterface } from "node:readline";
-import { getApiKey, readConfig } from "../../lib/config";
+import { getApiKey, loadConfigContext, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
 import { ApiClient } from "../../lib/api";
 import { createOutputFormatter } from "../../lib/output";
 import { UserError } from "../../lib/errors";
@@ -33,7 +33,7 @@ export async function profilesDelete(
   }
 
   // Load config
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
 
   // Get API key from config/env/flag
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
@@ -63,7 +63,12 @@ export async function profilesDelete(
   }
 
   // Call API to delete
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
   const result = await client.deleteUser(username);
 
   // Output results
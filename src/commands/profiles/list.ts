@@ -1,6 +1,6 @@
 // posterboy - Profile list command
 
-import { getApiKey, readConfig } from "../../lib/config";
+import { getApiKey, loadConfigContext, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
 import { ApiClient } from "../../lib/api";
 import { createOutputFormatter } from "../../lib/output";
 import type { GlobalFlags } from "../../lib/types";
@@ -10,13 +10,18 @@ export async function profilesList(
   globalFlags: GlobalFlags
 ): Promise<void> {
   // Load config
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
 
   // Get API key from config/env/flag
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
 
   // Call API
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
   const result = await client.listUsers();
 
   // Output results
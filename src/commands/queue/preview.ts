@@ -1,7 +1,7 @@
 // posterboy - Queue preview command
 
 import { parseArgs } from "node:util";
-import { readConfig, getApiKey, getDefaultProfile } from "../../lib/config";
+import { loadConfigContext, getApiKey, getDefaultProfile, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
 import { ApiClient } from "../../lib/api";
 import { createOutputFormatter } from "../../lib/output";
 import { UserError } from "../../lib/errors";
@@ -21,7 +21,7 @@ export async function queuePreview(
   });
 
   // Resolve profile
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
   const profile =
     (values.profile as string | undefined) ||
     globalFlags.profile ||
@@ -52,7 +52,12 @@ export async function queuePreview(
 
   // Get API key and create client
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
 
   // Fetch preview
   const result = await client.previewQueue(profile, count);
@@ -1,10 +1,10 @@
 // posterboy - Queue settings command
 
 import { parseArgs } from "node:util";
-import { readConfig, getApiKey, getDefaultProfile } from "../../lib/config";
+import { loadConfigContext, getApiKey, getDefaultProfile, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
 import { ApiClient } from "../../lib/api";
 import { createOutputFormatter } from "../../lib/output";
-import { UserError } from "../../lib/errors";
+import { UserError, ValidationCollector } from "../../lib/errors";
 import { validateTimezone } from "../../lib/validation";
 import type { GlobalFlags, QueueSettingsUpdate } from "../../lib/types";
 
@@ -40,7 +40,9 @@ function parseTimeSlots(slotsString: string): string[] {
   }
 
   // Validate each slot
-  slots.forEach((slot) => validateTimeSlot(slot));
+  const errors = new ValidationCollector();
+  slots.forEach((slot) => errors.check(() => validateTimeSlot(slot)));
+  errors.throwIfErrors();
 
   return slots;
 }
@@ -83,16 +85,19 @@ function parseDaysOfWeek(daysString: string): string[] {
   }
 
   // Normalize and validate
-  const normalized = days.map((day) => {
+  const errors = new ValidationCollector();
+  const normalized = days.flatMap((day) => {
     const normalizedDay = dayMap[day];
     if (!normalizedDay) {
-      throw new UserError(
+      errors.add(
         `Invalid day: ${day}\n` +
         `Valid days: mon, tue, wed, thu, fri, sat, sun (or 0-6, or full names)`
       );
+      return [];
     }
-    return normalizedDay;
+    return [normalizedDay];
   });
+  errors.throwIfErrors();
 
   // Remove duplicates
   return [...new Set(normalized)];
@@ -113,15 +118,19 @@ export async function queueSettings(
     strict: false,
   });
 
+  // Collect every validation problem and report them together
+  const errors = new ValidationCollector();
+
   // Resolve profile
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
   const profile =
     (values.profile as string | undefined) ||
     globalFlags.profile ||
-    getDefaultProfile(undefined, config);
+    getDefaultProfile(undefined, config) ||
+    "";
 
   if (!profile) {
-    throw new UserError(
+    errors.add(
       "Profile required. Provide one of:\n" +
         "  --profile <name>                           (command flag)\n" +
         "  --profile <name> (global flag)             (before 'queue')\n" +
@@ -130,10 +139,6 @@ export async function queueSettings(
     );
   }
 
-  // Get API key and create client
-  const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
-
   // Determine if this is a view or update operation
   const isUpdate = !!(
     values["set-timezone"] ||
@@ -141,32 +146,43 @@ export async function queueSettings(
     values["set-days"]
   );
 
-  if (isUpdate) {
-    // Build update object
-    const updates: QueueSettingsUpdate = {};
+  // Build update object
+  const updates: QueueSettingsUpdate = {};
 
-    if (values["set-timezone"]) {
-      const timezone = values["set-timezone"] as string;
-      validateTimezone(timezone);
-      updates.timezone = timezone;
-    }
+  if (values["set-timezone"]) {
+    const timezone = values["set-timezone"] as string;
+    errors.check(() => validateTimezone(timezone));
+    updates.timezone = timezone;
+  }
 
-    if (values["set-slots"]) {
-      const timeStrings = parseTimeSlots(values["set-slots"] as string);
-      updates.slots = timeStrings.map(s => {
-        const [hour, minute] = s.split(":").map(Number);
-        return { hour, minute };
-      });
-    }
+  if (values["set-slots"]) {
+    const timeStrings = errors.check(() => parseTimeSlots(values["set-slots"] as string));
+    updates.slots = timeStrings?.map(s => {
+      const [hour, minute] = s.split(":").map(Number);
+      return { hour, minute };
+    });
+  }
 
-    if (values["set-days"]) {
-      const dayNames = parseDaysOfWeek(values["set-days"] as string);
-      const dayToInt: Record<string, number> = {
-        sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6
-      };
-      updates.days_of_week = dayNames.map(d => dayToInt[d]);
-    }
+  if (values["set-days"]) {
+    const dayNames = errors.check(() => parseDaysOfWeek(values["set-days"] as string));
+    const dayToInt: Record<string, number> = {
+      sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6
+    };
+    updates.days_of_week = dayNames?.map(d => dayToInt[d]);
+  }
 
+  errors.throwIfErrors();
+
+  // Get API key and create client
+  const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
+
+  if (isUpdate) {
     // Call API to update settings
     await client.updateQueueSettings(profile, updates);
 
@@ -1,7 +1,7 @@
 // posterboy - Schedule list command
 
 import { parseArgs } from "node:util";
-import { readConfig, getApiKey, getDefaultProfile } from "../../lib/config";
+import { loadConfigContext, getApiKey, getDefaultProfile, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
 import { ApiClient } from "../../lib/api";
 import { createOutputFormatter } from "../../lib/output";
 import type { GlobalFlags } from "../../lib/types";
@@ -20,9 +20,14 @@ export async function scheduleList(
   });
 
   // Get config and API key
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
 
   // Profile is optional for list command
   const profile = values.profile as string | undefined || globalFlags.profile || getDefaultProfile(undefined, config);
@@ -1,10 +1,10 @@
 // posterboy - Schedule modify command
 
 import { parseArgs } from "node:util";
-import { readConfig, getApiKey } from "../../lib/config";
+import { loadConfigContext, getApiKey, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../lib/config";
 import { ApiClient } from "../../lib/api";
 import { createOutputFormatter } from "../../lib/output";
-import { UserError } from "../../lib/errors";
+import { ValidationCollector } from "../../lib/errors";
 import { validateISODate, validateTimezone } from "../../lib/validation";
 import type { GlobalFlags, ScheduleUpdate } from "../../lib/types";
 
@@ -25,9 +25,12 @@ export async function scheduleModify(
     strict: false,
   });
 
+  // Collect every validation problem and report them together
+  const errors = new ValidationCollector();
+
   // Validate required job-id
   if (!values["job-id"]) {
-    throw new UserError(
+    errors.add(
       "Job ID required.\n" +
       "Usage: posterboy schedule modify --job-id <id> [--schedule <datetime>] [--title <text>] [--timezone <tz>]"
     );
@@ -40,7 +43,7 @@ export async function scheduleModify(
 
   if (values.schedule) {
     const scheduleDate = values.schedule as string;
-    validateISODate(scheduleDate);
+    errors.check(() => validateISODate(scheduleDate));
     updates.scheduled_date = scheduleDate;
   }
 
@@ -50,7 +53,7 @@ export async function scheduleModify(
 
   if (values.timezone) {
     const tz = values.timezone as string;
-    validateTimezone(tz);
+    errors.check(() => validateTimezone(tz));
     updates.timezone = tz;
   }
 
@@ -60,16 +63,23 @@ export async function scheduleModify(
 
   // Validate that at least one update is provided
   if (Object.keys(updates).length === 0) {
-    throw new UserError(
+    errors.add(
       "At least one update required.\n" +
       "Provide one of: --schedule, --title, --timezone, or --caption"
     );
   }
 
+  errors.throwIfErrors();
+
   // Get config and API key
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
 
   // Call API
   const result = await client.modifyScheduledPost(jobId, updates);
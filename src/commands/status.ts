@@ -1,11 +1,13 @@
 // posterboy - Status check command
 
 import { parseArgs } from "node:util";
-import { readConfig, getApiKey } from "../lib/config";
+import { loadConfigContext, getApiKey, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../lib/config";
 import { ApiClient } from "../lib/api";
 import { createOutputFormatter } from "../lib/output";
 import { UserError } from "../lib/errors";
-import type { GlobalFlags } from "../lib/types";
+import { pollStatus, postResultToStatus } from "../lib/status";
+import { enforceFailOn, summarizeStatus } from "../lib/post-result";
+import type { FailOnPolicy, GlobalFlags, PostResult, StatusResult } from "../lib/types";
 
 export async function statusCheck(
   args: string[],
@@ -76,9 +78,14 @@ export async function statusCheck(
   }
 
   // Get API key and create client
-  const config = readConfig();
+  const { config } = loadConfigContext(globalFlags);
   const apiKey = getApiKey(globalFlags.apiKey, config?.api_key);
-  const client = new ApiClient(apiKey, { verbose: globalFlags.verbose });
+  const client = new ApiClient(apiKey, {
+    verbose: globalFlags.verbose,
+    retry: getRetryPolicy(config),
+    timeouts: getTimeoutPolicy(config, globalFlags.timeout),
+    network: getNetworkPolicy(config),
+  });
 
   // Create formatter
   const formatter = createOutputFormatter(
@@ -90,52 +97,22 @@ export async function statusCheck(
   // Handle polling mode
   if (values.poll) {
     const isTTY = process.stdout.isTTY;
-    let attempts = 0;
-    const maxAttempts = 120; // Max 10 minutes with 5s intervals
-
-    // Handle Ctrl+C gracefully
-    let interrupted = false;
-    const sigintHandler = () => {
-      interrupted = true;
-      if (isTTY) {
-        console.log("\n\nPolling interrupted by user.");
-      }
-      process.exit(0);
-    };
-    process.on("SIGINT", sigintHandler);
-
-    while (attempts < maxAttempts && !interrupted) {
-      const result = await client.getStatus(id, idType);
-
-      // Check if complete
-      if (result.status === "completed" || result.status === "failed") {
-        process.off("SIGINT", sigintHandler);
-
-        if (formatter.mode() === "json") {
-          formatter.json(result);
-        } else {
-          displayPrettyStatus(result, formatter);
+    const result = await pollStatus(client, id, idType, {
+      intervalMs: pollInterval,
+      timeoutMs: 120 * pollInterval, // Max 10 minutes with 5s intervals
+      onPending: (attempt) => {
+        // Show polling indicator (only in TTY)
+        if (isTTY) {
+          const dots = ".".repeat((attempt % 3) + 1);
+          process.stdout.write(`\rPolling status${dots}   `);
         }
-        return;
-      }
-
-      // Show polling indicator (only in TTY)
-      if (isTTY) {
-        const dots = ".".repeat((attempts % 3) + 1);
-        process.stdout.write(`\rPolling status${dots}   `);
-      }
+      },
+    });
 
-      // Wait for interval
-      await new Promise((resolve) => setTimeout(resolve, pollInterval));
-      attempts++;
-    }
-
-    process.off("SIGINT", sigintHandler);
-
-    if (attempts >= maxAttempts) {
-      throw new UserError(
-        "Polling timeout reached. Status is still pending. Try again later."
-      );
+    if (formatter.mode() === "json") {
+      formatter.json(result);
+    } else {
+      displayPrettyStatus(result, formatter);
     }
   } else {
     // Single status check
@@ -149,8 +126,46 @@ export async function statusCheck(
   }
 }
 
-function displayPrettyStatus(
-  result: { status: string; completed?: number; total?: number; results?: Array<{ platform: string; success: boolean; url?: string; error?: string }>; error?: string },
+/**
+ * Wait for a just-submitted post to finish publishing (post --wait), print
+ * the final per-platform status and fail if any platform did not publish
+ */
+export async function waitForPost(
+  client: ApiClient,
+  result: PostResult,
+  timeoutMs: number,
+  failOn: FailOnPolicy,
+  globalFlags: GlobalFlags
+): Promise<void> {
+  const formatter = createOutputFormatter(
+    globalFlags.json,
+    globalFlags.pretty,
+    true
+  );
+
+  let status: StatusResult;
+  if (result.results || !result.request_id) {
+    // Synchronous post: the result is already final
+    status = postResultToStatus(result);
+  } else {
+    if (formatter.mode() === "pretty") {
+      console.error(`Waiting for ${result.request_id} to publish...`);
+    }
+    status = await pollStatus(client, result.request_id, "request_id", { timeoutMs });
+  }
+
+  const summary = summarizeStatus(status);
+  if (formatter.mode() === "json") {
+    formatter.json({ ...result, status, summary });
+  } else {
+    displayPrettyStatus(status, formatter);
+  }
+
+  enforceFailOn(summary, failOn);
+}
+
+export function displayPrettyStatus(
+  result: StatusResult,
   formatter: ReturnType<typeof createOutputFormatter>
 ): void {
   const lines: string[] = [];
@@ -1,6 +1,8 @@
 export const VERSION = "0.1.6";
 export const CONFIG_DIR = `${process.env.HOME}/.posterboy`;
 export const CONFIG_FILE = `${CONFIG_DIR}/config.json`;
+// Schema version of the config file; older files are upgraded when read
+export const CONFIG_VERSION = 2;
 export const API_BASE_URL = "https://api.upload-post.com/api";
 
 export const ALL_PLATFORMS = [
@@ -10,9 +12,28 @@ export const ALL_PLATFORMS = [
 
 export type Platform = typeof ALL_PLATFORMS[number];
 
+// Transient failures are retried up to 3 attempts, backing off 0.5s, 1s, ...
+export const DEFAULT_RETRY_POLICY = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: true,
+} as const;
+
+// Requests time out after 30s. Uploads get 2 minutes plus the time to send
+// the file at 512KB/s, unless a fixed upload timeout is configured
+export const DEFAULT_TIMEOUT_MS = 30000;
+export const UPLOAD_BASE_TIMEOUT_MS = 120000;
+export const UPLOAD_MIN_BYTES_PER_SECOND = 512 * 1024;
+
+// Identical posts within this window are treated as reruns of the same post
+export const IDEMPOTENCY_WINDOW_HOURS = 24;
+
 export const EXIT_CODES = {
   SUCCESS: 0,
   USER_ERROR: 1,
   API_ERROR: 2,
   NETWORK_ERROR: 3,
+  PARTIAL_FAILURE: 4,
+  INTERRUPTED: 130,
 } as const;
@@ -15,6 +15,9 @@ import { postPhoto } from "./commands/post/photo";
 import { postVideo } from "./commands/post/video";
 import { postDocument } from "./commands/post/document";
 import { postDelete } from "./commands/post/delete";
+import { postApply } from "./commands/post/apply";
+import { postRetry } from "./commands/post/retry";
+import { postBatch } from "./commands/post/batch";
 import { statusCheck } from "./commands/status";
 import { scheduleList } from "./commands/schedule/list";
 import { scheduleCancel } from "./commands/schedule/cancel";
@@ -24,6 +27,11 @@ import { queuePreview } from "./commands/queue/preview";
 import { queueNext } from "./commands/queue/next";
 import { history } from "./commands/history";
 import { analytics } from "./commands/analytics";
+import { ledgerList, ledgerShow, ledgerSearch, ledgerExport } from "./commands/ledger";
+import { jobsList, jobsWatch, jobsPrune } from "./commands/jobs";
+import { contextList, contextUse, contextAdd, contextRemove } from "./commands/context";
+import { configGet, configSet, configUnset, configList, configEdit, configPath, configMigrate } from "./commands/config";
+import { lint } from "./commands/lint";
 import { completions } from "./commands/completions";
 import { createOutputFormatter } from "./lib/output";
 import { PosterBoyError, suggestFix } from "./lib/errors";
@@ -39,9 +47,11 @@ GLOBAL OPTIONS:
   --json              Force JSON output
   --pretty            Force pretty output
   --config <path>     Override config file path
+  --context <name>    Use a named context (account) from the config
   --api-key <key>     Override API key
   --profile <name>    Override default profile
   --verbose           Show request/response details
+  --timeout <secs>    Give up on API requests after this long
   --version           Print version and exit
   --help              Print help and exit
 
@@ -50,6 +60,21 @@ COMMANDS:
     login             Store API key in config
     status            Show account info, plan, and usage
 
+  context             Named contexts (one per Upload-Post account)
+    list              List contexts, marking the current one
+    use               Switch the current context
+    add               Add a context
+    remove            Remove a context
+
+  config              Read and change config settings
+    get               Print a setting
+    set               Change a setting
+    unset             Remove a setting
+    list              List all settings
+    edit              Open the config in $EDITOR
+    path              Print the config file path
+    migrate           Save an older config in the current schema
+
   profiles            Profile management
     list              List all connected profiles
     create            Create a new profile
@@ -61,6 +86,9 @@ COMMANDS:
     photo             Post photo(s) / carousel
     video             Post video content
     document          Post document (LinkedIn only)
+    apply             Post from a YAML/JSON manifest file
+    batch             Post every row of a CSV file
+    retry             Resubmit a post to the platforms it failed on
 
   schedule            Scheduled post management
     list              List all scheduled posts
@@ -85,6 +113,21 @@ COMMANDS:
 
   analytics           View profile analytics
 
+  ledger              Local record of posts submitted from this machine
+    list              List recorded posts
+    show              Show a recorded post by id, request_id or job_id
+    search            Search captions, params and metadata
+    export            Export recorded posts as JSON or CSV
+
+  jobs                Track async uploads and scheduled posts
+    list              List tracked jobs
+    watch             Poll async uploads until they finish
+    prune             Remove finished jobs
+
+  lint                Check a post offline (flags or manifests), no API key needed
+    <type> [flags]    Same flags as 'post <type>'
+    <manifest>...     One or more YAML/JSON manifest files
+
   completions         Generate shell completions
     bash              Generate bash completion script
     zsh               Generate zsh completion script
@@ -93,9 +136,18 @@ COMMANDS:
 EXAMPLES:
   posterboy auth login --key up_xxxx
   posterboy auth status
+  posterboy auth login --context client-a
+  posterboy context use client-a
+  posterboy config set platform_defaults.facebook.page 123456789
   posterboy post text --body "Hello!" --platforms x,linkedin
   posterboy post photo --files photo.jpg --title "My photo" --platforms instagram
+  posterboy post apply campaigns/launch.yaml --dry-run
+  posterboy post batch --csv posts.csv --report results.csv
+  posterboy post retry req_abc123
+  posterboy lint campaigns/*.yaml
   posterboy history
+  posterboy ledger search "launch" --platform x
+  posterboy jobs watch
   posterboy completions bash > /etc/bash_completion.d/posterboy
 `;
 
@@ -131,13 +183,15 @@ async function main() {
       json: false,
       pretty: false,
       config: undefined,
+      context: undefined,
       apiKey: undefined,
       profile: undefined,
       verbose: false,
+      timeout: undefined,
     };
 
     const GLOBAL_BOOLEAN_FLAGS = new Set(["--json", "--pretty", "--verbose"]);
-    const GLOBAL_STRING_FLAGS = new Set(["--config", "--api-key", "--profile"]);
+    const GLOBAL_STRING_FLAGS = new Set(["--config", "--context", "--api-key", "--profile", "--timeout"]);
 
     const filtered: string[] = [];
     for (let i = 0; i < args.length; i++) {
@@ -149,8 +203,10 @@ async function main() {
       } else if (GLOBAL_STRING_FLAGS.has(arg) && i + 1 < args.length) {
         const val = args[++i]!;
         if (arg === "--config") globalFlags.config = val;
+        else if (arg === "--context") globalFlags.context = val;
         else if (arg === "--api-key") globalFlags.apiKey = val;
         else if (arg === "--profile") globalFlags.profile = val;
+        else if (arg === "--timeout") globalFlags.timeout = val;
       } else {
         filtered.push(arg);
       }
@@ -164,6 +220,14 @@ async function main() {
         await handleAuthCommand(subcommand, remainingArgs, globalFlags);
         break;
 
+      case "context":
+        await handleContextCommand(subcommand, remainingArgs, globalFlags);
+        break;
+
+      case "config":
+        await handleConfigCommand(subcommand, remainingArgs, globalFlags);
+        break;
+
       case "profiles":
         await handleProfilesCommand(subcommand, remainingArgs, globalFlags);
         break;
@@ -196,6 +260,18 @@ async function main() {
         await handleAnalyticsCommand(subcommand, remainingArgs, globalFlags);
         break;
 
+      case "ledger":
+        await handleLedgerCommand(subcommand, remainingArgs, globalFlags);
+        break;
+
+      case "jobs":
+        await handleJobsCommand(subcommand, remainingArgs, globalFlags);
+        break;
+
+      case "lint":
+        await lint(subcommand ? [subcommand, ...remainingArgs] : remainingArgs, globalFlags);
+        break;
+
       case "completions":
         await completions(remainingArgs, globalFlags);
         break;
@@ -211,7 +287,7 @@ async function main() {
       }
     }
   } catch (error) {
-    await handleError(error);
+    await handleError(error, args.includes("--json"), args.includes("--pretty"));
   }
 }
 
@@ -229,6 +305,7 @@ SUBCOMMANDS:
 
 FLAGS:
   --key         API key (for login)
+  --context     Save the key to this named context (for login)
   --json        Force JSON output
   --verbose     Show request/response details
 `);
@@ -252,6 +329,128 @@ FLAGS:
   }
 }
 
+async function handleContextCommand(
+  subcommand: string | undefined,
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  if (!subcommand || subcommand === "help" || subcommand === "--help") {
+    console.log(`posterboy context - Named contexts (one per Upload-Post account)
+
+SUBCOMMANDS:
+  list          List contexts, marking the current one
+  use           Switch the current context
+  add           Add a context
+  remove        Remove a context
+
+FLAGS:
+  --key-stdin          Read the API key from stdin (for add; prompts otherwise)
+  --default-profile    Default profile (for add)
+  --default-platforms  Default platforms, comma-separated (for add)
+  --use                Switch to the new context (for add)
+  --json               Force JSON output
+
+Run a single command in another context with the global --context <name> flag.
+`);
+    return;
+  }
+
+  switch (subcommand) {
+    case "list":
+      await contextList(args, globalFlags);
+      break;
+
+    case "use":
+      await contextUse(args, globalFlags);
+      break;
+
+    case "add":
+      await contextAdd(args, globalFlags);
+      break;
+
+    case "remove":
+      await contextRemove(args, globalFlags);
+      break;
+
+    default:
+      console.error(`Unknown context subcommand: ${subcommand}`);
+      console.error("Available: list, use, add, remove");
+      process.exit(1);
+      break;
+  }
+}
+
+async function handleConfigCommand(
+  subcommand: string | undefined,
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  if (!subcommand || subcommand === "help" || subcommand === "--help") {
+    console.log(`posterboy config - Read and change config settings
+
+SUBCOMMANDS:
+  get <key>           Print a setting (API keys masked)
+  set <key> <value>   Change a setting
+  unset <key>         Remove a setting
+  list                List all settings (API keys masked)
+  edit                Open the config in $VISUAL or $EDITOR
+  path                Print the config file path
+  migrate             Save a config from an older posterboy in the current schema
+
+FLAGS:
+  --reveal            Print API keys in full (for get)
+  --json              Force JSON output
+
+Keys are dotted paths into the config file:
+  default_profile
+  default_platforms                    Comma-separated, e.g. x,linkedin
+  platform_defaults.facebook.page
+  contexts.client-a.api_key
+  output.format                        auto, json or pretty
+
+Changes are validated before they are saved. The file the global --config
+flag names is used, without applying --context.
+`);
+    return;
+  }
+
+  switch (subcommand) {
+    case "get":
+      await configGet(args, globalFlags);
+      break;
+
+    case "set":
+      await configSet(args, globalFlags);
+      break;
+
+    case "unset":
+      await configUnset(args, globalFlags);
+      break;
+
+    case "list":
+      await configList(args, globalFlags);
+      break;
+
+    case "edit":
+      await configEdit(args, globalFlags);
+      break;
+
+    case "path":
+      await configPath(args, globalFlags);
+      break;
+
+    case "migrate":
+      await configMigrate(args, globalFlags);
+      break;
+
+    default:
+      console.error(`Unknown config subcommand: ${subcommand}`);
+      console.error("Available: get, set, unset, list, edit, path, migrate");
+      process.exit(1);
+      break;
+  }
+}
+
 async function handleProfilesCommand(
   subcommand: string | undefined,
   args: string[],
@@ -364,6 +563,9 @@ SUBCOMMANDS:
   video         Post video content
   document      Post document (LinkedIn only)
   delete        Delete a post (Bluesky only)
+  apply         Post from a YAML/JSON manifest file
+  batch         Post every row of a CSV file
+  retry         Resubmit a post to the platforms it failed on
 
 FLAGS:
   --profile     Profile to post from
@@ -371,6 +573,16 @@ FLAGS:
   --schedule    ISO-8601 datetime for scheduling
   --queue       Add to next queue slot
   --dry-run     Preview without posting
+  --meta        key=value recorded in the local ledger (repeatable)
+  --idempotency-key  Key identifying this post across reruns
+  --force       Post even if the same post was already submitted
+  --wait        Wait until the post is live on every platform
+  --wait-timeout  Seconds to wait with --wait (default: 600)
+  --fail-on     Exit non-zero when any|all|none platforms fail (default: any)
+  --thread      Post text as a reply chain (X, Bluesky; for text)
+  --number-parts  Append (1/n) to each thread part (for text)
+  --auto-fit    crop|pad photos to each platform's shape (for photo)
+  --manifest    Content of a post not in the local ledger (for retry)
   --json        Force JSON output
   --verbose     Show request/response details
 `);
@@ -393,9 +605,18 @@ FLAGS:
     case "delete":
       await postDelete(args, globalFlags);
       break;
+    case "apply":
+      await postApply(args, globalFlags);
+      break;
+    case "batch":
+      await postBatch(args, globalFlags);
+      break;
+    case "retry":
+      await postRetry(args, globalFlags);
+      break;
     default:
       console.error(`Unknown post subcommand: ${subcommand}`);
-      console.error("Available: text, photo, video, document, delete");
+      console.error("Available: text, photo, video, document, delete, apply, batch, retry");
       process.exit(1);
       break;
   }
@@ -513,10 +734,112 @@ async function handleAnalyticsCommand(
   await analytics(allArgs, globalFlags);
 }
 
-async function handleError(error: unknown): Promise<void> {
-  const formatter = createOutputFormatter(false, false, true);
+async function handleLedgerCommand(
+  subcommand: string | undefined,
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  if (!subcommand || subcommand === "help" || subcommand === "--help") {
+    console.log(`posterboy ledger - Local record of submitted posts
+
+SUBCOMMANDS:
+  list          List recorded posts, newest first
+  show          Show a recorded post by id, request_id or job_id
+  search        Search captions, params and metadata
+  export        Export recorded posts as JSON or CSV
+
+FLAGS:
+  --profile     Filter by profile
+  --platform    Filter by platform
+  --type        Filter by post type (text, photo, video, document)
+  --limit       Maximum entries to show (default: 20 for list/search)
+  --format      Export format: json or csv (for export, default: json)
+  --output      Write export to a file instead of stdout (for export)
+  --json        Force JSON output
+`);
+    return;
+  }
+
+  switch (subcommand) {
+    case "list":
+      await ledgerList(args, globalFlags);
+      break;
+
+    case "show":
+      await ledgerShow(args, globalFlags);
+      break;
+
+    case "search":
+      await ledgerSearch(args, globalFlags);
+      break;
+
+    case "export":
+      await ledgerExport(args, globalFlags);
+      break;
+
+    default:
+      console.error(`Unknown ledger subcommand: ${subcommand}`);
+      console.error("Available: list, show, search, export");
+      process.exit(1);
+      break;
+  }
+}
+
+async function handleJobsCommand(
+  subcommand: string | undefined,
+  args: string[],
+  globalFlags: GlobalFlags
+): Promise<void> {
+  if (!subcommand || subcommand === "help" || subcommand === "--help") {
+    console.log(`posterboy jobs - Track async uploads and scheduled posts
+
+SUBCOMMANDS:
+  list          List tracked jobs, newest first
+  watch         Poll async uploads until they finish
+  prune         Remove completed and failed jobs
+
+FLAGS:
+  --pending     Only show jobs still in flight (for list)
+  --refresh     Check pending jobs before listing (for list)
+  --limit       Maximum jobs to show (for list, default: 20)
+  --interval    Seconds between checks (for watch, default: 5)
+  --max-wait    Seconds to watch before giving up (for watch, default: 600)
+  --older-than  Only prune jobs finished more than N days ago (for prune)
+  --json        Force JSON output
+`);
+    return;
+  }
+
+  switch (subcommand) {
+    case "list":
+      await jobsList(args, globalFlags);
+      break;
+
+    case "watch":
+      await jobsWatch(args, globalFlags);
+      break;
+
+    case "prune":
+      await jobsPrune(args, globalFlags);
+      break;
+
+    default:
+      console.error(`Unknown jobs subcommand: ${subcommand}`);
+      console.error("Available: list, watch, prune");
+      process.exit(1);
+      break;
+  }
+}
+
+async function handleError(error: unknown, json: boolean, pretty: boolean): Promise<void> {
+  const formatter = createOutputFormatter(json, pretty, true);
 
   if (error instanceof PosterBoyError) {
+    // Scripts get the structured error (including every validation problem)
+    if (formatter.mode() === "json") {
+      console.error(JSON.stringify(error.json(), null, 2));
+      process.exit(error.exitCode);
+    }
     formatter.error(error.message);
     const fix = suggestFix(error);
     if (fix) {
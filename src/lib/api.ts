@@ -1,7 +1,15 @@
 // posterboy - API client wrapper
 
-import { API_BASE_URL } from "../constants";
-import { ApiError, NetworkError } from "./errors";
+import {
+  API_BASE_URL,
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_TIMEOUT_MS,
+  UPLOAD_BASE_TIMEOUT_MS,
+  UPLOAD_MIN_BYTES_PER_SECOND,
+} from "../constants";
+import { ApiError, NetworkError, RateLimitError } from "./errors";
+import { hasFiles, streamBody, uploadSize } from "./multipart";
+import { fetchOptions, redactProxy } from "./network";
 import type {
   AccountInfo,
   Profile,
@@ -15,8 +23,12 @@ import type {
   VideoPostParams,
   DocumentPostParams,
   PostResult,
+  RequestOptions,
+  RetryPolicy,
   StatusResult,
   ScheduleListResult,
+  NetworkPolicy,
+  TimeoutPolicy,
   QueueSettings,
   QueueSettingsUpdate,
   QueueSlot,
@@ -24,35 +36,142 @@ import type {
   ScheduleUpdate,
 } from "./types";
 
+// Library default: a single attempt. The CLI passes the configured policy.
+const NO_RETRY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+
 export class ApiClient {
   private apiKey: string;
   private baseUrl: string;
   private verbose: boolean;
-
-  constructor(apiKey: string, options?: { baseUrl?: string; verbose?: boolean }) {
+  private retry: RetryPolicy;
+  private timeouts: TimeoutPolicy;
+  private network?: NetworkPolicy;
+
+  constructor(
+    apiKey: string,
+    options?: {
+      baseUrl?: string;
+      verbose?: boolean;
+      retry?: RetryPolicy;
+      timeouts?: TimeoutPolicy;
+      network?: NetworkPolicy;
+    }
+  ) {
     this.apiKey = apiKey;
     this.baseUrl = options?.baseUrl ?? API_BASE_URL;
     this.verbose = options?.verbose ?? false;
+    this.retry = options?.retry ?? NO_RETRY;
+    this.timeouts = options?.timeouts ?? { requestMs: DEFAULT_TIMEOUT_MS };
+    this.network = options?.network;
   }
 
   private async request<T>(
     method: string,
     path: string,
-    body?: unknown
+    body?: unknown,
+    options?: RequestOptions
+  ): Promise<T> {
+    // GETs are always safe to repeat; anything else needs an idempotency key
+    const retryable = method === "GET" || retryableWithKey(options);
+    return this.withRetry(method, path, retryable, () =>
+      this.sendRequest<T>(method, path, body, options)
+    );
+  }
+
+  private async uploadRequest<T>(
+    method: string,
+    path: string,
+    formData: FormData,
+    options?: RequestOptions
+  ): Promise<T> {
+    // Only forms that carry files are streamed to report progress
+    const onProgress = options?.onProgress;
+    const onBytes = onProgress && hasFiles(formData)
+      ? (sent: number, total: number) => onProgress({ sent, total })
+      : undefined;
+    return this.withRetry(method, path, retryableWithKey(options), () =>
+      this.sendUpload<T>(method, path, formData, options, onBytes)
+    );
+  }
+
+  /**
+   * Run a request, retrying transient failures (network errors, 5xx, 429
+   * without quota info) with exponential backoff when it is safe to repeat
+   */
+  private async withRetry<T>(
+    method: string,
+    path: string,
+    retryable: boolean,
+    attempt: () => Promise<T>
+  ): Promise<T> {
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        const delay =
+          retryable && attemptNumber < this.retry.maxAttempts
+            ? this.retryDelay(error, attemptNumber)
+            : null;
+        if (delay === null) throw error;
+
+        if (this.verbose) {
+          console.error(
+            `[verbose] ↻ Retrying ${method} ${path} in ${delay}ms ` +
+              `(attempt ${attemptNumber + 1} of ${this.retry.maxAttempts}): ${(error as Error).message}`
+          );
+        }
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Delay before the next attempt, or null if the error is not transient
+   */
+  private retryDelay(error: unknown, attemptNumber: number): number | null {
+    // An exhausted quota will not recover by retrying
+    if (error instanceof RateLimitError) return null;
+
+    const transient =
+      error instanceof NetworkError ||
+      (error instanceof ApiError && (error.statusCode >= 500 || error.statusCode === 429));
+    if (!transient) return null;
+
+    // Honor Retry-After, but give up rather than wait longer than the policy allows
+    if (error instanceof ApiError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs <= this.retry.maxDelayMs ? error.retryAfterMs : null;
+    }
+
+    const backoff = Math.min(
+      this.retry.maxDelayMs,
+      this.retry.baseDelayMs * 2 ** (attemptNumber - 1)
+    );
+    return this.retry.jitter ? Math.round(backoff / 2 + (Math.random() * backoff) / 2) : backoff;
+  }
+
+  private async sendRequest<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    options?: RequestOptions
   ): Promise<T> {
     const url = `${this.baseUrl}${path}`;
+    const network = fetchOptions(this.network, url);
 
+    const timeoutMs = this.timeouts.requestMs;
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
     if (this.verbose) {
       const headers = {
         Authorization: `Apikey ${this.apiKey.substring(0, 7)}...`,
         "Content-Type": "application/json",
         Accept: "application/json",
+        ...idempotencyHeader(options),
       };
       console.error(`[verbose] → ${method} ${url}`);
       console.error(`[verbose]   Headers: ${JSON.stringify(headers)}`);
+      if (network.proxy) console.error(`[verbose]   Proxy: ${redactProxy(network.proxy)}`);
     }
 
     const startTime = Date.now();
@@ -64,9 +183,11 @@ export class ApiClient {
           Authorization: `Apikey ${this.apiKey}`,
           "Content-Type": "application/json",
           Accept: "application/json",
+          ...idempotencyHeader(options),
         },
         body: body ? JSON.stringify(body) : undefined,
         signal: controller.signal,
+        ...network,
       });
 
       clearTimeout(timeoutId);
@@ -77,17 +198,7 @@ export class ApiClient {
       }
 
       if (!response.ok) {
-        const errorBody = await response.text();
-        let errorMessage = `API error: ${response.status}`;
-        let apiMessage = errorMessage;
-        try {
-          const parsed = JSON.parse(errorBody);
-          errorMessage = parsed.message || parsed.error || errorMessage;
-          apiMessage = parsed.message || parsed.error || apiMessage;
-        } catch {
-          // Use default error message if JSON parsing fails
-        }
-        throw new ApiError(errorMessage, response.status, apiMessage);
+        throw await errorFromResponse(response);
       }
 
       try {
@@ -106,7 +217,10 @@ export class ApiClient {
       }
       if (error instanceof ApiError) throw error;
       if (error instanceof Error && error.name === "AbortError") {
-        throw new NetworkError("Request timeout after 30 seconds");
+        throw new NetworkError(
+          `Request timeout after ${formatSeconds(timeoutMs)} seconds. ` +
+            "Allow longer with --timeout <seconds> or network.timeout_ms in config."
+        );
       }
       throw new NetworkError(
         error instanceof Error ? error.message : "Network request failed"
@@ -114,23 +228,44 @@ export class ApiClient {
     }
   }
 
-  private async uploadRequest<T>(
+  private async sendUpload<T>(
     method: string,
     path: string,
-    formData: FormData
+    formData: FormData,
+    options?: RequestOptions,
+    onBytes?: (sent: number, total: number) => void
   ): Promise<T> {
     const url = `${this.baseUrl}${path}`;
+    const network = fetchOptions(this.network, url);
+
+    // Stream the body when progress is wanted, with its exact length so it
+    // is not sent chunked
+    const extraHeaders: Record<string, string> = {};
+    let requestBody: FormData | ReadableStream<Uint8Array> = formData;
+    if (onBytes) {
+      const streamed = streamBody(formData, onBytes);
+      requestBody = streamed.body;
+      extraHeaders["Content-Type"] = streamed.contentType;
+      extraHeaders["Content-Length"] = String(streamed.length);
+    }
 
+    // Unless configured, allow for sending the file at a slow but steady rate
+    const timeoutMs =
+      this.timeouts.uploadMs ??
+      UPLOAD_BASE_TIMEOUT_MS + Math.ceil((uploadSize(formData) / UPLOAD_MIN_BYTES_PER_SECOND) * 1000);
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 120000); // 120s timeout for uploads
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
     if (this.verbose) {
       const headers = {
         Authorization: `Apikey ${this.apiKey.substring(0, 7)}...`,
         Accept: "application/json",
+        ...idempotencyHeader(options),
+        ...extraHeaders,
       };
       console.error(`[verbose] → ${method} ${url} (upload)`);
       console.error(`[verbose]   Headers: ${JSON.stringify(headers)}`);
+      if (network.proxy) console.error(`[verbose]   Proxy: ${redactProxy(network.proxy)}`);
     }
 
     const startTime = Date.now();
@@ -142,9 +277,12 @@ export class ApiClient {
           Authorization: `Apikey ${this.apiKey}`,
           // Don't set Content-Type - let browser/bun handle multipart boundary
           Accept: "application/json",
+          ...idempotencyHeader(options),
+          ...extraHeaders,
         },
-        body: formData,
+        body: requestBody,
         signal: controller.signal,
+        ...network,
       });
 
       clearTimeout(timeoutId);
@@ -155,17 +293,7 @@ export class ApiClient {
       }
 
       if (!response.ok) {
-        const errorBody = await response.text();
-        let errorMessage = `API error: ${response.status}`;
-        let apiMessage = errorMessage;
-        try {
-          const parsed = JSON.parse(errorBody);
-          errorMessage = parsed.message || parsed.error || errorMessage;
-          apiMessage = parsed.message || parsed.error || apiMessage;
-        } catch {
-          // Use default error message if JSON parsing fails
-        }
-        throw new ApiError(errorMessage, response.status, apiMessage);
+        throw await errorFromResponse(response);
       }
 
       try {
@@ -184,7 +312,10 @@ export class ApiClient {
       }
       if (error instanceof ApiError) throw error;
       if (error instanceof Error && error.name === "AbortError") {
-        throw new NetworkError("Request timeout after 120 seconds");
+        throw new NetworkError(
+          `Upload timeout after ${formatSeconds(timeoutMs)} seconds. ` +
+            "Allow longer with --timeout <seconds> or network.upload_timeout_ms in config."
+        );
       }
       throw new NetworkError(
         error instanceof Error ? error.message : "Network request failed"
@@ -235,7 +366,7 @@ export class ApiClient {
   }
 
   // Post Content
-  async postText(params: TextPostParams): Promise<PostResult> {
+  async postText(params: TextPostParams, options?: RequestOptions): Promise<PostResult> {
     // MUST use FormData for text posts (all upload endpoints require multipart/form-data)
     const formData = new FormData();
 
@@ -291,10 +422,10 @@ export class ApiClient {
     if (params.bluesky_title) formData.append("bluesky_title", params.bluesky_title);
     if (params.bluesky_reply_to) formData.append("reply_to_id", params.bluesky_reply_to);
 
-    return this.uploadRequest<PostResult>("POST", "/upload_text", formData);
+    return this.uploadRequest<PostResult>("POST", "/upload_text", formData, options);
   }
 
-  async postPhotos(params: PhotoPostParams): Promise<PostResult> {
+  async postPhotos(params: PhotoPostParams, options?: RequestOptions): Promise<PostResult> {
     const formData = new FormData();
 
     // Add media files or URLs
@@ -368,10 +499,10 @@ export class ApiClient {
     // Bluesky-specific
     if (params.bluesky_title) formData.append("bluesky_title", params.bluesky_title);
 
-    return this.uploadRequest<PostResult>("POST", "/upload_photos", formData);
+    return this.uploadRequest<PostResult>("POST", "/upload_photos", formData, options);
   }
 
-  async postVideo(params: VideoPostParams): Promise<PostResult> {
+  async postVideo(params: VideoPostParams, options?: RequestOptions): Promise<PostResult> {
     const formData = new FormData();
 
     // Add media file or URL (field names changed)
@@ -470,16 +601,15 @@ export class ApiClient {
     if (params.bluesky_title) formData.append("bluesky_title", params.bluesky_title);
 
     // Endpoint changed from /upload_videos to /upload
-    return this.uploadRequest<PostResult>("POST", "/upload", formData);
+    return this.uploadRequest<PostResult>("POST", "/upload", formData, options);
   }
 
-  async postDocument(params: DocumentPostParams): Promise<PostResult> {
+  async postDocument(params: DocumentPostParams, options?: RequestOptions): Promise<PostResult> {
     const formData = new FormData();
 
     // Add media file or URL (field names changed)
     if (params.file) {
-      const file = Bun.file(params.file);
-      formData.append("document", file);
+      formData.append("document", Bun.file(params.file));
     } else if (params.url) {
       formData.append("document_url", params.url);
     }
@@ -497,7 +627,7 @@ export class ApiClient {
     if (params.queue) formData.append("add_to_queue", String(params.queue));
     if (params.async) formData.append("async_upload", String(params.async));
 
-    return this.uploadRequest<PostResult>("POST", "/upload_document", formData);
+    return this.uploadRequest<PostResult>("POST", "/upload_document", formData, options);
   }
 
   async getStatus(id: string, type: "request_id" | "job_id" = "request_id"): Promise<StatusResult> {
@@ -577,3 +707,53 @@ export class ApiClient {
     return this.request<{ profile: string; analytics: Record<string, Record<string, number | string>> }>("GET", path);
   }
 }
+
+/**
+ * Build the error for a non-2xx response
+ */
+async function errorFromResponse(response: Response): Promise<ApiError> {
+  const errorBody = await response.text();
+  let errorMessage = `API error: ${response.status}`;
+  let apiMessage = errorMessage;
+  let usage: RateLimitError["usage"] | undefined;
+  try {
+    const parsed = JSON.parse(errorBody);
+    errorMessage = parsed.message || parsed.error || errorMessage;
+    apiMessage = parsed.message || parsed.error || apiMessage;
+    usage = parsed.usage;
+  } catch {
+    // Use default error message if JSON parsing fails
+  }
+  if (response.status === 429 && usage) {
+    return new RateLimitError(errorMessage, usage);
+  }
+
+  const error = new ApiError(errorMessage, response.status, apiMessage);
+  error.retryAfterMs = parseRetryAfter(response.headers?.get("retry-after"));
+  return error;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null | undefined): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function formatSeconds(ms: number): string {
+  return String(Math.round(ms / 100) / 10);
+}
+
+function retryableWithKey(options?: RequestOptions): boolean {
+  return !!options?.idempotencyKey && !!options.retryable;
+}
+
+function idempotencyHeader(options?: RequestOptions): Record<string, string> {
+  return options?.idempotencyKey ? { "Idempotency-Key": options.idempotencyKey } : {};
+}
@@ -1,25 +1,89 @@
-import { CONFIG_FILE } from "../constants";
-import type { Config, Platform } from "./types";
+import { ALL_PLATFORMS, CONFIG_FILE, CONFIG_VERSION, DEFAULT_RETRY_POLICY, DEFAULT_TIMEOUT_MS } from "../constants";
+import type { Config, ConfigContext, ContextSettings, GlobalFlags, NetworkPolicy, Platform, RetryPolicy, TimeoutPolicy } from "./types";
 import { UserError } from "./errors";
-import { mkdirSync, readFileSync, existsSync } from "node:fs";
-import { writeFile, chmod } from "node:fs/promises";
+import { PLATFORM_OPTIONS } from "./post-fields";
+import { mkdirSync, readFileSync, existsSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { chmod } from "node:fs/promises";
 import { dirname } from "node:path";
 
+/**
+ * Load the config a command runs with, from the --config path when given,
+ * with the account settings of the active context applied
+ */
+export function loadConfigContext(
+  globalFlags: Pick<GlobalFlags, "config" | "context">
+): ConfigContext {
+  const path = resolveConfigPath(globalFlags.config);
+  const file = readConfig(path);
+  const context = resolveContextName(globalFlags.context, file);
+  if (!context) {
+    return { path, config: file, file };
+  }
+  return { path, config: configForContext(file, context), file, context };
+}
+
+/**
+ * The config with a named context's account settings applied, or the
+ * top-level settings when no context is given
+ * @throws UserError if the context is not configured
+ */
+export function configForContext(file: Config | null, context?: string): Config | null {
+  if (!context) return file;
+
+  const settings = file?.contexts?.[context];
+  if (!settings) {
+    throw new UserError(
+      `Unknown context: ${context}\n` +
+      "Run 'posterboy context list' to see configured contexts, or 'posterboy context add' to create it."
+    );
+  }
+  return applyContext(file!, settings);
+}
+
+/**
+ * Resolve the active context name: --context > POSTERBOY_CONTEXT > current_context
+ */
+export function resolveContextName(
+  flagValue?: string,
+  config?: Config | null
+): string | undefined {
+  return resolveValue(
+    flagValue,
+    "POSTERBOY_CONTEXT",
+    config?.current_context,
+    undefined
+  ) || undefined;
+}
+
+// A context's account settings replace the top-level ones as a whole, so
+// nothing from another account (key, profile, page ids) leaks into it
+function applyContext(config: Config, settings: ContextSettings): Config {
+  return {
+    ...config,
+    api_key: settings.api_key,
+    default_profile: settings.default_profile,
+    default_platforms: settings.default_platforms,
+    platform_defaults: settings.platform_defaults,
+  };
+}
+
 /**
  * Read configuration from file
+ * Files written by older versions are upgraded in memory only; the file is
+ * rewritten by 'posterboy config migrate' or the next command that saves it,
+ * which both keep a backup of the old file.
  */
-export function readConfig(): Config | null {
-  const configPath = resolveConfigPath();
-  
+export function readConfig(configPath: string = resolveConfigPath()): Config | null {
   if (!existsSync(configPath)) {
     return null;
   }
   
+  let config: Config;
+  let warnings: string[];
   try {
     const content = readFileSync(configPath, "utf-8");
-    const config = JSON.parse(content) as Config;
-    validateConfig(config);
-    return config;
+    config = JSON.parse(content) as Config;
+    warnings = validateConfig(config);
   } catch (error) {
     if (error instanceof UserError) {
       throw error;
@@ -29,13 +93,23 @@ export function readConfig(): Config | null {
       `The file may be corrupted. Please run 'posterboy auth login' to recreate it.`
     );
   }
+
+  for (const warning of warnings) {
+    console.error(`Warning: ${warning} in ${configPath}`);
+  }
+  return config.version < CONFIG_VERSION ? migrateConfig(config) : config;
 }
 
 /**
  * Write configuration to file with proper permissions
+ * A file of an older version is backed up (e.g. config.json.v1.bak) before
+ * it is rewritten in the current schema, which older posterboy versions
+ * cannot read.
  */
-export async function writeConfig(config: Config): Promise<void> {
-  const configPath = resolveConfigPath();
+export async function writeConfig(
+  config: Config,
+  configPath: string = resolveConfigPath()
+): Promise<void> {
   const configDir = dirname(configPath);
 
   // Ensure config directory exists
@@ -43,21 +117,123 @@ export async function writeConfig(config: Config): Promise<void> {
     mkdirSync(configDir, { recursive: true, mode: 0o700 });
   }
 
-  // Validate before writing
+  // Validate before writing, always in the current schema
   validateConfig(config);
+  const current = migrateConfig(config);
 
-  // Write config file with atomic permissions
-  const content = JSON.stringify(config, null, 2);
-  await writeFile(configPath, content, { mode: 0o600 });
+  const backup = backupOlderConfig(configPath);
+  if (backup) {
+    console.error(
+      `Upgraded ${configPath} to config version ${current.version}; ` +
+      `the version ${backup.version} file was kept at ${backup.path}`
+    );
+  }
+  replaceConfigFile(configPath, JSON.stringify(current, null, 2));
 
   // Ensure directory has correct permissions too
   await chmod(configDir, 0o700);
 }
 
+// Write a temporary file and move it over the config, so an interrupted
+// write never leaves a truncated config behind
+function replaceConfigFile(configPath: string, content: string): void {
+  const tempPath = `${configPath}.tmp-${process.pid}`;
+  try {
+    writeFileSync(tempPath, content, { mode: 0o600 });
+    renameSync(tempPath, configPath);
+  } catch (error) {
+    rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// v2: platform_defaults options are named like the platform sections of
+// manifests, so facebook.page_id became facebook.page
+const V2_RENAMES: Array<[platform: string, from: string, to: string]> = [
+  ["facebook", "page_id", "page"],
+  ["linkedin", "page_id", "page"],
+  ["pinterest", "board_id", "board"],
+];
+
+// Upgrades of the config schema, keyed by the version they upgrade from.
+// Each one edits the parsed file in place; version is bumped afterwards.
+const MIGRATIONS: Record<number, (config: Record<string, unknown>) => void> = {
+  1: (config) => {
+    const accounts = [config, ...Object.values(asObject(config.contexts) ?? {})];
+    for (const account of accounts) {
+      const defaults = asObject(asObject(account)?.platform_defaults);
+      for (const [platform, from, to] of V2_RENAMES) {
+        const options = asObject(defaults?.[platform]);
+        if (options && from in options) {
+          options[to] ??= options[from];
+          delete options[from];
+        }
+      }
+    }
+  },
+};
+
+/**
+ * Upgrade a config of any supported version to the current schema.
+ * Returns a copy; the config passed in is left as it is.
+ */
+export function migrateConfig(config: Config): Config {
+  const migrated = JSON.parse(JSON.stringify(config)) as Config & Record<string, unknown>;
+  while (migrated.version < CONFIG_VERSION) {
+    MIGRATIONS[migrated.version]!(migrated);
+    migrated.version++;
+  }
+  return migrated;
+}
+
+/**
+ * Save a config file of an older version in the current schema, keeping
+ * the old file next to it (e.g. config.json.v1.bak)
+ * @throws UserError if there is no config file
+ */
+export function migrateConfigFile(
+  configPath: string = resolveConfigPath()
+): { from: number; to: number; backupPath?: string } {
+  const config = readConfig(configPath);
+  if (!config) {
+    throw new UserError(`No config file at ${configPath}`);
+  }
+
+  const backup = backupOlderConfig(configPath);
+  if (!backup) {
+    return { from: config.version, to: config.version };
+  }
+
+  replaceConfigFile(configPath, JSON.stringify(config, null, 2));
+  return { from: backup.version, to: config.version, backupPath: backup.path };
+}
+
+// Copy a config file written in an older schema next to it before it is
+// upgraded. Returns nothing for a missing, unreadable or current file.
+function backupOlderConfig(configPath: string): { version: number; path: string } | undefined {
+  if (!existsSync(configPath)) return undefined;
+
+  const content = readFileSync(configPath, "utf-8");
+  let version: unknown;
+  try {
+    version = (JSON.parse(content) as Config).version;
+  } catch {
+    return undefined;
+  }
+  if (typeof version !== "number" || version >= CONFIG_VERSION) return undefined;
+
+  const path = `${configPath}.v${version}.bak`;
+  writeFileSync(path, content, { mode: 0o600 });
+  return { version, path };
+}
+
 /**
  * Validate config schema
+ * Configs of older versions are checked as they will be after upgrading.
+ * Returns warnings for keys that are not part of the schema (typos, or
+ * settings of a newer posterboy), which are otherwise ignored.
  */
-export function validateConfig(config: Config): void {
+export function validateConfig(config: Config): string[] {
   if (typeof config !== "object" || config === null) {
     throw new UserError("Config must be an object");
   }
@@ -66,33 +242,204 @@ export function validateConfig(config: Config): void {
     throw new UserError("Config must have a version number");
   }
   
-  if (config.version !== 1) {
+  if (!Number.isInteger(config.version) || config.version < 1 || config.version > CONFIG_VERSION) {
     throw new UserError(
-      `Unsupported config version: ${config.version}. Expected version 1.`
+      `Unsupported config version: ${config.version}. Expected version ${CONFIG_VERSION} or older.\n` +
+      "The file may have been written by a newer posterboy; upgrade posterboy to use it."
     );
   }
-  
-  // API key is optional in config (can come from env var)
-  if (config.api_key !== undefined && typeof config.api_key !== "string") {
-    throw new UserError("Config api_key must be a string");
+
+  const warnings: string[] = [];
+  checkFields(migrateConfig(config) as unknown as Record<string, unknown>, CONFIG_SCHEMA, "", warnings);
+
+  return warnings;
+}
+
+/**
+ * Parse a command-line value for a dotted config key (e.g. network.timeout_ms
+ * or contexts.client-a.default_platforms) into the type the schema expects.
+ * Values are checked by validateConfig when the config is written.
+ * @throws UserError for keys that are not settings
+ */
+export function parseConfigValue(key: string, input: string): unknown {
+  const rule = findRule(key);
+  switch (rule) {
+    case "string":
+      return input;
+    case "boolean":
+      if (input !== "true" && input !== "false") {
+        throw new UserError(`Config ${key} must be a boolean (true or false)`);
+      }
+      return input === "true";
+    case "positive-integer":
+    case "non-negative-integer":
+      return /^-?\d+$/.test(input) ? Number(input) : input;
+    case "number":
+      return input.trim() !== "" && !isNaN(Number(input)) ? Number(input) : input;
+    case "platforms":
+    case "list":
+      return input.split(",").map((p) => p.trim()).filter((p) => p.length > 0);
+    default:
+      if ("oneOf" in rule) return input;
+      throw new UserError(
+        `${key} is a section, not a setting. Set one of its keys instead` +
+        ("fields" in rule
+          ? `: ${Object.keys(rule.fields).map((field) => `${key}.${field}`).join(", ")}`
+          : `, e.g. ${key}.<name>.<key>`)
+      );
   }
-  
-  // Validate optional fields if present
-  if (config.default_profile !== undefined && typeof config.default_profile !== "string") {
-    throw new UserError("Config default_profile must be a string");
+}
+
+function findRule(key: string): Rule {
+  if (key === "version") {
+    throw new UserError("version is managed by posterboy and cannot be set");
   }
-  
-  if (config.default_platforms !== undefined) {
-    if (!Array.isArray(config.default_platforms)) {
-      throw new UserError("Config default_platforms must be an array");
+
+  let rule: Rule = { fields: CONFIG_SCHEMA };
+  for (const segment of key.split(".")) {
+    const next: Rule | undefined =
+      typeof rule !== "object" || "oneOf" in rule
+        ? undefined
+        : "fields" in rule
+          ? rule.fields[segment]
+          : segment ? rule.entries : undefined;
+    if (!next) {
+      const renamed = V2_RENAMES.find(
+        ([platform, from]) => key.endsWith(`platform_defaults.${platform}.${from}`)
+      );
+      throw new UserError(
+        `Unknown config key: ${key}` +
+        (renamed ? `\nIt was renamed to ${key.slice(0, -renamed[1].length)}${renamed[2]} in config version 2.` : "")
+      );
     }
+    rule = next;
   }
-  
-  if (config.default_timezone !== undefined && typeof config.default_timezone !== "string") {
-    throw new UserError("Config default_timezone must be a string");
+  return rule;
+}
+
+// Schema of a config value
+type Rule =
+  | "string"
+  | "boolean"
+  | "number"
+  // An array of strings
+  | "list"
+  | "platforms"
+  | "positive-integer"
+  | "non-negative-integer"
+  | { oneOf: readonly string[] }
+  | { fields: Record<string, Rule> }
+  // An object with names of its own as keys, e.g. contexts
+  | { entries: Rule };
+
+// Every per-platform post option can have a default
+const PLATFORM_DEFAULTS_SCHEMA: Record<string, Rule> = Object.fromEntries(
+  Object.entries(PLATFORM_OPTIONS).map(([platform, options]) => [platform, { fields: options }])
+);
+
+// Fields shared by the top level and named contexts
+const ACCOUNT_SCHEMA: Record<string, Rule> = {
+  // API key is optional in config (can come from env var)
+  api_key: "string",
+  default_profile: "string",
+  default_platforms: "platforms",
+  platform_defaults: { fields: PLATFORM_DEFAULTS_SCHEMA },
+};
+
+const CONFIG_SCHEMA: Record<string, Rule> = {
+  version: "positive-integer",
+  ...ACCOUNT_SCHEMA,
+  default_timezone: "string",
+  output: {
+    fields: {
+      format: { oneOf: ["auto", "json", "pretty"] },
+      color: "boolean",
+    },
+  },
+  contexts: { entries: { fields: ACCOUNT_SCHEMA } },
+  current_context: "string",
+  network: {
+    fields: {
+      proxy: "string",
+      ca_file: "string",
+      timeout_ms: "positive-integer",
+      upload_timeout_ms: "positive-integer",
+      retry: {
+        fields: {
+          max_attempts: "positive-integer",
+          base_delay_ms: "non-negative-integer",
+          max_delay_ms: "non-negative-integer",
+          jitter: "boolean",
+        },
+      },
+    },
+  },
+};
+
+function checkFields(
+  object: Record<string, unknown>,
+  fields: Record<string, Rule>,
+  prefix: string,
+  warnings: string[]
+): void {
+  for (const [key, value] of Object.entries(object)) {
+    const rule = fields[key];
+    if (!rule) {
+      warnings.push(`Unknown config key: ${prefix}${key}`);
+    } else if (value !== undefined) {
+      checkValue(value, rule, `${prefix}${key}`, warnings);
+    }
+  }
+}
+
+function checkValue(value: unknown, rule: Rule, path: string, warnings: string[]): void {
+  const fail = (expected: string) => {
+    throw new UserError(`Config ${path} must be ${expected}`);
+  };
+
+  if (rule === "string") {
+    if (typeof value !== "string") fail("a string");
+  } else if (rule === "boolean") {
+    if (typeof value !== "boolean") fail("a boolean");
+  } else if (rule === "number") {
+    if (typeof value !== "number" || isNaN(value)) fail("a number");
+  } else if (rule === "list") {
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) fail("an array of strings");
+  } else if (rule === "positive-integer") {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1) fail("a positive integer");
+  } else if (rule === "non-negative-integer") {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) fail("a non-negative integer");
+  } else if (rule === "platforms") {
+    if (!Array.isArray(value)) fail("an array");
+    const invalid = (value as unknown[]).filter((p) => !ALL_PLATFORMS.includes(p as Platform));
+    if (invalid.length > 0) {
+      throw new UserError(
+        `Config ${path} has invalid platforms: ${invalid.join(", ")}.\n` +
+        `Valid platforms: ${ALL_PLATFORMS.join(", ")}`
+      );
+    }
+  } else if ("oneOf" in rule) {
+    if (!rule.oneOf.includes(value as string)) fail(`one of: ${rule.oneOf.join(", ")}`);
+  } else {
+    const object = asObject(value);
+    if (!object) return fail("an object");
+    if ("fields" in rule) {
+      checkFields(object, rule.fields, `${path}.`, warnings);
+    } else {
+      for (const [name, entry] of Object.entries(object)) {
+        checkValue(entry, rule.entries, `${path}.${name}`, warnings);
+      }
+    }
   }
 }
 
+// A plain object, or undefined for anything else (arrays, null, scalars)
+function asObject(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
 /**
  * Resolve config file path
  * Respects POSTERBOY_CONFIG env var or --config flag
@@ -206,6 +553,100 @@ export function getDefaultTimezone(
   );
 }
 
+/**
+ * Get retry policy for API requests
+ * Respects POSTERBOY_MAX_ATTEMPTS env var, otherwise network.retry in config
+ */
+export function getRetryPolicy(config?: Config | null): RetryPolicy {
+  const retry = config?.network?.retry;
+
+  const envValue = process.env.POSTERBOY_MAX_ATTEMPTS;
+  const envAttempts = envValue !== undefined ? parseInt(envValue, 10) : undefined;
+  if (envAttempts !== undefined && (isNaN(envAttempts) || envAttempts < 1)) {
+    throw new UserError("POSTERBOY_MAX_ATTEMPTS must be a positive integer");
+  }
+
+  return {
+    maxAttempts: envAttempts ?? retry?.max_attempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    baseDelayMs: retry?.base_delay_ms ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: retry?.max_delay_ms ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitter: retry?.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+  };
+}
+
+/**
+ * Get request timeouts
+ * --timeout (seconds) applies to every request; otherwise POSTERBOY_TIMEOUT_MS
+ * and POSTERBOY_UPLOAD_TIMEOUT_MS env vars, then network.timeout_ms and
+ * network.upload_timeout_ms in config. Without an upload timeout, uploads
+ * get one that grows with their size.
+ */
+export function getTimeoutPolicy(config?: Config | null, flagValue?: string): TimeoutPolicy {
+  if (flagValue !== undefined) {
+    const seconds = Number(flagValue);
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      throw new UserError(`Invalid --timeout value: ${flagValue}. Expected a positive number of seconds`);
+    }
+    const ms = Math.round(seconds * 1000);
+    return { requestMs: ms, uploadMs: ms };
+  }
+
+  const fromEnv = (name: string): number | undefined => {
+    const value = process.env[name];
+    if (value === undefined) return undefined;
+    const ms = parseInt(value, 10);
+    if (isNaN(ms) || ms < 1) {
+      throw new UserError(`${name} must be a positive integer (milliseconds)`);
+    }
+    return ms;
+  };
+
+  return {
+    requestMs: fromEnv("POSTERBOY_TIMEOUT_MS") ?? config?.network?.timeout_ms ?? DEFAULT_TIMEOUT_MS,
+    uploadMs: fromEnv("POSTERBOY_UPLOAD_TIMEOUT_MS") ?? config?.network?.upload_timeout_ms,
+  };
+}
+
+/**
+ * Get proxy and TLS settings
+ * HTTPS_PROXY / NO_PROXY env vars (or their lowercase forms) over
+ * network.proxy in config; POSTERBOY_CA_FILE over network.ca_file
+ */
+export function getNetworkPolicy(config?: Config | null): NetworkPolicy {
+  const env = (name: string) => process.env[name] || process.env[name.toLowerCase()];
+
+  const proxy = env("HTTPS_PROXY") || config?.network?.proxy;
+  if (proxy) {
+    let protocol: string | undefined;
+    try {
+      protocol = new URL(proxy).protocol;
+    } catch {
+      // Reported below
+    }
+    if (protocol !== "http:" && protocol !== "https:") {
+      throw new UserError(
+        `Invalid proxy URL: ${proxy}. Expected http://host:port or https://host:port`
+      );
+    }
+  }
+
+  const noProxy = (env("NO_PROXY") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+  const caFile = process.env.POSTERBOY_CA_FILE || config?.network?.ca_file;
+  let ca: string | undefined;
+  if (caFile) {
+    if (!existsSync(caFile)) {
+      throw new UserError(`CA bundle not found: ${caFile}`);
+    }
+    ca = readFileSync(caFile, "utf-8");
+  }
+
+  return { proxy: proxy || undefined, noProxy, ca };
+}
+
 /**
  * Get output format preference from all possible sources
  */
@@ -0,0 +1,241 @@
+// posterboy - Per-platform content rules
+//
+// Text, title, hashtag, mention and link limits checked before a post is
+// submitted, so an over-long caption fails locally with a clear message
+// instead of being rejected by the API. Lengths are counted in graphemes,
+// so an emoji with skin tone or a flag counts once.
+
+import type { Platform } from "../constants";
+import { UserError } from "./errors";
+import type { ContentIssue, PostType } from "./types";
+
+type CountedItem = "hashtags" | "mentions" | "links";
+
+interface SoftLimit {
+  max: number;
+  reason: string;
+}
+
+export interface ContentRules {
+  /** Max characters of the post text or caption */
+  text: number;
+  /** Max characters of a title shown apart from the caption (caption then comes from description) */
+  title?: number;
+  /** Hard limits: exceeding them is an error */
+  hashtags?: number;
+  mentions?: number;
+  links?: number;
+  /** Soft limits: exceeding them is a warning */
+  recommended?: Partial<Record<CountedItem, SoftLimit>>;
+  /** X-style weighted counting: URLs count 23, emoji and CJK count 2 */
+  weighted?: boolean;
+}
+
+export const CONTENT_RULES: Record<Platform, ContentRules> = {
+  tiktok:    { text: 2200 },
+  instagram: {
+    text: 2200,
+    hashtags: 30,
+    mentions: 20,
+    recommended: { links: { max: 0, reason: "links in Instagram captions are not clickable" } },
+  },
+  youtube:   {
+    text: 5000,
+    title: 100,
+    recommended: { hashtags: { max: 15, reason: "YouTube ignores all hashtags when there are more than 15" } },
+  },
+  linkedin:  { text: 3000 },
+  facebook:  { text: 63206 },
+  x:         { text: 280, weighted: true },
+  threads:   {
+    text: 500,
+    links: 5,
+    recommended: { hashtags: { max: 1, reason: "Threads only turns the first hashtag into a topic" } },
+  },
+  pinterest: { text: 500, title: 100 },
+  reddit:    { text: 40000, title: 300 },
+  bluesky:   { text: 300 },
+};
+
+const URL_PATTERN = /https?:\/\/[^\s]+/gu;
+const HASHTAG_PATTERN = /(?:^|\s)#[\p{L}\p{N}_]+/gu;
+const MENTION_PATTERN = /(?:^|[^\p{L}\p{N}_@])@[\p{L}\p{N}_.]+/gu;
+
+// X counts every URL as this many characters
+const X_URL_LENGTH = 23;
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+/**
+ * Count characters the way the platform does
+ */
+export function countCharacters(text: string, platform: Platform): number {
+  if (!CONTENT_RULES[platform].weighted) {
+    return graphemes(text).length;
+  }
+
+  let count = 0;
+  const withoutUrls = text.replace(URL_PATTERN, () => {
+    count += X_URL_LENGTH;
+    return "";
+  });
+  for (const grapheme of graphemes(withoutUrls)) {
+    count += graphemeWeight(grapheme);
+  }
+  return count;
+}
+
+/**
+ * Split text into user-perceived characters
+ */
+export function graphemes(text: string): string[] {
+  return Array.from(segmenter.segment(text), (s) => s.segment);
+}
+
+/**
+ * Check a post's text fields against the rules of each target platform
+ */
+export function checkPostContent(
+  type: PostType,
+  platforms: Platform[],
+  params: Record<string, unknown>
+): ContentIssue[] {
+  const issues: ContentIssue[] = [];
+
+  for (const platform of platforms) {
+    const rules = CONTENT_RULES[platform];
+    const fields = contentFields(type, platform, params);
+
+    if (fields.title && rules.title !== undefined) {
+      const length = countCharacters(fields.title.value, platform);
+      if (length > rules.title) {
+        issues.push({
+          platform,
+          level: "error",
+          field: fields.title.field,
+          message: `${fields.title.field} is ${length} characters, limit is ${rules.title}`,
+        });
+      }
+    }
+
+    if (!fields.body) continue;
+    const { field, value } = fields.body;
+
+    const length = countCharacters(value, platform);
+    if (length > rules.text) {
+      issues.push({
+        platform,
+        level: "error",
+        field,
+        message: `${field} is ${length} characters, limit is ${rules.text}`,
+      });
+    }
+
+    const counts: Record<CountedItem, number> = {
+      hashtags: value.match(HASHTAG_PATTERN)?.length ?? 0,
+      mentions: value.match(MENTION_PATTERN)?.length ?? 0,
+      links: value.match(URL_PATTERN)?.length ?? 0,
+    };
+    for (const item of ["hashtags", "mentions", "links"] as const) {
+      const max = rules[item];
+      const soft = rules.recommended?.[item];
+      const counted = `${counts[item]} ${counts[item] === 1 ? item.slice(0, -1) : item}`;
+      if (max !== undefined && counts[item] > max) {
+        issues.push({
+          platform,
+          level: "error",
+          field,
+          message: `${counted}, limit is ${max}`,
+        });
+      } else if (soft && counts[item] > soft.max) {
+        issues.push({
+          platform,
+          level: "warning",
+          field,
+          message: `${counted}: ${soft.reason}`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check post content, print warnings and throw on errors
+ * @throws UserError listing every content error
+ */
+export function validatePostContent(
+  type: PostType,
+  platforms: Platform[],
+  params: Record<string, unknown>
+): void {
+  const issues = checkPostContent(type, platforms, params);
+
+  for (const issue of issues.filter((i) => i.level === "warning")) {
+    console.error(`Warning: ${issue.platform}: ${issue.message}`);
+  }
+
+  const errors = issues
+    .filter((i) => i.level === "error")
+    .map((e) => `${e.platform}: ${e.message}`);
+  if (errors.length > 0) {
+    throw new UserError(
+      "Content exceeds platform limits:\n" +
+        errors.map((e) => `  ${e}`).join("\n") +
+        "\nShorten the content, or set a per-platform version (e.g. --x-title).",
+      errors.length > 1 ? errors : undefined
+    );
+  }
+}
+
+/**
+ * Text each platform will show for a post. A per-platform override
+ * (e.g. youtube_title) wins over the shared field.
+ */
+function contentFields(
+  type: PostType,
+  platform: Platform,
+  params: Record<string, unknown>
+): {
+  body?: { field: string; value: string };
+  title?: { field: string; value: string };
+} {
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = params[key];
+      if (typeof value === "string" && value.length > 0) return { field: key, value };
+    }
+    return undefined;
+  };
+
+  if (type === "text") {
+    return { body: pick(`${platform}_title`, "text") };
+  }
+  if (type === "document") {
+    return { body: pick("description") };
+  }
+  if (CONTENT_RULES[platform].title !== undefined) {
+    return {
+      title: pick(`${platform}_title`, "title"),
+      body: pick(`${platform}_description`, "description"),
+    };
+  }
+  return { body: pick(`${platform}_title`, "title") };
+}
+
+/**
+ * X weights: most Latin, Greek, Cyrillic and punctuation count 1;
+ * emoji and everything else (CJK, ...) count 2
+ */
+function graphemeWeight(grapheme: string): number {
+  if (/\p{Extended_Pictographic}/u.test(grapheme)) return 2;
+
+  const codePoint = grapheme.codePointAt(0)!;
+  const light =
+    codePoint <= 0x10ff ||
+    (codePoint >= 0x2000 && codePoint <= 0x200d) ||
+    (codePoint >= 0x2010 && codePoint <= 0x201f) ||
+    (codePoint >= 0x2032 && codePoint <= 0x2037);
+  return light ? 1 : 2;
+}
@@ -0,0 +1,130 @@
+// posterboy - Minimal RFC 4180 CSV reading and writing
+
+import { UserError } from "./errors";
+
+// A CSV row and the line of the file it starts on (1-based)
+export interface CsvRow {
+  line: number;
+  cells: string[];
+}
+
+// A data row keyed by the header, and the line of the file it starts on
+export interface CsvRecord {
+  line: number;
+  record: Record<string, string>;
+}
+
+/**
+ * Parse CSV text into rows of cells.
+ * Supports quoted cells with embedded commas, quotes ("") and newlines.
+ */
+export function parseCsv(text: string): string[][] {
+  return parseCsvRows(text).map((row) => row.cells);
+}
+
+/**
+ * Parse CSV text into rows of cells with their line numbers, so that
+ * messages can point at the line even when blank lines were skipped
+ */
+export function parseCsvRows(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  let i = 0;
+
+  // Strip UTF-8 BOM written by spreadsheet exports
+  if (text.charCodeAt(0) === 0xfeff) {
+    i = 1;
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      cell = "";
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new UserError("Invalid CSV: unterminated quoted field");
+  }
+
+  // Last row without trailing newline
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.cells.some((c) => c.trim().length > 0));
+}
+
+/**
+ * Parse CSV text into records keyed by the (trimmed) header row
+ */
+export function parseCsvRecords(text: string): CsvRecord[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.cells.map((h) => h.trim());
+  return rows.map(({ line, cells }) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      if (column) {
+        record[column] = cells[index] ?? "";
+      }
+    });
+    return { line, record };
+  });
+}
+
+/**
+ * Format rows as CSV text, quoting cells where needed
+ */
+export function formatCsv(rows: Array<Array<string | number | undefined>>): string {
+  return (
+    rows
+      .map((row) =>
+        row
+          .map((value) => {
+            const cell = value === undefined ? "" : String(value);
+            return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+          })
+          .join(",")
+      )
+      .join("\n") + "\n"
+  );
+}
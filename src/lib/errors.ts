@@ -30,6 +30,86 @@ export abstract class PosterBoyError extends Error {
  */
 export class UserError extends PosterBoyError {
   exitCode = EXIT_CODES.USER_ERROR;
+  /** Every problem found, when validation reported more than one */
+  errors?: string[];
+
+  constructor(message: string, errors?: string[]) {
+    super(message);
+    this.errors = errors;
+  }
+
+  override json() {
+    return {
+      ...super.json(),
+      ...(this.errors ? { errors: this.errors } : {}),
+    };
+  }
+}
+
+/**
+ * Collects validation problems so they can all be reported in one UserError,
+ * instead of the user fixing and rerunning once per problem.
+ */
+export class ValidationCollector {
+  private readonly problems: string[] = [];
+
+  /**
+   * Record a problem
+   */
+  add(message: string): void {
+    this.problems.push(message);
+  }
+
+  /**
+   * Run a check, recording a UserError instead of throwing it.
+   * Returns undefined if the check failed.
+   */
+  check<T>(check: () => T): T | undefined {
+    try {
+      return check();
+    } catch (error) {
+      if (!(error instanceof UserError)) throw error;
+      this.record(error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Run an async check, recording a UserError instead of throwing it
+   */
+  async checkAsync<T>(check: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await check();
+    } catch (error) {
+      if (!(error instanceof UserError)) throw error;
+      this.record(error);
+      return undefined;
+    }
+  }
+
+  get errors(): readonly string[] {
+    return this.problems;
+  }
+
+  /**
+   * @throws UserError listing every recorded problem
+   */
+  throwIfErrors(): void {
+    if (this.problems.length === 0) return;
+    if (this.problems.length === 1) {
+      throw new UserError(this.problems[0]!);
+    }
+
+    throw new UserError(
+      `Found ${this.problems.length} problems:\n` +
+        this.problems.map((p) => `  - ${p.replaceAll("\n", "\n    ")}`).join("\n"),
+      [...this.problems]
+    );
+  }
+
+  private record(error: UserError): void {
+    this.problems.push(...(error.errors ?? [error.message]));
+  }
 }
 
 /**
@@ -40,6 +120,8 @@ export class ApiError extends PosterBoyError {
   exitCode = EXIT_CODES.API_ERROR;
   statusCode: number;
   apiMessage: string;
+  /** Delay requested by a Retry-After header, if any */
+  retryAfterMs?: number;
   
   constructor(message: string, statusCode: number, apiMessage?: string) {
     super(message);
@@ -66,6 +148,14 @@ export class NetworkError extends PosterBoyError {
   exitCode = EXIT_CODES.NETWORK_ERROR;
 }
 
+/**
+ * Interrupted error - the user pressed Ctrl+C while posterboy was waiting
+ * Exit code: 130 (the shell's code for SIGINT)
+ */
+export class InterruptedError extends PosterBoyError {
+  exitCode = EXIT_CODES.INTERRUPTED;
+}
+
 /**
  * Rate limit error - extends ApiError with usage information
  */
@@ -96,6 +186,31 @@ export class RateLimitError extends ApiError {
   }
 }
 
+/**
+ * Publish error - the API accepted the post but one or more platforms
+ * did not publish it
+ * Exit code: 2 when nothing published, 4 when only some platforms failed
+ */
+export class PublishError extends PosterBoyError {
+  exitCode: number;
+  failedPlatforms: string[];
+
+  constructor(message: string, failedPlatforms: string[], partial = false) {
+    super(message);
+    this.failedPlatforms = failedPlatforms;
+    this.exitCode = partial ? EXIT_CODES.PARTIAL_FAILURE : EXIT_CODES.API_ERROR;
+  }
+
+  override json() {
+    return {
+      success: false as const,
+      error: this.message,
+      code: this.exitCode === EXIT_CODES.PARTIAL_FAILURE ? "PARTIAL_FAILURE" : "PUBLISH_FAILED",
+      failedPlatforms: this.failedPlatforms,
+    };
+  }
+}
+
 /**
  * Suggest a fix for common error scenarios
  */
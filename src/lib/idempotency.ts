@@ -0,0 +1,153 @@
+// posterboy - Idempotency keys for post submissions
+//
+// Every post is sent with an Idempotency-Key and the key is stored in the
+// local ledger together with a hash of the params. Rerunning the same post
+// (after a timeout, a crashed cron job, ...) finds the earlier attempt and
+// returns its result, or stops when its outcome is unknown, instead of
+// publishing twice.
+
+import { createHash, randomUUID } from "node:crypto";
+import { existsSync, statSync } from "node:fs";
+import { IDEMPOTENCY_WINDOW_HOURS } from "../constants";
+import type { ApiClient } from "./api";
+import { UserError } from "./errors";
+import { FINISHED_JOB_STATUSES, type Ledger } from "./ledger";
+import { summarizePostResult, summarizeStatus } from "./post-result";
+import type {
+  IdempotencyRecord,
+  LedgerEntry,
+  PostRequest,
+  PostResult,
+  StatusResult,
+} from "./types";
+
+export interface PriorSubmission {
+  /** Key to send with the request */
+  key: string;
+  /** Earlier result to return instead of posting again */
+  replay?: LedgerEntry;
+}
+
+/**
+ * Hash a post request for duplicate detection.
+ * Local media files contribute their path, size and mtime, never their bytes.
+ */
+export function hashPostRequest(request: PostRequest): string {
+  const params = request.params as unknown as Record<string, unknown>;
+  const files = [
+    ...("files" in params && Array.isArray(params.files) ? (params.files as string[]) : []),
+    ...("file" in params && typeof params.file === "string" ? [params.file] : []),
+  ];
+
+  const fingerprint = {
+    type: request.type,
+    params: sortKeys(params),
+    files: files.map((path) => {
+      if (!existsSync(path)) return { path };
+      const stat = statSync(path);
+      return { path, size: stat.size, mtime: stat.mtimeMs };
+    }),
+  };
+
+  return createHash("sha256").update(JSON.stringify(fingerprint)).digest("hex");
+}
+
+export function newIdempotencyKey(): string {
+  return `pb_${randomUUID()}`;
+}
+
+/**
+ * Look for an earlier submission of the same post.
+ *
+ * With an explicit key, the key itself identifies the post. Otherwise the
+ * most recent attempt with identical params inside the dedupe window is used.
+ */
+export async function findPriorSubmission(
+  ledger: Ledger,
+  client: ApiClient,
+  paramsHash: string,
+  explicitKey?: string
+): Promise<PriorSubmission> {
+  let prior: IdempotencyRecord | null;
+  if (explicitKey) {
+    prior = ledger.findIdempotencyKey(explicitKey);
+    if (prior && prior.params_hash !== paramsHash) {
+      throw new UserError(
+        `Idempotency key ${explicitKey} was already used for a different post.\n` +
+          "Use a new key, or --force to post anyway."
+      );
+    }
+  } else {
+    const since = new Date(Date.now() - IDEMPOTENCY_WINDOW_HOURS * 3600 * 1000);
+    prior = ledger.findRecentIdempotencyKey(paramsHash, since);
+  }
+
+  if (!prior) {
+    return { key: explicitKey ?? newIdempotencyKey() };
+  }
+
+  // The earlier attempt never got an answer and may have been published.
+  // The API does not document deduplicating by key, so never resend it.
+  if (!prior.entry) {
+    throw new UserError(
+      `An earlier attempt at this post (idempotency key ${prior.key}, sent ${prior.created_at}) ` +
+        "got no response, so it may have been published.\n" +
+        "Check with 'posterboy status' or 'posterboy history', or rerun with --force to post anyway."
+    );
+  }
+
+  if (await priorSucceeded(client, prior.entry)) {
+    return { key: prior.key, replay: prior.entry };
+  }
+
+  if (explicitKey) {
+    throw new UserError(
+      `The earlier post with idempotency key ${explicitKey} failed.\n` +
+        "Use a new key, or --force to post again."
+    );
+  }
+  return { key: newIdempotencyKey() };
+}
+
+/**
+ * Whether an earlier submission went through on every platform. Async
+ * uploads are checked with getStatus; one still being processed counts as
+ * going through.
+ * @throws UserError if the status of an async upload cannot be fetched
+ */
+async function priorSucceeded(client: ApiClient, entry: LedgerEntry): Promise<boolean> {
+  const result: PostResult = entry.result;
+  if (!result.success) return false;
+
+  const summary = summarizePostResult(result);
+  if (summary) return summary.status === "succeeded";
+
+  if (result.request_id && !result.scheduled) {
+    let status: StatusResult;
+    try {
+      status = await client.getStatus(result.request_id, "request_id");
+    } catch (error) {
+      throw new UserError(
+        `Could not check whether the earlier post #${entry.id} went through: ` +
+          `${error instanceof Error ? error.message : String(error)}\n` +
+          `Check it with 'posterboy status ${result.request_id}', then rerun, or use --force to post anyway.`
+      );
+    }
+    if (!FINISHED_JOB_STATUSES.includes(status.status)) return true;
+    return summarizeStatus(status).status === "succeeded";
+  }
+
+  return true;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,353 @@
+// posterboy - Auto-fit photos per platform
+//
+// With --auto-fit, a photo outside a platform's preferred shape is cropped
+// or padded into a copy for that platform. Platforms that need different
+// copies are posted separately, one request per set of photos.
+
+import { Buffer } from "node:buffer";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { basename, extname, join } from "node:path";
+import * as jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+import type { Platform } from "../constants";
+import type { ApiClient } from "./api";
+import { UserError, ValidationCollector } from "./errors";
+import { aspectRatio, imageOrientation } from "./media";
+import type { OutputFormatter } from "./output";
+import { submitPostRequest } from "./post-request";
+import type { SubmitOptions } from "./post-request";
+import { displayPostResult, summarizePostResult } from "./post-result";
+import type {
+  FitMode,
+  ImageMetadata,
+  PhotoFile,
+  PhotoPostParams,
+  PhotoVariant,
+  PhotoVariantResult,
+  PostSummary,
+} from "./types";
+
+export const FIT_MODES: readonly FitMode[] = ["crop", "pad"];
+
+/** Shape of each platform's copy, as width / height */
+export const FIT_RATIOS: Partial<Record<Platform, number>> = {
+  instagram: 4 / 5,
+  pinterest: 2 / 3,
+  x: 16 / 9,
+};
+
+// Photos within 1% of the shape are posted as they are
+const RATIO_TOLERANCE = 0.01;
+
+const JPEG_QUALITY = 90;
+
+// Padding is white (RGBA)
+const PAD_COLOR = [255, 255, 255, 255];
+
+/**
+ * Parse --auto-fit
+ */
+export function parseFitMode(value: unknown): FitMode {
+  if (!FIT_MODES.includes(value as FitMode)) {
+    throw new UserError(
+      `Invalid --auto-fit value: ${value}. Valid values: ${FIT_MODES.join(", ")}`
+    );
+  }
+  return value as FitMode;
+}
+
+/**
+ * Work out which photos each platform gets. Platforms that get the same
+ * photos share a variant; platforms without a preferred shape, or whose
+ * photos already have it, get the originals.
+ * @throws UserError listing every photo that needs fitting but cannot be decoded
+ */
+export function planAutoFit(
+  platforms: Platform[],
+  photos: PhotoFile[],
+  mode: FitMode
+): PhotoVariant[] {
+  const errors = new ValidationCollector();
+  const variants = new Map<string, PhotoVariant>();
+  const reported = new Set<string>();
+
+  for (const platform of platforms) {
+    const ratio = FIT_RATIOS[platform];
+    const needsFit = (photo: PhotoFile) =>
+      ratio !== undefined &&
+      (!photo.metadata ||
+        Math.abs(photo.metadata.width / photo.metadata.height - ratio) / ratio > RATIO_TOLERANCE);
+
+    if (ratio === undefined || !photos.some(needsFit)) {
+      addTo(variants, "", { platforms: [], photos }, platform);
+      continue;
+    }
+
+    const name = aspectRatio(ratio, 1);
+    for (const photo of photos.filter(needsFit)) {
+      const format = photo.metadata?.format;
+      if (format === "jpeg" || format === "png" || reported.has(photo.path)) continue;
+      reported.add(photo.path);
+      errors.add(
+        `Cannot auto-fit ${photo.path}: only JPEG and PNG photos can be cropped or padded` +
+          (format ? ` (this is ${format.toUpperCase()})` : "")
+      );
+    }
+
+    addTo(
+      variants,
+      name,
+      {
+        platforms: [],
+        aspect_ratio: name,
+        photos: photos.map((photo) =>
+          needsFit(photo) && photo.metadata
+            ? { ...photo, fitted: fittedSize(photo.metadata, ratio, mode) }
+            : photo
+        ),
+      },
+      platform
+    );
+  }
+
+  errors.throwIfErrors();
+  return [...variants.values()];
+}
+
+/**
+ * The photos of a variant as they will be uploaded
+ */
+export function variantPhotos(variant: PhotoVariant): PhotoFile[] {
+  return variant.photos.map((photo) => ({
+    path: photo.path,
+    metadata: photo.fitted ?? photo.metadata,
+  }));
+}
+
+/**
+ * Post each variant to its platforms, writing fitted copies to a temporary
+ * directory that is removed afterwards
+ */
+export async function postPhotoVariants(
+  client: ApiClient,
+  params: PhotoPostParams,
+  variants: PhotoVariant[],
+  mode: FitMode,
+  options: SubmitOptions = {}
+): Promise<{ variants: PhotoVariantResult[]; summary?: PostSummary }> {
+  const dir = mkdtempSync(join(tmpdir(), "posterboy-fit-"));
+  const posted: PhotoVariantResult[] = [];
+
+  try {
+    for (const [i, variant] of variants.entries()) {
+      const files = await writeVariant(variant, mode, dir);
+      const variantParams: PhotoPostParams = { ...params, platforms: variant.platforms, files };
+      const autoFit = variant.aspect_ratio && `${mode} ${variant.aspect_ratio}`;
+
+      const result = await submitPostRequest(
+        client,
+        { type: "photo", params: variantParams },
+        {
+          metadata: { ...options.metadata, ...(autoFit ? { auto_fit: autoFit } : {}) },
+          idempotencyKey: options.idempotencyKey && `${options.idempotencyKey}-${i + 1}`,
+          force: options.force,
+          onProgress: options.onProgress,
+          ledgerPath: options.ledgerPath,
+          context: options.context,
+          // Copies are written fresh on every run and removed afterwards, so
+          // the sources are compared and recorded (post retry fits them again)
+          recorded: {
+            type: "photo",
+            params: { ...variantParams, files: variant.photos.map((p) => p.path) },
+          },
+        }
+      );
+      posted.push({ platforms: variant.platforms, aspect_ratio: variant.aspect_ratio, result });
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  // Variants go to different platforms, so their results do not overlap
+  const immediate = posted.filter((v) => v.result.results);
+  const summary = immediate.length > 0
+    ? summarizePostResult({
+        success: true,
+        results: Object.assign({}, ...immediate.map((v) => v.result.results)),
+      })
+    : undefined;
+
+  return { variants: posted, summary };
+}
+
+/**
+ * Print the result of each variant in pretty mode
+ */
+export function displayPhotoVariants(
+  formatter: OutputFormatter,
+  variants: PhotoVariantResult[],
+  mode: FitMode
+): void {
+  for (const [i, variant] of variants.entries()) {
+    if (i > 0) formatter.pretty([""]);
+    const shape = variant.aspect_ratio
+      ? `${mode === "crop" ? "cropped" : "padded"} to ${variant.aspect_ratio}`
+      : "original photos";
+    formatter.pretty([formatter.header(`${variant.platforms.join(", ")} (${shape})`)]);
+    displayPostResult(formatter, variant.result, {
+      scheduled: "Photo post scheduled successfully!",
+      queued: "Photo post queued successfully!",
+      posted: "Posted photos",
+    });
+  }
+}
+
+/**
+ * Pretty lines describing the planned variants for --dry-run
+ */
+export function variantLines(
+  formatter: OutputFormatter,
+  variants: PhotoVariant[],
+  mode: FitMode
+): string[] {
+  const lines = ["", formatter.header(`Auto-fit (${mode}):`)];
+  for (const variant of variants) {
+    lines.push(`  ${formatter.label(variant.platforms.join(", "))}`);
+    for (const photo of variant.photos) {
+      const size = (m?: ImageMetadata) => (m ? `${m.width}x${m.height}` : "unknown size");
+      lines.push(
+        photo.fitted
+          ? `    ${photo.path} ${size(photo.metadata)} -> ${size(photo.fitted)} (${photo.fitted.aspect_ratio})`
+          : `    ${photo.path} ${formatter.muted(`${size(photo.metadata)}, as is`)}`
+      );
+    }
+  }
+  return lines;
+}
+
+function addTo(
+  variants: Map<string, PhotoVariant>,
+  key: string,
+  variant: PhotoVariant,
+  platform: Platform
+): void {
+  const existing = variants.get(key);
+  if (existing) {
+    existing.platforms.push(platform);
+  } else {
+    variants.set(key, { ...variant, platforms: [platform] });
+  }
+}
+
+/**
+ * Size of a photo cropped or padded to a shape, keeping its resolution
+ */
+function fittedSize(metadata: ImageMetadata, ratio: number, mode: FitMode): ImageMetadata {
+  const wider = metadata.width / metadata.height > ratio;
+  // Cropping a wide photo or padding a tall one changes its width
+  const size = (mode === "crop") === wider
+    ? { width: Math.round(metadata.height * ratio), height: metadata.height }
+    : { width: metadata.width, height: Math.round(metadata.width / ratio) };
+  return { ...metadata, ...size, aspect_ratio: aspectRatio(size.width, size.height) };
+}
+
+async function writeVariant(variant: PhotoVariant, mode: FitMode, dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const [i, photo] of variant.photos.entries()) {
+    if (!photo.fitted) {
+      files.push(photo.path);
+      continue;
+    }
+    const ext = extname(photo.path);
+    const name = `${i + 1}-${basename(photo.path, ext)}-${variant.aspect_ratio?.replace(":", "x")}-${mode}${ext}`;
+    const path = join(dir, name);
+    writeFileSync(path, await fitPhoto(photo.path, photo.fitted));
+    files.push(path);
+  }
+  return files;
+}
+
+interface RawImage {
+  width: number;
+  height: number;
+  // RGBA, row by row
+  data: Uint8Array;
+}
+
+/**
+ * Decode a photo, apply its EXIF orientation, centre it on a canvas of the
+ * fitted size (cropping or padding) and encode it in the same format
+ */
+async function fitPhoto(path: string, fitted: ImageMetadata): Promise<Uint8Array> {
+  const bytes = new Uint8Array(await Bun.file(path).arrayBuffer());
+  const orientation = fitted.format === "jpeg" ? await imageOrientation(path) : 1;
+
+  let source: RawImage;
+  try {
+    source = fitted.format === "jpeg"
+      ? jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true })
+      : PNG.sync.read(Buffer.from(bytes));
+  } catch (error) {
+    throw new UserError(
+      `Failed to decode ${path} for --auto-fit\n` +
+        `Error: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  const data = placeOnCanvas(source, orientation, fitted.width, fitted.height);
+  if (fitted.format === "jpeg") {
+    return jpeg.encode({ data, width: fitted.width, height: fitted.height }, JPEG_QUALITY).data;
+  }
+  const png = new PNG({ width: fitted.width, height: fitted.height });
+  png.data = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  return PNG.sync.write(png);
+}
+
+function placeOnCanvas(source: RawImage, orientation: number, width: number, height: number): Uint8Array {
+  const rotated = orientation >= 5;
+  const shownWidth = rotated ? source.height : source.width;
+  const shownHeight = rotated ? source.width : source.height;
+  // Negative offsets crop, positive offsets pad
+  const left = Math.floor((width - shownWidth) / 2);
+  const top = Math.floor((height - shownHeight) / 2);
+
+  const out = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const sx = x - left;
+      const sy = y - top;
+      if (sx < 0 || sy < 0 || sx >= shownWidth || sy >= shownHeight) {
+        out.set(PAD_COLOR, o);
+        continue;
+      }
+      const [px, py] = storedPixel(sx, sy, orientation, source.width, source.height);
+      const i = (py * source.width + px) * 4;
+      out.set(source.data.subarray(i, i + 4), o);
+    }
+  }
+  return out;
+}
+
+/**
+ * Position in the stored image of a pixel as shown, for EXIF orientations 1-8
+ */
+function storedPixel(
+  x: number,
+  y: number,
+  orientation: number,
+  width: number,
+  height: number
+): [number, number] {
+  switch (orientation) {
+    case 2: return [width - 1 - x, y];
+    case 3: return [width - 1 - x, height - 1 - y];
+    case 4: return [x, height - 1 - y];
+    case 5: return [y, x];
+    case 6: return [y, height - 1 - x];
+    case 7: return [width - 1 - y, height - 1 - x];
+    case 8: return [width - 1 - y, x];
+    default: return [x, y];
+  }
+}
@@ -0,0 +1,481 @@
+// posterboy - Local post ledger
+//
+// Every submission made through the CLI is recorded in a SQLite database
+// next to the config file, so request_id / job_id / published URLs can be
+// correlated with the caption and flags that produced them.
+
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { resolveConfigPath } from "./config";
+import type {
+  IdempotencyRecord,
+  JobQuery,
+  LedgerEntry,
+  LedgerQuery,
+  Platform,
+  PostRequest,
+  PostResult,
+  PostType,
+  StatusResult,
+  TrackedJob,
+} from "./types";
+
+/** Statuses after which a job is no longer polled */
+export const FINISHED_JOB_STATUSES = ["completed", "failed"];
+
+interface IdempotencyRow {
+  key: string;
+  params_hash: string;
+  created_at: string;
+  submission_id: number | null;
+}
+
+interface LedgerRow {
+  id: number;
+  created_at: string;
+  type: string;
+  profile: string;
+  platforms: string;
+  title: string;
+  request_id: string | null;
+  job_id: string | null;
+  success: number;
+  params: string;
+  result: string;
+  metadata: string | null;
+}
+
+interface JobRow {
+  id: string;
+  id_type: string;
+  submission_id: number;
+  created_at: string;
+  updated_at: string;
+  type: string;
+  profile: string;
+  platforms: string;
+  title: string;
+  status: string;
+  scheduled_date: string | null;
+  completed: number | null;
+  total: number | null;
+  error: string | null;
+  context: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS submissions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at TEXT NOT NULL,
+    type TEXT NOT NULL,
+    profile TEXT NOT NULL,
+    platforms TEXT NOT NULL,
+    title TEXT NOT NULL,
+    request_id TEXT,
+    job_id TEXT,
+    success INTEGER NOT NULL,
+    params TEXT NOT NULL,
+    result TEXT NOT NULL,
+    metadata TEXT
+  );
+  CREATE INDEX IF NOT EXISTS submissions_request_id ON submissions (request_id);
+  CREATE INDEX IF NOT EXISTS submissions_job_id ON submissions (job_id);
+  CREATE TABLE IF NOT EXISTS idempotency_keys (
+    key TEXT PRIMARY KEY,
+    params_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    submission_id INTEGER REFERENCES submissions (id)
+  );
+  CREATE INDEX IF NOT EXISTS idempotency_keys_params_hash ON idempotency_keys (params_hash);
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    id_type TEXT NOT NULL,
+    submission_id INTEGER NOT NULL REFERENCES submissions (id),
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    type TEXT NOT NULL,
+    profile TEXT NOT NULL,
+    platforms TEXT NOT NULL,
+    title TEXT NOT NULL,
+    status TEXT NOT NULL,
+    scheduled_date TEXT,
+    completed INTEGER,
+    total INTEGER,
+    error TEXT,
+    context TEXT
+  );
+  CREATE INDEX IF NOT EXISTS jobs_status ON jobs (status);
+`;
+
+// Columns added to tables after they were first created, for ledgers
+// written by an older version
+const ADDED_COLUMNS: Array<[table: string, column: string, definition: string]> = [
+  ["jobs", "context", "TEXT"],
+];
+
+/**
+ * Resolve ledger database path
+ * Respects POSTERBOY_LEDGER env var, otherwise lives next to the config file
+ * (the --config file when one is given)
+ */
+export function resolveLedgerPath(configPath?: string): string {
+  return process.env.POSTERBOY_LEDGER || join(dirname(resolveConfigPath(configPath)), "ledger.db");
+}
+
+export class Ledger {
+  private db: Database;
+
+  constructor(path: string = resolveLedgerPath()) {
+    if (path !== ":memory:") {
+      const dir = dirname(path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true, mode: 0o700 });
+      }
+    }
+    this.db = new Database(path, { create: true });
+    this.db.exec(SCHEMA);
+    this.addMissingColumns();
+  }
+
+  /**
+   * Record a submission and its result.
+   * Async uploads and scheduled posts are also tracked as jobs, along with
+   * the context they were posted with.
+   */
+  record(
+    request: PostRequest,
+    result: PostResult,
+    metadata?: Record<string, string>,
+    context?: string
+  ): number {
+    const params = request.params;
+    const platforms: Platform[] = "platforms" in params ? params.platforms : ["linkedin"];
+    const title = "text" in params ? params.text : params.title;
+
+    const inserted = this.db
+      .query(
+        `INSERT INTO submissions
+          (created_at, type, profile, platforms, title, request_id, job_id, success, params, result, metadata)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING id`
+      )
+      .get(
+        new Date().toISOString(),
+        request.type,
+        params.profile,
+        JSON.stringify(platforms),
+        title,
+        result.request_id ?? null,
+        result.job_id ?? null,
+        result.success ? 1 : 0,
+        JSON.stringify(params),
+        JSON.stringify(result),
+        metadata && Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null
+      ) as { id: number };
+
+    this.trackJob(inserted.id, request, result, context);
+    return inserted.id;
+  }
+
+  /**
+   * List entries, newest first
+   */
+  list(query: LedgerQuery = {}): LedgerEntry[] {
+    const where: string[] = [];
+    const args: Array<string | number> = [];
+
+    if (query.profile) {
+      where.push("profile = ?");
+      args.push(query.profile);
+    }
+    if (query.type) {
+      where.push("type = ?");
+      args.push(query.type);
+    }
+    if (query.platform) {
+      where.push("EXISTS (SELECT 1 FROM json_each(platforms) WHERE value = ?)");
+      args.push(query.platform);
+    }
+    if (query.search) {
+      where.push(
+        "(title LIKE ? ESCAPE '\\' OR params LIKE ? ESCAPE '\\' OR result LIKE ? ESCAPE '\\' OR metadata LIKE ? ESCAPE '\\')"
+      );
+      // Match % and _ literally rather than as wildcards
+      const pattern = `%${query.search.replace(/[\\%_]/g, "\\$&")}%`;
+      args.push(pattern, pattern, pattern, pattern);
+    }
+
+    let sql = "SELECT * FROM submissions";
+    if (where.length > 0) sql += ` WHERE ${where.join(" AND ")}`;
+    sql += " ORDER BY id DESC";
+    if (query.limit !== undefined) {
+      sql += " LIMIT ?";
+      args.push(query.limit);
+    }
+
+    return (this.db.query(sql).all(...args) as LedgerRow[]).map(toEntry);
+  }
+
+  /**
+   * Find an entry by ledger id, request_id or job_id
+   */
+  find(id: string): LedgerEntry | null {
+    const row = (
+      /^\d+$/.test(id)
+        ? this.db.query("SELECT * FROM submissions WHERE id = ?").get(Number(id))
+        : this.db
+            .query(
+              "SELECT * FROM submissions WHERE request_id = ? OR job_id = ? ORDER BY id DESC LIMIT 1"
+            )
+            .get(id, id)
+    ) as LedgerRow | null;
+
+    return row ? toEntry(row) : null;
+  }
+
+  /**
+   * Reserve an idempotency key before sending a request.
+   * Reusing a key resets it to a pending attempt for the new params.
+   */
+  reserveIdempotencyKey(key: string, paramsHash: string): void {
+    this.db
+      .query(
+        `INSERT INTO idempotency_keys (key, params_hash, created_at, submission_id)
+         VALUES (?, ?, ?, NULL)
+         ON CONFLICT (key) DO UPDATE SET
+           params_hash = excluded.params_hash,
+           created_at = excluded.created_at,
+           submission_id = NULL`
+      )
+      .run(key, paramsHash, new Date().toISOString());
+  }
+
+  /**
+   * Link an idempotency key to the recorded submission
+   */
+  completeIdempotencyKey(key: string, submissionId: number): void {
+    this.db
+      .query("UPDATE idempotency_keys SET submission_id = ? WHERE key = ?")
+      .run(submissionId, key);
+  }
+
+  /**
+   * Drop a pending key after the API definitely rejected the request
+   */
+  releaseIdempotencyKey(key: string): void {
+    this.db
+      .query("DELETE FROM idempotency_keys WHERE key = ? AND submission_id IS NULL")
+      .run(key);
+  }
+
+  findIdempotencyKey(key: string): IdempotencyRecord | null {
+    const row = this.db
+      .query("SELECT * FROM idempotency_keys WHERE key = ?")
+      .get(key) as IdempotencyRow | null;
+    return row ? this.toIdempotencyRecord(row) : null;
+  }
+
+  /**
+   * Most recent attempt with the given params hash since a point in time
+   */
+  findRecentIdempotencyKey(paramsHash: string, since: Date): IdempotencyRecord | null {
+    const row = this.db
+      .query(
+        `SELECT * FROM idempotency_keys
+         WHERE params_hash = ? AND created_at >= ?
+         ORDER BY created_at DESC LIMIT 1`
+      )
+      .get(paramsHash, since.toISOString()) as IdempotencyRow | null;
+    return row ? this.toIdempotencyRecord(row) : null;
+  }
+
+  /**
+   * List tracked jobs, newest first
+   */
+  listJobs(query: JobQuery = {}): TrackedJob[] {
+    let sql = "SELECT * FROM jobs";
+    const args: Array<string | number> = [];
+    if (query.pending) {
+      sql += ` WHERE status NOT IN (${FINISHED_JOB_STATUSES.map(() => "?").join(", ")})`;
+      args.push(...FINISHED_JOB_STATUSES);
+    }
+    sql += " ORDER BY created_at DESC, rowid DESC";
+    if (query.limit !== undefined) {
+      sql += " LIMIT ?";
+      args.push(query.limit);
+    }
+
+    return (this.db.query(sql).all(...args) as JobRow[]).map(toJob);
+  }
+
+  /**
+   * Store the latest status of a job.
+   * A scheduled post reported as pending stays scheduled until it publishes.
+   */
+  updateJob(id: string, status: StatusResult): void {
+    this.db
+      .query(
+        `UPDATE jobs SET
+           status = CASE WHEN status = 'scheduled' AND ?1 = 'pending' THEN status ELSE ?1 END,
+           completed = ?2, total = ?3, error = ?4, updated_at = ?5
+         WHERE id = ?6`
+      )
+      .run(
+        status.status,
+        status.completed ?? null,
+        status.total ?? null,
+        status.error ?? null,
+        new Date().toISOString(),
+        id
+      );
+  }
+
+  /**
+   * Delete finished jobs, optionally only those last updated before a date.
+   * Returns the number of jobs removed.
+   */
+  pruneJobs(before?: Date): number {
+    let sql = `DELETE FROM jobs WHERE status IN (${FINISHED_JOB_STATUSES.map(() => "?").join(", ")})`;
+    const args: string[] = [...FINISHED_JOB_STATUSES];
+    if (before) {
+      sql += " AND updated_at < ?";
+      args.push(before.toISOString());
+    }
+    return this.db.query(sql).run(...args).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private addMissingColumns(): void {
+    for (const [table, column, definition] of ADDED_COLUMNS) {
+      const columns = this.db.query(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      if (!columns.some((c) => c.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
+  private trackJob(
+    submissionId: number,
+    request: PostRequest,
+    result: PostResult,
+    context?: string
+  ): void {
+    const scheduled = !!(result.scheduled && result.job_id);
+    const async = !!(result.request_id && !result.results);
+    if (!scheduled && !async) return;
+
+    const params = request.params;
+    const now = new Date().toISOString();
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO jobs
+          (id, id_type, submission_id, created_at, updated_at, type, profile, platforms, title, status, scheduled_date, context)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        scheduled ? result.job_id! : result.request_id!,
+        scheduled ? "job_id" : "request_id",
+        submissionId,
+        now,
+        now,
+        request.type,
+        params.profile,
+        JSON.stringify("platforms" in params ? params.platforms : ["linkedin"]),
+        "text" in params ? params.text : params.title,
+        scheduled ? "scheduled" : "pending",
+        result.scheduled_date ?? null,
+        context ?? null
+      );
+  }
+
+  private toIdempotencyRecord(row: IdempotencyRow): IdempotencyRecord {
+    const entry = row.submission_id !== null ? this.find(String(row.submission_id)) : null;
+    return {
+      key: row.key,
+      params_hash: row.params_hash,
+      created_at: row.created_at,
+      ...(entry ? { entry } : {}),
+    };
+  }
+}
+
+/**
+ * Open the local ledger for a submission.
+ * Never fails the post itself: problems are reported as a warning and
+ * the post goes ahead without duplicate protection.
+ */
+export function openLedger(path: string = resolveLedgerPath()): Ledger | null {
+  try {
+    return new Ledger(path);
+  } catch (error) {
+    warnLedger(error);
+    return null;
+  }
+}
+
+/**
+ * Open the ledger only to read from it: null when there is no ledger yet,
+ * rather than creating an empty one
+ */
+export function openExistingLedger(path: string = resolveLedgerPath()): Ledger | null {
+  if (path !== ":memory:" && !existsSync(path)) return null;
+  return new Ledger(path);
+}
+
+/**
+ * Run a ledger write, downgrading failures to a warning
+ */
+export function safeLedgerWrite(fn: () => void): void {
+  try {
+    fn();
+  } catch (error) {
+    warnLedger(error);
+  }
+}
+
+function warnLedger(error: unknown): void {
+  console.error(
+    `Warning: could not record post in local ledger: ${error instanceof Error ? error.message : "Unknown error"}`
+  );
+}
+
+function toEntry(row: LedgerRow): LedgerEntry {
+  return {
+    id: row.id,
+    created_at: row.created_at,
+    type: row.type as PostType,
+    profile: row.profile,
+    platforms: JSON.parse(row.platforms) as Platform[],
+    title: row.title,
+    ...(row.request_id ? { request_id: row.request_id } : {}),
+    ...(row.job_id ? { job_id: row.job_id } : {}),
+    success: row.success === 1,
+    params: JSON.parse(row.params),
+    result: JSON.parse(row.result),
+    ...(row.metadata ? { metadata: JSON.parse(row.metadata) } : {}),
+  };
+}
+
+function toJob(row: JobRow): TrackedJob {
+  return {
+    id: row.id,
+    id_type: row.id_type as TrackedJob["id_type"],
+    submission_id: row.submission_id,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    type: row.type as PostType,
+    profile: row.profile,
+    platforms: JSON.parse(row.platforms) as Platform[],
+    title: row.title,
+    status: row.status,
+    ...(row.scheduled_date ? { scheduled_date: row.scheduled_date } : {}),
+    ...(row.completed !== null ? { completed: row.completed } : {}),
+    ...(row.total !== null ? { total: row.total } : {}),
+    ...(row.error ? { error: row.error } : {}),
+    ...(row.context ? { context: row.context } : {}),
+  };
+}
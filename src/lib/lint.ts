@@ -0,0 +1,73 @@
+// posterboy - Offline post linting
+//
+// Runs every local check the post/* commands would run on a post spec
+// and collects all problems instead of stopping at the first one. Nothing
+// is sent, so no API key or quota is needed.
+
+import { checkPostContent } from "./content-rules";
+import { UserError } from "./errors";
+import { checkImageMetadata, checkVideoMetadata } from "./media-rules";
+import { checkPostSpec, type SpecChecker } from "./post-request";
+import { checkThreadFields, splitThread, type SplitOptions } from "./thread";
+import type { Config, ContentIssue, LintIssue, LintReport } from "./types";
+
+export interface LintOptions {
+  /** Directory relative media paths are resolved against */
+  baseDir?: string;
+  /** Profile from the global --profile flag */
+  profile?: string;
+  /** Check text as a thread, the way 'post text --thread' splits it */
+  thread?: SplitOptions;
+}
+
+/**
+ * Lint a raw post spec (a manifest, or post flags converted to spec fields)
+ */
+export async function lintPostSpec(
+  source: string,
+  spec: Record<string, unknown>,
+  config: Config | null,
+  options: LintOptions = {}
+): Promise<LintReport> {
+  const issues: LintIssue[] = [];
+
+  const collect = (found: ContentIssue[]) => {
+    for (const issue of found) {
+      issues.push({ level: issue.level, platform: issue.platform, message: issue.message });
+    }
+  };
+
+  const checker: SpecChecker = {
+    run: async (step) => {
+      try {
+        return await step();
+      } catch (error) {
+        if (!(error instanceof UserError)) throw error;
+        for (const message of error.errors ?? [error.message]) {
+          issues.push({ level: "error", message });
+        }
+        return undefined;
+      }
+    },
+    content: (type, platforms, fields) => {
+      if (type === "text" && options.thread && typeof fields.text === "string") {
+        checkThreadFields(fields);
+        for (const text of splitThread(fields.text, platforms, options.thread)) {
+          collect(checkPostContent(type, platforms, { ...fields, text }));
+        }
+      } else {
+        collect(checkPostContent(type, platforms, fields));
+      }
+    },
+    video: (platforms, metadata) => collect(checkVideoMetadata(platforms, metadata)),
+    images: (platforms, photos) => collect(checkImageMetadata(platforms, photos)),
+  };
+
+  await checkPostSpec(spec, config, checker, options);
+
+  return {
+    source,
+    valid: issues.every((issue) => issue.level !== "error"),
+    issues,
+  };
+}
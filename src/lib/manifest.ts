@@ -0,0 +1,58 @@
+// posterboy - Campaign manifest files
+
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { UserError } from "./errors";
+
+export interface Manifest {
+  path: string;
+  baseDir: string;
+  spec: Record<string, unknown>;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Read a YAML or JSON post manifest.
+ * Relative media paths in the manifest are resolved against its directory.
+ * An optional `meta` map is split out for the local ledger.
+ */
+export function readManifest(path: string): Manifest {
+  const fullPath = resolve(path);
+  if (!existsSync(fullPath)) {
+    throw new UserError(`Manifest file not found: ${path}`);
+  }
+
+  const content = readFileSync(fullPath, "utf-8");
+  const ext = fullPath.split(".").pop()?.toLowerCase();
+
+  let parsed: unknown;
+  try {
+    parsed = ext === "json" ? JSON.parse(content) : Bun.YAML.parse(content);
+  } catch (error) {
+    throw new UserError(
+      `Failed to parse manifest: ${path}\n` +
+        `Error: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new UserError(`Manifest must contain a single post object: ${path}`);
+  }
+
+  const { meta, ...spec } = parsed as Record<string, unknown>;
+  if (meta !== undefined && (typeof meta !== "object" || meta === null || Array.isArray(meta))) {
+    throw new UserError(`Manifest meta must be a map of key: value pairs: ${path}`);
+  }
+
+  const metadata: Record<string, string> = {};
+  for (const [key, value] of Object.entries((meta ?? {}) as Record<string, unknown>)) {
+    metadata[key] = String(value);
+  }
+
+  return {
+    path: fullPath,
+    baseDir: dirname(fullPath),
+    spec,
+    metadata,
+  };
+}
@@ -0,0 +1,192 @@
+// posterboy - Per-platform media rules
+//
+// Duration, shape and count limits checked against the metadata read from
+// local videos and photos, so media that a platform would reject (or crop)
+// is caught before it is uploaded.
+
+import type { Platform } from "../constants";
+import { UserError } from "./errors";
+import { aspectRatio, formatDuration } from "./media";
+import type { ContentIssue, PhotoFile, VideoMetadata } from "./types";
+
+export interface VideoRules {
+  /** Shortest and longest accepted video, in seconds */
+  minDuration?: number;
+  maxDuration?: number;
+  /** Shown full-screen 9:16; other shapes get a warning */
+  vertical?: string;
+  /** Vertical videos up to this length are posted as Shorts */
+  shortsMaxDuration?: number;
+}
+
+export const VIDEO_RULES: Partial<Record<Platform, VideoRules>> = {
+  tiktok:    { minDuration: 3, maxDuration: 600, vertical: "TikTok shows videos full-screen at 9:16" },
+  instagram: { minDuration: 3, maxDuration: 900, vertical: "Reels are shown full-screen at 9:16" },
+  youtube:   { shortsMaxDuration: 60 },
+  x:         { minDuration: 0.5, maxDuration: 140 },
+};
+
+export interface ImageRules {
+  /** Narrowest and widest accepted shape, as width / height */
+  minRatio?: number;
+  maxRatio?: number;
+  /** Shape the platform displays best; other shapes get a warning */
+  recommendedRatio?: number;
+  recommendedReason?: string;
+  /** Most photos in one post */
+  maxImages?: number;
+}
+
+export const IMAGE_RULES: Partial<Record<Platform, ImageRules>> = {
+  instagram: { minRatio: 4 / 5, maxRatio: 1.91 },
+  pinterest: { recommendedRatio: 2 / 3, recommendedReason: "pins are shown best at 2:3" },
+  x:         { maxImages: 4 },
+};
+
+const VERTICAL_RATIO = 9 / 16;
+
+// Shapes within 1% of a limit are accepted
+const RATIO_TOLERANCE = 0.01;
+
+/**
+ * Check video metadata against the rules of each target platform
+ */
+export function checkVideoMetadata(
+  platforms: Platform[],
+  metadata: VideoMetadata
+): ContentIssue[] {
+  const issues: ContentIssue[] = [];
+  const { duration, width, height } = metadata;
+  const issue = (platform: Platform, level: ContentIssue["level"], message: string) =>
+    issues.push({ platform, level, field: "file", message });
+
+  for (const platform of platforms) {
+    const rules = VIDEO_RULES[platform];
+    if (!rules) continue;
+
+    if (rules.maxDuration !== undefined && duration > rules.maxDuration) {
+      issue(
+        platform,
+        "error",
+        `video is ${formatDuration(duration)}, limit is ${formatDuration(rules.maxDuration)}`
+      );
+    }
+    if (rules.minDuration !== undefined && duration < rules.minDuration) {
+      issue(
+        platform,
+        "error",
+        `video is ${duration}s, minimum is ${rules.minDuration}s`
+      );
+    }
+    if (rules.vertical && !sameRatio(width / height, VERTICAL_RATIO)) {
+      issue(platform, "warning", `aspect ratio is ${metadata.aspect_ratio}: ${rules.vertical}`);
+    }
+    if (
+      rules.shortsMaxDuration !== undefined &&
+      height >= width &&
+      duration > rules.shortsMaxDuration
+    ) {
+      issue(
+        platform,
+        "warning",
+        `vertical video is ${formatDuration(duration)}: only videos up to ` +
+          `${formatDuration(rules.shortsMaxDuration)} are posted as Shorts`
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check photos against the rules of each target platform. Remote photos are
+ * only counted; local photos that could not be read fail shape limits.
+ */
+export function checkImageMetadata(platforms: Platform[], photos: PhotoFile[]): ContentIssue[] {
+  const issues: ContentIssue[] = [];
+  const issue = (platform: Platform, level: ContentIssue["level"], message: string) =>
+    issues.push({ platform, level, field: "files", message });
+
+  for (const platform of platforms) {
+    const rules = IMAGE_RULES[platform];
+    if (!rules) continue;
+
+    if (rules.maxImages !== undefined && photos.length > rules.maxImages) {
+      issue(platform, "error", `${photos.length} photos, limit is ${rules.maxImages}`);
+    }
+
+    for (const { path, metadata, unreadable } of photos) {
+      if (!metadata) {
+        if (!unreadable) continue;
+        if (rules.minRatio !== undefined || rules.maxRatio !== undefined) {
+          issue(platform, "error", `${path} could not be read, so its shape cannot be checked`);
+        } else if (rules.recommendedRatio !== undefined) {
+          issue(platform, "warning", `${path} could not be read: ${rules.recommendedReason}`);
+        }
+        continue;
+      }
+      const ratio = metadata.width / metadata.height;
+      if (rules.minRatio !== undefined && ratio < rules.minRatio * (1 - RATIO_TOLERANCE)) {
+        issue(
+          platform,
+          "error",
+          `${path} is ${metadata.aspect_ratio}, narrowest accepted is ${aspectRatio(rules.minRatio, 1)}`
+        );
+      } else if (rules.maxRatio !== undefined && ratio > rules.maxRatio * (1 + RATIO_TOLERANCE)) {
+        issue(
+          platform,
+          "error",
+          `${path} is ${metadata.aspect_ratio}, widest accepted is ${aspectRatio(rules.maxRatio, 1)}`
+        );
+      } else if (rules.recommendedRatio !== undefined && !sameRatio(ratio, rules.recommendedRatio)) {
+        issue(platform, "warning", `${path} is ${metadata.aspect_ratio}: ${rules.recommendedReason}`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check video metadata, print warnings and throw on errors
+ * @throws UserError listing every platform the video does not fit
+ */
+export function validateVideoMetadata(platforms: Platform[], metadata: VideoMetadata): void {
+  reportIssues(
+    checkVideoMetadata(platforms, metadata),
+    "Video does not meet platform limits:",
+    "Trim the video, or leave out the platforms it does not fit."
+  );
+}
+
+/**
+ * Check photos, print warnings and throw on errors
+ * @throws UserError listing every platform a photo does not fit
+ */
+export function validateImageMetadata(platforms: Platform[], photos: PhotoFile[]): void {
+  reportIssues(
+    checkImageMetadata(platforms, photos),
+    "Photos do not meet platform requirements:",
+    "Crop the photos, or leave out the platforms they do not fit."
+  );
+}
+
+function reportIssues(issues: ContentIssue[], heading: string, hint: string): void {
+  for (const issue of issues.filter((i) => i.level === "warning")) {
+    console.error(`Warning: ${issue.platform}: ${issue.message}`);
+  }
+
+  const errors = issues
+    .filter((i) => i.level === "error")
+    .map((e) => `${e.platform}: ${e.message}`);
+  if (errors.length > 0) {
+    throw new UserError(
+      `${heading}\n` + errors.map((e) => `  ${e}`).join("\n") + `\n${hint}`,
+      errors.length > 1 ? errors : undefined
+    );
+  }
+}
+
+function sameRatio(ratio: number, target: number): boolean {
+  return Math.abs(ratio - target) / target <= RATIO_TOLERANCE;
+}
@@ -0,0 +1,569 @@
+// posterboy - Media inspection
+//
+// Reads container metadata (duration, resolution, codec, frame rate) from
+// MP4/MOV and WebM headers, and format and size from JPEG/PNG/GIF/WebP
+// headers, in the spirit of ffprobe but without needing it installed. Only
+// the headers are read, not the media data.
+
+import type { BunFile } from "bun";
+import type { ImageFormat, ImageMetadata, VideoMetadata } from "./types";
+
+// Bytes read from the start of a WebM file; Info and Tracks come before the clusters
+const WEBM_HEADER_BYTES = 1024 * 1024;
+
+// Bytes read to recognise PNG, GIF and WebP; their size is near the start
+const IMAGE_HEADER_BYTES = 32;
+
+// Ratios named in output, as width / height
+const NAMED_RATIOS: Array<[string, number]> = [
+  ["9:16", 9 / 16],
+  ["16:9", 16 / 9],
+  ["1:1", 1],
+  ["4:5", 4 / 5],
+  ["4:3", 4 / 3],
+  ["3:4", 3 / 4],
+  ["2:3", 2 / 3],
+  ["3:2", 3 / 2],
+  ["21:9", 21 / 9],
+];
+
+const MP4_CODECS: Record<string, string> = {
+  avc1: "h264",
+  avc3: "h264",
+  hvc1: "hevc",
+  hev1: "hevc",
+  av01: "av1",
+  vp09: "vp9",
+  vp08: "vp8",
+  mp4v: "mpeg4",
+  apch: "prores",
+  apcn: "prores",
+  apcs: "prores",
+  apco: "prores",
+  ap4h: "prores",
+};
+
+const WEBM_CODECS: Record<string, string> = {
+  V_VP8: "vp8",
+  V_VP9: "vp9",
+  V_AV1: "av1",
+  "V_MPEG4/ISO/AVC": "h264",
+  "V_MPEGH/ISO/HEVC": "hevc",
+};
+
+/**
+ * Read metadata of a local video file.
+ * Returns undefined for formats that cannot be inspected (e.g. AVI) or
+ * files whose headers cannot be parsed.
+ */
+export async function inspectVideo(filePath: string): Promise<VideoMetadata | undefined> {
+  const ext = filePath.toLowerCase().match(/\.([^./\\]+)$/)?.[1];
+  try {
+    const file = Bun.file(filePath);
+    if (ext === "mp4" || ext === "mov" || ext === "m4v") {
+      return await inspectMp4(file);
+    }
+    if (ext === "webm" || ext === "mkv") {
+      const header = new Uint8Array(await file.slice(0, WEBM_HEADER_BYTES).arrayBuffer());
+      return inspectWebm(header, file.size);
+    }
+  } catch {
+    // Unreadable or truncated headers: treat as unknown
+  }
+  return undefined;
+}
+
+/**
+ * Read format and size of a local image from its contents.
+ * Returns undefined when the file is not a JPEG, PNG, GIF or WebP image,
+ * or cannot be read.
+ */
+export async function inspectImage(filePath: string): Promise<ImageMetadata | undefined> {
+  try {
+    const file = Bun.file(filePath);
+    const header = new DataView(await file.slice(0, IMAGE_HEADER_BYTES).arrayBuffer());
+    let image = readImageHeader(header);
+    if (!image && header.byteLength >= 2 && header.getUint16(0) === 0xffd8) {
+      const jpeg = await readJpeg(file);
+      // Orientations 5-8 are rotated 90 or 270 degrees
+      image = jpeg && jpeg.orientation >= 5
+        ? { format: "jpeg", width: jpeg.height, height: jpeg.width }
+        : jpeg;
+    }
+    if (image && image.width > 0 && image.height > 0) {
+      return {
+        format: image.format,
+        width: image.width,
+        height: image.height,
+        aspect_ratio: aspectRatio(image.width, image.height),
+      };
+    }
+  } catch {
+    // Unreadable or truncated headers: treat as unknown
+  }
+  return undefined;
+}
+
+/**
+ * EXIF orientation of a JPEG (1-8), 1 when it has none or is not a JPEG
+ */
+export async function imageOrientation(filePath: string): Promise<number> {
+  try {
+    return (await readJpeg(Bun.file(filePath)))?.orientation ?? 1;
+  } catch {
+    return 1;
+  }
+}
+
+/**
+ * Describe width / height as a common ratio ("9:16"), or as "1.85:1"
+ */
+export function aspectRatio(width: number, height: number): string {
+  const ratio = width / height;
+  for (const [name, value] of NAMED_RATIOS) {
+    if (Math.abs(ratio - value) / value < 0.01) return name;
+  }
+  return `${ratio.toFixed(2)}:1`;
+}
+
+/**
+ * Format seconds as "45s" or "2m 20s"
+ */
+export function formatDuration(seconds: number): string {
+  const rounded = Math.round(seconds);
+  if (rounded < 60) return `${rounded}s`;
+  const minutes = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest === 0 ? `${minutes}m` : `${minutes}m ${rest}s`;
+}
+
+// MP4 / MOV (ISO base media file format)
+
+interface Box {
+  type: string;
+  /** Offset of the box payload */
+  start: number;
+  /** Offset just past the box */
+  end: number;
+}
+
+async function inspectMp4(file: BunFile): Promise<VideoMetadata | undefined> {
+  const size = file.size;
+  let brand = "";
+  let moov: DataView | undefined;
+
+  // Walk top-level boxes; moov may come after the media data
+  let offset = 0;
+  while (offset + 8 <= size) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    let boxSize = header.getUint32(0);
+    const type = fourcc(header, 4);
+    let headerSize = 8;
+    if (boxSize === 1) {
+      boxSize = Number(header.getBigUint64(8));
+      headerSize = 16;
+    } else if (boxSize === 0) {
+      boxSize = size - offset;
+    }
+    if (boxSize < headerSize) return undefined;
+
+    if (type === "ftyp") {
+      brand = fourcc(header, headerSize);
+    } else if (type === "moov") {
+      moov = new DataView(await file.slice(offset + headerSize, offset + boxSize).arrayBuffer());
+      break;
+    }
+    offset += boxSize;
+  }
+  if (!moov) return undefined;
+
+  let duration = 0;
+  let video: Omit<VideoMetadata, "container" | "duration" | "aspect_ratio"> | undefined;
+
+  for (const box of children(moov, 0, moov.byteLength)) {
+    if (box.type === "mvhd") {
+      const version = moov.getUint8(box.start);
+      const timescale = moov.getUint32(box.start + (version === 1 ? 20 : 12));
+      const units = version === 1
+        ? Number(moov.getBigUint64(box.start + 24))
+        : moov.getUint32(box.start + 16);
+      duration = timescale > 0 ? units / timescale : 0;
+    } else if (box.type === "trak" && !video) {
+      video = readVideoTrack(moov, box);
+    }
+  }
+  if (!video) return undefined;
+
+  return {
+    container: brand === "qt  " ? "mov" : "mp4",
+    duration: round(duration, 3),
+    width: video.width,
+    height: video.height,
+    aspect_ratio: aspectRatio(video.width, video.height),
+    codec: video.codec,
+    bitrate: duration > 0 ? Math.round((size * 8) / duration) : undefined,
+    frame_rate: video.frame_rate,
+  };
+}
+
+function readVideoTrack(
+  view: DataView,
+  trak: Box
+): Omit<VideoMetadata, "container" | "duration" | "aspect_ratio"> | undefined {
+  let width = 0;
+  let height = 0;
+  let handler = "";
+  let codec: string | undefined;
+  let timescale = 0;
+  let mediaDuration = 0;
+  let samples = 0;
+
+  for (const box of descendants(view, trak, ["mdia", "minf", "stbl"])) {
+    const version = view.getUint8(box.start);
+    switch (box.type) {
+      case "tkhd": {
+        // Matrix and size follow the fixed fields; v1 has 64-bit times
+        const base = box.start + (version === 1 ? 44 : 32);
+        const a = view.getInt32(base + 8) / 65536;
+        const b = view.getInt32(base + 12) / 65536;
+        width = Math.round(view.getUint32(base + 44) / 65536);
+        height = Math.round(view.getUint32(base + 48) / 65536);
+        // Rotated 90 or 270 degrees (phones record portrait video this way)
+        if (Math.abs(a) < 0.01 && Math.abs(Math.abs(b) - 1) < 0.01) {
+          [width, height] = [height, width];
+        }
+        break;
+      }
+      case "mdhd":
+        timescale = view.getUint32(box.start + (version === 1 ? 20 : 12));
+        mediaDuration = version === 1
+          ? Number(view.getBigUint64(box.start + 24))
+          : view.getUint32(box.start + 16);
+        break;
+      case "hdlr":
+        handler = fourcc(view, box.start + 8);
+        break;
+      case "stsd": {
+        const format = fourcc(view, box.start + 12);
+        codec = MP4_CODECS[format] ?? format.trim();
+        break;
+      }
+      case "stts": {
+        const entries = view.getUint32(box.start + 4);
+        for (let i = 0; i < entries; i++) {
+          samples += view.getUint32(box.start + 8 + i * 8);
+        }
+        break;
+      }
+    }
+  }
+
+  if (handler !== "vide" || width === 0 || height === 0) return undefined;
+
+  const seconds = timescale > 0 ? mediaDuration / timescale : 0;
+  return {
+    width,
+    height,
+    codec,
+    frame_rate: seconds > 0 && samples > 0 ? round(samples / seconds, 2) : undefined,
+  };
+}
+
+function* children(view: DataView, start: number, end: number): Generator<Box> {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) return;
+    yield { type: fourcc(view, offset + 4), start: offset + headerSize, end: offset + size };
+    offset += size;
+  }
+}
+
+/**
+ * Boxes inside a box, descending into the given container types
+ */
+function* descendants(view: DataView, parent: Box, containers: string[]): Generator<Box> {
+  for (const box of children(view, parent.start, parent.end)) {
+    if (containers.includes(box.type)) {
+      yield* descendants(view, box, containers);
+    } else {
+      yield box;
+    }
+  }
+}
+
+function fourcc(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+// WebM / Matroska (EBML)
+
+const EBML = {
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  DisplayWidth: 0x54b0,
+  DisplayHeight: 0x54ba,
+  Cluster: 0x1f43b675,
+} as const;
+
+interface Element {
+  id: number;
+  start: number;
+  end: number;
+}
+
+function inspectWebm(bytes: Uint8Array, fileSize: number): VideoMetadata | undefined {
+  const segment = elements(bytes, 0, bytes.length).find((e) => e.id === EBML.Segment);
+  if (!segment) return undefined;
+
+  let timecodeScale = 1_000_000;
+  let durationUnits = 0;
+  let video: { width: number; height: number; codec?: string; frameDuration?: number } | undefined;
+
+  for (const element of elements(bytes, segment.start, segment.end)) {
+    if (element.id === EBML.Info) {
+      for (const field of elements(bytes, element.start, element.end)) {
+        if (field.id === EBML.TimecodeScale) timecodeScale = readUint(bytes, field);
+        if (field.id === EBML.Duration) durationUnits = readFloat(bytes, field);
+      }
+    } else if (element.id === EBML.Tracks) {
+      for (const entry of elements(bytes, element.start, element.end)) {
+        if (entry.id !== EBML.TrackEntry || video) continue;
+        video = readWebmTrack(bytes, entry);
+      }
+    } else if (element.id === EBML.Cluster) {
+      break;
+    }
+  }
+  if (!video) return undefined;
+
+  const duration = (durationUnits * timecodeScale) / 1e9;
+  return {
+    container: "webm",
+    duration: round(duration, 3),
+    width: video.width,
+    height: video.height,
+    aspect_ratio: aspectRatio(video.width, video.height),
+    codec: video.codec,
+    bitrate: duration > 0 ? Math.round((fileSize * 8) / duration) : undefined,
+    frame_rate: video.frameDuration ? round(1e9 / video.frameDuration, 2) : undefined,
+  };
+}
+
+function readWebmTrack(
+  bytes: Uint8Array,
+  entry: Element
+): { width: number; height: number; codec?: string; frameDuration?: number } | undefined {
+  let type = 0;
+  let codec: string | undefined;
+  let frameDuration: number | undefined;
+  let width = 0;
+  let height = 0;
+  let displayWidth = 0;
+  let displayHeight = 0;
+
+  for (const field of elements(bytes, entry.start, entry.end)) {
+    switch (field.id) {
+      case EBML.TrackType:
+        type = readUint(bytes, field);
+        break;
+      case EBML.CodecID: {
+        const id = new TextDecoder().decode(bytes.subarray(field.start, field.end)).replace(/\0+$/, "");
+        codec = WEBM_CODECS[id] ?? id;
+        break;
+      }
+      case EBML.DefaultDuration:
+        frameDuration = readUint(bytes, field);
+        break;
+      case EBML.Video:
+        for (const setting of elements(bytes, field.start, field.end)) {
+          if (setting.id === EBML.PixelWidth) width = readUint(bytes, setting);
+          if (setting.id === EBML.PixelHeight) height = readUint(bytes, setting);
+          if (setting.id === EBML.DisplayWidth) displayWidth = readUint(bytes, setting);
+          if (setting.id === EBML.DisplayHeight) displayHeight = readUint(bytes, setting);
+        }
+        break;
+    }
+  }
+
+  // Track type 1 is video
+  if (type !== 1 || width === 0 || height === 0) return undefined;
+  return {
+    width: displayWidth || width,
+    height: displayHeight || height,
+    codec,
+    frameDuration,
+  };
+}
+
+/**
+ * Child elements within a byte range. Elements of unknown size (live
+ * streams) extend to the end of the range.
+ */
+function elements(bytes: Uint8Array, start: number, end: number): Element[] {
+  const result: Element[] = [];
+  let offset = start;
+  while (offset < end) {
+    const id = readVint(bytes, offset, true);
+    if (!id) break;
+    const size = readVint(bytes, offset + id.length, false);
+    if (!size) break;
+    const dataStart = offset + id.length + size.length;
+    const dataEnd = size.unknown ? end : Math.min(dataStart + size.value, end);
+    result.push({ id: id.value, start: dataStart, end: dataEnd });
+    offset = dataEnd;
+  }
+  return result;
+}
+
+function readVint(
+  bytes: Uint8Array,
+  offset: number,
+  keepMarker: boolean
+): { value: number; length: number; unknown: boolean } | undefined {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return undefined;
+  const length = Math.clz32(first) - 23;
+  if (offset + length > bytes.length) return undefined;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i]!;
+    if (bytes[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readUint(bytes: Uint8Array, element: Element): number {
+  let value = 0;
+  for (let i = element.start; i < element.end; i++) {
+    value = value * 256 + bytes[i]!;
+  }
+  return value;
+}
+
+function readFloat(bytes: Uint8Array, element: Element): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + element.start, element.end - element.start);
+  return view.byteLength === 4 ? view.getFloat32(0) : view.getFloat64(0);
+}
+
+// Images
+
+type ImageSize = { format: ImageFormat; width: number; height: number };
+
+function readImageHeader(header: DataView): ImageSize | undefined {
+  if (header.byteLength < 30) return undefined;
+  const tag = (offset: number) => fourcc(header, offset);
+
+  // PNG signature, then the IHDR chunk
+  if (header.getUint32(0) === 0x89504e47 && header.getUint32(4) === 0x0d0a1a0a) {
+    return { format: "png", width: header.getUint32(16), height: header.getUint32(20) };
+  }
+  if (tag(0) === "GIF8") {
+    return { format: "gif", width: header.getUint16(6, true), height: header.getUint16(8, true) };
+  }
+  if (tag(0) === "RIFF" && tag(8) === "WEBP") {
+    switch (tag(12)) {
+      case "VP8 ":
+        // Lossy: 14-bit sizes after the key frame start code
+        return {
+          format: "webp",
+          width: header.getUint16(26, true) & 0x3fff,
+          height: header.getUint16(28, true) & 0x3fff,
+        };
+      case "VP8L": {
+        // Lossless: 14-bit (size - 1) fields after the signature byte
+        const bits = header.getUint32(21, true);
+        return { format: "webp", width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      case "VP8X":
+        // Extended: 24-bit (canvas size - 1) fields
+        return { format: "webp", width: uint24(header, 24) + 1, height: uint24(header, 27) + 1 };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Walk JPEG segments up to the frame header, noting the EXIF orientation.
+ * The size is as stored, before orientation is applied.
+ */
+async function readJpeg(
+  file: BunFile
+): Promise<(ImageSize & { orientation: number }) | undefined> {
+  let orientation = 1;
+  let offset = 2;
+
+  while (offset + 4 <= file.size) {
+    const segment = new DataView(await file.slice(offset, offset + 4).arrayBuffer());
+    if (segment.getUint8(0) !== 0xff) return undefined;
+    const marker = segment.getUint8(1);
+    if (marker === 0xff) {
+      // Fill byte before a marker
+      offset += 1;
+      continue;
+    }
+    const length = segment.getUint16(2);
+    const payload = () => file.slice(offset + 4, offset + 2 + length).arrayBuffer();
+
+    if (marker === 0xe1) {
+      orientation = exifOrientation(new DataView(await payload())) ?? orientation;
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      // Start of frame: precision, then height and width
+      const frame = new DataView(await payload());
+      return { format: "jpeg", width: frame.getUint16(3), height: frame.getUint16(1), orientation };
+    } else if (marker === 0xda || marker === 0xd9) {
+      // Image data or end of image before any frame header
+      return undefined;
+    }
+    offset += 2 + length;
+  }
+  return undefined;
+}
+
+function exifOrientation(app1: DataView): number | undefined {
+  if (app1.byteLength < 14 || fourcc(app1, 0) !== "Exif") return undefined;
+  const tiff = 6;
+  const little = app1.getUint16(tiff) === 0x4949; // "II"
+  const ifd = tiff + app1.getUint32(tiff + 4, little);
+  const entries = app1.getUint16(ifd, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (app1.getUint16(entry, little) === 0x0112) {
+      return app1.getUint16(entry + 8, little);
+    }
+  }
+  return undefined;
+}
+
+function uint24(view: DataView, offset: number): number {
+  return view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
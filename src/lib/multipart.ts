@@ -0,0 +1,120 @@
+// posterboy - Streamed upload bodies
+//
+// fetch reads a whole FormData body into memory before sending it. Encoding
+// the multipart body as a stream instead reads files from disk as they are
+// sent, and lets the bytes be counted on the way out.
+
+import { randomUUID } from "node:crypto";
+
+export interface StreamedBody {
+  body: ReadableStream<Uint8Array>;
+  contentType: string;
+  length: number;
+}
+
+type Part = Uint8Array | Blob;
+
+/**
+ * Whether a form carries any files (and so is worth streaming)
+ */
+export function hasFiles(formData: FormData): boolean {
+  let found = false;
+  formData.forEach((value) => {
+    if (typeof value !== "string") found = true;
+  });
+  return found;
+}
+
+/**
+ * Bytes of file content in a form, leaving out multipart framing
+ */
+export function uploadSize(formData: FormData): number {
+  let size = 0;
+  formData.forEach((value) => {
+    if (typeof value !== "string") size += value.size;
+  });
+  return size;
+}
+
+/**
+ * Stream a form, calling onBytes with the running total of bytes sent
+ */
+export function streamBody(
+  formData: FormData,
+  onBytes: (sent: number, total: number) => void
+): StreamedBody {
+  const encoded = encodeMultipart(formData);
+  const length = encoded.parts.reduce(
+    (sum, part) => sum + (part instanceof Uint8Array ? part.byteLength : part.size),
+    0
+  );
+
+  const parts = encoded.parts.values();
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+  let sent = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      for (;;) {
+        if (reader) {
+          const { done, value } = await reader.read();
+          if (!done) {
+            sent += value.byteLength;
+            controller.enqueue(value);
+            onBytes(sent, length);
+            return;
+          }
+          reader = undefined;
+        }
+
+        const next = parts.next();
+        if (next.done) {
+          controller.close();
+          return;
+        }
+        if (next.value instanceof Uint8Array) {
+          sent += next.value.byteLength;
+          controller.enqueue(next.value);
+          onBytes(sent, length);
+          return;
+        }
+        reader = next.value.stream().getReader();
+      }
+    },
+    async cancel(reason) {
+      await reader?.cancel(reason);
+    },
+  });
+
+  return { body: stream, contentType: encoded.contentType, length };
+}
+
+/**
+ * Split a form into the parts of a multipart/form-data body, leaving files
+ * to be read when their turn comes
+ */
+function encodeMultipart(formData: FormData): { parts: Part[]; contentType: string } {
+  const boundary = `----posterboy${randomUUID().replace(/-/g, "")}`;
+  const encoder = new TextEncoder();
+  const parts: Part[] = [];
+
+  formData.forEach((value, name) => {
+    let header = `--${boundary}\r\nContent-Disposition: form-data; name="${escapeQuotes(name)}"`;
+    if (typeof value === "string") {
+      parts.push(encoder.encode(`${header}\r\n\r\n`), encoder.encode(value));
+    } else {
+      header += `; filename="${escapeQuotes(value.name)}"\r\n`;
+      header += `Content-Type: ${value.type || "application/octet-stream"}\r\n\r\n`;
+      parts.push(encoder.encode(header), value);
+    }
+    parts.push(encoder.encode("\r\n"));
+  });
+  parts.push(encoder.encode(`--${boundary}--\r\n`));
+
+  return { parts, contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+// Same escaping browsers use for field and file names
+function escapeQuotes(value: string): string {
+  return value.replace(/\r/g, "%0D").replace(/\n/g, "%0A").replace(/"/g, "%22");
+}
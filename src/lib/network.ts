@@ -0,0 +1,54 @@
+// posterboy - Proxy and TLS settings for outgoing requests
+//
+// Requests go through network.proxy or HTTPS_PROXY unless NO_PROXY names
+// the host, and trust the CA bundle from network.ca_file in addition to the
+// system roots (for proxies that re-sign TLS with an internal CA).
+
+import { rootCertificates } from "node:tls";
+import type { NetworkPolicy } from "./types";
+
+export interface FetchNetworkOptions {
+  proxy?: string;
+  tls?: { ca: string[] };
+}
+
+/**
+ * Extra fetch options for a request to url
+ */
+export function fetchOptions(policy: NetworkPolicy | undefined, url: string): FetchNetworkOptions {
+  const options: FetchNetworkOptions = {};
+  if (policy?.proxy && !bypassesProxy(url, policy.noProxy)) {
+    options.proxy = policy.proxy;
+  }
+  if (policy?.ca) {
+    options.tls = { ca: [...rootCertificates, policy.ca] };
+  }
+  return options;
+}
+
+/**
+ * Whether NO_PROXY exempts a URL: "*" matches everything, other entries
+ * match the host and its subdomains, optionally only on one port
+ */
+export function bypassesProxy(url: string, noProxy: string[]): boolean {
+  const { hostname, port, protocol } = new URL(url);
+  const host = hostname.toLowerCase();
+  const effectivePort = port || (protocol === "https:" ? "443" : "80");
+
+  return noProxy.some((entry) => {
+    if (entry === "*") return true;
+    const [name, entryPort] = entry.toLowerCase().split(":");
+    if (entryPort && entryPort !== effectivePort) return false;
+    const domain = name!.replace(/^\*?\./, "");
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Proxy URL with its password hidden, for verbose logs
+ */
+export function redactProxy(proxy: string): string {
+  const url = new URL(proxy);
+  if (url.password) url.password = "***";
+  return url.toString().replace(/\/$/, "");
+}
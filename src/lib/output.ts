@@ -3,6 +3,8 @@
  * Respects --json, --pretty flags, TTY detection, and NO_COLOR env var
  */
 
+import type { GlobalFlags } from "./types";
+
 type OutputMode = "json" | "pretty";
 
 // ANSI color codes
@@ -177,3 +179,27 @@ export function createOutputFormatter(
   
   return new OutputFormatter(mode, colorEnabled);
 }
+
+/**
+ * Enough of an API key to tell accounts apart, without printing it
+ */
+export function maskApiKey(apiKey: string): string {
+  return apiKey.length > 8 ? `****${apiKey.slice(-4)}` : "****";
+}
+
+/**
+ * Report a command that changed something: its result as JSON, or a
+ * one-line success message
+ */
+export function printDone(
+  globalFlags: Pick<GlobalFlags, "json" | "pretty">,
+  result: Record<string, unknown>,
+  message: string
+): void {
+  const formatter = createOutputFormatter(globalFlags.json, globalFlags.pretty, true);
+  if (formatter.mode() === "json") {
+    formatter.json(result);
+  } else {
+    formatter.pretty([formatter.success(message)]);
+  }
+}
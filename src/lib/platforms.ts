@@ -1,6 +1,6 @@
 import type { Platform } from "../constants";
 import { ALL_PLATFORMS } from "../constants";
-import { UserError } from "./errors";
+import { UserError, ValidationCollector } from "./errors";
 
 export const PLATFORM_CAPABILITIES = {
   tiktok:    { text: false, photo: true,  video: true,  document: false },
@@ -71,43 +71,46 @@ export function validateContentTypeForPlatforms(
 
 /**
  * Validate platform-specific required fields
- * @throws UserError if required fields are missing
+ * @throws UserError listing every missing field
  */
 export function validatePlatformRequirements(
   platforms: Platform[],
   params: Record<string, unknown>
 ): void {
+  const errors = new ValidationCollector();
   for (const platform of platforms) {
     switch (platform) {
       case "facebook":
         if (!params.facebook_page) {
-          throw new UserError(
+          errors.add(
             `Facebook requires --facebook-page flag.\n` +
-            `Tip: Set a default in ~/.posterboy/config.json:\n` +
-            `  "platform_defaults": { "facebook": { "page_id": "your-page-id" } }`
+            `Tip: Set a default with:\n` +
+            `  posterboy config set platform_defaults.facebook.page your-page-id`
           );
         }
         break;
 
       case "pinterest":
         if (!params.pinterest_board) {
-          throw new UserError(
+          errors.add(
             `Pinterest requires --pinterest-board flag.\n` +
-            `Tip: Set a default in ~/.posterboy/config.json:\n` +
-            `  "platform_defaults": { "pinterest": { "board_id": "your-board-id" } }`
+            `Tip: Set a default with:\n` +
+            `  posterboy config set platform_defaults.pinterest.board your-board-id`
           );
         }
         break;
 
       case "reddit":
         if (!params.reddit_subreddit) {
-          throw new UserError(
+          errors.add(
             `Reddit requires --reddit-subreddit flag.\n` +
-            `Tip: Set a default in ~/.posterboy/config.json:\n` +
-            `  "platform_defaults": { "reddit": { "subreddit": "yoursubreddit" } }`
+            `Tip: Set a default with:\n` +
+            `  posterboy config set platform_defaults.reddit.subreddit yoursubreddit`
           );
         }
         break;
     }
   }
+
+  errors.throwIfErrors();
 }
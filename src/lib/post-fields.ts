@@ -0,0 +1,367 @@
+// posterboy - Post fields
+//
+// The fields each post type accepts, as named in params, manifests and CSV
+// columns, how raw values are coerced into them, and how per-platform fields
+// a post leaves out are filled from defaults.
+
+import { ALL_PLATFORMS } from "../constants";
+import { UserError } from "./errors";
+import type {
+  Config,
+  DocumentPostParams,
+  Platform,
+  PhotoPostParams,
+  PostType,
+  TextPostParams,
+  VideoPostParams,
+} from "./types";
+
+export type FieldKind = "string" | "boolean" | "number" | "list";
+
+export const POST_TYPES: readonly PostType[] = ["text", "photo", "video", "document"];
+
+// Kind of field that holds a value of a params property's type
+type KindOf<T> = T extends boolean
+  ? "boolean"
+  : T extends number
+    ? "number"
+    : T extends readonly unknown[]
+      ? "list"
+      : "string";
+
+/**
+ * Fields of a params type with their kinds. Declaring a post type's fields
+ * against its params type keeps their names and kinds in step with it.
+ */
+export type FieldSchema<P> = { readonly [K in keyof P]?: KindOf<NonNullable<P[K]>> };
+
+const COMMON_FIELDS = {
+  profile: "string",
+  schedule: "string",
+  timezone: "string",
+  queue: "boolean",
+  async: "boolean",
+} as const;
+
+const TEXT_FIELDS = {
+  ...COMMON_FIELDS,
+  platforms: "list",
+  text: "string",
+  first_comment: "string",
+  x_title: "string",
+  x_reply_to: "string",
+  x_reply_settings: "string",
+  x_quote_tweet: "string",
+  x_long_text_as_post: "boolean",
+  x_poll_options: "list",
+  x_poll_duration: "number",
+  linkedin_title: "string",
+  linkedin_page: "string",
+  linkedin_visibility: "string",
+  facebook_title: "string",
+  facebook_page: "string",
+  facebook_link: "string",
+  threads_title: "string",
+  threads_long_text_as_post: "boolean",
+  reddit_subreddit: "string",
+  reddit_flair: "string",
+  bluesky_title: "string",
+  bluesky_reply_to: "string",
+} as const satisfies FieldSchema<TextPostParams>;
+
+const PHOTO_FIELDS = {
+  ...COMMON_FIELDS,
+  platforms: "list",
+  files: "list",
+  urls: "list",
+  title: "string",
+  description: "string",
+  first_comment: "string",
+  instagram_title: "string",
+  instagram_media_type: "string",
+  instagram_collaborators: "string",
+  instagram_location: "string",
+  instagram_user_tags: "string",
+  facebook_page: "string",
+  facebook_media_type: "string",
+  tiktok_title: "string",
+  tiktok_privacy: "string",
+  tiktok_disable_comments: "boolean",
+  tiktok_auto_music: "boolean",
+  tiktok_cover_index: "number",
+  x_title: "string",
+  x_thread_image_layout: "string",
+  linkedin_title: "string",
+  linkedin_page: "string",
+  linkedin_visibility: "string",
+  threads_title: "string",
+  pinterest_board: "string",
+  pinterest_link: "string",
+  pinterest_alt_text: "string",
+  reddit_subreddit: "string",
+  reddit_flair: "string",
+  bluesky_title: "string",
+} as const satisfies FieldSchema<PhotoPostParams>;
+
+const VIDEO_FIELDS = {
+  ...COMMON_FIELDS,
+  platforms: "list",
+  file: "string",
+  url: "string",
+  title: "string",
+  description: "string",
+  first_comment: "string",
+  tiktok_title: "string",
+  tiktok_privacy: "string",
+  tiktok_disable_duet: "boolean",
+  tiktok_disable_comment: "boolean",
+  tiktok_disable_stitch: "boolean",
+  tiktok_post_mode: "string",
+  tiktok_cover_timestamp: "number",
+  tiktok_brand_content: "boolean",
+  tiktok_brand_organic: "boolean",
+  tiktok_aigc: "boolean",
+  instagram_title: "string",
+  instagram_media_type: "string",
+  instagram_collaborators: "string",
+  instagram_cover_url: "string",
+  instagram_share_to_feed: "boolean",
+  instagram_audio_name: "string",
+  instagram_thumb_offset: "number",
+  youtube_title: "string",
+  youtube_description: "string",
+  youtube_tags: "string",
+  youtube_category: "string",
+  youtube_privacy: "string",
+  youtube_embeddable: "boolean",
+  youtube_license: "string",
+  youtube_kids: "boolean",
+  youtube_synthetic_media: "boolean",
+  youtube_language: "string",
+  youtube_thumbnail: "string",
+  youtube_recording_date: "string",
+  linkedin_title: "string",
+  linkedin_description: "string",
+  linkedin_page: "string",
+  linkedin_visibility: "string",
+  facebook_title: "string",
+  facebook_description: "string",
+  facebook_page: "string",
+  facebook_media_type: "string",
+  facebook_thumbnail_url: "string",
+  x_title: "string",
+  x_reply_settings: "string",
+  threads_title: "string",
+  pinterest_title: "string",
+  pinterest_description: "string",
+  pinterest_board: "string",
+  pinterest_link: "string",
+  pinterest_alt_text: "string",
+  reddit_title: "string",
+  reddit_subreddit: "string",
+  reddit_flair: "string",
+  bluesky_title: "string",
+} as const satisfies FieldSchema<VideoPostParams>;
+
+const DOCUMENT_FIELDS = {
+  ...COMMON_FIELDS,
+  file: "string",
+  url: "string",
+  title: "string",
+  description: "string",
+  linkedin_page: "string",
+  linkedin_visibility: "string",
+} as const satisfies FieldSchema<DocumentPostParams>;
+
+/**
+ * Fields that go into the params of each post type
+ */
+export const PARAMS_FIELDS = {
+  text: TEXT_FIELDS,
+  photo: PHOTO_FIELDS,
+  video: VIDEO_FIELDS,
+  document: DOCUMENT_FIELDS,
+} as const;
+
+/**
+ * Accepted fields per post type, keyed by their params name
+ */
+export const POST_FIELDS: Record<PostType, Record<string, FieldKind>> = {
+  ...PARAMS_FIELDS,
+  // Documents only go to LinkedIn; platforms is accepted to be checked
+  document: { ...DOCUMENT_FIELDS, platforms: "list" },
+};
+
+/**
+ * Copy the fields of a params type whose values have the kind its schema
+ * declares. Other fields, and values of the wrong kind, are left out.
+ */
+export function pickFields<P>(
+  schema: FieldSchema<P>,
+  fields: Record<string, unknown>
+): Partial<P> {
+  const params: Partial<P> = {};
+  for (const key of Object.keys(schema) as Array<keyof P & string>) {
+    const kind = schema[key];
+    const value = fields[key];
+    // The schema ties the kind of each field to its params type
+    if (kind && hasKind(value, kind)) params[key] = value as P[typeof key];
+  }
+  return params;
+}
+
+function hasKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case "string":
+      return typeof value === "string";
+    case "boolean":
+      return typeof value === "boolean";
+    case "number":
+      return typeof value === "number" && !isNaN(value);
+    case "list":
+      return Array.isArray(value) && value.every((item) => typeof item === "string");
+  }
+}
+
+/**
+ * Coerce a raw value (from YAML, JSON or a CSV cell) into the field's kind.
+ * Returns undefined for empty values so they are treated as not provided.
+ */
+export function coerceField(
+  key: string,
+  kind: FieldKind,
+  value: unknown
+): string | boolean | number | string[] | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  switch (kind) {
+    case "string":
+      if (typeof value === "string") return value;
+      if (typeof value === "number" || typeof value === "boolean") return String(value);
+      // Lists of tags/collaborators are sent as comma-separated strings
+      if (Array.isArray(value)) return value.map(String).join(",");
+      break;
+
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (typeof value === "string") {
+        const normalized = value.trim().toLowerCase();
+        if (["true", "yes", "1"].includes(normalized)) return true;
+        if (["false", "no", "0"].includes(normalized)) return false;
+      }
+      break;
+
+    case "number":
+      if (typeof value === "number" && !isNaN(value)) return value;
+      if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) {
+        return Number(value);
+      }
+      break;
+
+    case "list":
+      if (Array.isArray(value)) return value.map((v) => String(v).trim()).filter((v) => v.length > 0);
+      if (typeof value === "string") {
+        return value
+          .split(",")
+          .map((v) => v.trim())
+          .filter((v) => v.length > 0);
+      }
+      break;
+  }
+
+  throw new UserError(`Invalid value for ${key}: expected ${kind}, got ${JSON.stringify(value)}`);
+}
+
+/**
+ * Raw post spec from the flags of 'post <type>': each field is read from
+ * its --kebab-case flag, where given. Repeated list flags may each hold
+ * comma-separated values.
+ */
+export function specFromFlags(
+  type: PostType,
+  values: Record<string, unknown>
+): Record<string, unknown> {
+  const spec: Record<string, unknown> = { type };
+  for (const [field, kind] of Object.entries(POST_FIELDS[type])) {
+    const value = values[field.replaceAll("_", "-")];
+    if (value === undefined) continue;
+    spec[field] = kind === "list" && Array.isArray(value) ? value.join(",") : value;
+  }
+  return spec;
+}
+
+// Per-platform settings that can have a default. Content (titles,
+// descriptions, replies, polls, tags, covers, ...) always comes from the post.
+const DEFAULTABLE_OPTIONS: Record<Platform, readonly string[]> = {
+  tiktok: [
+    "privacy", "post_mode", "disable_comments", "disable_comment", "disable_duet",
+    "disable_stitch", "auto_music", "brand_content", "brand_organic", "aigc",
+  ],
+  instagram: ["media_type", "share_to_feed", "collaborators", "location"],
+  youtube: ["privacy", "category", "embeddable", "license", "kids", "synthetic_media", "language"],
+  linkedin: ["page", "visibility"],
+  facebook: ["page", "media_type", "link"],
+  x: ["reply_settings", "long_text_as_post", "thread_image_layout"],
+  threads: ["long_text_as_post"],
+  pinterest: ["board", "link"],
+  reddit: ["subreddit", "flair"],
+  bluesky: [],
+};
+
+/**
+ * Per-platform options that can have a default, by platform and option name
+ * (youtube.privacy is the youtube_privacy field)
+ */
+export const PLATFORM_OPTIONS = collectPlatformOptions();
+
+function collectPlatformOptions(): Record<Platform, Record<string, FieldKind>> {
+  const options = Object.fromEntries(
+    ALL_PLATFORMS.map((platform) => [platform, {}])
+  ) as Record<Platform, Record<string, FieldKind>>;
+  for (const fields of Object.values(POST_FIELDS)) {
+    for (const [field, kind] of Object.entries(fields)) {
+      const platform = ALL_PLATFORMS.find((p) => field.startsWith(`${p}_`));
+      const option = platform && field.slice(platform.length + 1);
+      if (platform && option && DEFAULTABLE_OPTIONS[platform].includes(option)) {
+        options[platform][option] = kind;
+      }
+    }
+  }
+  return options;
+}
+
+/**
+ * Fill the per-platform settings a post leaves out, for the platforms it
+ * targets. A field set by a flag or the post spec wins, then the
+ * POSTERBOY_<FIELD> environment variable (e.g. POSTERBOY_YOUTUBE_PRIVACY),
+ * then platform_defaults in the config.
+ */
+export function applyPlatformDefaults(
+  type: PostType,
+  platforms: Platform[],
+  params: object,
+  config: Config | null
+): void {
+  const fields = params as Record<string, unknown>;
+  for (const platform of platforms) {
+    for (const [option, kind] of Object.entries(PLATFORM_OPTIONS[platform])) {
+      const field = `${platform}_${option}`;
+      if (fields[field] !== undefined || !(field in POST_FIELDS[type])) continue;
+
+      const envVar = `POSTERBOY_${field.toUpperCase()}`;
+      const value =
+        process.env[envVar] !== undefined
+          ? coerceField(envVar, kind, process.env[envVar])
+          : coerceField(
+              `platform_defaults.${platform}.${option}`,
+              kind,
+              config?.platform_defaults?.[platform]?.[option]
+            );
+      if (value !== undefined) {
+        fields[field] = value;
+      }
+    }
+  }
+}
@@ -0,0 +1,515 @@
+// posterboy - Declarative post requests
+//
+// Turns a loosely-typed post description (a manifest file, a CSV row) into
+// fully validated TextPostParams / PhotoPostParams / VideoPostParams /
+// DocumentPostParams, applying the same checks as the post/* commands.
+
+import { resolve } from "node:path";
+import { ALL_PLATFORMS } from "../constants";
+import type { ApiClient } from "./api";
+import { getDefaultProfile } from "./config";
+import { ApiError, NetworkError, UserError, ValidationCollector } from "./errors";
+import { validatePostContent } from "./content-rules";
+import { validateImageMetadata, validateVideoMetadata } from "./media-rules";
+import { findPriorSubmission, hashPostRequest, newIdempotencyKey } from "./idempotency";
+import { openLedger, safeLedgerWrite } from "./ledger";
+import { PARAMS_FIELDS, POST_FIELDS, POST_TYPES, applyPlatformDefaults, coerceField, pickFields } from "./post-fields";
+import {
+  validateContentTypeForPlatforms,
+  validatePlatformRequirements,
+} from "./platforms";
+import type {
+  Config,
+  DocumentPostParams,
+  PhotoFile,
+  PhotoPostParams,
+  Platform,
+  PostRequest,
+  PostResult,
+  PostType,
+  RequestOptions,
+  TextPostParams,
+  VideoMetadata,
+  VideoPostParams,
+} from "./types";
+import {
+  validateDocumentFile,
+  validateISODate,
+  validateMutuallyExclusive,
+  validatePhotoFiles,
+  validatePlatforms,
+  validateTimezone,
+  validateVideoFile,
+} from "./validation";
+
+/**
+ * Validate a post type name
+ * @throws UserError if the type is missing or unknown
+ */
+export function validatePostType(type: unknown): PostType {
+  if (typeof type !== "string" || !POST_TYPES.includes(type as PostType)) {
+    throw new UserError(
+      `Invalid post type: ${type === undefined ? "(missing)" : String(type)}.\n` +
+        `Valid types: ${POST_TYPES.join(", ")}`
+    );
+  }
+  return type as PostType;
+}
+
+/**
+ * Normalize a raw post spec into a flat map of coerced fields.
+ *
+ * Per-platform options may be given flat (`youtube_tags: ...`) or nested
+ * under the platform name (`youtube: { tags: ... }`). `body` is accepted
+ * as an alias for `text`.
+ */
+export function normalizePostFields(
+  type: PostType,
+  spec: Record<string, unknown>
+): Record<string, unknown> {
+  const allowed = POST_FIELDS[type];
+  const flat: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(spec)) {
+    if (key === "type") continue;
+
+    if (
+      ALL_PLATFORMS.includes(key as Platform) &&
+      value !== null &&
+      typeof value === "object" &&
+      !Array.isArray(value)
+    ) {
+      for (const [option, optionValue] of Object.entries(value as Record<string, unknown>)) {
+        flat[`${key}_${option}`] = optionValue;
+      }
+    } else if (key === "body" && type === "text") {
+      flat.text = value;
+    } else {
+      flat[key] = value;
+    }
+  }
+
+  const unknown = Object.keys(flat).filter((key) => !(key in allowed));
+  if (unknown.length > 0) {
+    throw new UserError(
+      `Unknown fields for ${type} post: ${unknown.join(", ")}.\n` +
+        `Valid fields: ${Object.keys(allowed).join(", ")}`
+    );
+  }
+
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(flat)) {
+    const coerced = coerceField(key, allowed[key]!, value);
+    if (coerced !== undefined) {
+      fields[key] = coerced;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Runs the validation steps of a post spec, so that every problem is
+ * found before any is reported
+ */
+export interface SpecChecker {
+  /** Run one step; resolves to undefined if the step failed and was recorded */
+  run<T>(step: () => T | Promise<T>): Promise<T | undefined>;
+  /** Check text fields against platform limits */
+  content(type: PostType, platforms: Platform[], fields: Record<string, unknown>): void;
+  /** Check a local video's duration and shape against platform limits */
+  video(platforms: Platform[], metadata: VideoMetadata): void;
+  /** Check photo shapes and counts against platform requirements */
+  images(platforms: Platform[], photos: PhotoFile[]): void;
+}
+
+/**
+ * Build a fully validated post request from a raw post spec.
+ *
+ * Resolves profile, platforms and platform defaults the same way the
+ * post/* commands do, and runs the same validation before anything is sent.
+ * @throws UserError listing every problem found
+ */
+export async function buildPostRequest(
+  spec: Record<string, unknown>,
+  config: Config | null,
+  options?: { baseDir?: string; profile?: string }
+): Promise<PostRequest> {
+  const errors = new ValidationCollector();
+  const request = await checkPostSpec(spec, config, collectingChecker(errors), options);
+  errors.throwIfErrors();
+  return request!;
+}
+
+/**
+ * A checker that records every problem in the given collector, so callers
+ * can report them together with checks of their own
+ */
+export function collectingChecker(errors: ValidationCollector): SpecChecker {
+  return {
+    run: (step) => errors.checkAsync(async () => step()),
+    content: validatePostContent,
+    video: validateVideoMetadata,
+    images: validateImageMetadata,
+  };
+}
+
+/**
+ * Validate a raw post spec step by step through the given checker.
+ * Returns undefined if the type or fields are too broken to check further.
+ */
+export async function checkPostSpec(
+  spec: Record<string, unknown>,
+  config: Config | null,
+  checker: SpecChecker,
+  options?: { baseDir?: string; profile?: string }
+): Promise<PostRequest | undefined> {
+  const type = await checker.run(() => validatePostType(spec.type));
+  if (!type) return undefined;
+  const fields = await checker.run(() => normalizePostFields(type, spec));
+  if (!fields) return undefined;
+
+  // Resolve profile (spec > global flag > env/config)
+  const profile =
+    (fields.profile as string | undefined) ||
+    options?.profile ||
+    getDefaultProfile(undefined, config);
+
+  await checker.run(() => {
+    if (!profile) {
+      throw new UserError(
+        "Profile required. Provide one of:\n" +
+          "  --profile <name>                           (command flag)\n" +
+          '  "profile": "<name>"                        (in a post spec)\n' +
+          "  --profile <name> (global flag)             (before 'post')\n" +
+          "  POSTERBOY_PROFILE=<name>                   (environment variable)\n" +
+          '  "default_profile": "<name>"                (in ~/.posterboy/config.json)'
+      );
+    }
+  });
+  fields.profile = profile;
+
+  const platforms = await checker.run(() => resolvePostPlatforms(type, fields, config));
+  if (platforms) {
+    applyPlatformDefaults(type, platforms, fields, config);
+
+    // Validate platform-specific requirements
+    await checker.run(() => validatePlatformRequirements(platforms, fields));
+
+    // Validate text lengths and counts against platform limits
+    await checker.run(() => checker.content(type, platforms, fields));
+  }
+
+  // Validate scheduling fields
+  await checker.run(() => {
+    if (fields.schedule && fields.queue) {
+      throw new UserError(
+        "schedule and queue are mutually exclusive.\n" +
+          "Use schedule for a specific date/time, or queue to use the next available slot."
+      );
+    }
+  });
+  if (fields.schedule) {
+    await checker.run(() => validateISODate(fields.schedule as string));
+  }
+  if (fields.timezone) {
+    await checker.run(() => validateTimezone(fields.timezone as string));
+  }
+
+  const resolvePath = (path: string) =>
+    options?.baseDir ? resolve(options.baseDir, path) : path;
+
+  switch (type) {
+    case "text": {
+      await checker.run(() => {
+        if (!fields.text || (fields.text as string).trim().length === 0) {
+          throw new UserError("Text content cannot be empty");
+        }
+      });
+      const pollOptions = fields.x_poll_options as string[] | undefined;
+      await checker.run(() => {
+        if (pollOptions && (pollOptions.length < 2 || pollOptions.length > 4)) {
+          throw new UserError(
+            `X polls require 2-4 options. You provided ${pollOptions.length}.`
+          );
+        }
+      });
+      const pollDuration = fields.x_poll_duration as number | undefined;
+      await checker.run(() => {
+        if (pollDuration !== undefined && (pollDuration < 5 || pollDuration > 10080)) {
+          throw new UserError(
+            "Invalid poll duration. Must be a number between 5 and 10080 minutes (5 minutes to 7 days)."
+          );
+        }
+      });
+      break;
+    }
+
+    case "photo": {
+      await checker.run(() => requireTitle(type, fields));
+      await checker.run(() =>
+        validateMutuallyExclusive(
+          { files: !!fields.files, urls: !!fields.urls },
+          "Photo source required. Provide exactly one of: files, urls"
+        )
+      );
+      let photos: PhotoFile[] | undefined;
+      if (fields.files) {
+        fields.files = (fields.files as string[]).map(resolvePath);
+        photos = await checker.run(() => validatePhotoFiles(fields.files as string[]));
+      } else if (fields.urls) {
+        // Remote photos can only be counted
+        photos = (fields.urls as string[]).map((url) => ({ path: url }));
+      }
+      if (photos && platforms) {
+        await checker.run(() => checker.images(platforms, photos));
+      }
+      break;
+    }
+
+    case "video": {
+      await checker.run(() => requireTitle(type, fields));
+      await checker.run(() =>
+        validateMutuallyExclusive(
+          { file: !!fields.file, url: !!fields.url },
+          "Video source required. Provide exactly one of: file, url"
+        )
+      );
+      if (fields.file) {
+        fields.file = resolvePath(fields.file as string);
+        const video = await checker.run(() => validateVideoFile(fields.file as string));
+        // Auto-async for large files (>50MB), same as 'post video'
+        if (video && video.size > 50 * 1024 * 1024 && fields.async === undefined) {
+          fields.async = true;
+        }
+        const metadata = video?.metadata;
+        if (metadata && platforms) {
+          await checker.run(() => checker.video(platforms, metadata));
+        }
+      }
+      break;
+    }
+
+    case "document": {
+      await checker.run(() => requireTitle(type, fields));
+      await checker.run(() =>
+        validateMutuallyExclusive(
+          { file: !!fields.file, url: !!fields.url },
+          "Document source required. Provide exactly one of: file, url"
+        )
+      );
+      if (fields.file) {
+        fields.file = resolvePath(fields.file as string);
+        await checker.run(() => validateDocumentFile(fields.file as string));
+      }
+      break;
+    }
+  }
+
+  return toPostRequest(type, fields, profile ?? "", platforms ?? []);
+}
+
+/**
+ * The typed request for checked fields. A required field whose check
+ * failed is left empty; the checker has already recorded why.
+ */
+function toPostRequest(
+  type: PostType,
+  fields: Record<string, unknown>,
+  profile: string,
+  platforms: Platform[]
+): PostRequest {
+  const required = (key: string): string => {
+    const value = fields[key];
+    return typeof value === "string" ? value : "";
+  };
+
+  switch (type) {
+    case "text": {
+      const params = pickFields<TextPostParams>(PARAMS_FIELDS.text, fields);
+      return { type, params: { ...params, profile, platforms, text: required("text") } };
+    }
+    case "photo": {
+      const params = pickFields<PhotoPostParams>(PARAMS_FIELDS.photo, fields);
+      return { type, params: { ...params, profile, platforms, title: required("title") } };
+    }
+    case "video": {
+      const params = pickFields<VideoPostParams>(PARAMS_FIELDS.video, fields);
+      return { type, params: { ...params, profile, platforms, title: required("title") } };
+    }
+    case "document": {
+      const params = pickFields<DocumentPostParams>(PARAMS_FIELDS.document, fields);
+      return { type, params: { ...params, profile, title: required("title") } };
+    }
+  }
+}
+
+/**
+ * Resolve the platforms a post targets and check they support its type.
+ * Documents are LinkedIn-only and carry no platform list.
+ */
+function resolvePostPlatforms(
+  type: PostType,
+  fields: Record<string, unknown>,
+  config: Config | null
+): Platform[] {
+  if (type === "document") {
+    const requested = (fields.platforms as string[] | undefined) ?? ["linkedin"];
+    const nonLinkedin = requested.filter((p) => p !== "linkedin");
+    if (nonLinkedin.length > 0) {
+      throw new UserError(
+        `Document posts are only supported on LinkedIn. Unsupported: ${nonLinkedin.join(", ")}`
+      );
+    }
+    delete fields.platforms;
+    return ["linkedin"];
+  }
+
+  let platforms: Platform[];
+  if (fields.platforms) {
+    platforms = validatePlatforms(fields.platforms as string[]);
+  } else if (config?.default_platforms && config.default_platforms.length > 0) {
+    platforms = config.default_platforms;
+  } else {
+    throw new UserError(
+      "Platforms required. Provide one of:\n" +
+        "  --platforms <list>                         (comma-separated: x,linkedin,threads)\n" +
+        '  "platforms": [...]                         (in a post spec)\n' +
+        '  "default_platforms": [...]                 (in ~/.posterboy/config.json)'
+    );
+  }
+  validateContentTypeForPlatforms(type, platforms);
+  fields.platforms = platforms;
+  return platforms;
+}
+
+export interface SubmitOptions {
+  /** Recorded with the post in the local ledger */
+  metadata?: Record<string, string>;
+  /** Caller-chosen idempotency key (otherwise derived from earlier attempts) */
+  idempotencyKey?: string;
+  /** Skip duplicate detection and always post */
+  force?: boolean;
+  /**
+   * Hashed for duplicate detection and recorded in the ledger instead of the
+   * request, when the request sends generated files
+   */
+  recorded?: PostRequest;
+  /** Called as local files are uploaded */
+  onProgress?: RequestOptions["onProgress"];
+  /** Ledger database to record in (default: next to the config file) */
+  ledgerPath?: string;
+  /** Active context, recorded so tracked jobs are checked with its API key */
+  context?: string;
+}
+
+/**
+ * Submit a post request through the matching ApiClient method and record
+ * it in the local ledger.
+ *
+ * Unless forced, a rerun of a post already submitted (same idempotency key,
+ * or identical params within the dedupe window) returns the earlier result
+ * instead of posting again.
+ */
+export async function submitPostRequest(
+  client: ApiClient,
+  request: PostRequest,
+  options: SubmitOptions = {}
+): Promise<PostResult> {
+  const recorded = withAbsolutePaths(options.recorded ?? request);
+  const paramsHash = hashPostRequest(recorded);
+  const ledger = openLedger(options.ledgerPath);
+
+  try {
+    let key = options.idempotencyKey ?? newIdempotencyKey();
+    if (ledger && !options.force) {
+      const prior = await findPriorSubmission(ledger, client, paramsHash, options.idempotencyKey);
+      if (prior.replay) {
+        const id = prior.replay.request_id ?? prior.replay.job_id ?? `#${prior.replay.id}`;
+        console.error(
+          `Already submitted on ${prior.replay.created_at} (${id}); returning the earlier result. ` +
+            "Use --force to post again."
+        );
+        return prior.replay.result;
+      }
+      key = prior.key;
+    }
+
+    safeLedgerWrite(() => ledger?.reserveIdempotencyKey(key, paramsHash));
+
+    let result: PostResult;
+    try {
+      result = await sendPostRequest(client, request, {
+        idempotencyKey: key,
+        // Only a key the user chose is trusted to make a resend safe
+        retryable: options.idempotencyKey !== undefined,
+        onProgress: options.onProgress,
+      });
+    } catch (error) {
+      // A rejected request definitely did not post. After a network failure
+      // or a server error the outcome is unknown, so the key stays pending and
+      // the next run stops instead of posting again.
+      if (!(error instanceof NetworkError || (error instanceof ApiError && error.statusCode >= 500))) {
+        safeLedgerWrite(() => ledger?.releaseIdempotencyKey(key));
+      }
+      throw error;
+    }
+
+    safeLedgerWrite(() => {
+      if (!ledger) return;
+      const id = ledger.record(recorded, result, options.metadata, options.context);
+      ledger.completeIdempotencyKey(key, id);
+    });
+    return result;
+  } finally {
+    ledger?.close();
+  }
+}
+
+/**
+ * Copy of a request with its local files as absolute paths, so a recorded
+ * post can be retried from any directory
+ */
+function withAbsolutePaths(request: PostRequest): PostRequest {
+  switch (request.type) {
+    case "text":
+      return request;
+    case "photo": {
+      const { files } = request.params;
+      if (!files) return request;
+      return { type: "photo", params: { ...request.params, files: files.map((path) => resolve(path)) } };
+    }
+    case "video": {
+      const { file } = request.params;
+      if (!file) return request;
+      return { type: "video", params: { ...request.params, file: resolve(file) } };
+    }
+    case "document": {
+      const { file } = request.params;
+      if (!file) return request;
+      return { type: "document", params: { ...request.params, file: resolve(file) } };
+    }
+  }
+}
+
+function sendPostRequest(
+  client: ApiClient,
+  request: PostRequest,
+  options: RequestOptions
+): Promise<PostResult> {
+  switch (request.type) {
+    case "text":
+      return client.postText(request.params, options);
+    case "photo":
+      return client.postPhotos(request.params, options);
+    case "video":
+      return client.postVideo(request.params, options);
+    case "document":
+      return client.postDocument(request.params, options);
+  }
+}
+
+function requireTitle(type: PostType, fields: Record<string, unknown>): void {
+  if (!fields.title) {
+    throw new UserError(`title is required for ${type} posts`);
+  }
+}
@@ -0,0 +1,171 @@
+// posterboy - Post result reporting
+//
+// Shared by the post/* commands: per-platform summaries, the --fail-on
+// exit policy, and the pretty rendering of a PostResult.
+
+import { PublishError, UserError } from "./errors";
+import type { OutputFormatter } from "./output";
+import type { FailOnPolicy, PostResult, PostSummary, StatusResult } from "./types";
+
+export const FAIL_ON_POLICIES: readonly FailOnPolicy[] = ["any", "all", "none"];
+
+export interface PostResultMessages {
+  /** Headline for scheduled posts, e.g. "Video scheduled successfully!" */
+  scheduled: string;
+  /** Headline for async uploads, e.g. "Video upload queued successfully!" */
+  queued: string;
+  /** Verb for immediate posts, e.g. "Posted photos" -> "Posted photos to 2 platforms:" */
+  posted: string;
+  /** Show the 'posterboy status' hint for async uploads */
+  statusHint?: boolean;
+}
+
+/**
+ * Parse --fail-on (default: any)
+ */
+export function parseFailOn(value: unknown): FailOnPolicy {
+  if (value === undefined) return "any";
+  if (!FAIL_ON_POLICIES.includes(value as FailOnPolicy)) {
+    throw new UserError(
+      `Invalid --fail-on value: ${value}. Valid values: ${FAIL_ON_POLICIES.join(", ")}`
+    );
+  }
+  return value as FailOnPolicy;
+}
+
+/**
+ * Summarize an immediate post result.
+ * Scheduled and async results have no per-platform outcome yet.
+ */
+export function summarizePostResult(result: PostResult): PostSummary | undefined {
+  if (!result.results) return undefined;
+  return summarize(
+    Object.entries(result.results).map(([platform, r]) => ({ platform, ...r }))
+  );
+}
+
+/**
+ * Summarize a final upload status
+ */
+export function summarizeStatus(status: StatusResult): PostSummary {
+  return summarize(status.results ?? [], status.status === "failed");
+}
+
+/**
+ * Apply the --fail-on policy: throw a PublishError when the post should
+ * make the command exit non-zero
+ */
+export function enforceFailOn(summary: PostSummary, policy: FailOnPolicy): void {
+  if (policy === "none" || summary.status === "succeeded") return;
+
+  const platforms = summary.failed.map((f) => f.platform);
+  if (summary.status === "failed") {
+    throw new PublishError(
+      platforms.length > 0
+        ? `Post failed on all platforms: ${platforms.join(", ")}`
+        : "Post failed: upload did not complete",
+      platforms
+    );
+  }
+
+  if (policy === "any") {
+    throw new PublishError(
+      `Post failed on ${platforms.join(", ")} (published on ${summary.succeeded.join(", ")})`,
+      platforms,
+      true
+    );
+  }
+}
+
+/**
+ * Print a post result in pretty mode
+ */
+export function displayPostResult(
+  formatter: OutputFormatter,
+  result: PostResult,
+  messages: PostResultMessages
+): void {
+  if (result.scheduled) {
+    formatter.pretty([
+      formatter.success(messages.scheduled),
+      `  ${formatter.label("Job ID:")}        ${result.job_id}`,
+      `  ${formatter.label("Scheduled for:")} ${result.scheduled_date}`,
+    ]);
+    return;
+  }
+
+  const summary = summarizePostResult(result);
+  if (!result.results || !summary) {
+    // Async mode
+    const lines = [
+      formatter.success(messages.queued),
+      `  ${formatter.label("Request ID:")} ${result.request_id || "N/A"}`,
+    ];
+    if (messages.statusHint) {
+      lines.push("", "Use 'posterboy status <request_id>' to check upload status.");
+    }
+    formatter.pretty(lines);
+    return;
+  }
+
+  // Immediate post
+  const total = summary.succeeded.length + summary.failed.length;
+  const count = summary.succeeded.length;
+  const platformWord = `platform${total === 1 ? "" : "s"}`;
+  const lines: string[] = [];
+  if (summary.status === "succeeded") {
+    lines.push(formatter.success(`${messages.posted} to ${count} ${platformWord}:`));
+  } else if (summary.status === "partial") {
+    lines.push(formatter.warning(`${messages.posted} to ${count} of ${total} ${platformWord}:`));
+  } else {
+    lines.push(formatter.color(`Failed on all ${total} ${platformWord}:`, "RED"));
+  }
+  lines.push("");
+
+  // Show results per platform
+  for (const [platform, platformResult] of Object.entries(result.results)) {
+    if (platformResult.success && platformResult.url) {
+      lines.push(`  ${platform.padEnd(12)} ${platformResult.url}`);
+    } else if (!platformResult.success) {
+      lines.push(
+        `  ${platform.padEnd(12)} ${formatter.color("FAILED", "RED")} - ${platformResult.error ?? "unknown error"}`
+      );
+    }
+  }
+
+  if (summary.status === "partial") {
+    lines.push("");
+    lines.push(
+      formatter.warning(
+        `Partial failure: ${summary.failed.map((f) => f.platform).join(", ")} did not publish`
+      )
+    );
+  }
+
+  // Show usage if available
+  if (result.usage) {
+    lines.push("");
+    lines.push(
+      `Usage: ${result.usage.count} / ${result.usage.limit} (${result.usage.remaining} remaining)`
+    );
+  }
+
+  formatter.pretty(lines);
+}
+
+function summarize(
+  results: Array<{ platform: string; success: boolean; error?: string }>,
+  failedOverall = false
+): PostSummary {
+  const succeeded = results.filter((r) => r.success).map((r) => r.platform);
+  const failed = results
+    .filter((r) => !r.success)
+    .map((r) => (r.error ? { platform: r.platform, error: r.error } : { platform: r.platform }));
+
+  let status: PostSummary["status"] = "succeeded";
+  if (failed.length > 0 || failedOverall) {
+    status = succeeded.length > 0 ? "partial" : "failed";
+  }
+
+  return { status, succeeded, failed };
+}
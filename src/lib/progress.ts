@@ -0,0 +1,107 @@
+// posterboy - Upload progress
+//
+// Large uploads can take minutes. In pretty mode on a terminal a progress
+// bar is redrawn on stderr; in JSON mode progress is written to stderr as
+// one JSON event per line, leaving stdout for the result.
+
+import { formatDuration } from "./media";
+import type { OutputFormatter } from "./output";
+import type { UploadProgress } from "./types";
+
+export interface ProgressReporter {
+  update(progress: UploadProgress): void;
+  /** Finish the current bar line, if one is drawn */
+  end(): void;
+}
+
+// How often progress is redrawn or reported, at most
+const BAR_INTERVAL_MS = 200;
+const EVENT_INTERVAL_MS = 1000;
+
+const BAR_WIDTH = 24;
+
+/**
+ * Progress reporter for the output mode, or undefined when progress is not
+ * shown (pretty output that is not going to a terminal)
+ */
+export function createUploadProgress(
+  formatter: OutputFormatter,
+  now: () => number = Date.now
+): ProgressReporter | undefined {
+  const json = formatter.mode() === "json";
+  if (!json && !process.stderr.isTTY) return undefined;
+
+  let total = 0;
+  // Throughput is measured from the first update of the current upload
+  let startTime = 0;
+  let startSent = 0;
+  let lastSent = 0;
+  let lastReport: number | undefined;
+  let drawn = false;
+
+  const end = () => {
+    if (drawn) process.stderr.write("\n");
+    drawn = false;
+  };
+
+  const update = (progress: UploadProgress) => {
+    const time = now();
+    if (progress.total !== total) {
+      // A new upload (e.g. the next auto-fit variant)
+      end();
+      total = progress.total;
+      startTime = time;
+      startSent = progress.sent;
+      lastReport = undefined;
+    } else if (progress.sent < lastSent) {
+      // A retried upload is sent again
+      startTime = time;
+      startSent = progress.sent;
+    }
+    lastSent = progress.sent;
+
+    const finished = progress.sent >= progress.total;
+    const interval = json ? EVENT_INTERVAL_MS : BAR_INTERVAL_MS;
+    if (!finished && lastReport !== undefined && time - lastReport < interval) return;
+    lastReport = time;
+
+    const seconds = (time - startTime) / 1000;
+    const rate = seconds > 0 ? (progress.sent - startSent) / seconds : undefined;
+    const eta = rate ? Math.round((progress.total - progress.sent) / rate) : undefined;
+    const percent = progress.total > 0 ? Math.floor((progress.sent / progress.total) * 100) : 100;
+
+    if (json) {
+      console.error(
+        JSON.stringify({
+          event: "upload_progress",
+          sent_bytes: progress.sent,
+          total_bytes: progress.total,
+          percent,
+          bytes_per_second: rate === undefined ? null : Math.round(rate),
+          eta_seconds: eta ?? null,
+        })
+      );
+      return;
+    }
+
+    const filled = Math.round((percent / 100) * BAR_WIDTH);
+    const bar = "█".repeat(filled) + "░".repeat(BAR_WIDTH - filled);
+    const parts = [
+      `Uploading ${formatter.header(bar)} ${String(percent).padStart(3)}%`,
+      `${formatMB(progress.sent)} / ${formatMB(progress.total)}`,
+    ];
+    if (rate !== undefined) parts.push(`${formatMB(rate)}/s`);
+    if (eta !== undefined && !finished) parts.push(`ETA ${formatDuration(eta)}`);
+
+    // Clear the rest of the line, which may be longer than this one
+    process.stderr.write(`\r${parts.join("  ")}\x1b[K`);
+    drawn = true;
+    if (finished) end();
+  };
+
+  return { update, end };
+}
+
+function formatMB(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
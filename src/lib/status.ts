@@ -0,0 +1,127 @@
+// posterboy - Upload status polling
+
+import type { ApiClient } from "./api";
+import { InterruptedError, UserError } from "./errors";
+import type { PostResult, StatusResult } from "./types";
+
+export const DEFAULT_POLL_INTERVAL_MS = 5000;
+export const DEFAULT_WAIT_TIMEOUT_SECONDS = 600;
+
+export interface PollOptions {
+  intervalMs?: number;
+  timeoutMs?: number;
+  /** Called after each check that is still pending */
+  onPending?: (attempt: number, result: StatusResult) => void;
+}
+
+/**
+ * Poll getStatus until the upload completes or fails.
+ * Ctrl+C stops polling with an InterruptedError, so callers can report
+ * what they have before exiting.
+ * @throws UserError if the upload is still pending at the timeout
+ */
+export async function pollStatus(
+  client: ApiClient,
+  id: string,
+  idType: "request_id" | "job_id",
+  options: PollOptions = {}
+): Promise<StatusResult> {
+  const intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_SECONDS * 1000;
+  const deadline = Date.now() + timeoutMs;
+
+  let interrupt: (error: InterruptedError) => void = () => {};
+  const interrupted = new Promise<never>((_resolve, reject) => {
+    interrupt = reject;
+  });
+  const sigintHandler = () => {
+    interrupt(
+      new InterruptedError(
+        `Stopped waiting for ${idType} ${id}; it may still publish.\n` +
+          `Check it with 'posterboy status ${id}'.`
+      )
+    );
+  };
+  process.on("SIGINT", sigintHandler);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      const check = client.getStatus(id, idType);
+      // Once interrupted, a late failure of this check is of no interest
+      check.catch(() => {});
+      const result = await Promise.race([check, interrupted]);
+      if (result.status === "completed" || result.status === "failed") {
+        return result;
+      }
+
+      if (Date.now() + intervalMs > deadline) {
+        throw new UserError(
+          `Timed out after ${Math.round(timeoutMs / 1000)}s waiting for ${idType} ${id} (status: ${result.status}).\n` +
+            `The post was accepted and may still publish. Check it with 'posterboy status ${id}'.`
+        );
+      }
+
+      options.onPending?.(attempt, result);
+      await Promise.race([
+        new Promise((resolve) => {
+          timer = setTimeout(resolve, intervalMs);
+        }),
+        interrupted,
+      ]);
+    }
+  } finally {
+    clearTimeout(timer);
+    process.off("SIGINT", sigintHandler);
+  }
+}
+
+/**
+ * Express an immediate post result in the shape of a status check
+ */
+export function postResultToStatus(result: PostResult): StatusResult {
+  const results = Object.entries(result.results ?? {}).map(([platform, r]) => ({
+    platform,
+    ...r,
+  }));
+  const completed = results.filter((r) => r.success).length;
+
+  return {
+    status: results.length > 0 && completed === 0 ? "failed" : "completed",
+    completed,
+    total: results.length,
+    results,
+  };
+}
+
+/**
+ * Parse --wait / --wait-timeout for a post command.
+ * Returns the timeout in milliseconds, or undefined when not waiting.
+ */
+export function resolveWaitTimeout(
+  values: Record<string, unknown>,
+  params: { schedule?: string; queue?: boolean }
+): number | undefined {
+  if (!values.wait) {
+    if (values["wait-timeout"] !== undefined) {
+      throw new UserError("--wait-timeout requires --wait");
+    }
+    return undefined;
+  }
+
+  if (params.schedule || params.queue) {
+    throw new UserError(
+      "--wait cannot be used with scheduled or queued posts (they publish later).\n" +
+        "Use 'posterboy status <job_id>' once the post is due."
+    );
+  }
+
+  const seconds = values["wait-timeout"]
+    ? parseInt(values["wait-timeout"] as string, 10)
+    : DEFAULT_WAIT_TIMEOUT_SECONDS;
+  if (isNaN(seconds) || seconds < 1) {
+    throw new UserError("Wait timeout must be a positive number of seconds");
+  }
+
+  return seconds * 1000;
+}
@@ -34,6 +34,8 @@ function levenshteinDistance(a: string, b: string): number {
 export function suggestCommand(input: string): string | null {
   const commands = [
     "auth",
+    "context",
+    "config",
     "profiles",
     "post",
     "schedule",
@@ -42,6 +44,9 @@ export function suggestCommand(input: string): string | null {
     "queue",
     "platforms",
     "analytics",
+    "ledger",
+    "jobs",
+    "lint",
     "completions",
   ];
 
@@ -0,0 +1,331 @@
+// posterboy - Threaded text posts
+//
+// Splits long text into a chain of posts and publishes them one by one,
+// each part replying to the previous one via x_reply_to / bluesky_reply_to
+// and the publish_id returned for the part before it.
+
+import type { ApiClient } from "./api";
+import { CONTENT_RULES, countCharacters, graphemes } from "./content-rules";
+import { UserError } from "./errors";
+import type { OutputFormatter } from "./output";
+import { submitPostRequest, type SubmitOptions } from "./post-request";
+import type {
+  Platform,
+  PostResult,
+  PostSummary,
+  TextPostParams,
+  ThreadPart,
+  ThreadResult,
+} from "./types";
+
+/** Platforms whose API params allow replying to an earlier post */
+export const THREAD_PLATFORMS: readonly Platform[] = ["x", "bluesky"];
+
+const REPLY_PARAMS = {
+  x: "x_reply_to",
+  bluesky: "bluesky_reply_to",
+} as const;
+
+// Only sent with the first part of a thread
+const FIRST_PART_ONLY = [
+  "first_comment",
+  "x_quote_tweet",
+  "x_poll_options",
+  "x_poll_duration",
+] as const;
+
+// Per-platform text overrides would replace the text of every part
+const TEXT_OVERRIDES = {
+  x_title: "--x-title",
+  bluesky_title: "--bluesky-title",
+} as const;
+
+// Lines consisting of "---" separate parts written by hand
+const SEPARATOR = /^[ \t]*---[ \t]*$/m;
+
+export interface SplitOptions {
+  /** Append " (1/3)" style numbering to each part */
+  numbered?: boolean;
+}
+
+/**
+ * Split text into thread parts that fit every target platform.
+ *
+ * Text with "---" separator lines is split there; otherwise it is split
+ * automatically, preferring paragraph, then sentence, then word breaks.
+ */
+export function splitThread(
+  text: string,
+  platforms: Platform[],
+  options: SplitOptions = {}
+): string[] {
+  const unsupported = platforms.filter((p) => !THREAD_PLATFORMS.includes(p));
+  if (unsupported.length > 0) {
+    throw new UserError(
+      `Threads can only be posted to ${THREAD_PLATFORMS.join(", ")} ` +
+        `(the API has no reply parameter for ${unsupported.join(", ")}).`
+    );
+  }
+
+  const fits = (part: string) =>
+    platforms.every((p) => countCharacters(part, p) <= CONTENT_RULES[p].text);
+
+  const manual = text
+    .split(SEPARATOR)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+
+  let parts = manual.length > 1 ? manual : autoSplit(text.trim(), fits, !!options.numbered);
+  if (options.numbered && parts.length > 1) {
+    parts = parts.map((part, i) => part + numberSuffix(i + 1, parts.length));
+  }
+
+  parts.forEach((part, i) => {
+    for (const platform of platforms) {
+      const length = countCharacters(part, platform);
+      const limit = CONTENT_RULES[platform].text;
+      if (length > limit) {
+        throw new UserError(
+          `Thread part ${i + 1} is ${length} characters, but ${platform} allows ${limit}.\n` +
+            "Shorten it, or remove the --- separators to split automatically."
+        );
+      }
+    }
+  });
+
+  return parts;
+}
+
+/**
+ * Reject per-platform text overrides, which would be posted as every part
+ * of a thread instead of the part's own text
+ */
+export function checkThreadFields(fields: Record<string, unknown>): void {
+  const used = Object.entries(TEXT_OVERRIDES)
+    .filter(([field]) => fields[field] !== undefined)
+    .map(([, flag]) => flag);
+  if (used.length > 0) {
+    throw new UserError(
+      `${used.join(" and ")} cannot be used with --thread: ` +
+        `${used.length > 1 ? "they replace" : "it replaces"} the text of every part.`
+    );
+  }
+}
+
+/**
+ * Post thread parts in order, each replying to the previous part.
+ *
+ * A platform that fails on one part is left out of the following parts,
+ * since there is nothing to reply to. A reply to more than one platform is
+ * sent once per platform, each with its own reply id or none. Each part is a separate submission,
+ * so rerunning a thread that broke off replays the parts already posted
+ * and continues from there.
+ */
+export async function postThread(
+  client: ApiClient,
+  params: TextPostParams,
+  parts: string[],
+  options: SubmitOptions = {}
+): Promise<ThreadResult> {
+  let platforms = [...params.platforms];
+  const replyTo: Partial<Record<Platform, string>> = {
+    x: params.x_reply_to,
+    bluesky: params.bluesky_reply_to,
+  };
+  const failed: PostSummary["failed"] = [];
+  const posted: ThreadPart[] = [];
+
+  for (const [i, text] of parts.entries()) {
+    if (platforms.length === 0) break;
+
+    // The API has a single reply_to_id field, so a reply going to more than
+    // one platform is sent to each platform on its own
+    const replying = platforms.some((platform) => replyTo[platform]);
+    const groups = replying && platforms.length > 1 ? platforms.map((platform) => [platform]) : [platforms];
+
+    const results: NonNullable<PostResult["results"]> = {};
+    for (const group of groups) {
+      const partParams: TextPostParams = { ...params, text, platforms: group };
+      delete partParams.x_reply_to;
+      delete partParams.bluesky_reply_to;
+      if (i > 0) {
+        for (const key of FIRST_PART_ONLY) delete partParams[key];
+      }
+      for (const platform of group) {
+        const id = replyTo[platform];
+        if (id) partParams[REPLY_PARAMS[platform as keyof typeof REPLY_PARAMS]] = id;
+      }
+
+      const suffix = groups.length > 1 ? `-${i + 1}-${group[0]}` : `-${i + 1}`;
+      const result = await submitPostRequest(
+        client,
+        { type: "text", params: partParams },
+        {
+          metadata: { ...options.metadata, thread_part: `${i + 1}/${parts.length}` },
+          idempotencyKey: options.idempotencyKey && `${options.idempotencyKey}${suffix}`,
+          force: options.force,
+          ledgerPath: options.ledgerPath,
+          context: options.context,
+        }
+      );
+      posted.push({ index: i + 1, text, platforms: group, result });
+      for (const platform of group) {
+        const platformResult = result.results?.[platform];
+        if (platformResult) results[platform] = platformResult;
+      }
+    }
+
+    const isLast = i === parts.length - 1;
+    platforms = platforms.filter((platform) => {
+      const platformResult = results[platform];
+      if (!platformResult?.success) {
+        failed.push({
+          platform,
+          error: `Part ${i + 1}: ${platformResult?.error ?? "no result returned"}`,
+        });
+        return false;
+      }
+      if (platformResult.publish_id) {
+        replyTo[platform] = platformResult.publish_id;
+      } else if (!isLast) {
+        failed.push({ platform, error: `Part ${i + 1}: no publish_id returned to reply to` });
+        return false;
+      }
+      return true;
+    });
+  }
+
+  let status: PostSummary["status"] = "succeeded";
+  if (failed.length > 0) {
+    status = platforms.length > 0 ? "partial" : "failed";
+  }
+
+  return { parts: posted, summary: { status, succeeded: platforms, failed } };
+}
+
+/**
+ * Print a posted thread in pretty mode
+ */
+export function displayThreadResult(
+  formatter: OutputFormatter,
+  thread: ThreadResult,
+  totalParts: number
+): void {
+  const { summary } = thread;
+  const lines: string[] = [];
+  if (summary.status === "succeeded") {
+    lines.push(
+      formatter.success(`Posted thread of ${totalParts} parts to ${summary.succeeded.join(", ")}:`)
+    );
+  } else if (summary.status === "partial") {
+    lines.push(
+      formatter.warning(
+        `Posted thread of ${totalParts} parts to ${summary.succeeded.join(", ")} only:`
+      )
+    );
+  } else {
+    lines.push(formatter.color("Thread failed on all platforms:", "RED"));
+  }
+
+  let index = 0;
+  for (const part of thread.parts) {
+    // A part sent to each platform on its own is listed once
+    if (part.index !== index) {
+      index = part.index;
+      lines.push("", `  ${formatter.label(`Part ${part.index}/${totalParts}`)}`);
+    }
+    for (const [platform, platformResult] of Object.entries(part.result.results ?? {})) {
+      if (platformResult.success) {
+        lines.push(`    ${platform.padEnd(12)} ${platformResult.url ?? "posted"}`);
+      } else {
+        lines.push(
+          `    ${platform.padEnd(12)} ${formatter.color("FAILED", "RED")} - ${platformResult.error ?? "unknown error"}`
+        );
+      }
+    }
+  }
+
+  if (summary.failed.length > 0) {
+    lines.push("");
+    for (const failure of summary.failed) {
+      lines.push(formatter.warning(`${failure.platform} stopped at ${failure.error}`));
+    }
+  }
+
+  formatter.pretty(lines);
+}
+
+function numberSuffix(index: number, total: number): string {
+  return ` (${index}/${total})`;
+}
+
+/**
+ * Split text automatically, making room for numbering when requested.
+ * Numbering width depends on the number of parts, so re-split until the
+ * count of digits is stable.
+ */
+function autoSplit(text: string, fits: (part: string) => boolean, numbered: boolean): string[] {
+  let parts = splitToFit(text, fits);
+  if (!numbered || parts.length <= 1) return parts;
+
+  for (;;) {
+    const count = parts.length;
+    const suffix = numberSuffix(count, count);
+    parts = splitToFit(text, (part) => fits(part + suffix));
+    if (String(parts.length).length <= String(count).length) return parts;
+  }
+}
+
+function splitToFit(text: string, fits: (part: string) => boolean): string[] {
+  const parts: string[] = [];
+  let rest = text;
+
+  while (!fits(rest)) {
+    const chars = graphemes(rest);
+
+    // Longest prefix that fits (at least one character, so splitting ends)
+    let low = 1;
+    let high = chars.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (fits(chars.slice(0, mid).join(""))) low = mid;
+      else high = mid - 1;
+    }
+
+    // One character past it, to see whether a break falls right on the end
+    const window = chars.slice(0, low + 1).join("");
+    const cut = findBreak(window, fits, chars.slice(0, low).join("").length);
+    parts.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+
+  if (rest.length > 0) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Where to end a part within the window: the last paragraph or sentence
+ * break in its second half, else the last space, else a hard cut.
+ */
+function findBreak(window: string, fits: (part: string) => boolean, hardCut: number): number {
+  const minimum = Math.floor(window.length / 2);
+  const lastMatch = (pattern: RegExp, offset: (m: RegExpMatchArray) => number) => {
+    let best = -1;
+    for (const match of window.matchAll(pattern)) {
+      const cut = match.index! + offset(match);
+      if (cut > 0 && fits(window.slice(0, cut).trimEnd())) best = cut;
+    }
+    return best;
+  };
+
+  const paragraph = lastMatch(/\n\s*\n/g, () => 0);
+  if (paragraph >= minimum) return paragraph;
+
+  const sentence = lastMatch(/[.!?]["')\]]*\s/g, (m) => m[0].length - 1);
+  if (sentence >= minimum) return sentence;
+
+  const space = lastMatch(/\s/g, () => 0);
+  if (space > 0) return space;
+
+  return hardCut;
+}
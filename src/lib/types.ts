@@ -10,7 +10,11 @@ export interface GlobalFlags {
   config?: string;
   apiKey?: string;
   profile?: string;
+  // --context: named context to run with
+  context?: string;
   verbose: boolean;
+  // --timeout, in seconds
+  timeout?: string;
 }
 
 // Auth & Account
@@ -53,6 +57,109 @@ export interface PostResult {
   };
 }
 
+// Per-platform outcome of a post
+export type FailOnPolicy = "any" | "all" | "none";
+
+export interface PostSummary {
+  status: "succeeded" | "partial" | "failed";
+  succeeded: string[];
+  failed: Array<{ platform: string; error?: string }>;
+}
+
+// Content Rules
+export interface ContentIssue {
+  platform: Platform;
+  level: "error" | "warning";
+  // Param the checked content came from, e.g. "text" or "youtube_title"
+  field: string;
+  message: string;
+}
+
+// Media
+export interface VideoMetadata {
+  container: "mp4" | "mov" | "webm";
+  // Seconds
+  duration: number;
+  // Display size, after rotation
+  width: number;
+  height: number;
+  // e.g. "9:16", or "1.85:1" for uncommon ratios
+  aspect_ratio: string;
+  // e.g. "h264", "hevc", "vp9", "av1"
+  codec?: string;
+  // Average over the whole file, in bits per second
+  bitrate?: number;
+  frame_rate?: number;
+}
+
+export type ImageFormat = "jpeg" | "png" | "gif" | "webp";
+
+export interface ImageMetadata {
+  // Detected from the file contents, not the extension
+  format: ImageFormat;
+  // Display size, after EXIF orientation
+  width: number;
+  height: number;
+  aspect_ratio: string;
+}
+
+export interface PhotoFile {
+  path: string;
+  // Absent when the contents could not be read
+  metadata?: ImageMetadata;
+  // Set for a local file whose contents were not a recognized image
+  unreadable?: boolean;
+}
+
+export type FitMode = "crop" | "pad";
+
+// Photos posted to a group of platforms with --auto-fit
+export interface PhotoVariant {
+  platforms: Platform[];
+  // Shape the photos are fitted to, e.g. "4:5"; absent when posted as they are
+  aspect_ratio?: string;
+  // Size of the fitted copy; absent when the photo already has the shape
+  photos: Array<PhotoFile & { fitted?: ImageMetadata }>;
+}
+
+export interface PhotoVariantResult {
+  platforms: Platform[];
+  aspect_ratio?: string;
+  result: PostResult;
+}
+
+// Lint
+export interface LintIssue {
+  level: "error" | "warning";
+  message: string;
+  // Set when the issue concerns a single platform
+  platform?: Platform;
+}
+
+export interface LintReport {
+  // Manifest path, or the post type when linting command flags
+  source: string;
+  valid: boolean;
+  issues: LintIssue[];
+}
+
+// Threads
+// One request of a thread. A part replying on several platforms is sent
+// once per platform, so it appears once for each of them.
+export interface ThreadPart {
+  // 1-based position in the thread
+  index: number;
+  text: string;
+  // Platforms this request was posted to (earlier failures drop out)
+  platforms: Platform[];
+  result: PostResult;
+}
+
+export interface ThreadResult {
+  parts: ThreadPart[];
+  summary: PostSummary;
+}
+
 // Status
 export interface StatusPlatformResult {
   platform: string;
@@ -263,6 +370,98 @@ export interface DocumentPostParams {
   async?: boolean;
 }
 
+// Post Requests (post type + fully resolved params, as built from a manifest)
+export type PostType = "text" | "photo" | "video" | "document";
+
+export type PostRequest =
+  | { type: "text"; params: TextPostParams }
+  | { type: "photo"; params: PhotoPostParams }
+  | { type: "video"; params: VideoPostParams }
+  | { type: "document"; params: DocumentPostParams };
+
+// Batch Posting
+export interface BatchRowResult {
+  // Line of the CSV file the row starts on
+  row: number;
+  type?: PostType;
+  status: "submitted" | "valid" | "failed" | "skipped";
+  request_id?: string;
+  job_id?: string;
+  scheduled_date?: string;
+  failed_platforms?: string[];
+  // Submitted, but --wait could not follow it to the end (timeout, Ctrl+C)
+  poll_error?: string;
+  error?: string;
+}
+
+export interface BatchSummary {
+  total: number;
+  submitted: number;
+  valid: number;
+  failed: number;
+  skipped: number;
+}
+
+// Local Ledger
+export interface LedgerEntry {
+  id: number;
+  created_at: string;
+  type: PostType;
+  profile: string;
+  platforms: Platform[];
+  title: string;
+  request_id?: string;
+  job_id?: string;
+  success: boolean;
+  params: PostRequest["params"];
+  result: PostResult;
+  metadata?: Record<string, string>;
+}
+
+export interface IdempotencyRecord {
+  key: string;
+  params_hash: string;
+  created_at: string;
+  // Missing while the attempt has not received a response
+  entry?: LedgerEntry;
+}
+
+export interface LedgerQuery {
+  profile?: string;
+  platform?: Platform;
+  type?: PostType;
+  search?: string;
+  limit?: number;
+}
+
+// Job Tracker
+export interface TrackedJob {
+  // request_id for async uploads, job_id for scheduled posts
+  id: string;
+  id_type: "request_id" | "job_id";
+  submission_id: number;
+  created_at: string;
+  updated_at: string;
+  type: PostType;
+  profile: string;
+  platforms: Platform[];
+  title: string;
+  // Last known status: pending/processing/scheduled until completed or failed
+  status: string;
+  scheduled_date?: string;
+  completed?: number;
+  total?: number;
+  error?: string;
+  // Context the post was made with; its API key is used to check the job
+  context?: string;
+}
+
+export interface JobQuery {
+  // Only jobs that have not completed or failed yet
+  pending?: boolean;
+  limit?: number;
+}
+
 // Scheduling
 export interface ScheduledPost {
   job_id: string;
@@ -371,26 +570,91 @@ export interface Config {
     format?: "auto" | "json" | "pretty";
     color?: boolean;
   };
-  platform_defaults?: {
-    facebook?: {
-      page_id?: string;
-    };
-    linkedin?: {
-      page_id?: string;
-      visibility?: string;
-    };
-    pinterest?: {
-      board_id?: string;
-    };
-    reddit?: {
-      subreddit?: string;
-    };
-    youtube?: {
-      privacy?: string;
-      category?: string;
-    };
-    tiktok?: {
-      privacy?: string;
+  platform_defaults?: PlatformDefaults;
+
+  // Named accounts, e.g. one per client of an agency
+  contexts?: Record<string, ContextSettings>;
+  current_context?: string;
+  network?: {
+    // HTTP(S) proxy URL, e.g. http://proxy.corp:3128
+    proxy?: string;
+    // PEM bundle of extra CAs to trust, e.g. a proxy's internal CA
+    ca_file?: string;
+    timeout_ms?: number;
+    upload_timeout_ms?: number;
+    retry?: {
+      max_attempts?: number;
+      base_delay_ms?: number;
+      max_delay_ms?: number;
+      jitter?: boolean;
     };
   };
 }
+
+// Per-platform options used when a post does not set them, named as in the
+// platform sections of manifests (facebook.page is the facebook_page field)
+export type PlatformDefaults = Partial<
+  Record<Platform, Record<string, string | boolean | number | string[]>>
+>;
+
+// Account settings of a named context. While a context is active they
+// replace the top-level ones; network and output settings are shared.
+export interface ContextSettings {
+  api_key?: string;
+  default_profile?: string;
+  default_platforms?: Platform[];
+  platform_defaults?: PlatformDefaults;
+}
+
+// Config file a command runs with: the --config path, POSTERBOY_CONFIG or
+// the default. config is what commands use (with the active context
+// applied); file is the file's contents as stored, for writing back.
+// Both are null when the file does not exist.
+export interface ConfigContext {
+  path: string;
+  config: Config | null;
+  file: Config | null;
+  // Active context: --context, POSTERBOY_CONTEXT or current_context
+  context?: string;
+}
+
+// Per-request API options
+export interface RequestOptions {
+  // Sent as Idempotency-Key
+  idempotencyKey?: string;
+  // Retry a POST with an idempotency key on transient failures. Only set when
+  // the caller chose the key, since the API's deduplication is not documented.
+  retryable?: boolean;
+  // Called as the files of an upload are sent
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+// Bytes of an upload sent so far
+export interface UploadProgress {
+  sent: number;
+  total: number;
+}
+
+// Retry policy for transient API failures
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+}
+
+// How long to wait for a response before giving up
+export interface TimeoutPolicy {
+  requestMs: number;
+  // Unset: derived from the size of each upload
+  uploadMs?: number;
+}
+
+// Proxy and TLS settings for outgoing requests
+export interface NetworkPolicy {
+  proxy?: string;
+  // Hosts (and their subdomains) reached without the proxy
+  noProxy: string[];
+  // PEM contents of the extra CA bundle
+  ca?: string;
+}
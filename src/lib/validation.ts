@@ -1,6 +1,8 @@
 import { validatePlatforms as validatePlatformNames } from "./platforms";
 import type { Platform } from "../constants";
-import { UserError } from "./errors";
+import { inspectImage, inspectVideo } from "./media";
+import type { ImageFormat, PhotoFile, VideoMetadata } from "./types";
+import { UserError, ValidationCollector } from "./errors";
 import { existsSync } from "node:fs";
 
 /**
@@ -129,3 +131,131 @@ export function validateMutuallyExclusive(
     );
   }
 }
+
+// Photo formats by extension, as detected from file contents
+const PHOTO_EXTENSIONS: Record<string, ImageFormat> = {
+  jpg: "jpeg",
+  jpeg: "jpeg",
+  png: "png",
+  gif: "gif",
+  webp: "webp",
+};
+
+/**
+ * Validate photo files exist and meet format/size requirements, and read
+ * their format and size from the file contents. The extension is only
+ * relied on when the contents cannot be read.
+ * @throws UserError listing every problem with every file
+ */
+export async function validatePhotoFiles(files: string[]): Promise<PhotoFile[]> {
+  const maxSize = 8 * 1024 * 1024; // 8MB
+  const errors = new ValidationCollector();
+  const photos: PhotoFile[] = [];
+
+  for (const filePath of files) {
+    const file = Bun.file(filePath);
+    if (!(await file.exists())) {
+      errors.add(`File not found: ${filePath}`);
+      continue;
+    }
+    if (file.size > maxSize) {
+      errors.add(
+        `File exceeds 8MB limit: ${filePath} (${(file.size / (1024 * 1024)).toFixed(1)}MB)`
+      );
+    }
+    const ext = filePath.toLowerCase().match(/\.([^./\\]+)$/)?.[1];
+    const metadata = await inspectImage(filePath);
+    if (metadata) {
+      if (!ext || PHOTO_EXTENSIONS[ext] !== metadata.format) {
+        const name = metadata.format === "jpeg" ? "jpg" : metadata.format;
+        console.error(
+          `Warning: ${filePath} is a ${metadata.format.toUpperCase()} image; ` +
+          `rename it to .${name} so it is uploaded with the right type`
+        );
+      }
+    } else if (!ext || !PHOTO_EXTENSIONS[ext]) {
+      errors.add(
+        `Unsupported format: ${filePath}. Supported: JPEG, PNG, GIF, WebP`
+      );
+    } else {
+      // Platform shape rules report it again where they need its size
+      console.error(
+        `Warning: ${filePath} does not contain a readable ${PHOTO_EXTENSIONS[ext].toUpperCase()} image; ` +
+        "its size cannot be checked"
+      );
+      photos.push({ path: filePath, unreadable: true });
+      continue;
+    }
+    photos.push({ path: filePath, metadata });
+  }
+
+  errors.throwIfErrors();
+  return photos;
+}
+
+/**
+ * Validate video file exists and has a supported format, and read its
+ * metadata where the container can be inspected
+ */
+export async function validateVideoFile(
+  filePath: string
+): Promise<{ size: number; metadata?: VideoMetadata }> {
+  const validExts = [".mp4", ".mov", ".webm", ".avi"];
+  const file = Bun.file(filePath);
+  if (!(await file.exists())) {
+    throw new UserError(`File not found: ${filePath}`);
+  }
+  const ext = filePath.toLowerCase().match(/\.([^./\\]+)$/)?.[1];
+  if (!ext || !validExts.includes(`.${ext}`)) {
+    throw new UserError(
+      `Unsupported video format: ${filePath}. Supported: MP4, MOV, WebM, AVI`
+    );
+  }
+  return { size: file.size, metadata: await inspectVideo(filePath) };
+}
+
+/**
+ * Validate document file exists and meets format/size requirements
+ * @throws UserError listing every problem with the file
+ */
+export async function validateDocumentFile(filePath: string): Promise<void> {
+  const validExts = [".pdf", ".ppt", ".pptx", ".doc", ".docx"];
+  const maxSize = 100 * 1024 * 1024; // 100MB
+
+  const file = Bun.file(filePath);
+  if (!(await file.exists())) {
+    throw new UserError(`File not found: ${filePath}`);
+  }
+
+  const errors = new ValidationCollector();
+  if (file.size > maxSize) {
+    errors.add(
+      `File exceeds 100MB limit: ${filePath} (${(file.size / (1024 * 1024)).toFixed(1)}MB)`
+    );
+  }
+  const ext = filePath.toLowerCase().match(/\.([^./\\]+)$/)?.[1];
+  if (!ext || !validExts.includes(`.${ext}`)) {
+    errors.add(
+      `Unsupported format: ${filePath}. Supported: PDF, PPT, PPTX, DOC, DOCX`
+    );
+  }
+  errors.throwIfErrors();
+}
+
+/**
+ * Parse repeated key=value flags (e.g. --meta campaign=launch) into a map
+ */
+export function parseMetadata(pairs: string[] | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const pair of pairs ?? []) {
+    const separator = pair.indexOf("=");
+    if (separator <= 0) {
+      throw new UserError(
+        `Invalid metadata: ${pair}.\n` +
+        `Expected key=value (e.g. --meta campaign=launch)`
+      );
+    }
+    metadata[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+  }
+  return metadata;
+}
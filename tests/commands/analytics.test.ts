@@ -17,7 +17,7 @@ describe("analytics command", () => {
 
   test("retrieves basic analytics for profile", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -56,7 +56,7 @@ describe("analytics command", () => {
 
   test("filters analytics by platforms", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -100,7 +100,7 @@ describe("analytics command", () => {
 
   test("includes facebook page parameter", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -140,7 +140,7 @@ describe("analytics command", () => {
 
   test("includes linkedin page parameter", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -186,7 +186,7 @@ describe("analytics command", () => {
 
   test("throws error when facebook platform requires page", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -205,7 +205,7 @@ describe("analytics command", () => {
 
   test("JSON output mode", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -238,7 +238,7 @@ describe("analytics command", () => {
 
   test("handles empty analytics data", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
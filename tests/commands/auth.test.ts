@@ -1,12 +1,13 @@
 // posterboy - Auth command tests
 
 import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
-import { mkdirSync, rmSync, existsSync, readFileSync } from "node:fs";
+import { mkdirSync, rmSync, existsSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { authLogin } from "../../src/commands/auth/login";
 import { authStatus } from "../../src/commands/auth/status";
 import type { GlobalFlags } from "../../src/lib/types";
+import { mockFetch } from "../mock-fetch";
 
 describe("Auth Commands", () => {
   let testConfigDir: string;
@@ -72,7 +73,7 @@ describe("Auth Commands", () => {
       // Check config contains API key
       const config = JSON.parse(readFileSync(testConfigPath, "utf-8"));
       expect(config.api_key).toBe("test_key_123");
-      expect(config.version).toBe(1);
+      expect(config.version).toBe(2);
     });
 
     test("outputs JSON format when --json flag is set", async () => {
@@ -104,6 +105,25 @@ describe("Auth Commands", () => {
       expect(parsed.plan).toBe("premium");
     });
 
+    test("saves the key to the --context named context", async () => {
+      mockFetch(async () => Response.json({ email: "client@example.com", plan: "pro" }));
+      writeFileSync(
+        testConfigPath,
+        JSON.stringify({ version: 2, api_key: "own_key", contexts: { "client-a": { default_profile: "brand" } } })
+      );
+
+      await authLogin(["--key", "client_key"], { json: true, pretty: false, verbose: false, context: "client-a" });
+      await authLogin(["--key", "other_key"], { json: true, pretty: false, verbose: false, context: "client-b" });
+
+      const config = JSON.parse(readFileSync(testConfigPath, "utf-8"));
+      expect(config.api_key).toBe("own_key");
+      expect(config.contexts).toEqual({
+        "client-a": { default_profile: "brand", api_key: "client_key" },
+        "client-b": { api_key: "other_key" },
+      });
+      expect(JSON.parse(outputBuffer[0]!).message).toBe(`API key saved to context client-a in ${testConfigPath}`);
+    });
+
     test("throws UserError when key is invalid", async () => {
       global.fetch = mock(() =>
         Promise.resolve({
@@ -129,7 +149,7 @@ describe("Auth Commands", () => {
     beforeEach(async () => {
       // Create a config file with API key
       const config = {
-        version: 1,
+        version: 2,
         api_key: "test_key_123",
       };
       const fs = await import("node:fs/promises");
@@ -0,0 +1,185 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import * as api from "../../src/lib/api";
+import { Ledger } from "../../src/lib/ledger";
+import type { Config, GlobalFlags } from "../../src/lib/types";
+import { analytics } from "../../src/commands/analytics";
+import { authLogin } from "../../src/commands/auth/login";
+import { authStatus } from "../../src/commands/auth/status";
+import { history } from "../../src/commands/history";
+import { jobsList } from "../../src/commands/jobs";
+import { lint } from "../../src/commands/lint";
+import { platforms, platformsPages } from "../../src/commands/platforms";
+import { postApply } from "../../src/commands/post/apply";
+import { postBatch } from "../../src/commands/post/batch";
+import { postDelete } from "../../src/commands/post/delete";
+import { postDocument } from "../../src/commands/post/document";
+import { postPhoto } from "../../src/commands/post/photo";
+import { postRetry } from "../../src/commands/post/retry";
+import { postText } from "../../src/commands/post/text";
+import { postVideo } from "../../src/commands/post/video";
+import { profilesConnect } from "../../src/commands/profiles/connect";
+import { profilesCreate } from "../../src/commands/profiles/create";
+import { profilesDelete } from "../../src/commands/profiles/delete";
+import { profilesList } from "../../src/commands/profiles/list";
+import { queueNext } from "../../src/commands/queue/next";
+import { queuePreview } from "../../src/commands/queue/preview";
+import { queueSettings } from "../../src/commands/queue/settings";
+import { scheduleCancel } from "../../src/commands/schedule/cancel";
+import { scheduleList } from "../../src/commands/schedule/list";
+import { scheduleModify } from "../../src/commands/schedule/modify";
+import { statusCheck } from "../../src/commands/status";
+
+const TEST_DIR = "/tmp/posterboy-test-config-override";
+const DEFAULT_CONFIG = `${TEST_DIR}/default.json`;
+const OVERRIDE_CONFIG = `${TEST_DIR}/other.json`;
+
+// Stops a command as soon as it creates its API client
+class ClientCreated extends Error {}
+
+describe("--config override", () => {
+  let apiClientSpy: ReturnType<typeof spyOn> | null = null;
+  let consoleLogSpy: ReturnType<typeof spyOn>;
+  let consoleErrorSpy: ReturnType<typeof spyOn>;
+  let previousConfig: string | undefined;
+  let previousLedger: string | undefined;
+  let apiKeys: string[];
+
+  const flags: GlobalFlags = { json: true, pretty: false, verbose: false, config: OVERRIDE_CONFIG };
+
+  function writeJson(path: string, config: Config) {
+    writeFileSync(path, JSON.stringify(config));
+  }
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+
+    previousConfig = process.env.POSTERBOY_CONFIG;
+    previousLedger = process.env.POSTERBOY_LEDGER;
+    process.env.POSTERBOY_CONFIG = DEFAULT_CONFIG;
+    process.env.POSTERBOY_LEDGER = `${TEST_DIR}/ledger.db`;
+
+    writeJson(DEFAULT_CONFIG, { version: 2, api_key: "default_key" });
+    writeJson(OVERRIDE_CONFIG, {
+      version: 2,
+      api_key: "override_key",
+      default_profile: "override-profile",
+      default_platforms: ["x"],
+    });
+
+    apiKeys = [];
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(((apiKey: string) => {
+      apiKeys.push(apiKey);
+      throw new ClientCreated();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+    consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+    consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    apiClientSpy?.mockRestore();
+    apiClientSpy = null;
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    process.env.POSTERBOY_CONFIG = previousConfig;
+    process.env.POSTERBOY_LEDGER = previousLedger;
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  const commands: [string, () => Promise<void>][] = [
+    ["post text", () => postText(["--body", "Hello"], flags)],
+    ["post photo", () => postPhoto(["--urls", "https://example.com/photo.jpg", "--title", "Test"], flags)],
+    ["post video", () => postVideo(["--url", "https://example.com/video.mp4", "--title", "Test"], flags)],
+    ["post document", () => postDocument(["--url", "https://example.com/doc.pdf", "--title", "Test"], flags)],
+    ["post batch", () => {
+      writeFileSync(`${TEST_DIR}/posts.csv`, "type,text\ntext,Hello\n");
+      return postBatch(["--csv", `${TEST_DIR}/posts.csv`], flags);
+    }],
+    ["post apply", () => {
+      writeFileSync(`${TEST_DIR}/post.yaml`, "type: text\ntext: Hello\n");
+      return postApply([`${TEST_DIR}/post.yaml`], flags);
+    }],
+    ["post retry", () => {
+      const ledger = new Ledger();
+      try {
+        ledger.record(
+          { type: "text", params: { profile: "override-profile", platforms: ["x"], text: "Hello" } },
+          { success: false, results: { x: { success: false } } }
+        );
+      } finally {
+        ledger.close();
+      }
+      return postRetry(["1"], flags);
+    }],
+    ["history", () => history([], flags)],
+    ["status", () => statusCheck(["job_123"], flags)],
+    ["auth status", () => authStatus([], flags)],
+    ["platforms", () => platforms([], flags)],
+    ["platforms pages", () => platformsPages("facebook", [], flags)],
+    ["profiles list", () => profilesList([], flags)],
+    ["profiles create", () => profilesCreate(["--username", "brand"], flags)],
+    ["profiles delete", () => profilesDelete(["--username", "brand", "--confirm"], flags)],
+    ["profiles connect", () => profilesConnect(["--username", "brand"], flags)],
+    ["analytics", () => analytics(["brand", "--platforms", "x"], flags)],
+    ["queue settings", () => queueSettings([], flags)],
+    ["queue next", () => queueNext([], flags)],
+    ["queue preview", () => queuePreview([], flags)],
+    ["schedule list", () => scheduleList([], flags)],
+    ["schedule modify", () => scheduleModify(["--job-id", "job_123", "--title", "New"], flags)],
+    ["schedule cancel", () => scheduleCancel(["--job-id", "job_123", "--confirm"], flags)],
+  ];
+
+  for (const [name, run] of commands) {
+    test(`${name} uses the API key from the --config file`, async () => {
+      await expect(run()).rejects.toBeInstanceOf(ClientCreated);
+      expect(apiKeys).toEqual(["override_key"]);
+    });
+  }
+
+  // A job whose client cannot be created only fails its own check
+  test("jobs list uses the API key from the --config file", async () => {
+    const ledger = new Ledger();
+    try {
+      ledger.record(
+        { type: "text", params: { profile: "override-profile", platforms: ["x"], text: "Hello" } },
+        { success: true, request_id: "req_123" }
+      );
+    } finally {
+      ledger.close();
+    }
+
+    await jobsList(["--refresh"], flags);
+    expect(apiKeys).toEqual(["override_key"]);
+  });
+
+  test("auth login saves the key to the --config file", async () => {
+    apiClientSpy!.mockImplementation((() => ({
+      me: async () => ({ email: "user@example.com", plan: "pro" }),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    })) as any);
+
+    await authLogin(["--key", "new_key"], flags);
+
+    expect(JSON.parse(readFileSync(OVERRIDE_CONFIG, "utf-8")).api_key).toBe("new_key");
+    expect(JSON.parse(readFileSync(DEFAULT_CONFIG, "utf-8")).api_key).toBe("default_key");
+    expect(JSON.parse(consoleLogSpy.mock.calls[0]![0] as string).message).toBe(
+      `API key saved to ${OVERRIDE_CONFIG}`
+    );
+  });
+
+  test("lint uses the default platforms from the --config file", async () => {
+    // Without platforms (the default config has none) the post fails to lint
+    await expect(lint(["text", "--body", "Hello"], { ...flags, config: undefined })).rejects.toThrow();
+    await lint(["text", "--body", "Hello"], flags);
+  });
+
+  test("post delete uses the proxy from the --config file", async () => {
+    writeJson(OVERRIDE_CONFIG, { version: 2, network: { proxy: "socks5://proxy:1080" } });
+
+    await expect(
+      postDelete(["--platform", "bluesky", "--id", "abc"], flags)
+    ).rejects.toThrow("Invalid proxy URL: socks5://proxy:1080");
+  });
+});
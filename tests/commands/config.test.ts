@@ -0,0 +1,205 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { configGet, configSet, configUnset, configList, configEdit, configPath, configMigrate } from "../../src/commands/config";
+import { UserError } from "../../src/lib/errors";
+import type { Config, GlobalFlags } from "../../src/lib/types";
+
+const TEST_DIR = "/tmp/posterboy-test-config-command";
+const CONFIG_FILE = `${TEST_DIR}/config.json`;
+
+describe("config commands", () => {
+  let consoleLogSpy: ReturnType<typeof spyOn>;
+  let consoleErrorSpy: ReturnType<typeof spyOn>;
+  let previousEditor: string | undefined;
+  let previousVisual: string | undefined;
+
+  const flags: GlobalFlags = { json: true, pretty: false, verbose: false, config: CONFIG_FILE };
+
+  function writeConfigFile(config: Config) {
+    writeFileSync(CONFIG_FILE, JSON.stringify(config));
+  }
+
+  function readConfigFile(): Config {
+    return JSON.parse(readFileSync(CONFIG_FILE, "utf-8"));
+  }
+
+  function lastJson() {
+    const calls = consoleLogSpy.mock.calls;
+    return JSON.parse(calls[calls.length - 1]![0] as string);
+  }
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    previousEditor = process.env.EDITOR;
+    previousVisual = process.env.VISUAL;
+    delete process.env.VISUAL;
+    consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+    consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    process.env.EDITOR = previousEditor;
+    process.env.VISUAL = previousVisual;
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("set creates the config file and nested sections", async () => {
+    await configSet(["platform_defaults.facebook.page", "123456789"], flags);
+    await configSet(["default_platforms", "x,linkedin"], flags);
+
+    expect(readConfigFile()).toEqual({
+      version: 2,
+      platform_defaults: { facebook: { page: "123456789" } },
+      default_platforms: ["x", "linkedin"],
+    });
+    expect(lastJson()).toEqual({ success: true, key: "default_platforms", value: ["x", "linkedin"] });
+  });
+
+  test("set validates the value before saving", async () => {
+    writeConfigFile({ version: 2, default_profile: "brand" });
+
+    await expect(configSet(["default_platforms", "x,myspace"], flags)).rejects.toThrow(
+      "Config default_platforms has invalid platforms: myspace"
+    );
+    await expect(configSet(["network.timeout_ms", "soon"], flags)).rejects.toThrow(
+      "Config network.timeout_ms must be a positive integer"
+    );
+    await expect(configSet(["output.format", "xml"], flags)).rejects.toThrow(
+      "Config output.format must be one of: auto, json, pretty"
+    );
+    await expect(configSet(["platform_defaults.facebook.pages", "1"], flags)).rejects.toThrow(
+      "Unknown config key: platform_defaults.facebook.pages"
+    );
+    await expect(configSet(["default_profile"], flags)).rejects.toThrow("Value required for default_profile");
+
+    expect(readConfigFile()).toEqual({ version: 2, default_profile: "brand" });
+  });
+
+  test("get prints a value or a section", async () => {
+    writeConfigFile({ version: 2, network: { retry: { max_attempts: 5 } } });
+
+    await configGet(["network.retry.max_attempts"], flags);
+    expect(lastJson()).toEqual({ key: "network.retry.max_attempts", value: 5 });
+
+    await configGet(["network"], { ...flags, json: false, pretty: true });
+    expect(consoleLogSpy.mock.calls[1]![0]).toBe(JSON.stringify({ retry: { max_attempts: 5 } }, null, 2));
+
+    const error = await configGet(["network.proxy"], flags).catch((e) => e);
+    expect(error).toBeInstanceOf(UserError);
+    expect(error.message).toBe("Config key not set: network.proxy");
+  });
+
+  test("get masks API keys unless --reveal is given", async () => {
+    writeConfigFile({
+      version: 2,
+      api_key: "up_aaaaaaaa1111",
+      contexts: { "client-a": { api_key: "up_bbbbbbbb2222", default_profile: "brand-a" } },
+    });
+
+    await configGet(["api_key"], flags);
+    expect(lastJson()).toEqual({ key: "api_key", value: "****1111" });
+
+    await configGet(["contexts"], flags);
+    expect(lastJson().value).toEqual({ "client-a": { api_key: "****2222", default_profile: "brand-a" } });
+
+    await configGet(["contexts.client-a.api_key", "--reveal"], flags);
+    expect(lastJson()).toEqual({ key: "contexts.client-a.api_key", value: "up_bbbbbbbb2222" });
+  });
+
+  test("unset removes the key and any sections left empty", async () => {
+    writeConfigFile({
+      version: 2,
+      default_profile: "brand",
+      platform_defaults: { facebook: { page: "123" } },
+    });
+
+    await configUnset(["platform_defaults.facebook.page"], flags);
+
+    expect(readConfigFile()).toEqual({ version: 2, default_profile: "brand" });
+    expect(lastJson()).toEqual({ success: true, key: "platform_defaults.facebook.page" });
+
+    await expect(configUnset(["default_platforms"], flags)).rejects.toThrow("Config key not set: default_platforms");
+    await expect(configUnset(["version"], flags)).rejects.toThrow("version is managed by posterboy");
+  });
+
+  test("unset removes keys the schema does not know", async () => {
+    writeFileSync(CONFIG_FILE, JSON.stringify({ version: 2, legacy: { flag: true } }));
+
+    await configUnset(["legacy.flag"], flags);
+
+    expect(readConfigFile()).toEqual({ version: 2 });
+  });
+
+  test("list flattens settings and masks API keys", async () => {
+    writeConfigFile({
+      version: 2,
+      api_key: "up_aaaaaaaa1111",
+      default_platforms: ["x"],
+      contexts: { "client-a": { api_key: "up_bbbbbbbb2222" } },
+    });
+
+    await configList([], flags);
+
+    expect(lastJson()).toEqual({
+      path: CONFIG_FILE,
+      settings: {
+        version: 2,
+        api_key: "****1111",
+        default_platforms: ["x"],
+        "contexts.client-a.api_key": "****2222",
+      },
+    });
+  });
+
+  test("path prints the config file in use", async () => {
+    await configPath([], flags);
+    expect(lastJson()).toEqual({ path: CONFIG_FILE, exists: false });
+  });
+
+  test("migrate saves an older config in the current schema, keeping a backup", async () => {
+    writeConfigFile({ version: 1, platform_defaults: { facebook: { page_id: "fb-page" } } } as unknown as Config);
+
+    await configMigrate([], flags);
+
+    expect(readConfigFile()).toEqual({ version: 2, platform_defaults: { facebook: { page: "fb-page" } } });
+    expect(lastJson()).toEqual({
+      success: true,
+      path: CONFIG_FILE,
+      version: 2,
+      migrated: true,
+      from: 1,
+      backup: `${CONFIG_FILE}.v1.bak`,
+    });
+
+    await configMigrate([], flags);
+    expect(lastJson()).toEqual({ success: true, path: CONFIG_FILE, version: 2, migrated: false });
+    await expect(configMigrate([], { ...flags, config: `${TEST_DIR}/missing.json` })).rejects.toThrow(
+      "No config file at"
+    );
+  });
+
+  test("edit saves the edited config once it validates", async () => {
+    writeConfigFile({ version: 2, default_profile: "brand" });
+    process.env.EDITOR = "sed -i s/brand/other-brand/";
+
+    await configEdit([], flags);
+
+    expect(readConfigFile()).toEqual({ version: 2, default_profile: "other-brand" });
+    expect(existsSync(`${CONFIG_FILE}.edit.json`)).toBe(false);
+  });
+
+  test("edit keeps an invalid edit and leaves the config alone", async () => {
+    writeConfigFile({ version: 2, default_profile: "brand" });
+    process.env.EDITOR = "sed -i 's/brand/myspace/;s/default_profile/default_platforms/'";
+
+    await expect(configEdit([], flags)).rejects.toThrow(
+      "Edited config is not valid: Config default_platforms must be an array"
+    );
+
+    expect(readConfigFile()).toEqual({ version: 2, default_profile: "brand" });
+    expect(existsSync(`${CONFIG_FILE}.edit.json`)).toBe(true);
+  });
+});
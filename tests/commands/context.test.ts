@@ -0,0 +1,151 @@
+import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from "bun:test";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { contextList, contextUse, contextAdd, contextRemove } from "../../src/commands/context";
+import { UserError } from "../../src/lib/errors";
+import type { Config, GlobalFlags } from "../../src/lib/types";
+
+const TEST_DIR = "/tmp/posterboy-test-context";
+const CONFIG_FILE = `${TEST_DIR}/config.json`;
+
+describe("context commands", () => {
+  let consoleLogSpy: ReturnType<typeof spyOn>;
+
+  const flags: GlobalFlags = { json: true, pretty: false, verbose: false, config: CONFIG_FILE };
+
+  function writeConfigFile(config: Config) {
+    writeFileSync(CONFIG_FILE, JSON.stringify(config));
+  }
+
+  function readConfigFile(): Config {
+    return JSON.parse(readFileSync(CONFIG_FILE, "utf-8"));
+  }
+
+  function lastJson() {
+    const calls = consoleLogSpy.mock.calls;
+    return JSON.parse(calls[calls.length - 1]![0] as string);
+  }
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    delete process.env.POSTERBOY_CONTEXT;
+    consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (Bun.stdin as any).text = mock(async () => "up_client_a_key\n");
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("add creates the config file and stores the account settings", async () => {
+    await contextAdd(
+      ["client-a", "--key-stdin", "--default-profile", "brand-a", "--default-platforms", "x,linkedin"],
+      flags
+    );
+
+    expect(readConfigFile()).toEqual({
+      version: 2,
+      contexts: {
+        "client-a": { api_key: "up_client_a_key", default_profile: "brand-a", default_platforms: ["x", "linkedin"] },
+      },
+    });
+    expect(lastJson()).toEqual({ success: true, context: "client-a", current_context: null });
+  });
+
+  test("add --use switches to the new context", async () => {
+    writeConfigFile({ version: 2, api_key: "own_key" });
+
+    await contextAdd(["client-a", "--use"], flags);
+
+    expect(readConfigFile()).toMatchObject({ api_key: "own_key", current_context: "client-a" });
+  });
+
+  test("add rejects existing contexts, bad names and unknown platforms", async () => {
+    writeConfigFile({ version: 2, contexts: { "client-a": {} } });
+
+    await expect(contextAdd(["client-a"], flags)).rejects.toThrow("Context already exists: client-a");
+    await expect(contextAdd(["-bad"], flags)).rejects.toThrow("Context name required");
+    await expect(contextAdd(["a/b"], flags)).rejects.toThrow("Invalid context name: a/b");
+    await expect(contextAdd(["client-b", "--default-platforms", "myspace"], flags)).rejects.toThrow(
+      "Invalid platform names: myspace"
+    );
+  });
+
+  test("add takes the key from stdin, never from argv", async () => {
+    await expect(contextAdd(["client-a", "--key", "up_secret"], flags)).rejects.toThrow("--key is not accepted");
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (Bun.stdin as any).text = mock(async () => "  \n");
+    await expect(contextAdd(["client-a", "--key-stdin"], flags)).rejects.toThrow("No API key on stdin");
+  });
+
+  test("list marks the current context and masks keys", async () => {
+    writeConfigFile({
+      version: 2,
+      current_context: "client-b",
+      contexts: {
+        "client-a": { api_key: "up_aaaaaaaa1111", default_profile: "brand-a" },
+        "client-b": { default_platforms: ["x"] },
+      },
+    });
+
+    await contextList([], flags);
+
+    expect(lastJson()).toEqual({
+      current_context: "client-b",
+      contexts: [
+        { name: "client-a", current: false, api_key: "****1111", default_profile: "brand-a", default_platforms: [] },
+        { name: "client-b", current: true, api_key: null, default_profile: null, default_platforms: ["x"] },
+      ],
+    });
+
+    // --context overrides the saved current context for the run
+    await contextList([], { ...flags, context: "client-a" });
+    expect(lastJson().current_context).toBe("client-a");
+  });
+
+  test("list works without a config file", async () => {
+    await contextList([], flags);
+    expect(lastJson()).toEqual({ current_context: null, contexts: [] });
+  });
+
+  test("use sets current_context", async () => {
+    writeConfigFile({ version: 2, contexts: { "client-a": {}, "client-b": {} } });
+
+    await contextUse(["client-b"], flags);
+
+    expect(readConfigFile().current_context).toBe("client-b");
+    expect(lastJson()).toEqual({ success: true, current_context: "client-b" });
+  });
+
+  test("use fixes a current_context that names a missing context", async () => {
+    writeConfigFile({ version: 2, current_context: "gone", contexts: { "client-a": {} } });
+
+    await contextUse(["client-a"], flags);
+
+    expect(readConfigFile().current_context).toBe("client-a");
+  });
+
+  test("use rejects unknown contexts", async () => {
+    writeConfigFile({ version: 2, contexts: { "client-a": {} } });
+
+    const error = await contextUse(["client-c"], flags).catch((e) => e);
+    expect(error).toBeInstanceOf(UserError);
+    expect(error.message).toBe("Unknown context: client-c\nConfigured contexts: client-a");
+  });
+
+  test("remove deletes the context and clears it as current", async () => {
+    writeConfigFile({
+      version: 2,
+      current_context: "client-a",
+      contexts: { "client-a": { api_key: "a_key" }, "client-b": {} },
+    });
+
+    await contextRemove(["client-a"], flags);
+
+    expect(readConfigFile()).toEqual({ version: 2, contexts: { "client-b": {} } });
+    expect(lastJson()).toEqual({ success: true, removed: "client-a" });
+  });
+});
@@ -17,7 +17,7 @@ describe("history command", () => {
 
   test("lists history with default pagination", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -68,7 +68,7 @@ describe("history command", () => {
 
   test("lists history with custom page and limit", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -102,7 +102,7 @@ describe("history command", () => {
 
   test("JSON output mode", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -145,7 +145,7 @@ describe("history command", () => {
 
   test("throws error for invalid page number (0)", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -166,7 +166,7 @@ describe("history command", () => {
 
   test("throws error for negative page number", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -187,7 +187,7 @@ describe("history command", () => {
 
   test("throws error for limit exceeding max (>100)", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -208,7 +208,7 @@ describe("history command", () => {
 
   test("empty history result displays message", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -241,7 +241,7 @@ describe("history command", () => {
 
   test("uses specified profile flag", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
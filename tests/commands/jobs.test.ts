@@ -0,0 +1,239 @@
+import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from "bun:test";
+import { existsSync, mkdirSync, rmSync } from "node:fs";
+import { jobsList, jobsWatch, jobsPrune } from "../../src/commands/jobs";
+import * as config from "../../src/lib/config";
+import * as api from "../../src/lib/api";
+import { Ledger } from "../../src/lib/ledger";
+import { ApiError, UserError } from "../../src/lib/errors";
+import type { GlobalFlags } from "../../src/lib/types";
+
+const TEST_DIR = "/tmp/posterboy-test-jobs";
+
+const globalFlags: GlobalFlags = {
+  json: true,
+  pretty: false,
+  verbose: false,
+};
+
+describe("jobs commands", () => {
+  let apiClientSpy: ReturnType<typeof spyOn> | null = null;
+  let configSpies: ReturnType<typeof spyOn>[] = [];
+  let consoleLogSpy: ReturnType<typeof spyOn>;
+  let previousLedger: string | undefined;
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    previousLedger = process.env.POSTERBOY_LEDGER;
+    process.env.POSTERBOY_LEDGER = `${TEST_DIR}/ledger.db`;
+
+    const ledger = new Ledger();
+    ledger.record(
+      { type: "video", params: { file: "/tmp/a.mp4", title: "Teaser", platforms: ["tiktok"], profile: "brand" } },
+      { success: true, request_id: "req_video" }
+    );
+    ledger.record(
+      { type: "photo", params: { files: ["/tmp/a.jpg"], title: "Launch", platforms: ["instagram"], profile: "brand" } },
+      { success: true, scheduled: true, job_id: "job_photo", scheduled_date: "2026-11-01T15:00:00Z" }
+    );
+    ledger.record(
+      { type: "text", params: { text: "Hello", platforms: ["x"], profile: "brand" } },
+      { success: true, request_id: "req_text", results: { x: { success: true } } }
+    );
+    ledger.close();
+
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue({ version: 2, api_key: "test_key" }),
+      spyOn(config, "getApiKey").mockReturnValue("test_key")
+    );
+    consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    if (apiClientSpy) {
+      apiClientSpy.mockRestore();
+      apiClientSpy = null;
+    }
+    configSpies.forEach((spy) => spy.mockRestore());
+    configSpies = [];
+    consoleLogSpy.mockRestore();
+    process.env.POSTERBOY_LEDGER = previousLedger;
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  function lastJson() {
+    const calls = consoleLogSpy.mock.calls;
+    return JSON.parse(calls[calls.length - 1][0] as string);
+  }
+
+  function mockStatuses(statuses: Record<string, string>) {
+    const mockGetStatus = mock(async (id: string) => ({ status: statuses[id], completed: 1, total: 1 }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      getStatus: mockGetStatus,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+    return mockGetStatus;
+  }
+
+  test("list shows only async and scheduled submissions", async () => {
+    await jobsList([], globalFlags);
+
+    expect(lastJson().jobs.map((j: { id: string; status: string }) => [j.id, j.status])).toEqual([
+      ["job_photo", "scheduled"],
+      ["req_video", "pending"],
+    ]);
+  });
+
+  test("list --refresh updates pending jobs first", async () => {
+    mockStatuses({ req_video: "completed", job_photo: "scheduled" });
+
+    await jobsList(["--refresh", "--pending"], globalFlags);
+
+    expect(lastJson().jobs.map((j: { id: string }) => j.id)).toEqual(["job_photo"]);
+  });
+
+  test("list --refresh keeps a scheduled post scheduled while the API reports it pending", async () => {
+    mockStatuses({ req_video: "processing", job_photo: "pending" });
+
+    await jobsList(["--refresh"], globalFlags);
+
+    expect(lastJson().jobs.map((j: { id: string; status: string }) => [j.id, j.status])).toEqual([
+      ["job_photo", "scheduled"],
+      ["req_video", "processing"],
+    ]);
+  });
+
+  test("checks each job with the API key of the context it was posted with", async () => {
+    const ledger = new Ledger();
+    ledger.record(
+      { type: "video", params: { file: "/tmp/b.mp4", title: "Client clip", platforms: ["tiktok"], profile: "client" } },
+      { success: true, request_id: "req_client" },
+      undefined,
+      "client-a"
+    );
+    ledger.close();
+    configSpies.forEach((spy) => spy.mockRestore());
+    configSpies = [
+      spyOn(config, "readConfig").mockReturnValue({
+        version: 2,
+        api_key: "top_key",
+        contexts: { "client-a": { api_key: "client_key" } },
+      }),
+    ];
+    const keys: Record<string, string> = {};
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation((apiKey: string) => ({
+      getStatus: mock(async (id: string) => {
+        keys[id] = apiKey;
+        return { status: "completed" };
+      }),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    await jobsList(["--refresh"], globalFlags);
+
+    expect(keys).toEqual({ req_client: "client_key", req_video: "top_key", job_photo: "top_key" });
+  });
+
+  test("list, watch and prune report nothing without creating a ledger", async () => {
+    rmSync(`${TEST_DIR}/ledger.db`);
+
+    await jobsList(["--refresh"], globalFlags);
+    expect(lastJson()).toEqual({ jobs: [] });
+    await jobsWatch([], globalFlags);
+    expect(lastJson()).toEqual({ jobs: [] });
+    await jobsPrune([], globalFlags);
+    expect(lastJson()).toEqual({ success: true, removed: 0 });
+
+    expect(existsSync(`${TEST_DIR}/ledger.db`)).toBe(false);
+  });
+
+  test("a job from a removed context does not stop the others from being checked", async () => {
+    const ledger = new Ledger();
+    ledger.record(
+      { type: "video", params: { file: "/tmp/b.mp4", title: "Old client", platforms: ["tiktok"], profile: "client" } },
+      { success: true, request_id: "req_removed" },
+      undefined,
+      "removed"
+    );
+    ledger.close();
+    const mockGetStatus = mockStatuses({ req_video: "completed", job_photo: "scheduled" });
+    const consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+    await jobsList(["--refresh"], { ...globalFlags, json: false, pretty: true });
+
+    const warnings = consoleErrorSpy.mock.calls.map((call) => String(call[0]));
+    consoleErrorSpy.mockRestore();
+    expect(mockGetStatus).toHaveBeenCalledTimes(2);
+    expect(warnings).toEqual([expect.stringContaining("Warning: could not check req_removed:")]);
+    expect(warnings[0]).toContain("(no longer checking it)");
+  });
+
+  test("watch polls async uploads until all have finished, leaving scheduled posts out", async () => {
+    const mockGetStatus = mockStatuses({ req_video: "completed", job_photo: "scheduled" });
+
+    await jobsWatch([], globalFlags);
+
+    expect(mockGetStatus).toHaveBeenCalledTimes(1);
+    expect(mockGetStatus).toHaveBeenCalledWith("req_video", "request_id");
+    expect(lastJson().jobs.map((j: { id: string; status: string }) => [j.id, j.status])).toEqual([
+      ["req_video", "completed"],
+    ]);
+  });
+
+  test("watch stops checking a job the API rejects", async () => {
+    const mockGetStatus = mock(async () => {
+      throw new ApiError("Not found", 404);
+    });
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      getStatus: mockGetStatus,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    await jobsWatch([], globalFlags);
+
+    expect(mockGetStatus).toHaveBeenCalledTimes(1);
+    expect(lastJson().jobs.map((j: { id: string; status: string }) => [j.id, j.status])).toEqual([
+      ["req_video", "pending"],
+    ]);
+  });
+
+  test("watch gives up after --max-wait", async () => {
+    mockStatuses({ req_video: "processing" });
+
+    await expect(jobsWatch(["--interval", "1", "--max-wait", "1"], globalFlags)).rejects.toThrow(
+      "Stopped watching after 1s with 1 job still pending."
+    );
+    await expect(jobsWatch(["--max-wait", "soon"], globalFlags)).rejects.toThrow(
+      "--max-wait must be a positive number of seconds"
+    );
+  });
+
+  test("watch exits 130 on Ctrl+C", async () => {
+    mockStatuses({ req_video: "processing" });
+    const exitSpy = spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+    const watching = jobsWatch(["--interval", "1"], globalFlags).catch(() => {});
+
+    await Bun.sleep(10);
+    expect(() => process.emit("SIGINT")).toThrow("exit");
+    expect(exitSpy).toHaveBeenCalledWith(130);
+    exitSpy.mockRestore();
+    await watching;
+  });
+
+  test("prune removes finished jobs only", async () => {
+    mockStatuses({ req_video: "completed", job_photo: "scheduled" });
+    await jobsList(["--refresh"], globalFlags);
+
+    await jobsPrune([], globalFlags);
+    expect(lastJson()).toEqual({ success: true, removed: 1 });
+
+    await jobsList([], globalFlags);
+    expect(lastJson().jobs.map((j: { id: string }) => j.id)).toEqual(["job_photo"]);
+  });
+
+  test("throws error for an invalid watch interval", async () => {
+    await expect(jobsWatch(["--interval", "0"], globalFlags)).rejects.toThrow(UserError);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync } from "node:fs";
+import { ledgerList, ledgerShow, ledgerSearch, ledgerExport } from "../../src/commands/ledger";
+import { Ledger } from "../../src/lib/ledger";
+import { UserError } from "../../src/lib/errors";
+import type { GlobalFlags } from "../../src/lib/types";
+
+const TEST_DIR = "/tmp/posterboy-test-ledger";
+
+const globalFlags: GlobalFlags = {
+  json: true,
+  pretty: false,
+  verbose: false,
+};
+
+describe("ledger commands", () => {
+  let consoleLogSpy: ReturnType<typeof spyOn>;
+  let previousLedger: string | undefined;
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    previousLedger = process.env.POSTERBOY_LEDGER;
+    process.env.POSTERBOY_LEDGER = `${TEST_DIR}/ledger.db`;
+
+    const ledger = new Ledger();
+    ledger.record(
+      { type: "text", params: { text: "Fall launch, finally", platforms: ["x"], profile: "brand" } },
+      {
+        success: true,
+        request_id: "req_abc",
+        results: { x: { success: true, url: "https://x.com/brand/status/1" } },
+      },
+      { campaign: "fall" }
+    );
+    ledger.record(
+      { type: "photo", params: { files: ["/tmp/a.jpg"], title: "Behind the scenes", platforms: ["instagram"], profile: "brand" } },
+      { success: true, scheduled: true, job_id: "job_xyz", scheduled_date: "2026-11-01T15:00:00Z" }
+    );
+    ledger.close();
+
+    consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+    process.env.POSTERBOY_LEDGER = previousLedger;
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  function lastJson() {
+    const calls = consoleLogSpy.mock.calls;
+    return JSON.parse(calls[calls.length - 1][0] as string);
+  }
+
+  test("list returns entries newest first", async () => {
+    await ledgerList([], globalFlags);
+
+    const output = lastJson();
+    expect(output.entries.map((e: { id: number }) => e.id)).toEqual([2, 1]);
+    expect(output.entries[1].metadata).toEqual({ campaign: "fall" });
+  });
+
+  test("list reports no posts without creating a ledger", async () => {
+    rmSync(`${TEST_DIR}/ledger.db`);
+
+    await ledgerList([], globalFlags);
+    expect(lastJson()).toEqual({ entries: [] });
+    await ledgerList([], { ...globalFlags, json: false, pretty: true });
+    expect(consoleLogSpy.mock.calls[consoleLogSpy.mock.calls.length - 1][0]).toContain("No posts recorded yet.");
+    await expect(ledgerShow(["1"], globalFlags)).rejects.toThrow("No ledger entry found for: 1");
+
+    expect(existsSync(`${TEST_DIR}/ledger.db`)).toBe(false);
+  });
+
+  test("list filters by platform", async () => {
+    await ledgerList(["--platform", "instagram"], globalFlags);
+
+    expect(lastJson().entries.map((e: { job_id: string }) => e.job_id)).toEqual(["job_xyz"]);
+  });
+
+  test("list rejects an unknown type", async () => {
+    await expect(ledgerList(["--type", "gif"], globalFlags)).rejects.toThrow(UserError);
+  });
+
+  test("search matches metadata", async () => {
+    await ledgerSearch(["fall"], globalFlags);
+
+    expect(lastJson().entries.map((e: { request_id: string }) => e.request_id)).toEqual(["req_abc"]);
+  });
+
+  test("search requires a term", async () => {
+    await expect(ledgerSearch([], globalFlags)).rejects.toThrow("Search term required");
+  });
+
+  test("show finds an entry by request_id", async () => {
+    await ledgerShow(["req_abc"], globalFlags);
+
+    const output = lastJson();
+    expect(output.id).toBe(1);
+    expect(output.result.results.x.url).toBe("https://x.com/brand/status/1");
+  });
+
+  test("show pretty output lists platform URLs", async () => {
+    await ledgerShow(["1"], { ...globalFlags, json: false, pretty: true });
+
+    const output = consoleLogSpy.mock.calls.map((c) => c[0]).join("\n");
+    expect(output).toContain("https://x.com/brand/status/1");
+    expect(output).toContain("campaign = fall");
+  });
+
+  test("show fails for an unknown id", async () => {
+    await expect(ledgerShow(["req_missing"], globalFlags)).rejects.toThrow(
+      "No ledger entry found for: req_missing"
+    );
+  });
+
+  test("export writes CSV with URLs and metadata", async () => {
+    await ledgerExport(["--format", "csv", "--output", `${TEST_DIR}/out.csv`], globalFlags);
+
+    expect(lastJson()).toEqual({ success: true, path: `${TEST_DIR}/out.csv`, count: 2 });
+    const lines = readFileSync(`${TEST_DIR}/out.csv`, "utf-8").trim().split("\n");
+    expect(lines[0]).toBe(
+      "id,created_at,type,profile,platforms,title,request_id,job_id,success,urls,metadata"
+    );
+    expect(lines[2]).toContain("x=https://x.com/brand/status/1");
+    expect(lines[2]).toContain("campaign=fall");
+  });
+
+  test("export rejects an unknown format", async () => {
+    await expect(ledgerExport(["--format", "xml"], globalFlags)).rejects.toThrow(
+      "Invalid export format: xml"
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { lint } from "../../src/commands/lint";
+import * as config from "../../src/lib/config";
+import * as api from "../../src/lib/api";
+import { UserError } from "../../src/lib/errors";
+import type { Config, GlobalFlags } from "../../src/lib/types";
+
+const TEST_DIR = "/tmp/posterboy-test-lint";
+
+const globalFlags: GlobalFlags = {
+  json: true,
+  pretty: false,
+  verbose: false,
+};
+
+describe("lint command", () => {
+  let configSpies: ReturnType<typeof spyOn>[] = [];
+  let apiClientSpy: ReturnType<typeof spyOn>;
+  let consoleLogSpy: ReturnType<typeof spyOn>;
+
+  // No API key: linting must work offline
+  const mockConfig: Config = {
+    version: 2,
+    default_profile: "testuser",
+  };
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(`${TEST_DIR}/launch.mp4`, "fake video");
+
+    configSpies.push(spyOn(config, "readConfig").mockReturnValue(mockConfig));
+    apiClientSpy = spyOn(api, "ApiClient");
+    consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    configSpies.forEach((spy) => spy.mockRestore());
+    configSpies = [];
+    apiClientSpy.mockRestore();
+    consoleLogSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  function lastJson() {
+    const calls = consoleLogSpy.mock.calls;
+    return JSON.parse(calls[calls.length - 1][0] as string);
+  }
+
+  test("passes a valid post given as flags without calling the API", async () => {
+    await lint(["text", "--body", "Hello world", "--platforms", "x,bluesky"], globalFlags);
+
+    expect(lastJson()).toEqual({
+      valid: true,
+      reports: [{ source: "text", valid: true, issues: [] }],
+    });
+    expect(apiClientSpy).not.toHaveBeenCalled();
+  });
+
+  test("reports every problem instead of stopping at the first", async () => {
+    const tooLong = "a".repeat(290);
+
+    await expect(
+      lint(
+        [
+          "text",
+          "--body",
+          tooLong,
+          "--platforms",
+          "x,facebook,reddit",
+          "--schedule",
+          "not-a-date",
+          "--x-poll-options",
+          "Only one",
+        ],
+        globalFlags
+      )
+    ).rejects.toThrow("Lint found 5 errors");
+
+    const report = lastJson().reports[0];
+    expect(report.valid).toBe(false);
+    expect(report.issues.map((i: { message: string }) => i.message.split("\n")[0])).toEqual([
+      "Facebook requires --facebook-page flag.",
+      "Reddit requires --reddit-subreddit flag.",
+      "text is 290 characters, limit is 280",
+      "Invalid ISO-8601 date: not-a-date",
+      "X polls require 2-4 options. You provided 1.",
+    ]);
+    expect(report.issues[2]).toEqual({
+      level: "error",
+      platform: "x",
+      message: "text is 290 characters, limit is 280",
+    });
+  });
+
+  test("passes with warnings only", async () => {
+    await lint(["text", "--body", "#one #two", "--platforms", "threads"], globalFlags);
+
+    expect(lastJson().reports[0]).toEqual({
+      source: "text",
+      valid: true,
+      issues: [
+        {
+          level: "warning",
+          platform: "threads",
+          message: "2 hashtags: Threads only turns the first hashtag into a topic",
+        },
+      ],
+    });
+  });
+
+  test("lints several manifests and resolves media against each one", async () => {
+    writeFileSync(
+      `${TEST_DIR}/good.yaml`,
+      ["type: video", "title: Launch", "file: ./launch.mp4", "platforms: [tiktok]"].join("\n")
+    );
+    writeFileSync(
+      `${TEST_DIR}/bad.yaml`,
+      ["type: video", "file: ./missing.mp4", "platforms: [tiktok, linkedin]", "colour: red"].join("\n")
+    );
+    writeFileSync(
+      `${TEST_DIR}/broken.yaml`,
+      ["type: photo", "title: Launch", "files: [./a.jpg, ./b.jpg]", "platforms: [instagram, reddit]"].join("\n")
+    );
+
+    await expect(
+      lint(
+        [`${TEST_DIR}/good.yaml`, `${TEST_DIR}/bad.yaml`, `${TEST_DIR}/broken.yaml`, `${TEST_DIR}/nope.yaml`],
+        globalFlags
+      )
+    ).rejects.toThrow("Lint found 5 errors in 3 of 4 posts");
+
+    const { valid, reports } = lastJson();
+    expect(valid).toBe(false);
+    expect(reports.map((r: { valid: boolean }) => r.valid)).toEqual([true, false, false, false]);
+    expect(reports[1].issues[0].message).toStartWith("Unknown fields for video post: colour.");
+    expect(reports[2].issues.map((i: { message: string }) => i.message.split("\n")[0])).toEqual([
+      "Reddit requires --reddit-subreddit flag.",
+      `File not found: ${TEST_DIR}/a.jpg`,
+      `File not found: ${TEST_DIR}/b.jpg`,
+    ]);
+    expect(reports[3].issues[0].message).toBe(`Manifest file not found: ${TEST_DIR}/nope.yaml`);
+  });
+
+  test("checks thread parts when --thread is given", async () => {
+    const text = "Launch day is here. ".repeat(20).trim();
+
+    await expect(
+      lint(["text", "--body", text, "--platforms", "x"], globalFlags)
+    ).rejects.toThrow(UserError);
+
+    await lint(["text", "--body", text, "--platforms", "x", "--thread"], globalFlags);
+    expect(lastJson().valid).toBe(true);
+  });
+
+  test("throws error when there is nothing to lint", async () => {
+    await expect(lint([], globalFlags)).rejects.toThrow("Nothing to lint");
+  });
+});
@@ -24,7 +24,7 @@ describe("Platforms Commands", () => {
 
     // Create a config file with API key
     const config = {
-      version: 1,
+      version: 2,
       api_key: "test_key_123",
       default_profile: "test-profile",
     };
@@ -118,7 +118,7 @@ describe("Platforms Commands", () => {
     test("throws error when profile is missing", async () => {
       // Create config without default_profile
       const config = {
-        version: 1,
+        version: 2,
         api_key: "test_key_123",
       };
       const fs = await import("node:fs/promises");
@@ -414,7 +414,7 @@ describe("Platforms Commands", () => {
     test("throws error when profile is missing", async () => {
       // Create config without default_profile
       const config = {
-        version: 1,
+        version: 2,
         api_key: "test_key_123",
       };
       const fs = await import("node:fs/promises");
@@ -0,0 +1,194 @@
+import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { postApply } from "../../src/commands/post/apply";
+import * as config from "../../src/lib/config";
+import * as api from "../../src/lib/api";
+import type { PostResult, Config } from "../../src/lib/types";
+import { UserError } from "../../src/lib/errors";
+
+const TEST_DIR = "/tmp/posterboy-test-apply";
+
+describe("postApply command", () => {
+  // Track spies for cleanup
+  let apiClientSpy: ReturnType<typeof spyOn> | null = null;
+  let configSpies: ReturnType<typeof spyOn>[] = [];
+
+  const mockConfig: Config = {
+    version: 2,
+    api_key: "test_key",
+    default_profile: "testuser",
+    platform_defaults: {
+      pinterest: { board: "board-1" },
+      youtube: { privacy: "private", embeddable: true },
+    },
+  };
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(`${TEST_DIR}/media`, { recursive: true });
+    writeFileSync(`${TEST_DIR}/media/launch.mp4`, "fake video");
+
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue(mockConfig),
+      spyOn(config, "getApiKey").mockReturnValue("test_key"),
+      spyOn(config, "getDefaultProfile").mockReturnValue("testuser")
+    );
+  });
+
+  afterEach(() => {
+    if (apiClientSpy) {
+      apiClientSpy.mockRestore();
+      apiClientSpy = null;
+    }
+    configSpies.forEach((spy) => spy.mockRestore());
+    configSpies = [];
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("posts a video from a YAML manifest with nested platform options", async () => {
+    writeFileSync(
+      `${TEST_DIR}/launch.yaml`,
+      [
+        "type: video",
+        "title: Launch day",
+        "file: ./media/launch.mp4",
+        "platforms: [youtube, pinterest]",
+        "youtube:",
+        "  tags: [launch, product]",
+        "  privacy: public",
+        "youtube_kids: false",
+      ].join("\n")
+    );
+
+    const mockResult: PostResult = {
+      success: true,
+      results: {
+        youtube: { success: true, url: "https://youtube.com/watch?v=1" },
+        pinterest: { success: true, url: "https://pinterest.com/pin/1" },
+      },
+    };
+    const mockPostVideo = mock(async () => mockResult);
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postVideo: mockPostVideo,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+    await postApply([`${TEST_DIR}/launch.yaml`], { json: true, pretty: false, verbose: false });
+
+    expect(mockPostVideo).toHaveBeenCalledWith({
+      profile: "testuser",
+      platforms: ["youtube", "pinterest"],
+      title: "Launch day",
+      file: `${TEST_DIR}/media/launch.mp4`,
+      youtube_tags: "launch,product",
+      youtube_privacy: "public",
+      youtube_kids: false,
+      youtube_embeddable: true,
+      pinterest_board: "board-1",
+    }, { idempotencyKey: expect.any(String), retryable: false });
+    consoleLogSpy.mockRestore();
+  });
+
+  test("posts text from a JSON manifest", async () => {
+    writeFileSync(
+      `${TEST_DIR}/post.json`,
+      JSON.stringify({
+        type: "text",
+        body: "Hello from a manifest",
+        platforms: "x,bluesky",
+        x_reply_settings: "following",
+      })
+    );
+
+    const mockPostText = mock(async () => ({ success: true, request_id: "req_1" }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postText: mockPostText,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+    await postApply([`${TEST_DIR}/post.json`], { json: true, pretty: false, verbose: false });
+
+    expect(mockPostText).toHaveBeenCalledWith({
+      profile: "testuser",
+      platforms: ["x", "bluesky"],
+      text: "Hello from a manifest",
+      x_reply_settings: "following",
+    }, { idempotencyKey: expect.any(String), retryable: false });
+    consoleLogSpy.mockRestore();
+  });
+
+  test("dry run prints the payload without calling the API", async () => {
+    writeFileSync(
+      `${TEST_DIR}/post.yaml`,
+      "type: text\ntext: Dry run\nplatforms: [linkedin]\n"
+    );
+
+    const mockPostText = mock(async () => ({ success: true }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postText: mockPostText,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+    await postApply([`${TEST_DIR}/post.yaml`, "--dry-run"], { json: true, pretty: false, verbose: false });
+
+    expect(mockPostText).not.toHaveBeenCalled();
+    const output = JSON.parse(consoleLogSpy.mock.calls[0][0] as string);
+    expect(output.dry_run).toBe(true);
+    expect(output.type).toBe("text");
+    expect(output.payload.text).toBe("Dry run");
+    consoleLogSpy.mockRestore();
+  });
+
+  test("rejects platforms that do not support the post type", async () => {
+    writeFileSync(`${TEST_DIR}/post.yaml`, "type: text\ntext: Hi\nplatforms: [youtube]\n");
+
+    await expect(
+      postApply([`${TEST_DIR}/post.yaml`], { json: true, pretty: false, verbose: false })
+    ).rejects.toThrow(/does not support text posts/);
+  });
+
+  test("rejects missing platform requirements", async () => {
+    writeFileSync(`${TEST_DIR}/post.yaml`, "type: text\ntext: Hi\nplatforms: [reddit]\n");
+
+    await expect(
+      postApply([`${TEST_DIR}/post.yaml`], { json: true, pretty: false, verbose: false })
+    ).rejects.toThrow(/Reddit requires/);
+  });
+
+  test("rejects unknown fields", async () => {
+    writeFileSync(`${TEST_DIR}/post.yaml`, "type: text\ntext: Hi\nplatforms: [x]\nyoutube_tags: a\n");
+
+    await expect(
+      postApply([`${TEST_DIR}/post.yaml`], { json: true, pretty: false, verbose: false })
+    ).rejects.toThrow(/Unknown fields for text post: youtube_tags/);
+  });
+
+  test("rejects schedule dates in the past", async () => {
+    writeFileSync(
+      `${TEST_DIR}/post.yaml`,
+      'type: text\ntext: Hi\nplatforms: [x]\nschedule: "2020-01-01T00:00:00Z"\n'
+    );
+
+    await expect(
+      postApply([`${TEST_DIR}/post.yaml`], { json: true, pretty: false, verbose: false })
+    ).rejects.toThrow(/must be in the future/);
+  });
+
+  test("requires a manifest path", async () => {
+    await expect(
+      postApply([], { json: true, pretty: false, verbose: false })
+    ).rejects.toThrow(UserError);
+  });
+
+  test("reports a missing manifest file", async () => {
+    await expect(
+      postApply([`${TEST_DIR}/missing.yaml`], { json: true, pretty: false, verbose: false })
+    ).rejects.toThrow(/Manifest file not found/);
+  });
+});
@@ -0,0 +1,282 @@
+import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from "bun:test";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { postBatch } from "../../src/commands/post/batch";
+import * as config from "../../src/lib/config";
+import * as api from "../../src/lib/api";
+import type { Config } from "../../src/lib/types";
+import { InterruptedError, PublishError, RateLimitError, UserError } from "../../src/lib/errors";
+import { EXIT_CODES } from "../../src/constants";
+import { Ledger } from "../../src/lib/ledger";
+
+const TEST_DIR = "/tmp/posterboy-test-batch";
+
+describe("postBatch command", () => {
+  // Track spies for cleanup
+  let apiClientSpy: ReturnType<typeof spyOn> | null = null;
+  let configSpies: ReturnType<typeof spyOn>[] = [];
+  let consoleLogSpy: ReturnType<typeof spyOn>;
+
+  const mockConfig: Config = {
+    version: 2,
+    api_key: "test_key",
+    default_profile: "testuser",
+  };
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(`${TEST_DIR}/photo.jpg`, "fake image");
+
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue(mockConfig),
+      spyOn(config, "getApiKey").mockReturnValue("test_key"),
+      spyOn(config, "getDefaultProfile").mockReturnValue("testuser")
+    );
+    consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    if (apiClientSpy) {
+      apiClientSpy.mockRestore();
+      apiClientSpy = null;
+    }
+    configSpies.forEach((spy) => spy.mockRestore());
+    configSpies = [];
+    consoleLogSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  function lastJson() {
+    const calls = consoleLogSpy.mock.calls;
+    return JSON.parse(calls[calls.length - 1][0] as string);
+  }
+
+  test("submits each row through the matching ApiClient method", async () => {
+    writeFileSync(
+      `${TEST_DIR}/posts.csv`,
+      [
+        "type,text,title,files,platforms,pinterest-board",
+        'text,Hello,,,"x,linkedin",',
+        "photo,,Photo day,photo.jpg,pinterest,board-9",
+      ].join("\n")
+    );
+
+    const mockPostText = mock(async () => ({ success: true, request_id: "req_1" }));
+    const mockPostPhotos = mock(async () => ({ success: true, scheduled: true, job_id: "job_2" }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postText: mockPostText,
+      postPhotos: mockPostPhotos,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    await postBatch(["--csv", `${TEST_DIR}/posts.csv`], { json: true, pretty: false, verbose: false });
+
+    expect(mockPostText).toHaveBeenCalledWith({
+      profile: "testuser",
+      platforms: ["x", "linkedin"],
+      text: "Hello",
+    }, { idempotencyKey: expect.any(String), retryable: false });
+    expect(mockPostPhotos).toHaveBeenCalledWith({
+      profile: "testuser",
+      platforms: ["pinterest"],
+      title: "Photo day",
+      files: [`${TEST_DIR}/photo.jpg`],
+      pinterest_board: "board-9",
+    }, { idempotencyKey: expect.any(String), retryable: false });
+
+    const output = lastJson();
+    expect(output.summary).toEqual({ total: 2, submitted: 2, valid: 0, failed: 0, skipped: 0 });
+    expect(output.results[0]).toMatchObject({ row: 2, type: "text", status: "submitted", request_id: "req_1" });
+    expect(output.results[1]).toMatchObject({ row: 3, type: "photo", status: "submitted", job_id: "job_2" });
+  });
+
+  test("continues after a failing row and records the error", async () => {
+    writeFileSync(
+      `${TEST_DIR}/posts.csv`,
+      ["type,text,platforms", "", "text,First,youtube", "text,Second,x"].join("\n")
+    );
+
+    const mockPostText = mock(async () => ({
+      success: true,
+      results: {
+        x: { success: false, error: "Duplicate post" },
+      },
+    }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postText: mockPostText,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    const error = await postBatch(
+      ["--csv", `${TEST_DIR}/posts.csv`],
+      { json: true, pretty: false, verbose: false }
+    ).catch((e) => e);
+
+    // Rows are numbered by file line, counting the blank line: row 3 was
+    // invalid and row 4 failed on its only platform
+    expect(error).toBeInstanceOf(PublishError);
+    expect(error.exitCode).toBe(EXIT_CODES.API_ERROR);
+    expect(error.message).toContain("rows 3, 4");
+
+    expect(mockPostText).toHaveBeenCalledTimes(1);
+    const output = lastJson();
+    expect(output.results[0]).toMatchObject({ row: 3, status: "failed" });
+    expect(output.results[0].error).toContain("does not support text posts");
+    expect(output.results[1]).toMatchObject({ row: 4, status: "submitted", failed_platforms: ["x"] });
+  });
+
+  test("stops submitting when the rate limit is hit", async () => {
+    writeFileSync(
+      `${TEST_DIR}/posts.csv`,
+      ["type,text,platforms", "text,One,x", "text,Two,x", "text,Three,x"].join("\n")
+    );
+
+    let calls = 0;
+    const mockPostText = mock(async () => {
+      calls++;
+      if (calls === 2) {
+        throw new RateLimitError("Monthly limit reached", { count: 10, limit: 10, remaining: 0 });
+      }
+      return { success: true, request_id: `req_${calls}` };
+    });
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postText: mockPostText,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    const error = await postBatch(
+      ["--csv", `${TEST_DIR}/posts.csv`],
+      { json: true, pretty: false, verbose: false }
+    ).catch((e) => e);
+
+    // Row 2 posted, so the rest is a partial failure
+    expect(error).toBeInstanceOf(PublishError);
+    expect(error.exitCode).toBe(EXIT_CODES.PARTIAL_FAILURE);
+
+    expect(mockPostText).toHaveBeenCalledTimes(2);
+    const output = lastJson();
+    expect(output.results.map((r: { status: string }) => r.status)).toEqual([
+      "submitted",
+      "failed",
+      "skipped",
+    ]);
+    expect(output.results[2].error).toContain("Rate limit reached");
+  });
+
+  test("stops when remaining quota reaches --reserve", async () => {
+    writeFileSync(
+      `${TEST_DIR}/posts.csv`,
+      ["type,text,platforms", "text,One,x", "text,Two,x"].join("\n")
+    );
+
+    const mockPostText = mock(async () => ({
+      success: true,
+      request_id: "req_1",
+      usage: { count: 8, limit: 10, remaining: 2 },
+    }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postText: mockPostText,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    await postBatch(
+      ["--csv", `${TEST_DIR}/posts.csv`, "--reserve", "2", "--fail-on", "all"],
+      { json: true, pretty: false, verbose: false }
+    );
+
+    expect(mockPostText).toHaveBeenCalledTimes(1);
+    expect(lastJson().summary.skipped).toBe(1);
+  });
+
+  test("writes a CSV report with request and job ids", async () => {
+    writeFileSync(`${TEST_DIR}/posts.csv`, "type,text,platforms\ntext,One,x\n");
+
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postText: mock(async () => ({ success: true, request_id: "req_1" })),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    await postBatch(
+      ["--csv", `${TEST_DIR}/posts.csv`, "--report", `${TEST_DIR}/results.csv`],
+      { json: true, pretty: false, verbose: false }
+    );
+
+    const report = readFileSync(`${TEST_DIR}/results.csv`, "utf-8");
+    expect(report).toBe(
+      "row,type,status,request_id,job_id,scheduled_date,failed_platforms,poll_error,error\n" +
+        "2,text,submitted,req_1,,,,,\n"
+    );
+  });
+
+  test("keeps the ids of a row and writes the report when --wait is interrupted", async () => {
+    writeFileSync(`${TEST_DIR}/posts.csv`, "type,text,platforms\ntext,One,x\ntext,Two,x\n");
+
+    const mockPostText = mock(async () => ({ success: true, request_id: "req_1" }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postText: mockPostText,
+      getStatus: mock(async () => ({ status: "in_progress" })),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    const running = postBatch(
+      ["--csv", `${TEST_DIR}/posts.csv`, "--wait", "--report", `${TEST_DIR}/results.json`],
+      { json: true, pretty: false, verbose: false }
+    ).catch((e: unknown) => e);
+    await Bun.sleep(20);
+    process.emit("SIGINT");
+
+    expect(await running).toBeInstanceOf(InterruptedError);
+    expect(mockPostText).toHaveBeenCalledTimes(1);
+    const report = JSON.parse(readFileSync(`${TEST_DIR}/results.json`, "utf-8"));
+    expect(report.results[0]).toMatchObject({ row: 2, status: "submitted", request_id: "req_1" });
+    expect(report.results[0].poll_error).toStartWith("Stopped waiting for request_id req_1");
+    expect(report.results[1]).toMatchObject({ row: 3, status: "skipped", error: "Interrupted" });
+  });
+
+  test("records meta.* columns in the ledger instead of the payload", async () => {
+    writeFileSync(
+      `${TEST_DIR}/posts.csv`,
+      ["type,text,platforms,meta.campaign", "text,Hello,x,fall-launch"].join("\n")
+    );
+
+    const mockPostText = mock(async () => ({ success: true, request_id: "req_meta" }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postText: mockPostText,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    const previousLedger = process.env.POSTERBOY_LEDGER;
+    process.env.POSTERBOY_LEDGER = `${TEST_DIR}/ledger.db`;
+    try {
+      await postBatch(["--csv", `${TEST_DIR}/posts.csv`], { json: true, pretty: false, verbose: false });
+    } finally {
+      process.env.POSTERBOY_LEDGER = previousLedger;
+    }
+
+    expect(mockPostText).toHaveBeenCalledWith({ profile: "testuser", platforms: ["x"], text: "Hello" }, { idempotencyKey: expect.any(String), retryable: false });
+
+    const ledger = new Ledger(`${TEST_DIR}/ledger.db`);
+    expect(ledger.find("req_meta")?.metadata).toEqual({ campaign: "fall-launch" });
+    ledger.close();
+  });
+
+  test("dry run validates rows without an API client", async () => {
+    writeFileSync(`${TEST_DIR}/posts.csv`, "type,text,platforms\ntext,One,x\n");
+
+    apiClientSpy = spyOn(api, "ApiClient");
+
+    await postBatch(
+      ["--csv", `${TEST_DIR}/posts.csv`, "--dry-run"],
+      { json: true, pretty: false, verbose: false }
+    );
+
+    expect(apiClientSpy).not.toHaveBeenCalled();
+    expect(lastJson().results[0].status).toBe("valid");
+  });
+
+  test("requires --csv", async () => {
+    await expect(
+      postBatch([], { json: true, pretty: false, verbose: false })
+    ).rejects.toThrow(UserError);
+  });
+});
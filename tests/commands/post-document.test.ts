@@ -71,7 +71,7 @@ describe("postDocument command", () => {
 
   test("posts document from --file flag", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -108,7 +108,8 @@ describe("postDocument command", () => {
         profile: "testuser",
         file: "/test/presentation.pdf",
         title: "Q4 Results",
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     expect(consoleLogSpy).toHaveBeenCalled();
@@ -117,7 +118,7 @@ describe("postDocument command", () => {
 
   test("posts from --url flag", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -157,7 +158,8 @@ describe("postDocument command", () => {
         url: "https://example.com/document.pdf",
         title: "Annual Report",
         description: "2025 Annual Report",
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     consoleLogSpy.mockRestore();
@@ -165,7 +167,7 @@ describe("postDocument command", () => {
 
   test("throws error when no file/url", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -186,7 +188,7 @@ describe("postDocument command", () => {
 
   test("throws error when title missing", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -207,7 +209,7 @@ describe("postDocument command", () => {
 
   test("dry run mode", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -243,7 +245,7 @@ describe("postDocument command", () => {
 
   test("JSON output format", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -282,7 +284,7 @@ describe("postDocument command", () => {
 
   test("LinkedIn-page param passed correctly", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -322,7 +324,8 @@ describe("postDocument command", () => {
       expect.objectContaining({
         linkedin_page: "urn:li:organization:123456",
         linkedin_visibility: "PUBLIC",
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     consoleLogSpy.mockRestore();
@@ -330,7 +333,7 @@ describe("postDocument command", () => {
 
   test("throws error when file not found", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -351,7 +354,7 @@ describe("postDocument command", () => {
 
   test("throws error when file exceeds size limit", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -372,7 +375,7 @@ describe("postDocument command", () => {
 
   test("throws error when file format unsupported", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -393,12 +396,12 @@ describe("postDocument command", () => {
 
   test("applies config defaults for linkedin_page", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
       platform_defaults: {
         linkedin: {
-          page_id: "urn:li:organization:default123",
+          page: "urn:li:organization:default123",
           visibility: "CONNECTIONS",
         },
       },
@@ -434,7 +437,8 @@ describe("postDocument command", () => {
       expect.objectContaining({
         linkedin_page: "urn:li:organization:default123",
         linkedin_visibility: "CONNECTIONS",
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     consoleLogSpy.mockRestore();
@@ -2,6 +2,7 @@ import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from "bun:
 import { postPhoto } from "../../src/commands/post/photo";
 import * as config from "../../src/lib/config";
 import * as api from "../../src/lib/api";
+import * as media from "../../src/lib/media";
 import type { PostResult, Config } from "../../src/lib/types";
 import { UserError } from "../../src/lib/errors";
 
@@ -46,7 +47,13 @@ describe("postPhoto command", () => {
         size: 0,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       } as any;
-    })
+    }),
+      // The mocked files have no contents; read the photos as square
+      spyOn(media, "inspectImage").mockImplementation(async (path: string) =>
+        /\.(jpg|png)$/.test(path)
+          ? { format: path.endsWith(".png") ? "png" : "jpeg", width: 1080, height: 1080, aspect_ratio: "1:1" }
+          : undefined
+      )
     );
   });
 
@@ -63,7 +70,7 @@ describe("postPhoto command", () => {
 
   test("posts single photo from --files flag", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -101,7 +108,8 @@ describe("postPhoto command", () => {
         platforms: ["instagram"],
         files: ["/test/photo1.jpg"],
         title: "Test Photo",
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     expect(consoleLogSpy).toHaveBeenCalled();
@@ -110,7 +118,7 @@ describe("postPhoto command", () => {
 
   test("posts carousel from multiple --files", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -149,7 +157,8 @@ describe("postPhoto command", () => {
       expect.objectContaining({
         files: ["/test/photo1.jpg", "/test/photo2.png"],
         title: "Carousel Test",
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     consoleLogSpy.mockRestore();
@@ -157,7 +166,7 @@ describe("postPhoto command", () => {
 
   test("posts from --urls flag", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -196,7 +205,8 @@ describe("postPhoto command", () => {
       expect.objectContaining({
         urls: ["https://example.com/photo1.jpg", "https://example.com/photo2.png"],
         title: "URL Photos",
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     consoleLogSpy.mockRestore();
@@ -204,7 +214,7 @@ describe("postPhoto command", () => {
 
   test("throws error when no files/urls provided", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -225,7 +235,7 @@ describe("postPhoto command", () => {
 
   test("throws error when both files and urls provided", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -251,7 +261,7 @@ describe("postPhoto command", () => {
 
   test("throws error when title missing", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -270,9 +280,43 @@ describe("postPhoto command", () => {
     ).rejects.toThrow(UserError);
   });
 
+  test("reports every validation problem in one error", async () => {
+    const mockConfig: Config = {
+      version: 2,
+      api_key: "test_key",
+      default_profile: "testuser",
+    };
+
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue(mockConfig),
+      spyOn(config, "getApiKey").mockReturnValue("test_key"),
+      spyOn(config, "getDefaultProfile").mockReturnValue("testuser")
+    );
+    const mockPostPhotos = mock(async () => ({ success: true }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postPhotos: mockPostPhotos,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    const error = await postPhoto(
+      ["--files", "/test/photo1.jpg,/test/large.jpg", "--platforms", "facebook,pinterest,reddit"],
+      { json: true, pretty: false, verbose: false }
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UserError);
+    expect((error as UserError).errors?.map((e) => e.split("\n")[0])).toEqual([
+      "Facebook requires --facebook-page flag.",
+      "Pinterest requires --pinterest-board flag.",
+      "Reddit requires --reddit-subreddit flag.",
+      "title is required for photo posts",
+      "File exceeds 8MB limit: /test/large.jpg (10.0MB)",
+    ]);
+    expect(mockPostPhotos).not.toHaveBeenCalled();
+  });
+
   test("throws error for unsupported platform (youtube)", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -293,7 +337,7 @@ describe("postPhoto command", () => {
 
   test("dry run mode shows payload without API call", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -330,7 +374,7 @@ describe("postPhoto command", () => {
 
   test("JSON output format", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -369,7 +413,7 @@ describe("postPhoto command", () => {
 
   test("platform-specific params passed correctly", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -417,7 +461,8 @@ describe("postPhoto command", () => {
         tiktok_title: "TikTok Title",
         tiktok_privacy: "PUBLIC_TO_EVERYONE",
         tiktok_disable_comments: true,
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     consoleLogSpy.mockRestore();
@@ -425,7 +470,7 @@ describe("postPhoto command", () => {
 
   test("throws error when file not found", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -446,7 +491,7 @@ describe("postPhoto command", () => {
 
   test("throws error when file exceeds size limit", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -467,7 +512,7 @@ describe("postPhoto command", () => {
 
   test("throws error when file format unsupported", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -485,4 +530,97 @@ describe("postPhoto command", () => {
       )
     ).rejects.toThrow(UserError);
   });
+
+  test("rejects photos that do not fit a platform", async () => {
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue({ version: 2, api_key: "test_key", default_profile: "testuser" }),
+      spyOn(config, "getApiKey").mockReturnValue("test_key"),
+      spyOn(media, "inspectImage").mockResolvedValue({
+        format: "jpeg",
+        width: 1080,
+        height: 1920,
+        aspect_ratio: "9:16",
+      })
+    );
+
+    const mockPostPhotos = mock(async () => ({} as PostResult));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postPhotos: mockPostPhotos,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    await expect(
+      postPhoto(
+        ["--files", "/test/photo1.jpg", "--title", "Test", "--platforms", "instagram"],
+        { json: true, pretty: false, verbose: false }
+      )
+    ).rejects.toThrow("instagram: /test/photo1.jpg is 9:16, narrowest accepted is 4:5");
+
+    await expect(
+      postPhoto(
+        ["--urls", "https://a/1.jpg,https://a/2.jpg,https://a/3.jpg,https://a/4.jpg,https://a/5.jpg", "--title", "Test", "--platforms", "x"],
+        { json: true, pretty: false, verbose: false }
+      )
+    ).rejects.toThrow("x: 5 photos, limit is 4");
+    expect(mockPostPhotos).not.toHaveBeenCalled();
+  });
+
+  test("dry run shows the photos each platform gets with --auto-fit", async () => {
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue({ version: 2, api_key: "test_key", default_profile: "testuser" }),
+      spyOn(media, "inspectImage").mockResolvedValue({
+        format: "jpeg",
+        width: 1080,
+        height: 1920,
+        aspect_ratio: "9:16",
+      })
+    );
+    const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+    await postPhoto(
+      ["--files", "/test/photo1.jpg", "--title", "Test", "--platforms", "instagram,tiktok", "--auto-fit", "crop", "--dry-run"],
+      { json: true, pretty: false, verbose: false }
+    );
+
+    const output = JSON.parse(consoleLogSpy.mock.calls[0][0] as string);
+    expect(output.variants).toEqual([
+      {
+        platforms: ["instagram"],
+        aspect_ratio: "4:5",
+        photos: [
+          {
+            path: "/test/photo1.jpg",
+            metadata: { format: "jpeg", width: 1080, height: 1920, aspect_ratio: "9:16" },
+            fitted: { format: "jpeg", width: 1080, height: 1350, aspect_ratio: "4:5" },
+          },
+        ],
+      },
+      {
+        platforms: ["tiktok"],
+        photos: [
+          {
+            path: "/test/photo1.jpg",
+            metadata: { format: "jpeg", width: 1080, height: 1920, aspect_ratio: "9:16" },
+          },
+        ],
+      },
+    ]);
+    consoleLogSpy.mockRestore();
+  });
+
+  test("rejects --auto-fit with remote photos or --wait", async () => {
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue({ version: 2, api_key: "test_key", default_profile: "testuser" })
+    );
+
+    await expect(
+      postPhoto(
+        ["--urls", "https://a/1.jpg", "--title", "Test", "--platforms", "instagram", "--auto-fit", "pad", "--wait"],
+        { json: true, pretty: false, verbose: false }
+      )
+    ).rejects.toThrow(
+      "Found 2 problems:\n  - --auto-fit needs local photos. Use --files instead of --urls.\n" +
+        "  - --wait cannot be combined with --auto-fit."
+    );
+  });
 });
@@ -0,0 +1,238 @@
+import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from "bun:test";
+import { Buffer } from "node:buffer";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { PNG } from "pngjs";
+import { postRetry } from "../../src/commands/post/retry";
+import * as config from "../../src/lib/config";
+import * as api from "../../src/lib/api";
+import { Ledger } from "../../src/lib/ledger";
+import { inspectImage } from "../../src/lib/media";
+import type { Config, PhotoPostParams, PostRequest, PostResult } from "../../src/lib/types";
+
+const TEST_DIR = "/tmp/posterboy-test-retry";
+
+const textPost: PostRequest = {
+  type: "text",
+  params: {
+    profile: "brand",
+    platforms: ["x", "linkedin", "threads"],
+    text: "Launch day",
+    linkedin_visibility: "PUBLIC",
+  },
+};
+
+describe("postRetry command", () => {
+  let apiClientSpy: ReturnType<typeof spyOn> | null = null;
+  let configSpies: ReturnType<typeof spyOn>[] = [];
+  let consoleLogSpy: ReturnType<typeof spyOn>;
+  let consoleErrorSpy: ReturnType<typeof spyOn>;
+  let previousLedger: string | undefined;
+
+  const mockConfig: Config = {
+    version: 2,
+    api_key: "test_key",
+  };
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    previousLedger = process.env.POSTERBOY_LEDGER;
+    process.env.POSTERBOY_LEDGER = `${TEST_DIR}/ledger.db`;
+
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue(mockConfig),
+      spyOn(config, "getApiKey").mockReturnValue("test_key")
+    );
+    consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+    consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    if (apiClientSpy) {
+      apiClientSpy.mockRestore();
+      apiClientSpy = null;
+    }
+    configSpies.forEach((spy) => spy.mockRestore());
+    configSpies = [];
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    process.env.POSTERBOY_LEDGER = previousLedger;
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  function recordPost(result: PostResult, request: PostRequest = textPost, metadata?: Record<string, string>): number {
+    const ledger = new Ledger();
+    try {
+      return ledger.record(request, result, metadata);
+    } finally {
+      ledger.close();
+    }
+  }
+
+  function lastJson() {
+    const calls = consoleLogSpy.mock.calls;
+    return JSON.parse(calls[calls.length - 1][0] as string);
+  }
+
+  test("resubmits only the platforms that failed", async () => {
+    recordPost({
+      success: true,
+      request_id: "req_1",
+      results: {
+        x: { success: true, url: "https://x.com/brand/1" },
+        linkedin: { success: false, error: "Token expired" },
+        threads: { success: false, error: "Rate limited" },
+      },
+    });
+
+    const mockPostText = mock(async () => ({
+      success: true,
+      results: {
+        linkedin: { success: true, url: "https://linkedin.com/post/2" },
+        threads: { success: true, url: "https://threads.net/post/2" },
+      },
+    }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postText: mockPostText,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    await postRetry(["req_1"], { json: true, pretty: false, verbose: false });
+
+    expect(mockPostText).toHaveBeenCalledWith(
+      {
+        profile: "brand",
+        platforms: ["linkedin", "threads"],
+        text: "Launch day",
+        linkedin_visibility: "PUBLIC",
+      },
+      { idempotencyKey: expect.any(String), retryable: false }
+    );
+    expect(lastJson()).toMatchObject({ retry_of: 1, summary: { status: "succeeded" } });
+
+    const ledger = new Ledger();
+    const [retry] = ledger.list({ limit: 1 });
+    ledger.close();
+    expect(retry?.metadata).toEqual({ retry_of: "1" });
+  });
+
+  test("asks the API which platforms failed for async posts", async () => {
+    recordPost({ success: true, request_id: "req_async" });
+
+    const mockGetStatus = mock(async () => ({
+      status: "completed",
+      results: [
+        { platform: "x", success: true },
+        { platform: "linkedin", success: true },
+        { platform: "threads", success: false, error: "Media rejected" },
+      ],
+    }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      getStatus: mockGetStatus,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    await postRetry(["req_async", "--dry-run"], { json: true, pretty: false, verbose: false });
+
+    expect(mockGetStatus).toHaveBeenCalledWith("req_async", "request_id");
+    expect(lastJson().payload.platforms).toEqual(["threads"]);
+  });
+
+  test("fits the original photos again for an auto-fitted post", async () => {
+    // 40x20 PNG, recorded as posted padded to Instagram's 4:5
+    const png = new PNG({ width: 40, height: 20 });
+    png.data = Buffer.alloc(40 * 20 * 4, 255);
+    writeFileSync(`${TEST_DIR}/wide.png`, PNG.sync.write(png));
+    recordPost(
+      { success: false, results: { instagram: { success: false, error: "Upload failed" } } },
+      {
+        type: "photo",
+        params: {
+          profile: "brand",
+          platforms: ["instagram"],
+          title: "Wide",
+          files: [`${TEST_DIR}/wide.png`],
+        },
+      },
+      { auto_fit: "pad 4:5" }
+    );
+
+    const sizes: unknown[] = [];
+    const mockPostPhotos = mock(async (params: PhotoPostParams) => {
+      for (const file of params.files!) {
+        const metadata = await inspectImage(file);
+        sizes.push([file === `${TEST_DIR}/wide.png`, metadata?.width, metadata?.height]);
+      }
+      return { success: true, results: { instagram: { success: true, url: "https://instagram.com/p/2" } } };
+    });
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postPhotos: mockPostPhotos,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    await postRetry(["1"], { json: true, pretty: false, verbose: false });
+
+    expect(sizes).toEqual([[false, 40, 50]]);
+    expect(lastJson()).toMatchObject({ retry_of: 1, summary: { status: "succeeded" } });
+
+    const ledger = new Ledger();
+    const [retry] = ledger.list({ limit: 1 });
+    ledger.close();
+    expect(retry?.params).toEqual({ profile: "brand", platforms: ["instagram"], title: "Wide", files: [`${TEST_DIR}/wide.png`] });
+    expect(retry?.metadata).toEqual({ retry_of: "1", auto_fit: "pad 4:5" });
+  });
+
+  test("throws error when every platform published", async () => {
+    recordPost({
+      success: true,
+      request_id: "req_ok",
+      results: { x: { success: true }, linkedin: { success: true }, threads: { success: true } },
+    });
+
+    await expect(
+      postRetry(["req_ok"], { json: true, pretty: false, verbose: false })
+    ).rejects.toThrow("Nothing to retry");
+  });
+
+  test("looks up a post that is not in the ledger with status, taking its content from a manifest", async () => {
+    const mockGetStatus = mock(async () => ({
+      status: "completed",
+      results: [
+        { platform: "x", success: true },
+        { platform: "threads", success: false, error: "Media rejected" },
+      ],
+    }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      getStatus: mockGetStatus,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+    const flags = { json: true, pretty: false, verbose: false };
+
+    await expect(postRetry(["req_remote"], flags)).rejects.toThrow(
+      "req_remote is not in the local ledger, so its content is not known (it failed on threads)."
+    );
+    expect(mockGetStatus).toHaveBeenCalledWith("req_remote", "request_id");
+    // Looking the post up does not create a ledger
+    expect(existsSync(`${TEST_DIR}/ledger.db`)).toBe(false);
+
+    writeFileSync(`${TEST_DIR}/post.yaml`, "type: text\ntext: Launch day\nprofile: brand\nplatforms: [x, threads]\n");
+    await postRetry(["req_remote", "--manifest", `${TEST_DIR}/post.yaml`, "--dry-run"], flags);
+
+    expect(lastJson()).toMatchObject({
+      retry_of: "req_remote",
+      payload: { text: "Launch day", platforms: ["threads"] },
+    });
+  });
+
+  test("throws error when a ledger id is not in the ledger", async () => {
+    await expect(
+      postRetry(["42"], { json: true, pretty: false, verbose: false })
+    ).rejects.toThrow("No local record found for: 42");
+  });
+
+  test("throws error when ID not provided", async () => {
+    await expect(
+      postRetry([], { json: true, pretty: false, verbose: false })
+    ).rejects.toThrow("Post ID required");
+  });
+});
@@ -3,7 +3,8 @@ import { postText } from "../../src/commands/post/text";
 import * as config from "../../src/lib/config";
 import * as api from "../../src/lib/api";
 import type { PostResult, Config } from "../../src/lib/types";
-import { UserError } from "../../src/lib/errors";
+import { PublishError, UserError } from "../../src/lib/errors";
+import { EXIT_CODES } from "../../src/constants";
 
 // Store original Bun methods
 const originalFile = Bun.file;
@@ -47,7 +48,7 @@ describe("postText command", () => {
 
   test("posts text from --body flag", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -81,7 +82,7 @@ describe("postText command", () => {
       profile: "testuser",
       platforms: ["x"],
       text: "Hello world",
-    });
+    }, { idempotencyKey: expect.any(String), retryable: false });
 
     expect(consoleLogSpy).toHaveBeenCalled();
     consoleLogSpy.mockRestore();
@@ -89,7 +90,7 @@ describe("postText command", () => {
 
   test("posts text from --file flag", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -122,14 +123,14 @@ describe("postText command", () => {
       profile: "myprofile",
       platforms: ["linkedin"],
       text: "Text from file",
-    });
+    }, { idempotencyKey: expect.any(String), retryable: false });
 
     consoleLogSpy.mockRestore();
   });
 
   test("posts text from --stdin flag", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
       default_platforms: ["threads"],
@@ -164,14 +165,14 @@ describe("postText command", () => {
       profile: "testuser",
       platforms: ["threads"],
       text: "Text from stdin",
-    });
+    }, { idempotencyKey: expect.any(String), retryable: false });
 
     consoleLogSpy.mockRestore();
   });
 
   test("throws error when no input method provided", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -185,7 +186,7 @@ describe("postText command", () => {
 
   test("throws error when multiple input methods provided", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -202,7 +203,7 @@ describe("postText command", () => {
 
   test("throws error when platform does not support text", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -219,7 +220,7 @@ describe("postText command", () => {
 
   test("throws error when facebook missing --facebook-page", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -236,7 +237,7 @@ describe("postText command", () => {
 
   test("throws error when reddit missing --reddit-subreddit", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -253,7 +254,7 @@ describe("postText command", () => {
 
   test("dry run mode prints payload without calling API", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -283,7 +284,7 @@ describe("postText command", () => {
 
   test("outputs JSON when --json flag is set", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -321,7 +322,7 @@ describe("postText command", () => {
 
   test("handles scheduled post output", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -353,7 +354,8 @@ describe("postText command", () => {
     expect(mockPostText).toHaveBeenCalledWith(
       expect.objectContaining({
         schedule: "2026-03-01T14:00:00Z",
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     expect(consoleLogSpy).toHaveBeenCalled();
@@ -362,7 +364,7 @@ describe("postText command", () => {
 
   test("includes platform-specific parameters", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -403,7 +405,8 @@ describe("postText command", () => {
         x_title: "X Post Title",
         linkedin_title: "LinkedIn Post Title",
         linkedin_page: "page-123",
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     consoleLogSpy.mockRestore();
@@ -411,7 +414,7 @@ describe("postText command", () => {
 
   test("throws error when profile not provided", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -429,7 +432,7 @@ describe("postText command", () => {
 
   test("throws error when platforms not provided", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -446,9 +449,21 @@ describe("postText command", () => {
     ).rejects.toThrow(UserError);
   });
 
+  test("throws error when text exceeds a platform limit, even in dry run", async () => {
+    spyOn(config, "readConfig").mockReturnValue({ version: 2, api_key: "test_key" });
+    spyOn(config, "getDefaultProfile").mockReturnValue("testuser");
+
+    await expect(
+      postText(
+        ["--body", "a".repeat(281), "--platforms", "x,linkedin", "--dry-run"],
+        { json: true, pretty: false, verbose: false }
+      )
+    ).rejects.toThrow("x: text is 281 characters, limit is 280");
+  });
+
   test("throws error when text is empty", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -464,4 +479,183 @@ describe("postText command", () => {
       )
     ).rejects.toThrow(UserError);
   });
+
+  test("checks flags the same way as a post spec", async () => {
+    spyOn(config, "readConfig").mockReturnValue({ version: 2, api_key: "test_key" });
+    spyOn(config, "getDefaultProfile").mockReturnValue("testuser");
+    const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+    await postText(
+      ["--body", "Vote", "--platforms", "x", "--x-poll-options", "Yes,No", "--x-poll-options", "Maybe", "--dry-run"],
+      { json: true, pretty: false, verbose: false }
+    );
+    const output = JSON.parse(consoleLogSpy.mock.calls[0]![0] as string);
+    expect(output.payload.x_poll_options).toEqual(["Yes", "No", "Maybe"]);
+    consoleLogSpy.mockRestore();
+
+    await expect(
+      postText(
+        ["--body", "Vote", "--platforms", "x", "--x-poll-options", "Yes,No", "--x-poll-duration", "soon"],
+        { json: true, pretty: false, verbose: false }
+      )
+    ).rejects.toThrow('Invalid value for x_poll_duration: expected number, got "soon"');
+  });
+
+  describe("partial failures", () => {
+    const mockConfig: Config = {
+      version: 2,
+      api_key: "test_key",
+      default_profile: "testuser",
+    };
+
+    const partialResult: PostResult = {
+      success: true,
+      results: {
+        linkedin: { success: true, url: "https://linkedin.com/post/1" },
+        threads: { success: false, error: "Media rejected" },
+      },
+    };
+
+    function mockPost(result: PostResult) {
+      spyOn(config, "readConfig").mockReturnValue(mockConfig);
+      spyOn(config, "getApiKey").mockReturnValue("test_key");
+      spyOn(config, "getDefaultProfile").mockReturnValue("testuser");
+      apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+        postText: mock(async () => result),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      }) as any);
+    }
+
+    test("exits with PARTIAL_FAILURE and reports a summary", async () => {
+      mockPost(partialResult);
+      const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+      const error = await postText(
+        ["--body", "test", "--platforms", "linkedin,threads"],
+        { json: true, pretty: false, verbose: false }
+      ).catch((e) => e);
+
+      const output = JSON.parse(consoleLogSpy.mock.calls[0][0] as string);
+      consoleLogSpy.mockRestore();
+
+      expect(error).toBeInstanceOf(PublishError);
+      expect(error.exitCode).toBe(EXIT_CODES.PARTIAL_FAILURE);
+      expect(error.failedPlatforms).toEqual(["threads"]);
+      expect(output.summary).toEqual({
+        status: "partial",
+        succeeded: ["linkedin"],
+        failed: [{ platform: "threads", error: "Media rejected" }],
+      });
+    });
+
+    test("--fail-on all only fails when every platform failed", async () => {
+      mockPost(partialResult);
+      const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+      await postText(
+        ["--body", "test", "--platforms", "linkedin,threads", "--fail-on", "all"],
+        { json: true, pretty: false, verbose: false }
+      );
+      consoleLogSpy.mockRestore();
+    });
+
+    test("--fail-on none never fails on platform errors", async () => {
+      mockPost({
+        success: true,
+        results: { threads: { success: false, error: "Media rejected" } },
+      });
+      const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+      await postText(
+        ["--body", "test", "--platforms", "threads", "--fail-on", "none"],
+        { json: true, pretty: false, verbose: false }
+      );
+      consoleLogSpy.mockRestore();
+    });
+
+    test("throws error for an invalid --fail-on value", async () => {
+      mockPost(partialResult);
+
+      await expect(
+        postText(
+          ["--body", "test", "--platforms", "threads", "--fail-on", "some"],
+          { json: true, pretty: false, verbose: false }
+        )
+      ).rejects.toThrow("Invalid --fail-on value: some");
+    });
+  });
+
+  describe("threads", () => {
+    beforeEach(() => {
+      spyOn(config, "readConfig").mockReturnValue({ version: 2, api_key: "test_key" });
+      spyOn(config, "getApiKey").mockReturnValue("test_key");
+      spyOn(config, "getDefaultProfile").mockReturnValue("testuser");
+    });
+
+    test("dry run shows the thread parts", async () => {
+      const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+      await postText(
+        ["--body", "First\n---\nSecond", "--platforms", "x", "--thread", "--number-parts", "--dry-run"],
+        { json: true, pretty: false, verbose: false }
+      );
+
+      const output = JSON.parse(consoleLogSpy.mock.calls[0][0] as string);
+      consoleLogSpy.mockRestore();
+      expect(output.thread).toEqual(["First (1/2)", "Second (2/2)"]);
+    });
+
+    test("posts each part as a reply to the previous one", async () => {
+      let call = 0;
+      const mockPostText = mock(async () => {
+        call++;
+        return { success: true, results: { x: { success: true, publish_id: `tw_${call}` } } };
+      });
+      apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+        postText: mockPostText,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      }) as any);
+      const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+      await postText(
+        ["--body", "First\n---\nSecond", "--platforms", "x", "--thread"],
+        { json: true, pretty: false, verbose: false }
+      );
+
+      const output = JSON.parse(consoleLogSpy.mock.calls[0][0] as string);
+      consoleLogSpy.mockRestore();
+      expect(mockPostText).toHaveBeenCalledTimes(2);
+      expect(mockPostText.mock.calls[1]).toEqual([
+        { profile: "testuser", platforms: ["x"], text: "Second", x_reply_to: "tw_1" },
+        { idempotencyKey: expect.any(String), retryable: false },
+      ]);
+      expect(output.summary.status).toBe("succeeded");
+    });
+
+    test("throws error when --thread is combined with --schedule", async () => {
+      const tomorrow = new Date(Date.now() + 86400000).toISOString();
+      await expect(
+        postText(
+          ["--body", "Hello", "--platforms", "x", "--thread", "--schedule", tomorrow],
+          { json: true, pretty: false, verbose: false }
+        )
+      ).rejects.toThrow("--thread posts each part immediately");
+    });
+
+    test("throws error when a thread is posted with a text override", async () => {
+      const mockPostText = mock(async () => ({ success: true }));
+      apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+        postText: mockPostText,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      }) as any);
+
+      await expect(
+        postText(
+          ["--body", "First\n---\nSecond", "--platforms", "x,bluesky", "--thread", "--x-title", "Same on X"],
+          { json: true, pretty: false, verbose: false }
+        )
+      ).rejects.toThrow("--x-title cannot be used with --thread: it replaces the text of every part.");
+      expect(mockPostText).not.toHaveBeenCalled();
+    });
+  });
 });
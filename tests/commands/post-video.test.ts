@@ -2,12 +2,24 @@ import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from "bun:
 import { postVideo } from "../../src/commands/post/video";
 import * as config from "../../src/lib/config";
 import * as api from "../../src/lib/api";
-import type { PostResult, Config } from "../../src/lib/types";
-import { UserError } from "../../src/lib/errors";
+import * as media from "../../src/lib/media";
+import type { PostResult, Config, VideoMetadata } from "../../src/lib/types";
+import { PublishError, UserError } from "../../src/lib/errors";
 
 // Store original Bun methods
 const originalFile = Bun.file;
 
+const portraitClip: VideoMetadata = {
+  container: "mp4",
+  duration: 45,
+  width: 1080,
+  height: 1920,
+  aspect_ratio: "9:16",
+  codec: "h264",
+  bitrate: 8_000_000,
+  frame_rate: 30,
+};
+
 describe("postVideo command", () => {
   // Track spies for cleanup
   let apiClientSpy: ReturnType<typeof spyOn> | null = null;
@@ -53,7 +65,7 @@ describe("postVideo command", () => {
 
   test("posts video from --file flag", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -91,7 +103,8 @@ describe("postVideo command", () => {
         platforms: ["tiktok"],
         title: "Test Video",
         file: "/test/video.mp4",
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     expect(consoleLogSpy).toHaveBeenCalled();
@@ -100,7 +113,7 @@ describe("postVideo command", () => {
 
   test("posts video from --url flag", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -137,7 +150,8 @@ describe("postVideo command", () => {
         platforms: ["youtube"],
         title: "Test Video",
         url: "https://example.com/video.mp4",
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     consoleLogSpy.mockRestore();
@@ -145,7 +159,7 @@ describe("postVideo command", () => {
 
   test("throws error when no file/url provided", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -166,7 +180,7 @@ describe("postVideo command", () => {
 
   test("throws error when both file and url provided", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -187,7 +201,7 @@ describe("postVideo command", () => {
 
   test("throws error when title missing", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -208,7 +222,7 @@ describe("postVideo command", () => {
 
   test("auto-async for large files", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -240,7 +254,8 @@ describe("postVideo command", () => {
     expect(mockPostVideo).toHaveBeenCalledWith(
       expect.objectContaining({
         async: true,
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     consoleLogSpy.mockRestore();
@@ -248,7 +263,7 @@ describe("postVideo command", () => {
 
   test("dry run mode", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -278,9 +293,50 @@ describe("postVideo command", () => {
     consoleLogSpy.mockRestore();
   });
 
+  test("dry run shows detected media", async () => {
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue({ version: 2, api_key: "test_key", default_profile: "testuser" }),
+      spyOn(config, "getApiKey").mockReturnValue("test_key"),
+      spyOn(media, "inspectVideo").mockResolvedValue(portraitClip)
+    );
+
+    const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+    await postVideo(
+      ["--file", "/test/video.mp4", "--title", "Test", "--platforms", "tiktok", "--dry-run"],
+      { json: true, pretty: false, verbose: false }
+    );
+
+    const output = JSON.parse(consoleLogSpy.mock.calls[0][0] as string);
+    expect(output.media).toEqual(portraitClip);
+    consoleLogSpy.mockRestore();
+  });
+
+  test("rejects video longer than a platform allows", async () => {
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue({ version: 2, api_key: "test_key", default_profile: "testuser" }),
+      spyOn(config, "getApiKey").mockReturnValue("test_key"),
+      spyOn(media, "inspectVideo").mockResolvedValue({ ...portraitClip, duration: 200 })
+    );
+
+    const mockPostVideo = mock(async () => ({} as PostResult));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postVideo: mockPostVideo,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    await expect(
+      postVideo(
+        ["--file", "/test/video.mp4", "--title", "Test", "--platforms", "tiktok,x"],
+        { json: true, pretty: false, verbose: false }
+      )
+    ).rejects.toThrow("x: video is 3m 20s, limit is 2m 20s");
+    expect(mockPostVideo).not.toHaveBeenCalled();
+  });
+
   test("JSON output format", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -319,7 +375,7 @@ describe("postVideo command", () => {
 
   test("platform-specific YouTube params passed correctly", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -364,7 +420,8 @@ describe("postVideo command", () => {
         youtube_description: "Custom description",
         youtube_privacy: "unlisted",
         youtube_category: "22",
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     consoleLogSpy.mockRestore();
@@ -372,7 +429,7 @@ describe("postVideo command", () => {
 
   test("platform-specific TikTok params passed correctly", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
       default_profile: "testuser",
     };
@@ -417,9 +474,149 @@ describe("postVideo command", () => {
         tiktok_privacy: "public_to_everyone",
         tiktok_disable_duet: true,
         tiktok_disable_comment: true,
-      })
+      }),
+      { idempotencyKey: expect.any(String), retryable: false }
     );
 
     consoleLogSpy.mockRestore();
   });
+
+  test("platform_defaults fill the options the flags leave out", async () => {
+    const mockConfig: Config = {
+      version: 2,
+      api_key: "test_key",
+      default_profile: "testuser",
+      platform_defaults: {
+        youtube: { privacy: "unlisted", category: "22", embeddable: false },
+        tiktok: { privacy: "SELF_ONLY" },
+        instagram: { collaborators: "partner" },
+      },
+    };
+
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue(mockConfig),
+      spyOn(config, "getApiKey").mockReturnValue("test_key")
+    );
+
+    const mockPostVideo = mock(async () => ({ success: true, results: {} } as PostResult));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postVideo: mockPostVideo,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+    process.env.POSTERBOY_YOUTUBE_CATEGORY = "10";
+    process.env.POSTERBOY_YOUTUBE_DESCRIPTION = "Not a setting";
+
+    try {
+      await postVideo(
+        [
+          "--file", "/test/video.mp4",
+          "--title", "Test Video",
+          "--platforms", "youtube,tiktok",
+          "--tiktok-privacy", "PUBLIC_TO_EVERYONE",
+        ],
+        { json: true, pretty: false, verbose: false }
+      );
+    } finally {
+      delete process.env.POSTERBOY_YOUTUBE_CATEGORY;
+      delete process.env.POSTERBOY_YOUTUBE_DESCRIPTION;
+      consoleLogSpy.mockRestore();
+    }
+
+    const params = (mockPostVideo.mock.calls[0] as unknown[])[0] as Record<string, unknown>;
+    expect(params).toMatchObject({
+      youtube_privacy: "unlisted",
+      youtube_category: "10",
+      youtube_embeddable: false,
+      tiktok_privacy: "PUBLIC_TO_EVERYONE",
+    });
+    // Only targeted platforms get their defaults, and only for settings
+    expect(params.instagram_collaborators).toBeUndefined();
+    expect(params.youtube_description).toBeUndefined();
+  });
+
+  test("--wait polls an async upload until it publishes", async () => {
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue({ version: 2, api_key: "test_key" }),
+      spyOn(config, "getApiKey").mockReturnValue("test_key"),
+      spyOn(config, "getDefaultProfile").mockReturnValue("testuser")
+    );
+
+    const mockGetStatus = mock(async () => ({
+      status: "completed",
+      completed: 1,
+      total: 1,
+      results: [{ platform: "youtube", success: true, url: "https://youtu.be/abc" }],
+    }));
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postVideo: mock(async () => ({ success: true, request_id: "req_wait" })),
+      getStatus: mockGetStatus,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+    await postVideo(
+      ["--file", "/test/large-video.mp4", "--title", "Big", "--platforms", "youtube", "--wait"],
+      { json: true, pretty: false, verbose: false }
+    );
+
+    expect(mockGetStatus).toHaveBeenCalledWith("req_wait", "request_id");
+    const output = JSON.parse(consoleLogSpy.mock.calls[0][0] as string);
+    expect(output.request_id).toBe("req_wait");
+    expect(output.status.results[0].url).toBe("https://youtu.be/abc");
+
+    consoleLogSpy.mockRestore();
+  });
+
+  test("--wait fails when a platform did not publish", async () => {
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue({ version: 2, api_key: "test_key" }),
+      spyOn(config, "getApiKey").mockReturnValue("test_key"),
+      spyOn(config, "getDefaultProfile").mockReturnValue("testuser")
+    );
+
+    apiClientSpy = spyOn(api, "ApiClient").mockImplementation(() => ({
+      postVideo: mock(async () => ({ success: true, request_id: "req_wait" })),
+      getStatus: mock(async () => ({
+        status: "completed",
+        results: [
+          { platform: "youtube", success: true, url: "https://youtu.be/abc" },
+          { platform: "tiktok", success: false, error: "Video too long" },
+        ],
+      })),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any);
+
+    const consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+
+    const error = await postVideo(
+      ["--file", "/test/video.mp4", "--title", "Clip", "--platforms", "youtube,tiktok", "--async", "--wait"],
+      { json: false, pretty: true, verbose: false }
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PublishError);
+    expect(error.failedPlatforms).toEqual(["tiktok"]);
+    const output = consoleLogSpy.mock.calls.map((c) => c[0]).join("\n");
+    expect(output).toContain("https://youtu.be/abc");
+    expect(output).toContain("Video too long");
+
+    consoleLogSpy.mockRestore();
+  });
+
+  test("--wait cannot be combined with --schedule", async () => {
+    configSpies.push(
+      spyOn(config, "readConfig").mockReturnValue({ version: 2, api_key: "test_key" }),
+      spyOn(config, "getDefaultProfile").mockReturnValue("testuser")
+    );
+
+    await expect(
+      postVideo(
+        ["--file", "/test/video.mp4", "--title", "Later", "--platforms", "youtube",
+          "--schedule", new Date(Date.now() + 86400000).toISOString(), "--wait"],
+        { json: true, pretty: false, verbose: false }
+      )
+    ).rejects.toThrow("--wait cannot be used with scheduled or queued posts");
+  });
 });
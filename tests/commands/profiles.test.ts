@@ -27,7 +27,7 @@ describe("Profiles Commands", () => {
 
     // Create a config file with API key
     const config = {
-      version: 1,
+      version: 2,
       api_key: "test_key_123",
     };
     const fs = await import("node:fs/promises");
@@ -23,7 +23,7 @@ describe("queue commands", () => {
   describe("queue settings", () => {
     test("views queue settings in JSON mode", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
@@ -63,7 +63,7 @@ describe("queue commands", () => {
 
     test("updates queue settings with timezone", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
@@ -100,7 +100,7 @@ describe("queue commands", () => {
 
     test("updates queue settings with slots", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
@@ -137,7 +137,7 @@ describe("queue commands", () => {
 
     test("updates queue settings with days", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
@@ -174,7 +174,7 @@ describe("queue commands", () => {
 
     test("validates invalid time slot format", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
@@ -195,7 +195,7 @@ describe("queue commands", () => {
 
     test("validates invalid day names", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
@@ -216,7 +216,7 @@ describe("queue commands", () => {
 
     test("validates max slot count", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
@@ -241,7 +241,7 @@ describe("queue commands", () => {
 
     test("validates invalid timezone format", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
@@ -264,7 +264,7 @@ describe("queue commands", () => {
   describe("queue preview", () => {
     test("previews queue slots with default count", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
@@ -300,7 +300,7 @@ describe("queue commands", () => {
 
     test("previews queue slots with custom count", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
@@ -337,7 +337,7 @@ describe("queue commands", () => {
 
     test("validates count is within range", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
@@ -360,7 +360,7 @@ describe("queue commands", () => {
   describe("queue next", () => {
     test("gets next available queue slot", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
@@ -394,7 +394,7 @@ describe("queue commands", () => {
 
     test("outputs JSON when --json flag is set", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
         default_profile: "testuser",
       };
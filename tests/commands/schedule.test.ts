@@ -30,7 +30,7 @@ describe("schedule commands", () => {
   describe("schedule list", () => {
     test("lists scheduled posts with results", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
       };
 
@@ -75,7 +75,7 @@ describe("schedule commands", () => {
 
     test("lists scheduled posts with profile filter", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
       };
 
@@ -103,7 +103,7 @@ describe("schedule commands", () => {
 
     test("handles empty list", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
       };
 
@@ -131,7 +131,7 @@ describe("schedule commands", () => {
 
     test("outputs JSON format", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
       };
 
@@ -169,7 +169,7 @@ describe("schedule commands", () => {
 
     test("cancels scheduled post with --confirm flag", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
       };
 
@@ -208,7 +208,7 @@ describe("schedule commands", () => {
 
     test("outputs JSON format", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
       };
 
@@ -247,7 +247,7 @@ describe("schedule commands", () => {
 
     test("modifies scheduled post with schedule update", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
       };
 
@@ -281,7 +281,7 @@ describe("schedule commands", () => {
 
     test("modifies scheduled post with title update", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
       };
 
@@ -309,7 +309,7 @@ describe("schedule commands", () => {
 
     test("modifies scheduled post with multiple updates", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
       };
 
@@ -348,7 +348,7 @@ describe("schedule commands", () => {
 
     test("outputs JSON format", async () => {
       const mockConfig: Config = {
-        version: 1,
+        version: 2,
         api_key: "test_key",
       };
 
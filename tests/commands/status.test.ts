@@ -1,9 +1,9 @@
 import { describe, test, expect, afterEach, mock, spyOn } from "bun:test";
-import { statusCheck } from "../../src/commands/status";
+import { statusCheck, waitForPost } from "../../src/commands/status";
 import * as config from "../../src/lib/config";
 import * as api from "../../src/lib/api";
 import type { StatusResult, Config } from "../../src/lib/types";
-import { UserError } from "../../src/lib/errors";
+import { InterruptedError, UserError } from "../../src/lib/errors";
 
 describe("statusCheck command", () => {
   // Track spies for cleanup
@@ -23,7 +23,7 @@ describe("statusCheck command", () => {
 
   test("shows status for job_id", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -61,7 +61,7 @@ describe("statusCheck command", () => {
 
   test("shows status for request_id", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -93,7 +93,7 @@ describe("statusCheck command", () => {
 
   test("auto-detects request_id type (req_ prefix)", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -125,7 +125,7 @@ describe("statusCheck command", () => {
 
   test("JSON output format", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -164,7 +164,7 @@ describe("statusCheck command", () => {
 
   test("throws error when no ID provided", async () => {
     const mockConfig: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
 
@@ -181,3 +181,36 @@ describe("statusCheck command", () => {
     ).rejects.toThrow(UserError);
   });
 });
+
+describe("waitForPost", () => {
+  const flags = { json: true, pretty: false, verbose: false };
+
+  test("names the request to follow up on when waiting times out", async () => {
+    const client = { getStatus: mock(async () => ({ status: "in_progress" })) };
+
+    await expect(
+      waitForPost(client as unknown as api.ApiClient, { success: true, request_id: "req_slow" }, 1000, "any", flags)
+    ).rejects.toThrow(
+      "Timed out after 1s waiting for request_id req_slow (status: in_progress).\n" +
+        "The post was accepted and may still publish. Check it with 'posterboy status req_slow'."
+    );
+  });
+
+  test("stops with an InterruptedError on Ctrl+C", async () => {
+    const client = { getStatus: mock(async () => ({ status: "in_progress" })) };
+
+    const waiting = waitForPost(
+      client as unknown as api.ApiClient,
+      { success: true, request_id: "req_slow" },
+      60_000,
+      "any",
+      flags
+    ).catch((e: unknown) => e);
+    await Bun.sleep(10);
+    process.emit("SIGINT");
+
+    const error = await waiting;
+    expect(error).toBeInstanceOf(InterruptedError);
+    expect((error as InterruptedError).exitCode).toBe(130);
+  });
+});
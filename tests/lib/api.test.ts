@@ -1,8 +1,10 @@
 // posterboy - API client tests
 
-import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { describe, test, expect, beforeEach, afterAll, beforeAll, mock, spyOn } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
 import { ApiClient } from "../../src/lib/api";
-import { ApiError, NetworkError } from "../../src/lib/errors";
+import { ApiError, NetworkError, RateLimitError } from "../../src/lib/errors";
+import { mockFetch, type Fetch } from "../mock-fetch";
 
 describe("ApiClient", () => {
   const mockApiKey = "test_api_key_123";
@@ -66,6 +68,19 @@ describe("ApiClient", () => {
       await expect(client.me()).rejects.toThrow(ApiError);
     });
 
+    test("throws RateLimitError with usage on 429", async () => {
+      mockFetch(async () =>
+        Response.json(
+          { message: "Monthly limit reached", usage: { count: 10, limit: 10, remaining: 0 } },
+          { status: 429 }
+        )
+      );
+
+      const error = await client.me().catch((e) => e);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.usage).toEqual({ count: 10, limit: 10, remaining: 0 });
+    });
+
     test("throws NetworkError on network failure", async () => {
       global.fetch = mock(() => Promise.reject(new Error("Network failure"))) as any;
 
@@ -88,4 +103,280 @@ describe("ApiClient", () => {
       expect((capturedHeaders as any)["Authorization"]).toBe(`Apikey ${mockApiKey}`);
     });
   });
+
+  describe("retries", () => {
+    const retry = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 50, jitter: false };
+
+    function failThenSucceed(failures: Array<{ status: number; headers?: Record<string, string> } | Error>) {
+      let call = 0;
+      return mockFetch(async () => {
+        const failure = failures[call++];
+        if (failure instanceof Error) throw failure;
+        if (failure) {
+          return Response.json({ error: "Bad gateway" }, { status: failure.status, headers: failure.headers });
+        }
+        return Response.json({ success: true, request_id: "req_1" });
+      });
+    }
+
+    test("retries GET requests on 5xx and network errors", async () => {
+      const fetchMock = failThenSucceed([{ status: 502 }, new Error("socket hang up")]);
+
+      const result = await new ApiClient(mockApiKey, { retry }).me();
+      expect(result).toMatchObject({ request_id: "req_1" });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    test("gives up after maxAttempts", async () => {
+      const fetchMock = failThenSucceed([{ status: 503 }, { status: 503 }, { status: 503 }]);
+
+      await expect(new ApiClient(mockApiKey, { retry }).me()).rejects.toThrow(ApiError);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    test("does not retry client errors", async () => {
+      const fetchMock = failThenSucceed([{ status: 400 }]);
+
+      await expect(new ApiClient(mockApiKey, { retry }).me()).rejects.toThrow(ApiError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("does not retry without a policy", async () => {
+      const fetchMock = failThenSucceed([{ status: 502 }]);
+
+      await expect(client.me()).rejects.toThrow(ApiError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("does not retry uploads without an idempotency key", async () => {
+      const fetchMock = failThenSucceed([{ status: 502 }]);
+
+      const params = { profile: "me", platforms: ["x" as const], text: "Hello" };
+      await expect(new ApiClient(mockApiKey, { retry }).postText(params)).rejects.toThrow(ApiError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("does not retry uploads whose idempotency key is not marked retryable", async () => {
+      const fetchMock = failThenSucceed([{ status: 500 }]);
+
+      const params = { profile: "me", platforms: ["x" as const], text: "Hello" };
+      const client = new ApiClient(mockApiKey, { retry });
+      await expect(client.postText(params, { idempotencyKey: "pb_generated" })).rejects.toThrow(ApiError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("retries uploads that carry a retryable idempotency key", async () => {
+      const fetchMock = failThenSucceed([{ status: 500 }]);
+
+      const params = { profile: "me", platforms: ["x" as const], text: "Hello" };
+      const result = await new ApiClient(mockApiKey, { retry }).postText(params, {
+        idempotencyKey: "key-1",
+        retryable: true,
+      });
+
+      expect(result.request_id).toBe("req_1");
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const [, options] = fetchMock.mock.calls[1]!;
+      expect((options!.headers as Record<string, string>)["Idempotency-Key"]).toBe("key-1");
+    });
+
+    test("honors Retry-After and gives up when it exceeds maxDelayMs", async () => {
+      const fetchMock = failThenSucceed([{ status: 429, headers: { "Retry-After": "0" } }]);
+      await new ApiClient(mockApiKey, { retry }).me();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      const slowMock = failThenSucceed([{ status: 503, headers: { "Retry-After": "120" } }]);
+      const error = await new ApiClient(mockApiKey, { retry }).me().catch((e) => e);
+      expect(error.retryAfterMs).toBe(120000);
+      expect(slowMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("does not retry an exhausted quota", async () => {
+      const fetchMock = mockFetch(async () =>
+        Response.json(
+          { message: "Monthly limit reached", usage: { count: 10, limit: 10, remaining: 0 } },
+          { status: 429 }
+        )
+      );
+
+      await expect(new ApiClient(mockApiKey, { retry }).me()).rejects.toThrow(RateLimitError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    test("logs retries in verbose mode", async () => {
+      failThenSucceed([{ status: 502 }]);
+      const consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+      await new ApiClient(mockApiKey, { retry, verbose: true }).me();
+
+      const logs = consoleErrorSpy.mock.calls.map((c) => c[0]).join("\n");
+      consoleErrorSpy.mockRestore();
+      expect(logs).toContain("Retrying GET /uploadposts/me in 1ms (attempt 2 of 3)");
+    });
+  });
+
+  describe("timeouts", () => {
+    // Never answers; fails once the request is aborted
+    const hang: Fetch = (_url, options) =>
+      new Promise((_resolve, reject) => {
+        options!.signal!.addEventListener("abort", () => {
+          reject(Object.assign(new Error("aborted"), { name: "AbortError" }));
+        });
+      });
+
+    test("uses the configured request timeout", async () => {
+      mockFetch(hang);
+      const error = await new ApiClient(mockApiKey, { timeouts: { requestMs: 50 } }).me().catch((e) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.message).toBe(
+        "Request timeout after 0.1 seconds. Allow longer with --timeout <seconds> or network.timeout_ms in config."
+      );
+    });
+
+    test("uses a fixed upload timeout when configured", async () => {
+      mockFetch(hang);
+      const client = new ApiClient(mockApiKey, { timeouts: { requestMs: 30000, uploadMs: 50 } });
+      const error = await client.postText({ profile: "me", platforms: ["x"], text: "Hi" }).catch((e) => e);
+
+      expect(error.message).toStartWith("Upload timeout after 0.1 seconds.");
+    });
+
+    test("allows uploads longer the larger they are", async () => {
+      mockFetch(async () => Response.json({ success: true }));
+      const timeoutSpy = spyOn(globalThis, "setTimeout");
+
+      const file = "/tmp/posterboy-test-timeout.mp4";
+      writeFileSync(file, new Uint8Array(1024 * 1024));
+      await client.postVideo({ profile: "me", platforms: ["youtube"], title: "Clip", file });
+      rmSync(file);
+
+      // 2 minutes, plus 2 seconds for 1MB at 512KB/s
+      expect(timeoutSpy.mock.calls[0][1]).toBe(122000);
+      timeoutSpy.mockRestore();
+    });
+  });
+
+  describe("proxy", () => {
+    test("sends requests and uploads through the proxy", async () => {
+      // Stand-in proxy that answers every request itself
+      const seen: string[] = [];
+      const proxy = Bun.serve({
+        port: 0,
+        fetch(req) {
+          seen.push(`${req.method} ${req.url}`);
+          return Response.json({ success: true, request_id: "req_1" });
+        },
+      });
+
+      const client = new ApiClient(mockApiKey, {
+        baseUrl: "http://api.upload-post.invalid/api",
+        network: { proxy: `http://localhost:${proxy.port}`, noProxy: [] },
+      });
+      await client.me();
+      await client.postText({ profile: "me", platforms: ["x"], text: "Hi" });
+      proxy.stop(true);
+
+      expect(seen).toEqual([
+        "GET http://api.upload-post.invalid/api/uploadposts/me",
+        "POST http://api.upload-post.invalid/api/upload_text",
+      ]);
+    });
+  });
+
+  describe("uploads", () => {
+    const TEST_DIR = "/tmp/posterboy-test-uploads";
+    const VIDEO = `${TEST_DIR}/clip.mp4`;
+    const bytes = new Uint8Array(2500).map((_, i) => i % 251);
+
+    // Local stand-in for the upload API
+    let posts: FormData[] = [];
+    // Requests to answer with 503, counting from 1
+    let failing = new Set<number>();
+    let requests = 0;
+    let server: ReturnType<typeof Bun.serve>;
+    let baseUrl: string;
+
+    beforeAll(() => {
+      mkdirSync(TEST_DIR, { recursive: true });
+      writeFileSync(VIDEO, bytes);
+
+      server = Bun.serve({
+        port: 0,
+        async fetch(req) {
+          const form = await req.formData();
+          if (failing.has(++requests)) {
+            return Response.json({ error: "Service unavailable" }, { status: 503 });
+          }
+          posts.push(form);
+          return Response.json({ success: true, request_id: "req_1" });
+        },
+      });
+      baseUrl = `http://localhost:${server.port}`;
+    });
+
+    beforeEach(() => {
+      posts = [];
+      failing = new Set();
+      requests = 0;
+    });
+
+    afterAll(() => {
+      server.stop(true);
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    });
+
+    const params = { profile: "me", platforms: ["youtube" as const], title: "Clip", file: VIDEO };
+
+    test("sends local files in the multipart body", async () => {
+      const result = await new ApiClient(mockApiKey, { baseUrl }).postVideo(params);
+
+      expect(result.request_id).toBe("req_1");
+      expect((posts[0].get("video") as File).size).toBe(2500);
+    });
+
+    test("reports progress while streaming a form", async () => {
+      const progress: Array<{ sent: number; total: number }> = [];
+      const client = new ApiClient(mockApiKey, { baseUrl });
+      await client.postVideo(params, { onProgress: (p) => progress.push(p) });
+
+      const video = posts[0].get("video") as File;
+      expect(video.name).toBe(VIDEO);
+      expect([...new Uint8Array(await video.arrayBuffer())]).toEqual([...bytes]);
+      expect(posts[0].getAll("platform[]")).toEqual(["youtube"]);
+      expect(posts[0].get("title")).toBe("Clip");
+
+      const last = progress[progress.length - 1];
+      expect(last.sent).toBe(last.total);
+      expect(last.total).toBeGreaterThan(2500);
+    });
+
+    test("retries the whole upload under an explicit idempotency key", async () => {
+      failing = new Set([1]);
+      const retry = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 50, jitter: false };
+      const progress: number[] = [];
+      const client = new ApiClient(mockApiKey, { baseUrl, retry });
+      await client.postVideo(params, {
+        idempotencyKey: "launch-1",
+        retryable: true,
+        onProgress: (p) => progress.push(p.sent),
+      });
+
+      expect(requests).toBe(2);
+      expect((posts[0].get("video") as File).size).toBe(2500);
+      // The second attempt streams the file again from the start
+      expect(progress.filter((sent) => sent === progress[progress.length - 1])).toHaveLength(2);
+    });
+
+    test("does not resend an upload under a generated key", async () => {
+      failing = new Set([1]);
+      const retry = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 50, jitter: false };
+      const client = new ApiClient(mockApiKey, { baseUrl, retry });
+
+      await expect(
+        client.postVideo(params, { idempotencyKey: "pb_generated", retryable: false })
+      ).rejects.toThrow(ApiError);
+      expect(requests).toBe(1);
+    });
+  });
 });
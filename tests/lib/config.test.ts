@@ -1,6 +1,6 @@
-import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { readConfig, writeConfig, validateConfig, resolveValue, getApiKey } from "../../src/lib/config";
-import { existsSync, rmSync } from "node:fs";
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { readConfig, writeConfig, migrateConfig, migrateConfigFile, parseConfigValue, loadConfigContext, resolveContextName, validateConfig, resolveValue, getApiKey, getRetryPolicy, getTimeoutPolicy, getNetworkPolicy } from "../../src/lib/config";
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
 import type { Config } from "../../src/lib/types";
 
 const TEST_CONFIG_DIR = "/tmp/posterboy-test-config";
@@ -24,11 +24,19 @@ describe("Config System", () => {
     }
     delete process.env.POSTERBOY_CONFIG;
     delete process.env.POSTERBOY_API_KEY;
+    delete process.env.POSTERBOY_MAX_ATTEMPTS;
+    delete process.env.POSTERBOY_TIMEOUT_MS;
+    delete process.env.POSTERBOY_UPLOAD_TIMEOUT_MS;
+    delete process.env.HTTPS_PROXY;
+    delete process.env.https_proxy;
+    delete process.env.NO_PROXY;
+    delete process.env.POSTERBOY_CA_FILE;
+    delete process.env.POSTERBOY_CONTEXT;
   });
   
   test("validateConfig accepts valid config", () => {
     const config: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
     
@@ -37,7 +45,7 @@ describe("Config System", () => {
   
   test("validateConfig rejects invalid version", () => {
     const config = {
-      version: 2,
+      version: 3,
     } as Config;
     
     expect(() => validateConfig(config)).toThrow(/Unsupported config version/);
@@ -59,7 +67,7 @@ describe("Config System", () => {
     process.env.POSTERBOY_CONFIG = TEST_CONFIG_FILE;
     
     const config: Config = {
-      version: 1,
+      version: 2,
       api_key: "test_key",
     };
     
@@ -69,6 +77,240 @@ describe("Config System", () => {
     expect(existsSync(TEST_CONFIG_FILE)).toBe(true);
   });
   
+  test("loadConfigContext reads the --config path over POSTERBOY_CONFIG", async () => {
+    process.env.POSTERBOY_CONFIG = TEST_CONFIG_FILE;
+    const overridePath = `${TEST_CONFIG_DIR}/other.json`;
+    await writeConfig({ version: 2, api_key: "default_key" });
+    await writeConfig({ version: 2, api_key: "other_key" }, overridePath);
+
+    expect(loadConfigContext({ config: overridePath })).toMatchObject({
+      path: overridePath,
+      config: { version: 2, api_key: "other_key" },
+    });
+    expect(loadConfigContext({})).toMatchObject({
+      path: TEST_CONFIG_FILE,
+      config: { version: 2, api_key: "default_key" },
+    });
+  });
+
+  test("loadConfigContext applies the account settings of the active context", async () => {
+    process.env.POSTERBOY_CONFIG = TEST_CONFIG_FILE;
+    await writeConfig({
+      version: 2,
+      api_key: "own_key",
+      default_profile: "own",
+      platform_defaults: { reddit: { subreddit: "own" } },
+      network: { timeout_ms: 5000 },
+      current_context: "client-a",
+      contexts: {
+        "client-a": { api_key: "a_key", default_profile: "brand-a", default_platforms: ["x"] },
+        "client-b": { api_key: "b_key" },
+      },
+    });
+
+    const current = loadConfigContext({});
+    expect(current.context).toBe("client-a");
+    expect(current.config).toMatchObject({
+      api_key: "a_key",
+      default_profile: "brand-a",
+      default_platforms: ["x"],
+      network: { timeout_ms: 5000 },
+    });
+    // Nothing of the top-level account carries over
+    expect(current.config?.platform_defaults).toBeUndefined();
+    expect(current.file?.api_key).toBe("own_key");
+
+    process.env.POSTERBOY_CONTEXT = "client-b";
+    expect(loadConfigContext({}).config?.api_key).toBe("b_key");
+    expect(loadConfigContext({ context: "client-a" }).config?.api_key).toBe("a_key");
+    expect(() => loadConfigContext({ context: "client-c" })).toThrow("Unknown context: client-c");
+  });
+
+  test("resolveContextName prefers the flag, then env, then current_context", () => {
+    const config: Config = { version: 2, current_context: "saved" };
+    expect(resolveContextName(undefined, config)).toBe("saved");
+    process.env.POSTERBOY_CONTEXT = "env";
+    expect(resolveContextName(undefined, config)).toBe("env");
+    expect(resolveContextName("flag", config)).toBe("flag");
+    expect(resolveContextName(undefined, { version: 2 })).toBe("env");
+    delete process.env.POSTERBOY_CONTEXT;
+    expect(resolveContextName(undefined, { version: 2 })).toBeUndefined();
+  });
+
+  test("validateConfig checks the settings of each context", () => {
+    expect(() =>
+      validateConfig({ version: 2, contexts: { a: { api_key: 42 as unknown as string } } })
+    ).toThrow("Config contexts.a.api_key must be a string");
+    expect(() =>
+      validateConfig({ version: 2, contexts: [] as unknown as Config["contexts"] })
+    ).toThrow("Config contexts must be an object");
+  });
+
+  test("readConfig upgrades a version 1 file in memory, and migrateConfigFile saves it", () => {
+    process.env.POSTERBOY_CONFIG = TEST_CONFIG_FILE;
+    mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+    const v1 = {
+      version: 1,
+      api_key: "test_key",
+      platform_defaults: {
+        facebook: { page_id: "fb-page" },
+        pinterest: { board_id: "board-1" },
+        reddit: { subreddit: "sub" },
+      },
+      contexts: { client: { platform_defaults: { linkedin: { page_id: "li-page", visibility: "PUBLIC" } } } },
+    };
+    const content = JSON.stringify(v1);
+    writeFileSync(TEST_CONFIG_FILE, content);
+    const consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+    const config = readConfig();
+    expect(consoleErrorSpy).not.toHaveBeenCalled();
+    consoleErrorSpy.mockRestore();
+
+    const v2 = {
+      version: 2,
+      api_key: "test_key",
+      platform_defaults: {
+        facebook: { page: "fb-page" },
+        pinterest: { board: "board-1" },
+        reddit: { subreddit: "sub" },
+      },
+      contexts: { client: { platform_defaults: { linkedin: { page: "li-page", visibility: "PUBLIC" } } } },
+    };
+    expect(config).toEqual(v2 as Config);
+    // Reading never rewrites the file
+    expect(readFileSync(TEST_CONFIG_FILE, "utf-8")).toBe(content);
+
+    expect(migrateConfigFile()).toEqual({ from: 1, to: 2, backupPath: `${TEST_CONFIG_FILE}.v1.bak` });
+    expect(JSON.parse(readFileSync(TEST_CONFIG_FILE, "utf-8"))).toEqual(v2);
+    expect(readFileSync(`${TEST_CONFIG_FILE}.v1.bak`, "utf-8")).toBe(content);
+    // The file is replaced through a temporary copy, leaving none behind
+    expect(readdirSync(TEST_CONFIG_DIR).sort()).toEqual(["config.json", "config.json.v1.bak"]);
+  });
+
+  test("migrateConfig leaves the config passed in untouched", () => {
+    const v1 = { version: 1, platform_defaults: { facebook: { page_id: "fb-page" } } } as unknown as Config;
+    expect(migrateConfig(v1)).toEqual({ version: 2, platform_defaults: { facebook: { page: "fb-page" } } });
+    expect(v1.version).toBe(1);
+  });
+
+  test("writeConfig saves older configs in the current schema", async () => {
+    process.env.POSTERBOY_CONFIG = TEST_CONFIG_FILE;
+    await writeConfig({ version: 1, platform_defaults: { pinterest: { board_id: "b" } } } as unknown as Config);
+    expect(JSON.parse(readFileSync(TEST_CONFIG_FILE, "utf-8"))).toEqual({
+      version: 2,
+      platform_defaults: { pinterest: { board: "b" } },
+    });
+  });
+
+  test("writeConfig keeps a backup the first time it upgrades a file", async () => {
+    process.env.POSTERBOY_CONFIG = TEST_CONFIG_FILE;
+    mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+    const content = JSON.stringify({ version: 1, platform_defaults: { facebook: { page_id: "fb-page" } } });
+    writeFileSync(TEST_CONFIG_FILE, content);
+    const consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+    const config = readConfig()!;
+    await writeConfig({ ...config, default_profile: "brand" });
+    expect(readFileSync(`${TEST_CONFIG_FILE}.v1.bak`, "utf-8")).toBe(content);
+    expect(consoleErrorSpy.mock.calls[0]![0]).toContain(`the version 1 file was kept at ${TEST_CONFIG_FILE}.v1.bak`);
+
+    // Later saves of the upgraded file leave the backup alone
+    await writeConfig({ ...readConfig()!, default_profile: "other" });
+    expect(readFileSync(`${TEST_CONFIG_FILE}.v1.bak`, "utf-8")).toBe(content);
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+    consoleErrorSpy.mockRestore();
+  });
+
+  test("validateConfig warns about unknown keys", () => {
+    const warnings = validateConfig({
+      version: 2,
+      api_kye: "typo",
+      network: { proxi: "http://proxy:3128" },
+      platform_defaults: { myspace: {}, youtube: { privacy: "unlisted", playlist: "x" } },
+    } as unknown as Config);
+
+    expect(warnings).toEqual([
+      "Unknown config key: api_kye",
+      "Unknown config key: network.proxi",
+      "Unknown config key: platform_defaults.myspace",
+      "Unknown config key: platform_defaults.youtube.playlist",
+    ]);
+  });
+
+  test("readConfig prints warnings and still uses the config", () => {
+    process.env.POSTERBOY_CONFIG = TEST_CONFIG_FILE;
+    mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+    writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ version: 2, api_key: "k", templates: {} }));
+    const consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+    expect(readConfig()?.api_key).toBe("k");
+    expect(consoleErrorSpy).toHaveBeenCalledWith(`Warning: Unknown config key: templates in ${TEST_CONFIG_FILE}`);
+    consoleErrorSpy.mockRestore();
+  });
+
+  test("validateConfig checks platform_defaults and output", () => {
+    expect(() =>
+      validateConfig({ version: 2, platform_defaults: { facebook: { page: 42 } } } as unknown as Config)
+    ).toThrow("Config platform_defaults.facebook.page must be a string");
+    expect(() =>
+      validateConfig({ version: 2, platform_defaults: [] } as unknown as Config)
+    ).toThrow("Config platform_defaults must be an object");
+    expect(() =>
+      validateConfig({ version: 2, output: { format: "xml" } } as unknown as Config)
+    ).toThrow("Config output.format must be one of: auto, json, pretty");
+    expect(() =>
+      validateConfig({ version: 2, output: { color: "yes" } } as unknown as Config)
+    ).toThrow("Config output.color must be a boolean");
+    expect(() =>
+      validateConfig({ version: 2, default_platforms: ["x", "myspace"] } as unknown as Config)
+    ).toThrow("Config default_platforms has invalid platforms: myspace");
+  });
+
+  test("validateConfig accepts defaults for per-platform settings only", () => {
+    expect(
+      validateConfig({
+        version: 2,
+        platform_defaults: {
+          instagram: { media_type: "STORIES", collaborators: "partner" },
+          pinterest: { link: "https://example.com" },
+          x: { reply_settings: "following" },
+          reddit: { flair: "Announcement" },
+          tiktok: { privacy: "SELF_ONLY", auto_music: true },
+        },
+      })
+    ).toEqual([]);
+    expect(() =>
+      validateConfig({ version: 2, platform_defaults: { tiktok: { auto_music: "yes" } } } as unknown as Config)
+    ).toThrow("Config platform_defaults.tiktok.auto_music must be a boolean");
+    // Content is never filled from defaults
+    expect(
+      validateConfig({
+        version: 2,
+        platform_defaults: { x: { poll_options: ["Yes", "No"] }, youtube: { title: "Launch" } },
+      } as unknown as Config)
+    ).toEqual([
+      "Unknown config key: platform_defaults.x.poll_options",
+      "Unknown config key: platform_defaults.youtube.title",
+    ]);
+  });
+
+  test("parseConfigValue converts input to the type of the key", () => {
+    expect(parseConfigValue("default_profile", "brand")).toBe("brand");
+    expect(parseConfigValue("default_platforms", "x, linkedin")).toEqual(["x", "linkedin"]);
+    expect(parseConfigValue("output.color", "false")).toBe(false);
+    expect(parseConfigValue("network.timeout_ms", "5000")).toBe(5000);
+    expect(parseConfigValue("platform_defaults.tiktok.auto_music", "true")).toBe(true);
+    expect(parseConfigValue("contexts.client-a.platform_defaults.reddit.subreddit", "news")).toBe("news");
+
+    expect(() => parseConfigValue("output.color", "yes")).toThrow("Config output.color must be a boolean (true or false)");
+    expect(() => parseConfigValue("network", "x")).toThrow("network is a section, not a setting.");
+    expect(() => parseConfigValue("version", "3")).toThrow("version is managed by posterboy");
+    expect(() => parseConfigValue("platform_defaults.facebook.page_id", "1")).toThrow(
+      "Unknown config key: platform_defaults.facebook.page_id\nIt was renamed to platform_defaults.facebook.page in config version 2."
+    );
+  });
+
   test("resolveValue follows precedence order", () => {
     const result = resolveValue(
       "flag_value",
@@ -131,4 +373,95 @@ describe("Config System", () => {
     const result = getApiKey(undefined, "config_key");
     expect(result).toBe("env_key");
   });
+  
+  test("getRetryPolicy falls back to defaults", () => {
+    expect(getRetryPolicy(null)).toEqual({
+      maxAttempts: 3,
+      baseDelayMs: 500,
+      maxDelayMs: 10000,
+      jitter: true,
+    });
+  });
+  
+  test("getRetryPolicy reads network.retry from config, env overrides attempts", () => {
+    const config: Config = {
+      version: 2,
+      network: { retry: { max_attempts: 5, base_delay_ms: 1000, jitter: false } },
+    };
+    expect(getRetryPolicy(config)).toEqual({
+      maxAttempts: 5,
+      baseDelayMs: 1000,
+      maxDelayMs: 10000,
+      jitter: false,
+    });
+    
+    process.env.POSTERBOY_MAX_ATTEMPTS = "1";
+    expect(getRetryPolicy(config).maxAttempts).toBe(1);
+  });
+  
+  test("validateConfig rejects invalid retry settings", () => {
+    expect(() =>
+      validateConfig({ version: 2, network: { retry: { max_attempts: 0 } } })
+    ).toThrow("Config network.retry.max_attempts must be a positive integer");
+    expect(() =>
+      validateConfig({ version: 2, network: { retry: { base_delay_ms: -5 } } })
+    ).toThrow("base_delay_ms must be a non-negative integer");
+  });
+
+  test("getTimeoutPolicy leaves upload timeouts to the upload size by default", () => {
+    expect(getTimeoutPolicy(null)).toEqual({ requestMs: 30000, uploadMs: undefined });
+  });
+
+  test("getTimeoutPolicy resolves --timeout, then env, then config", () => {
+    const config: Config = { version: 2, network: { timeout_ms: 45000, upload_timeout_ms: 600000 } };
+    expect(getTimeoutPolicy(config)).toEqual({ requestMs: 45000, uploadMs: 600000 });
+
+    process.env.POSTERBOY_UPLOAD_TIMEOUT_MS = "900000";
+    expect(getTimeoutPolicy(config)).toEqual({ requestMs: 45000, uploadMs: 900000 });
+
+    // The flag applies to every request
+    expect(getTimeoutPolicy(config, "1.5")).toEqual({ requestMs: 1500, uploadMs: 1500 });
+  });
+
+  test("getTimeoutPolicy rejects invalid values", () => {
+    expect(() => getTimeoutPolicy(null, "soon")).toThrow(
+      "Invalid --timeout value: soon. Expected a positive number of seconds"
+    );
+    process.env.POSTERBOY_TIMEOUT_MS = "0";
+    expect(() => getTimeoutPolicy(null)).toThrow("POSTERBOY_TIMEOUT_MS must be a positive integer");
+    expect(() =>
+      validateConfig({ version: 2, network: { upload_timeout_ms: 1.5 } })
+    ).toThrow("Config network.upload_timeout_ms must be a positive integer");
+  });
+
+  test("getNetworkPolicy reads the proxy from env over config", () => {
+    const config: Config = { version: 2, network: { proxy: "http://config-proxy:3128" } };
+    expect(getNetworkPolicy(config)).toEqual({ proxy: "http://config-proxy:3128", noProxy: [], ca: undefined });
+
+    process.env.https_proxy = "http://env-proxy:8080";
+    process.env.NO_PROXY = "localhost, .corp.example";
+    expect(getNetworkPolicy(config)).toEqual({
+      proxy: "http://env-proxy:8080",
+      noProxy: ["localhost", ".corp.example"],
+      ca: undefined,
+    });
+  });
+
+  test("getNetworkPolicy loads the CA bundle", () => {
+    mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+    writeFileSync(`${TEST_CONFIG_DIR}/corp-ca.pem`, "PEM");
+
+    const config: Config = { version: 2, network: { ca_file: `${TEST_CONFIG_DIR}/corp-ca.pem` } };
+    expect(getNetworkPolicy(config).ca).toBe("PEM");
+
+    process.env.POSTERBOY_CA_FILE = `${TEST_CONFIG_DIR}/missing.pem`;
+    expect(() => getNetworkPolicy(config)).toThrow(`CA bundle not found: ${TEST_CONFIG_DIR}/missing.pem`);
+  });
+
+  test("getNetworkPolicy rejects proxies that are not http(s) URLs", () => {
+    expect(() => getNetworkPolicy({ version: 2, network: { proxy: "socks5://proxy:1080" } })).toThrow(
+      "Invalid proxy URL: socks5://proxy:1080. Expected http://host:port or https://host:port"
+    );
+    expect(() => getNetworkPolicy({ version: 2, network: { proxy: "proxy.corp" } })).toThrow("Invalid proxy URL");
+  });
 });
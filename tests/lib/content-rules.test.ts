@@ -0,0 +1,104 @@
+import { describe, test, expect, spyOn } from "bun:test";
+import {
+  checkPostContent,
+  countCharacters,
+  validatePostContent,
+} from "../../src/lib/content-rules";
+import { UserError } from "../../src/lib/errors";
+
+describe("countCharacters", () => {
+  test("counts graphemes, not code units", () => {
+    // Family emoji, flag and skin-tone emoji are one character each
+    expect(countCharacters("👨‍👩‍👧🇺🇸👍🏽", "bluesky")).toBe(3);
+    expect(countCharacters("café", "bluesky")).toBe(4);
+  });
+
+  test("weights emoji, CJK and URLs on X", () => {
+    expect(countCharacters("hello", "x")).toBe(5);
+    expect(countCharacters("👍🏽", "x")).toBe(2);
+    expect(countCharacters("日本", "x")).toBe(4);
+    expect(countCharacters("see https://example.com/a/very/long/path/that/goes/on", "x")).toBe(4 + 23);
+  });
+});
+
+describe("checkPostContent", () => {
+  test("reports text over each platform's limit", () => {
+    const issues = checkPostContent("text", ["x", "bluesky", "linkedin"], {
+      text: "a".repeat(290),
+    });
+
+    expect(issues).toEqual([
+      { platform: "x", level: "error", field: "text", message: "text is 290 characters, limit is 280" },
+    ]);
+  });
+
+  test("uses per-platform overrides", () => {
+    expect(
+      checkPostContent("text", ["x"], { text: "a".repeat(400), x_title: "Short version" })
+    ).toEqual([]);
+  });
+
+  test("checks titles and descriptions separately where the platform has both", () => {
+    const issues = checkPostContent("video", ["youtube", "tiktok"], {
+      title: "t".repeat(120),
+      description: "Full description",
+    });
+
+    expect(issues).toEqual([
+      { platform: "youtube", level: "error", field: "title", message: "title is 120 characters, limit is 100" },
+    ]);
+  });
+
+  test("limits hashtags and mentions", () => {
+    const caption = Array.from({ length: 31 }, (_, i) => `#tag${i}`).join(" ");
+    const [issue] = checkPostContent("photo", ["instagram"], { title: caption });
+
+    expect(issue).toMatchObject({ platform: "instagram", level: "error", message: "31 hashtags, limit is 30" });
+  });
+
+  test("warns about soft limits", () => {
+    const issues = checkPostContent("photo", ["instagram", "threads"], {
+      title: "New drop #launch #fall https://example.com",
+    });
+
+    expect(issues).toEqual([
+      {
+        platform: "instagram",
+        level: "warning",
+        field: "title",
+        message: "1 link: links in Instagram captions are not clickable",
+      },
+      {
+        platform: "threads",
+        level: "warning",
+        field: "title",
+        message: "2 hashtags: Threads only turns the first hashtag into a topic",
+      },
+    ]);
+  });
+
+  test("does not count email addresses as mentions", () => {
+    const caption = "Write to hello@example.com " + "@a ".repeat(20);
+    expect(checkPostContent("photo", ["instagram"], { title: caption })).toEqual([]);
+  });
+});
+
+describe("validatePostContent", () => {
+  test("throws one error listing every platform", () => {
+    expect(() =>
+      validatePostContent("text", ["x", "bluesky"], { text: "a".repeat(320) })
+    ).toThrow(/x: text is 320 characters, limit is 280\n {2}bluesky: text is 320 characters, limit is 300/);
+  });
+
+  test("prints warnings and lets the post through", () => {
+    const consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+    expect(() =>
+      validatePostContent("photo", ["threads"], { title: "#one #two" })
+    ).not.toThrow(UserError);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      "Warning: threads: 2 hashtags: Threads only turns the first hashtag into a topic"
+    );
+    consoleErrorSpy.mockRestore();
+  });
+});
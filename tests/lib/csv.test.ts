@@ -0,0 +1,52 @@
+import { describe, test, expect } from "bun:test";
+import { parseCsv, parseCsvRows, parseCsvRecords, formatCsv } from "../../src/lib/csv";
+import { UserError } from "../../src/lib/errors";
+
+describe("CSV", () => {
+  test("parseCsv handles quoted cells with commas, quotes and newlines", () => {
+    const rows = parseCsv('a,b,c\n"x,y","say ""hi""","line1\nline2"\n');
+    expect(rows).toEqual([
+      ["a", "b", "c"],
+      ["x,y", 'say "hi"', "line1\nline2"],
+    ]);
+  });
+
+  test("parseCsv handles CRLF, BOM, blank lines and missing trailing newline", () => {
+    const rows = parseCsv("﻿a,b\r\n\r\n1,2");
+    expect(rows).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  test("parseCsv rejects unterminated quotes", () => {
+    expect(() => parseCsv('a,"b\n')).toThrow(UserError);
+  });
+
+  test("parseCsvRecords keys rows by header", () => {
+    const records = parseCsvRecords(" type , text\ntext,Hello\nphoto\n");
+    expect(records).toEqual([
+      { line: 2, record: { type: "text", text: "Hello" } },
+      { line: 3, record: { type: "photo", text: "" } },
+    ]);
+  });
+
+  test("parseCsvRows numbers rows by the line they start on", () => {
+    const rows = parseCsvRows('type,text\r\n\r\ntext,"two\r\nlines"\n\ntext,last');
+    expect(rows).toEqual([
+      { line: 1, cells: ["type", "text"] },
+      { line: 3, cells: ["text", "two\r\nlines"] },
+      { line: 6, cells: ["text", "last"] },
+    ]);
+  });
+
+  test("formatCsv quotes cells when needed and round-trips", () => {
+    const csv = formatCsv([["row", "error"], [2, 'bad "value", really'], [3, undefined]]);
+    expect(csv).toBe('row,error\n2,"bad ""value"", really"\n3,\n');
+    expect(parseCsv(csv)).toEqual([
+      ["row", "error"],
+      ["2", 'bad "value", really'],
+      ["3", ""],
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { hashPostRequest } from "../../src/lib/idempotency";
+import { submitPostRequest } from "../../src/lib/post-request";
+import { Ledger } from "../../src/lib/ledger";
+import { ApiError, NetworkError, UserError } from "../../src/lib/errors";
+import type { ApiClient } from "../../src/lib/api";
+import type { PostRequest, RequestOptions } from "../../src/lib/types";
+
+const TEST_DIR = "/tmp/posterboy-test-idempotency";
+
+const textPost: PostRequest = {
+  type: "text",
+  params: { profile: "brand", platforms: ["x"], text: "Hello" },
+};
+
+describe("idempotent submissions", () => {
+  let previousLedger: string | undefined;
+  let consoleErrorSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    previousLedger = process.env.POSTERBOY_LEDGER;
+    process.env.POSTERBOY_LEDGER = `${TEST_DIR}/ledger.db`;
+    consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+    process.env.POSTERBOY_LEDGER = previousLedger;
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  function fakeClient(postText: (...args: unknown[]) => Promise<unknown>, status = "completed") {
+    return {
+      postText: mock(postText),
+      getStatus: mock(async () => ({ status })),
+    };
+  }
+
+  function optionsOf(client: ReturnType<typeof fakeClient>, call: number): RequestOptions {
+    return (client.postText.mock.calls[call] as unknown as [unknown, RequestOptions])[1];
+  }
+
+  function keyOf(client: ReturnType<typeof fakeClient>, call: number): string {
+    return optionsOf(client, call).idempotencyKey!;
+  }
+
+  test("returns the earlier result instead of posting the same content twice", async () => {
+    const client = fakeClient(async () => ({ success: true, request_id: "req_1", results: { x: { success: true } } }));
+
+    const first = await submitPostRequest(client as unknown as ApiClient, textPost);
+    const second = await submitPostRequest(client as unknown as ApiClient, textPost);
+
+    expect(client.postText).toHaveBeenCalledTimes(1);
+    expect(keyOf(client, 0)).toStartWith("pb_");
+    // A generated key is not trusted to make resends safe
+    expect(optionsOf(client, 0).retryable).toBe(false);
+    expect(second).toEqual(first);
+    expect(consoleErrorSpy.mock.calls[0][0]).toContain("Use --force to post again");
+  });
+
+  test("posts again with --force", async () => {
+    const client = fakeClient(async () => ({ success: true, job_id: "job_1", scheduled: true }));
+
+    await submitPostRequest(client as unknown as ApiClient, textPost);
+    await submitPostRequest(client as unknown as ApiClient, textPost, { force: true });
+
+    expect(client.postText).toHaveBeenCalledTimes(2);
+    expect(keyOf(client, 1)).not.toBe(keyOf(client, 0));
+  });
+
+  test("different content is not treated as a duplicate", async () => {
+    const client = fakeClient(async () => ({ success: true, request_id: "req_1" }));
+
+    await submitPostRequest(client as unknown as ApiClient, textPost);
+    await submitPostRequest(client as unknown as ApiClient, {
+      type: "text",
+      params: { ...textPost.params, text: "Hello again" },
+    } as PostRequest);
+
+    expect(client.postText).toHaveBeenCalledTimes(2);
+  });
+
+  test("sends an explicit key and rejects reusing it for other content", async () => {
+    const client = fakeClient(async () => ({ success: true, request_id: "req_1" }));
+
+    await submitPostRequest(client as unknown as ApiClient, textPost, { idempotencyKey: "launch-1" });
+    expect(keyOf(client, 0)).toBe("launch-1");
+    expect(optionsOf(client, 0).retryable).toBe(true);
+
+    await expect(
+      submitPostRequest(
+        client as unknown as ApiClient,
+        { type: "text", params: { ...textPost.params, text: "Other" } } as PostRequest,
+        { idempotencyKey: "launch-1" }
+      )
+    ).rejects.toThrow(UserError);
+  });
+
+  test("never resends a pending key with no recorded result", async () => {
+    let calls = 0;
+    const client = fakeClient(async () => {
+      if (calls++ === 0) throw new NetworkError("Request timeout after 120 seconds");
+      return { success: true, request_id: "req_2" };
+    });
+
+    await expect(submitPostRequest(client as unknown as ApiClient, textPost)).rejects.toThrow(NetworkError);
+    const error = await submitPostRequest(client as unknown as ApiClient, textPost).catch((e) => e);
+
+    expect(error).toBeInstanceOf(UserError);
+    expect(error.message).toContain(`idempotency key ${keyOf(client, 0)}, sent `);
+    expect(error.message).toContain("Check with 'posterboy status' or 'posterboy history', or rerun with --force");
+    expect(client.postText).toHaveBeenCalledTimes(1);
+
+    await submitPostRequest(client as unknown as ApiClient, textPost, { force: true });
+    expect(client.postText).toHaveBeenCalledTimes(2);
+    expect(keyOf(client, 1)).not.toBe(keyOf(client, 0));
+  });
+
+  test("refuses to resend after a server error under an explicit key", async () => {
+    const client = fakeClient(async () => {
+      throw new ApiError("Bad gateway", 502);
+    });
+
+    await expect(
+      submitPostRequest(client as unknown as ApiClient, textPost, { idempotencyKey: "launch-1" })
+    ).rejects.toThrow(ApiError);
+    await expect(
+      submitPostRequest(client as unknown as ApiClient, textPost, { idempotencyKey: "launch-1" })
+    ).rejects.toThrow("idempotency key launch-1, sent ");
+
+    expect(client.postText).toHaveBeenCalledTimes(1);
+  });
+
+  test("uses a fresh key after the API rejected the request", async () => {
+    let calls = 0;
+    const client = fakeClient(async () => {
+      if (calls++ === 0) throw new ApiError("Bad request", 400);
+      return { success: true, request_id: "req_2" };
+    });
+
+    await expect(submitPostRequest(client as unknown as ApiClient, textPost)).rejects.toThrow(ApiError);
+    await submitPostRequest(client as unknown as ApiClient, textPost);
+
+    expect(keyOf(client, 1)).not.toBe(keyOf(client, 0));
+  });
+
+  test("reposts when getStatus reports the earlier async upload failed", async () => {
+    const client = fakeClient(async () => ({ success: true, request_id: "req_async" }), "failed");
+
+    await submitPostRequest(client as unknown as ApiClient, textPost);
+    await submitPostRequest(client as unknown as ApiClient, textPost);
+
+    expect(client.getStatus).toHaveBeenCalledWith("req_async", "request_id");
+    expect(client.postText).toHaveBeenCalledTimes(2);
+  });
+
+  test("reposts when the earlier post failed on a platform", async () => {
+    const client = fakeClient(async () => ({
+      success: true,
+      results: { x: { success: true }, bluesky: { success: false, error: "Rate limited" } },
+    }));
+
+    await submitPostRequest(client as unknown as ApiClient, textPost);
+    await submitPostRequest(client as unknown as ApiClient, textPost);
+
+    expect(client.postText).toHaveBeenCalledTimes(2);
+  });
+
+  test("reports an async upload whose status cannot be checked", async () => {
+    const client = fakeClient(async () => ({ success: true, request_id: "req_async" }));
+    client.getStatus.mockImplementation(async () => {
+      throw new NetworkError("Request timeout after 30 seconds");
+    });
+
+    await submitPostRequest(client as unknown as ApiClient, textPost);
+    await expect(submitPostRequest(client as unknown as ApiClient, textPost)).rejects.toThrow(
+      "Could not check whether the earlier post #1 went through: Request timeout after 30 seconds"
+    );
+    expect(client.postText).toHaveBeenCalledTimes(1);
+  });
+
+  test("records local files by absolute path", async () => {
+    const client = { postVideo: mock(async () => ({ success: true, request_id: "req_1" })) };
+
+    await submitPostRequest(client as unknown as ApiClient, {
+      type: "video",
+      params: { profile: "brand", platforms: ["youtube"], title: "Clip", file: "media/clip.mp4" },
+    });
+
+    const ledger = new Ledger();
+    const [entry] = ledger.list();
+    ledger.close();
+    expect(entry?.params).toMatchObject({ file: resolve("media/clip.mp4") });
+  });
+});
+
+describe("hashPostRequest", () => {
+  test("ignores key order", () => {
+    const reordered: PostRequest = {
+      type: "text",
+      params: { text: "Hello", platforms: ["x"], profile: "brand" },
+    };
+    expect(hashPostRequest(reordered)).toBe(hashPostRequest(textPost));
+  });
+
+  test("changes when a local media file changes", () => {
+    mkdirSync(TEST_DIR, { recursive: true });
+    const file = `${TEST_DIR}/clip.mp4`;
+    const request: PostRequest = {
+      type: "video",
+      params: { profile: "brand", platforms: ["youtube"], title: "Clip", file },
+    };
+
+    writeFileSync(file, "short");
+    const before = hashPostRequest(request);
+    writeFileSync(file, "a longer video");
+    expect(hashPostRequest(request)).not.toBe(before);
+
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+});
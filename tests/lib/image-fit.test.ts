@@ -0,0 +1,140 @@
+import { describe, test, expect, beforeAll, afterAll, mock } from "bun:test";
+import { Buffer } from "node:buffer";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import * as jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+import { parseFitMode, planAutoFit, postPhotoVariants, variantPhotos } from "../../src/lib/image-fit";
+import { inspectImage } from "../../src/lib/media";
+import { Ledger } from "../../src/lib/ledger";
+import { UserError } from "../../src/lib/errors";
+import type { ApiClient } from "../../src/lib/api";
+import type { ImageMetadata, PhotoFile, PhotoPostParams, PostResult } from "../../src/lib/types";
+
+const TEST_DIR = "/tmp/posterboy-test-image-fit";
+
+function photo(path: string, width: number, height: number, format: ImageMetadata["format"] = "jpeg"): PhotoFile {
+  return { path, metadata: { format, width, height, aspect_ratio: "" } };
+}
+
+describe("parseFitMode", () => {
+  test("accepts crop and pad", () => {
+    expect(parseFitMode("crop")).toBe("crop");
+    expect(parseFitMode("pad")).toBe("pad");
+    expect(() => parseFitMode("stretch")).toThrow("Invalid --auto-fit value: stretch. Valid values: crop, pad");
+  });
+});
+
+describe("planAutoFit", () => {
+  test("groups platforms by the photos they get", () => {
+    const variants = planAutoFit(
+      ["instagram", "linkedin", "pinterest", "threads"],
+      [photo("a.jpg", 1600, 900), photo("b.jpg", 1000, 1500)],
+      "crop"
+    );
+
+    expect(variants.map((v) => [v.platforms, v.aspect_ratio])).toEqual([
+      [["instagram"], "4:5"],
+      [["linkedin", "threads"], undefined],
+      [["pinterest"], "2:3"],
+    ]);
+    const sizes = (i: number) =>
+      variantPhotos(variants[i]).map((p) => p.metadata && [p.metadata.width, p.metadata.height]);
+    expect(sizes(0)).toEqual([[720, 900], [1000, 1250]]);
+    // b.jpg is 2:3 already, so only a.jpg is cropped for Pinterest
+    expect(sizes(2)).toEqual([[600, 900], [1000, 1500]]);
+    expect(variants[2].photos[1].fitted).toBeUndefined();
+  });
+
+  test("pads instead of cropping", () => {
+    const [variant] = planAutoFit(["x"], [photo("a.jpg", 1000, 1000)], "pad");
+
+    expect(variant.aspect_ratio).toBe("16:9");
+    expect(variant.photos[0].fitted).toMatchObject({ width: 1778, height: 1000, aspect_ratio: "16:9" });
+  });
+
+  test("reports photos that cannot be fitted", () => {
+    expect(() =>
+      planAutoFit(["instagram", "x"], [photo("a.gif", 1600, 900, "gif"), { path: "b.jpg" }], "crop")
+    ).toThrow(UserError);
+
+    try {
+      planAutoFit(["instagram", "x"], [photo("a.gif", 1600, 900, "gif"), { path: "b.jpg" }], "crop");
+    } catch (error) {
+      expect((error as UserError).errors).toEqual([
+        "Cannot auto-fit a.gif: only JPEG and PNG photos can be cropped or padded (this is GIF)",
+        "Cannot auto-fit b.jpg: only JPEG and PNG photos can be cropped or padded",
+      ]);
+    }
+  });
+});
+
+describe("postPhotoVariants", () => {
+  beforeAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+
+    // 40x20 red PNG and 30x30 JPEG
+    const png = new PNG({ width: 40, height: 20 });
+    png.data = Buffer.alloc(40 * 20 * 4, 0);
+    for (let i = 0; i < png.data.length; i += 4) png.data.set([255, 0, 0, 255], i);
+    writeFileSync(`${TEST_DIR}/wide.png`, PNG.sync.write(png));
+
+    const square = new Uint8Array(30 * 30 * 4).fill(128);
+    writeFileSync(`${TEST_DIR}/square.jpg`, jpeg.encode({ data: square, width: 30, height: 30 }, 90).data);
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("uploads a fitted copy to each group of platforms", async () => {
+    const photos = [
+      { path: `${TEST_DIR}/wide.png`, metadata: await inspectImage(`${TEST_DIR}/wide.png`) },
+      { path: `${TEST_DIR}/square.jpg`, metadata: await inspectImage(`${TEST_DIR}/square.jpg`) },
+    ];
+    const variants = planAutoFit(["instagram", "x", "linkedin"], photos, "pad");
+
+    const uploaded: Array<{ platforms: string[]; sizes: unknown[] }> = [];
+    const postPhotos = mock(async (params: PhotoPostParams): Promise<PostResult> => {
+      uploaded.push({
+        platforms: params.platforms,
+        sizes: await Promise.all(
+          params.files!.map(async (f) => {
+            const m = await inspectImage(f);
+            return m && [m.format, m.width, m.height];
+          })
+        ),
+      });
+      return {
+        success: true,
+        results: Object.fromEntries(params.platforms.map((p) => [p, { success: true, url: `https://${p}/1` }])),
+      };
+    });
+
+    const result = await postPhotoVariants(
+      { postPhotos } as unknown as ApiClient,
+      { profile: "testuser", platforms: ["instagram", "x", "linkedin"], title: "Fit" },
+      variants,
+      "pad",
+      { ledgerPath: `${TEST_DIR}/ledger.db` }
+    );
+
+    expect(uploaded).toEqual([
+      { platforms: ["instagram"], sizes: [["png", 40, 50], ["jpeg", 30, 38]] },
+      { platforms: ["x"], sizes: [["png", 40, 23], ["jpeg", 53, 30]] },
+      { platforms: ["linkedin"], sizes: [["png", 40, 20], ["jpeg", 30, 30]] },
+    ]);
+    expect(result.summary).toEqual({ status: "succeeded", succeeded: ["instagram", "x", "linkedin"], failed: [] });
+    expect(result.variants.map((v) => v.aspect_ratio)).toEqual(["4:5", "16:9", undefined]);
+    // Originals are untouched
+    expect(existsSync(`${TEST_DIR}/wide.png`)).toBe(true);
+
+    // The ledger keeps the originals, since the copies are removed
+    const ledger = new Ledger(`${TEST_DIR}/ledger.db`);
+    const [instagram] = ledger.list({ platform: "instagram" });
+    ledger.close();
+    expect(instagram?.params).toMatchObject({ files: [`${TEST_DIR}/wide.png`, `${TEST_DIR}/square.jpg`] });
+    expect(instagram?.params).not.toHaveProperty("auto_fit");
+    expect(instagram?.metadata).toEqual({ auto_fit: "pad 4:5" });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { rmSync } from "node:fs";
+import { Ledger, resolveLedgerPath } from "../../src/lib/ledger";
+
+describe("Ledger", () => {
+  let ledger: Ledger;
+
+  beforeEach(() => {
+    ledger = new Ledger(":memory:");
+  });
+
+  afterEach(() => {
+    ledger.close();
+  });
+
+  function seed() {
+    ledger.record(
+      { type: "text", params: { text: "Hello world", platforms: ["x", "linkedin"], profile: "brand" } },
+      {
+        success: true,
+        request_id: "req_1",
+        results: { x: { success: true, url: "https://x.com/brand/status/1" } },
+      },
+      { campaign: "launch" }
+    );
+    ledger.record(
+      { type: "video", params: { file: "/tmp/a.mp4", title: "Demo", platforms: ["youtube"], profile: "brand" } },
+      { success: true, scheduled: true, job_id: "job_2", scheduled_date: "2026-11-01T15:00:00Z" }
+    );
+    ledger.record(
+      { type: "document", params: { file: "/tmp/deck.pdf", title: "Deck", profile: "other" } },
+      { success: false, results: { linkedin: { success: false, error: "Token expired" } } }
+    );
+  }
+
+  test("records params, result and metadata", () => {
+    seed();
+    const [entry] = ledger.list({ limit: 1, type: "text" });
+
+    expect(entry).toMatchObject({
+      type: "text",
+      profile: "brand",
+      platforms: ["x", "linkedin"],
+      title: "Hello world",
+      request_id: "req_1",
+      success: true,
+      metadata: { campaign: "launch" },
+    });
+    expect(entry.result.results?.x.url).toBe("https://x.com/brand/status/1");
+    expect(entry.job_id).toBeUndefined();
+  });
+
+  test("lists newest first and records documents against linkedin", () => {
+    seed();
+    const entries = ledger.list();
+
+    expect(entries.map((e) => e.type)).toEqual(["document", "video", "text"]);
+    expect(entries[0].platforms).toEqual(["linkedin"]);
+    expect(entries[0].success).toBe(false);
+  });
+
+  test("filters by profile, platform and type", () => {
+    seed();
+
+    expect(ledger.list({ profile: "other" }).map((e) => e.type)).toEqual(["document"]);
+    expect(ledger.list({ platform: "linkedin" }).map((e) => e.type)).toEqual(["document", "text"]);
+    expect(ledger.list({ type: "video" })).toHaveLength(1);
+    expect(ledger.list({ limit: 2 })).toHaveLength(2);
+  });
+
+  test("searches titles, params, results and metadata", () => {
+    seed();
+
+    expect(ledger.list({ search: "launch" }).map((e) => e.type)).toEqual(["text"]);
+    expect(ledger.list({ search: "deck.pdf" }).map((e) => e.type)).toEqual(["document"]);
+    expect(ledger.list({ search: "Token expired" }).map((e) => e.type)).toEqual(["document"]);
+    expect(ledger.list({ search: "nothing-matches" })).toEqual([]);
+  });
+
+  test("searches for % and _ literally", () => {
+    seed();
+
+    expect(ledger.list({ search: "%" })).toEqual([]);
+    expect(ledger.list({ search: "req%1" })).toEqual([]);
+    expect(ledger.list({ search: "Hello_world" })).toEqual([]);
+    expect(ledger.list({ search: "req_1" }).map((e) => e.type)).toEqual(["text"]);
+  });
+
+  test("lives next to the config file unless POSTERBOY_LEDGER is set", () => {
+    const previous = process.env.POSTERBOY_LEDGER;
+    try {
+      delete process.env.POSTERBOY_LEDGER;
+      expect(resolveLedgerPath("/tmp/other/config.json")).toBe("/tmp/other/ledger.db");
+      process.env.POSTERBOY_LEDGER = "/tmp/ledger.db";
+      expect(resolveLedgerPath("/tmp/other/config.json")).toBe("/tmp/ledger.db");
+    } finally {
+      process.env.POSTERBOY_LEDGER = previous;
+    }
+  });
+
+  test("finds entries by id, request_id or job_id", () => {
+    seed();
+
+    expect(ledger.find("1")?.request_id).toBe("req_1");
+    expect(ledger.find("req_1")?.id).toBe(1);
+    expect(ledger.find("job_2")?.type).toBe("video");
+    expect(ledger.find("req_missing")).toBeNull();
+  });
+
+  test("tracks async and scheduled submissions as jobs", () => {
+    seed();
+    ledger.record(
+      { type: "video", params: { file: "/tmp/b.mp4", title: "Upload", platforms: ["tiktok"], profile: "brand" } },
+      { success: true, request_id: "req_async" },
+      undefined,
+      "client-a"
+    );
+
+    expect(ledger.listJobs()[0]?.context).toBe("client-a");
+    expect(ledger.listJobs()[1]?.context).toBeUndefined();
+    expect(ledger.listJobs().map((j) => [j.id, j.id_type, j.status])).toEqual([
+      ["req_async", "request_id", "pending"],
+      ["job_2", "job_id", "scheduled"],
+    ]);
+    expect(ledger.listJobs()[1]).toMatchObject({
+      submission_id: 2,
+      title: "Demo",
+      scheduled_date: "2026-11-01T15:00:00Z",
+    });
+  });
+
+  test("adds the context column to jobs of an older ledger", () => {
+    const path = "/tmp/posterboy-test-ledger-upgrade.db";
+    rmSync(path, { force: true });
+    const old = new Database(path);
+    old.exec(
+      `CREATE TABLE jobs (id TEXT PRIMARY KEY, id_type TEXT NOT NULL, submission_id INTEGER NOT NULL,
+        created_at TEXT NOT NULL, updated_at TEXT NOT NULL, type TEXT NOT NULL, profile TEXT NOT NULL,
+        platforms TEXT NOT NULL, title TEXT NOT NULL, status TEXT NOT NULL, scheduled_date TEXT,
+        completed INTEGER, total INTEGER, error TEXT)`
+    );
+    old.close();
+
+    const upgraded = new Ledger(path);
+    try {
+      upgraded.record(
+        { type: "video", params: { file: "/tmp/b.mp4", title: "Upload", platforms: ["tiktok"], profile: "brand" } },
+        { success: true, request_id: "req_async" },
+        undefined,
+        "client-a"
+      );
+      expect(upgraded.listJobs()[0]?.context).toBe("client-a");
+    } finally {
+      upgraded.close();
+      rmSync(path, { force: true });
+    }
+  });
+
+  test("updates job status and prunes finished jobs", () => {
+    seed();
+    ledger.record(
+      { type: "video", params: { file: "/tmp/b.mp4", title: "Upload", platforms: ["tiktok"], profile: "brand" } },
+      { success: true, request_id: "req_async" }
+    );
+
+    // A scheduled post is still scheduled while the API reports it pending
+    ledger.updateJob("job_2", { status: "pending" });
+    expect(ledger.listJobs().find((j) => j.id === "job_2")?.status).toBe("scheduled");
+
+    ledger.updateJob("req_async", { status: "completed", completed: 1, total: 1 });
+    expect(ledger.listJobs({ pending: true }).map((j) => j.id)).toEqual(["job_2"]);
+    expect(ledger.listJobs()[0]).toMatchObject({ status: "completed", completed: 1, total: 1 });
+
+    expect(ledger.pruneJobs(new Date(Date.now() - 3600 * 1000))).toBe(0);
+    expect(ledger.pruneJobs()).toBe(1);
+    expect(ledger.listJobs().map((j) => j.id)).toEqual(["job_2"]);
+  });
+});
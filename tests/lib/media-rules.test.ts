@@ -0,0 +1,158 @@
+import { describe, test, expect, spyOn } from "bun:test";
+import {
+  checkImageMetadata,
+  checkVideoMetadata,
+  validateImageMetadata,
+  validateVideoMetadata,
+} from "../../src/lib/media-rules";
+import { UserError } from "../../src/lib/errors";
+import type { PhotoFile, VideoMetadata } from "../../src/lib/types";
+
+const landscape: VideoMetadata = {
+  container: "mp4",
+  duration: 200,
+  width: 1920,
+  height: 1080,
+  aspect_ratio: "16:9",
+};
+
+const vertical: VideoMetadata = {
+  container: "mp4",
+  duration: 75,
+  width: 1080,
+  height: 1920,
+  aspect_ratio: "9:16",
+};
+
+describe("checkVideoMetadata", () => {
+  test("reports videos over each platform's length limit", () => {
+    expect(checkVideoMetadata(["x", "linkedin"], landscape)).toEqual([
+      { platform: "x", level: "error", field: "file", message: "video is 3m 20s, limit is 2m 20s" },
+    ]);
+  });
+
+  test("reports videos under the minimum length", () => {
+    const [issue] = checkVideoMetadata(["tiktok"], { ...vertical, duration: 2 });
+    expect(issue).toMatchObject({ platform: "tiktok", level: "error", message: "video is 2s, minimum is 3s" });
+  });
+
+  test("warns about landscape video on vertical platforms", () => {
+    expect(checkVideoMetadata(["tiktok", "instagram"], { ...landscape, duration: 30 })).toEqual([
+      {
+        platform: "tiktok",
+        level: "warning",
+        field: "file",
+        message: "aspect ratio is 16:9: TikTok shows videos full-screen at 9:16",
+      },
+      {
+        platform: "instagram",
+        level: "warning",
+        field: "file",
+        message: "aspect ratio is 16:9: Reels are shown full-screen at 9:16",
+      },
+    ]);
+  });
+
+  test("warns when a vertical video is too long for YouTube Shorts", () => {
+    expect(checkVideoMetadata(["youtube"], vertical)).toEqual([
+      {
+        platform: "youtube",
+        level: "warning",
+        field: "file",
+        message: "vertical video is 1m 15s: only videos up to 1m are posted as Shorts",
+      },
+    ]);
+    expect(checkVideoMetadata(["youtube"], landscape)).toEqual([]);
+  });
+});
+
+describe("validateVideoMetadata", () => {
+  test("throws one error listing every platform", () => {
+    try {
+      validateVideoMetadata(["x", "tiktok"], { ...vertical, duration: 700 });
+      throw new Error("expected validateVideoMetadata to throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(UserError);
+      expect((error as UserError).message).toContain(
+        "  x: video is 11m 40s, limit is 2m 20s\n  tiktok: video is 11m 40s, limit is 10m"
+      );
+      expect((error as UserError).errors).toHaveLength(2);
+    }
+  });
+
+  test("prints warnings and lets the video through", () => {
+    const consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+    expect(() => validateVideoMetadata(["youtube"], vertical)).not.toThrow();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      "Warning: youtube: vertical video is 1m 15s: only videos up to 1m are posted as Shorts"
+    );
+    consoleErrorSpy.mockRestore();
+  });
+});
+
+describe("checkImageMetadata", () => {
+  const photo = (path: string, width: number, height: number, aspect_ratio: string): PhotoFile => ({
+    path,
+    metadata: { format: "jpeg", width, height, aspect_ratio },
+  });
+
+  test("rejects shapes outside Instagram's range", () => {
+    expect(
+      checkImageMetadata(["instagram"], [
+        photo("tall.jpg", 1080, 1920, "9:16"),
+        photo("square.jpg", 1080, 1080, "1:1"),
+        photo("banner.jpg", 3000, 1000, "3.00:1"),
+      ])
+    ).toEqual([
+      { platform: "instagram", level: "error", field: "files", message: "tall.jpg is 9:16, narrowest accepted is 4:5" },
+      {
+        platform: "instagram",
+        level: "error",
+        field: "files",
+        message: "banner.jpg is 3.00:1, widest accepted is 1.91:1",
+      },
+    ]);
+  });
+
+  test("warns about pins that are not 2:3", () => {
+    expect(
+      checkImageMetadata(["pinterest"], [photo("pin.jpg", 1000, 1500, "2:3"), photo("wide.jpg", 1600, 900, "16:9")])
+    ).toEqual([
+      { platform: "pinterest", level: "warning", field: "files", message: "wide.jpg is 16:9: pins are shown best at 2:3" },
+    ]);
+  });
+
+  test("only counts remote photos", () => {
+    const photos = ["a", "b", "c", "d", "e"].map((name) => ({ path: `https://cdn.example.com/${name}.jpg` }));
+
+    expect(checkImageMetadata(["x", "instagram"], photos)).toEqual([
+      { platform: "x", level: "error", field: "files", message: "5 photos, limit is 4" },
+    ]);
+  });
+
+  test("rejects local photos that could not be read where the shape is limited", () => {
+    const photos = [{ path: "broken.jpg", unreadable: true }];
+
+    expect(checkImageMetadata(["x", "instagram", "pinterest"], photos)).toEqual([
+      {
+        platform: "instagram",
+        level: "error",
+        field: "files",
+        message: "broken.jpg could not be read, so its shape cannot be checked",
+      },
+      {
+        platform: "pinterest",
+        level: "warning",
+        field: "files",
+        message: "broken.jpg could not be read: pins are shown best at 2:3",
+      },
+    ]);
+  });
+
+  test("throws for photos that do not fit", () => {
+    expect(() =>
+      validateImageMetadata(["instagram"], [photo("tall.jpg", 1080, 1920, "9:16")])
+    ).toThrow("Photos do not meet platform requirements:\n  instagram: tall.jpg is 9:16, narrowest accepted is 4:5");
+  });
+});
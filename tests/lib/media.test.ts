@@ -0,0 +1,350 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { aspectRatio, formatDuration, inspectImage, inspectVideo } from "../../src/lib/media";
+
+const TEST_DIR = "/tmp/posterboy-test-media";
+
+// MP4 box builders
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const size = 8 + payload.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(size);
+  new DataView(out.buffer).setUint32(0, size);
+  out.set(new TextEncoder().encode(type), 4);
+  let offset = 8;
+  for (const p of payload) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+function u32(...values: number[]): Uint8Array {
+  const out = new Uint8Array(values.length * 4);
+  values.forEach((v, i) => new DataView(out.buffer).setUint32(i * 4, v));
+  return out;
+}
+
+function ascii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+interface Mp4Options {
+  brand?: string;
+  width: number;
+  height: number;
+  seconds: number;
+  fps: number;
+  codec?: string;
+  rotated?: boolean;
+  moovLast?: boolean;
+}
+
+function mp4(options: Mp4Options): Uint8Array {
+  const timescale = 1000;
+  const units = options.seconds * timescale;
+  // 90 degree rotation: a=0, b=1, c=-1, d=0
+  const matrix = options.rotated
+    ? [0, 0x10000, 0, -0x10000 >>> 0, 0, 0, 0, 0, 0x40000000]
+    : [0x10000, 0, 0, 0, 0x10000, 0, 0, 0, 0x40000000];
+
+  const moov = box(
+    "moov",
+    box("mvhd", u32(0, 0, 0, timescale, units), new Uint8Array(80)),
+    box(
+      "trak",
+      box("tkhd", u32(0, 0, 0, 1, 0, units, 0, 0, 0, 0), u32(...matrix), u32(options.width << 16, options.height << 16)),
+      box(
+        "mdia",
+        box("mdhd", u32(0, 0, 0, timescale, units, 0)),
+        box("hdlr", u32(0, 0), ascii("vide"), new Uint8Array(13)),
+        box(
+          "minf",
+          box(
+            "stbl",
+            box("stsd", u32(0, 1), box(options.codec ?? "avc1", new Uint8Array(78))),
+            box("stts", u32(0, 1, options.seconds * options.fps, timescale / options.fps))
+          )
+        )
+      )
+    )
+  );
+  const ftyp = box("ftyp", ascii(options.brand ?? "isom"), u32(512), ascii("isomavc1"));
+  const mdat = box("mdat", new Uint8Array(64));
+
+  return concat(...(options.moovLast ? [ftyp, mdat, moov] : [ftyp, moov, mdat]));
+}
+
+// EBML builders
+
+function ebml(id: number, ...payload: Uint8Array[]): Uint8Array {
+  const idBytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) idBytes.unshift(v & 0xff);
+  const data = concat(...payload);
+  // 8-byte size: marker 0x01 followed by 7 bytes of length
+  const size = new Uint8Array(8);
+  size[0] = 0x01;
+  new DataView(size.buffer).setUint32(4, data.length);
+  return concat(new Uint8Array(idBytes), size, data);
+}
+
+function uint(value: number): Uint8Array {
+  return u32(value);
+}
+
+function float64(value: number): Uint8Array {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setFloat64(0, value);
+  return out;
+}
+
+function webm(width: number, height: number, seconds: number): Uint8Array {
+  return concat(
+    ebml(0x1a45dfa3, ebml(0x4282, ascii("webm"))),
+    ebml(
+      0x18538067,
+      ebml(0x1549a966, ebml(0x2ad7b1, uint(1_000_000)), ebml(0x4489, float64(seconds * 1000))),
+      ebml(
+        0x1654ae6b,
+        ebml(
+          0xae,
+          ebml(0x83, uint(1)),
+          ebml(0x86, ascii("V_VP9")),
+          ebml(0x23e383, uint(33_333_333)),
+          ebml(0xe0, ebml(0xb0, uint(width)), ebml(0xba, uint(height)))
+        )
+      ),
+      ebml(0x1f43b675, new Uint8Array(32))
+    )
+  );
+}
+
+// Image builders
+
+function png(width: number, height: number): Uint8Array {
+  return concat(
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    u32(13),
+    ascii("IHDR"),
+    u32(width, height),
+    new Uint8Array(5 + 4)
+  );
+}
+
+function gif(width: number, height: number): Uint8Array {
+  const out = concat(ascii("GIF89a"), new Uint8Array(26));
+  new DataView(out.buffer).setUint16(6, width, true);
+  new DataView(out.buffer).setUint16(8, height, true);
+  return out;
+}
+
+function webpExtended(width: number, height: number): Uint8Array {
+  const out = concat(ascii("RIFF"), u32(0), ascii("WEBPVP8X"), new Uint8Array(18));
+  const view = new DataView(out.buffer);
+  view.setUint32(24, (width - 1) | 0, true);
+  view.setUint8(27, (height - 1) & 0xff);
+  view.setUint8(28, ((height - 1) >> 8) & 0xff);
+  view.setUint8(29, ((height - 1) >> 16) & 0xff);
+  return out;
+}
+
+function webpLossless(width: number, height: number): Uint8Array {
+  const out = concat(ascii("RIFF"), u32(0), ascii("WEBPVP8L"), new Uint8Array(14));
+  const view = new DataView(out.buffer);
+  view.setUint8(20, 0x2f);
+  view.setUint32(21, (width - 1) | ((height - 1) << 14), true);
+  return out;
+}
+
+/** JPEG with an EXIF orientation, an unrelated segment and a baseline frame header */
+function jpeg(width: number, height: number, orientation: number): Uint8Array {
+  const exif = concat(
+    ascii("Exif\0\0"),
+    ascii("MM"),
+    new Uint8Array([0, 42]),
+    u32(8),
+    new Uint8Array([0, 1]),
+    new Uint8Array([0x01, 0x12, 0, 3]),
+    u32(1),
+    new Uint8Array([0, orientation, 0, 0]),
+    u32(0)
+  );
+  const segment = (marker: number, payload: Uint8Array) => {
+    const header = new Uint8Array([0xff, marker, 0, 0]);
+    new DataView(header.buffer).setUint16(2, payload.length + 2);
+    return concat(header, payload);
+  };
+  const frame = new Uint8Array(15);
+  new DataView(frame.buffer).setUint8(0, 8);
+  new DataView(frame.buffer).setUint16(1, height);
+  new DataView(frame.buffer).setUint16(3, width);
+
+  return concat(
+    new Uint8Array([0xff, 0xd8]),
+    segment(0xe1, exif),
+    segment(0xdb, new Uint8Array(65)),
+    segment(0xc0, frame),
+    new Uint8Array([0xff, 0xda, 0, 2, 0xff, 0xd9])
+  );
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+describe("inspectVideo", () => {
+  beforeAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("reads MP4 metadata", async () => {
+    writeFileSync(`${TEST_DIR}/clip.mp4`, mp4({ width: 1920, height: 1080, seconds: 12, fps: 30 }));
+
+    const metadata = await inspectVideo(`${TEST_DIR}/clip.mp4`);
+
+    expect(metadata).toMatchObject({
+      container: "mp4",
+      duration: 12,
+      width: 1920,
+      height: 1080,
+      aspect_ratio: "16:9",
+      codec: "h264",
+      frame_rate: 30,
+    });
+    expect(metadata?.bitrate).toBeGreaterThan(0);
+  });
+
+  test("finds moov after the media data and detects MOV", async () => {
+    writeFileSync(
+      `${TEST_DIR}/clip.mov`,
+      mp4({ brand: "qt  ", width: 1080, height: 1080, seconds: 5, fps: 25, codec: "hvc1", moovLast: true })
+    );
+
+    expect(await inspectVideo(`${TEST_DIR}/clip.mov`)).toMatchObject({
+      container: "mov",
+      duration: 5,
+      aspect_ratio: "1:1",
+      codec: "hevc",
+      frame_rate: 25,
+    });
+  });
+
+  test("swaps width and height of rotated phone video", async () => {
+    writeFileSync(
+      `${TEST_DIR}/portrait.mp4`,
+      mp4({ width: 1920, height: 1080, seconds: 8, fps: 30, rotated: true })
+    );
+
+    expect(await inspectVideo(`${TEST_DIR}/portrait.mp4`)).toMatchObject({
+      width: 1080,
+      height: 1920,
+      aspect_ratio: "9:16",
+    });
+  });
+
+  test("reads WebM metadata", async () => {
+    writeFileSync(`${TEST_DIR}/clip.webm`, webm(720, 1280, 42.5));
+
+    expect(await inspectVideo(`${TEST_DIR}/clip.webm`)).toMatchObject({
+      container: "webm",
+      duration: 42.5,
+      width: 720,
+      height: 1280,
+      aspect_ratio: "9:16",
+      codec: "vp9",
+      frame_rate: 30,
+    });
+  });
+
+  test("returns undefined for formats it cannot read", async () => {
+    writeFileSync(`${TEST_DIR}/clip.avi`, "RIFF....AVI ");
+    writeFileSync(`${TEST_DIR}/garbage.mp4`, "not really a video");
+
+    expect(await inspectVideo(`${TEST_DIR}/clip.avi`)).toBeUndefined();
+    expect(await inspectVideo(`${TEST_DIR}/garbage.mp4`)).toBeUndefined();
+    expect(await inspectVideo(`${TEST_DIR}/missing.mp4`)).toBeUndefined();
+  });
+});
+
+describe("inspectImage", () => {
+  beforeAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test("reads PNG, GIF and WebP sizes", async () => {
+    writeFileSync(`${TEST_DIR}/a.png`, png(1080, 1350));
+    writeFileSync(`${TEST_DIR}/a.gif`, gif(480, 270));
+    writeFileSync(`${TEST_DIR}/a.webp`, webpExtended(1000, 1500));
+    writeFileSync(`${TEST_DIR}/b.webp`, webpLossless(800, 800));
+
+    expect(await inspectImage(`${TEST_DIR}/a.png`)).toEqual({
+      format: "png",
+      width: 1080,
+      height: 1350,
+      aspect_ratio: "4:5",
+    });
+    expect(await inspectImage(`${TEST_DIR}/a.gif`)).toMatchObject({ format: "gif", aspect_ratio: "16:9" });
+    expect(await inspectImage(`${TEST_DIR}/a.webp`)).toMatchObject({ format: "webp", width: 1000, height: 1500 });
+    expect(await inspectImage(`${TEST_DIR}/b.webp`)).toMatchObject({ format: "webp", width: 800, height: 800 });
+  });
+
+  test("reads JPEG size and applies EXIF rotation", async () => {
+    writeFileSync(`${TEST_DIR}/flat.jpg`, jpeg(4032, 3024, 1));
+    writeFileSync(`${TEST_DIR}/portrait.jpg`, jpeg(4032, 3024, 6));
+
+    expect(await inspectImage(`${TEST_DIR}/flat.jpg`)).toMatchObject({
+      format: "jpeg",
+      width: 4032,
+      height: 3024,
+      aspect_ratio: "4:3",
+    });
+    expect(await inspectImage(`${TEST_DIR}/portrait.jpg`)).toMatchObject({
+      width: 3024,
+      height: 4032,
+      aspect_ratio: "3:4",
+    });
+  });
+
+  test("detects the format regardless of extension", async () => {
+    writeFileSync(`${TEST_DIR}/renamed.jpg`, png(100, 100));
+    expect((await inspectImage(`${TEST_DIR}/renamed.jpg`))?.format).toBe("png");
+  });
+
+  test("returns undefined for other files", async () => {
+    writeFileSync(`${TEST_DIR}/notes.png`, "definitely not an image, just some text");
+    expect(await inspectImage(`${TEST_DIR}/notes.png`)).toBeUndefined();
+    expect(await inspectImage(`${TEST_DIR}/missing.png`)).toBeUndefined();
+  });
+});
+
+describe("aspectRatio", () => {
+  test("names common ratios and falls back to a decimal", () => {
+    expect(aspectRatio(1080, 1920)).toBe("9:16");
+    expect(aspectRatio(1080, 1350)).toBe("4:5");
+    expect(aspectRatio(1998, 1080)).toBe("1.85:1");
+  });
+});
+
+describe("formatDuration", () => {
+  test("formats seconds and minutes", () => {
+    expect(formatDuration(45.4)).toBe("45s");
+    expect(formatDuration(140)).toBe("2m 20s");
+    expect(formatDuration(600)).toBe("10m");
+  });
+});
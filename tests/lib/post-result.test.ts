@@ -0,0 +1,106 @@
+import { describe, test, expect } from "bun:test";
+import {
+  enforceFailOn,
+  parseFailOn,
+  summarizePostResult,
+  summarizeStatus,
+} from "../../src/lib/post-result";
+import { PublishError, UserError } from "../../src/lib/errors";
+import { EXIT_CODES } from "../../src/constants";
+import type { PostSummary } from "../../src/lib/types";
+
+describe("summarizePostResult", () => {
+  test("splits platforms into succeeded and failed", () => {
+    expect(
+      summarizePostResult({
+        success: true,
+        results: {
+          linkedin: { success: true, url: "https://linkedin.com/post/1" },
+          instagram: { success: false, error: "Unsupported aspect ratio" },
+        },
+      })
+    ).toEqual({
+      status: "partial",
+      succeeded: ["linkedin"],
+      failed: [{ platform: "instagram", error: "Unsupported aspect ratio" }],
+    });
+  });
+
+  test("returns undefined for scheduled and async results", () => {
+    expect(summarizePostResult({ success: true, scheduled: true, job_id: "job_1" })).toBeUndefined();
+    expect(summarizePostResult({ success: true, request_id: "req_1" })).toBeUndefined();
+  });
+});
+
+describe("summarizeStatus", () => {
+  test("treats a failed upload without results as failed", () => {
+    expect(summarizeStatus({ status: "failed", error: "Transcode failed" })).toEqual({
+      status: "failed",
+      succeeded: [],
+      failed: [],
+    });
+  });
+
+  test("uses per-platform results when present", () => {
+    const summary = summarizeStatus({
+      status: "completed",
+      results: [
+        { platform: "tiktok", success: true },
+        { platform: "youtube", success: false, error: "Quota exceeded" },
+      ],
+    });
+    expect(summary.status).toBe("partial");
+    expect(summary.failed).toEqual([{ platform: "youtube", error: "Quota exceeded" }]);
+  });
+});
+
+describe("enforceFailOn", () => {
+  const partial: PostSummary = {
+    status: "partial",
+    succeeded: ["linkedin"],
+    failed: [{ platform: "instagram" }],
+  };
+  const failed: PostSummary = {
+    status: "failed",
+    succeeded: [],
+    failed: [{ platform: "instagram" }],
+  };
+
+  test("any: partial failure exits with PARTIAL_FAILURE", () => {
+    try {
+      enforceFailOn(partial, "any");
+      throw new Error("expected PublishError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(PublishError);
+      expect((error as PublishError).exitCode).toBe(EXIT_CODES.PARTIAL_FAILURE);
+    }
+  });
+
+  test("all: only a total failure is an error", () => {
+    expect(() => enforceFailOn(partial, "all")).not.toThrow();
+    expect(() => enforceFailOn(failed, "all")).toThrow(PublishError);
+  });
+
+  test("total failure exits with API_ERROR", () => {
+    try {
+      enforceFailOn(failed, "any");
+      throw new Error("expected PublishError");
+    } catch (error) {
+      expect((error as PublishError).exitCode).toBe(EXIT_CODES.API_ERROR);
+    }
+  });
+
+  test("none: never throws", () => {
+    expect(() => enforceFailOn(failed, "none")).not.toThrow();
+  });
+});
+
+describe("parseFailOn", () => {
+  test("defaults to any", () => {
+    expect(parseFailOn(undefined)).toBe("any");
+  });
+
+  test("rejects unknown policies", () => {
+    expect(() => parseFailOn("most")).toThrow(UserError);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { createUploadProgress } from "../../src/lib/progress";
+import { OutputFormatter } from "../../src/lib/output";
+
+const MB = 1024 * 1024;
+
+describe("createUploadProgress", () => {
+  let time: number;
+  const now = () => time;
+  const wasTTY = process.stderr.isTTY;
+
+  beforeEach(() => {
+    time = 0;
+  });
+
+  afterEach(() => {
+    process.stderr.isTTY = wasTTY;
+  });
+
+  test("writes NDJSON events to stderr in JSON mode", () => {
+    const consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+    const progress = createUploadProgress(new OutputFormatter("json"), now)!;
+
+    progress.update({ sent: 0, total: 10 * MB });
+    time = 500;
+    progress.update({ sent: 1 * MB, total: 10 * MB });
+    time = 2000;
+    progress.update({ sent: 4 * MB, total: 10 * MB });
+    time = 5000;
+    progress.update({ sent: 10 * MB, total: 10 * MB });
+
+    const events = consoleErrorSpy.mock.calls.map((c) => JSON.parse(c[0] as string));
+    consoleErrorSpy.mockRestore();
+
+    // The update at 500ms is skipped; at most one event a second
+    expect(events).toEqual([
+      { event: "upload_progress", sent_bytes: 0, total_bytes: 10 * MB, percent: 0, bytes_per_second: null, eta_seconds: null },
+      { event: "upload_progress", sent_bytes: 4 * MB, total_bytes: 10 * MB, percent: 40, bytes_per_second: 2 * MB, eta_seconds: 3 },
+      { event: "upload_progress", sent_bytes: 10 * MB, total_bytes: 10 * MB, percent: 100, bytes_per_second: 2 * MB, eta_seconds: 0 },
+    ]);
+  });
+
+  test("draws a bar with throughput and ETA on a terminal", () => {
+    process.stderr.isTTY = true;
+    const writeSpy = spyOn(process.stderr, "write").mockImplementation(() => true);
+    const progress = createUploadProgress(new OutputFormatter("pretty", false), now)!;
+
+    progress.update({ sent: 0, total: 100 * MB });
+    time = 10000;
+    progress.update({ sent: 25 * MB, total: 100 * MB });
+    progress.end();
+
+    const output = writeSpy.mock.calls.map((c) => c[0]).join("");
+    writeSpy.mockRestore();
+
+    expect(output).toContain(`\rUploading ${"█".repeat(6)}${"░".repeat(18)}  25%  25.0MB / 100.0MB  2.5MB/s  ETA 30s`);
+    expect(output.endsWith("\n")).toBe(true);
+  });
+
+  test("is silent in pretty mode when stderr is not a terminal", () => {
+    process.stderr.isTTY = false;
+    expect(createUploadProgress(new OutputFormatter("pretty"), now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, test, expect, mock } from "bun:test";
+import { checkThreadFields, postThread, splitThread } from "../../src/lib/thread";
+import { UserError } from "../../src/lib/errors";
+import type { ApiClient } from "../../src/lib/api";
+import type { TextPostParams } from "../../src/lib/types";
+
+describe("splitThread", () => {
+  test("splits on --- separator lines", () => {
+    expect(splitThread("First part\n---\nSecond part\n  ---  \nThird", ["x"])).toEqual([
+      "First part",
+      "Second part",
+      "Third",
+    ]);
+  });
+
+  test("splits automatically at the smallest platform limit", () => {
+    const text = "Launch day is here. ".repeat(20).trim();
+    const parts = splitThread(text, ["x", "bluesky"]);
+
+    expect(parts.length).toBe(2);
+    expect(parts.every((part) => part.length <= 280)).toBe(true);
+    expect(parts[0]!.endsWith(".")).toBe(true);
+    expect(parts.join(" ")).toBe(text);
+  });
+
+  test("prefers paragraph breaks", () => {
+    const first = "Intro paragraph. ".repeat(10).trim();
+    const second = "Details follow here. ".repeat(8).trim();
+    expect(splitThread(`${first}\n\n${second}`, ["x"])).toEqual([first, second]);
+  });
+
+  test("numbers parts within the limit", () => {
+    const parts = splitThread("word ".repeat(200), ["bluesky"], { numbered: true });
+
+    expect(parts[0]).toEndWith(` (1/${parts.length})`);
+    expect(parts.every((part) => part.length <= 300)).toBe(true);
+  });
+
+  test("counts characters the way each platform does", () => {
+    // Bluesky counts graphemes, X counts emoji twice
+    expect(splitThread("👍🏽".repeat(300), ["bluesky"])).toHaveLength(1);
+    expect(splitThread("🚀".repeat(200), ["x"])).toEqual(["🚀".repeat(140), "🚀".repeat(60)]);
+  });
+
+  test("throws error when a separated part is too long", () => {
+    expect(() => splitThread(`${"a".repeat(290)}\n---\nshort`, ["x"])).toThrow(
+      "Thread part 1 is 290 characters, but x allows 280"
+    );
+  });
+
+  test("throws error for platforms that cannot reply", () => {
+    expect(() => splitThread("Hello", ["x", "linkedin"])).toThrow(UserError);
+  });
+});
+
+describe("checkThreadFields", () => {
+  test("rejects per-platform text overrides", () => {
+    expect(() => checkThreadFields({ text: "Hello", x_title: "X", bluesky_title: "Bluesky" })).toThrow(
+      "--x-title and --bluesky-title cannot be used with --thread: they replace the text of every part."
+    );
+    expect(() => checkThreadFields({ text: "Hello", threads_title: "Threads" })).not.toThrow();
+  });
+});
+
+describe("postThread", () => {
+  const params: TextPostParams = {
+    profile: "brand",
+    platforms: ["x", "bluesky"],
+    text: "ignored",
+    x_poll_options: ["Yes", "No"],
+  };
+
+  test("chains each part to the previous part's publish_id", async () => {
+    let call = 0;
+    const postText = mock(async () => {
+      call++;
+      return {
+        success: true,
+        results: {
+          x: { success: true, publish_id: `x_${call}` },
+          bluesky: { success: true, publish_id: `bsky_${call}` },
+        },
+      };
+    });
+
+    const result = await postThread({ postText } as unknown as ApiClient, params, ["One", "Two"]);
+
+    const calls = postText.mock.calls as unknown as Array<[TextPostParams]>;
+    expect(calls[0]![0]).toMatchObject({ text: "One", x_poll_options: ["Yes", "No"] });
+    expect(calls[0]![0].x_reply_to).toBeUndefined();
+    // One reply id per request: the second part goes to each platform on its own
+    expect(calls).toHaveLength(3);
+    expect(calls[1]![0]).toEqual({ profile: "brand", platforms: ["x"], text: "Two", x_reply_to: "x_1" });
+    expect(calls[2]![0]).toEqual({ profile: "brand", platforms: ["bluesky"], text: "Two", bluesky_reply_to: "bsky_1" });
+    expect(result.parts.map((part) => [part.index, part.platforms])).toEqual([
+      [1, ["x", "bluesky"]],
+      [2, ["x"]],
+      [2, ["bluesky"]],
+    ]);
+    expect(result.summary).toEqual({ status: "succeeded", succeeded: ["x", "bluesky"], failed: [] });
+  });
+
+  test("sends a reply on one platform to each platform on its own", async () => {
+    const postText = mock(async (p: TextPostParams) => ({
+      success: true,
+      results: Object.fromEntries(
+        p.platforms.map((platform) => [platform, { success: true, publish_id: `${platform}_${p.text}` }])
+      ),
+    }));
+
+    await postThread({ postText } as unknown as ApiClient, { ...params, x_reply_to: "x_0" }, ["One"]);
+
+    const calls = postText.mock.calls as unknown as Array<[TextPostParams]>;
+    expect(calls).toHaveLength(2);
+    expect(calls[0]![0]).toMatchObject({ platforms: ["x"], x_reply_to: "x_0" });
+    expect(calls[1]![0].platforms).toEqual(["bluesky"]);
+    expect(calls[1]![0].x_reply_to).toBeUndefined();
+    expect(calls[1]![0].bluesky_reply_to).toBeUndefined();
+  });
+
+  test("drops a platform after it fails", async () => {
+    const postText = mock(async (p: TextPostParams) => ({
+      success: true,
+      results: Object.fromEntries(
+        p.platforms.map((platform) =>
+          platform === "bluesky" && p.text === "One"
+            ? [platform, { success: false, error: "Rate limited" }]
+            : [platform, { success: true, publish_id: `${platform}_${p.text}` }]
+        )
+      ),
+    }));
+
+    const result = await postThread({ postText } as unknown as ApiClient, params, ["One", "Two"]);
+
+    const calls = postText.mock.calls as unknown as Array<[TextPostParams]>;
+    expect(calls[1]![0].platforms).toEqual(["x"]);
+    expect(calls[1]![0].bluesky_reply_to).toBeUndefined();
+    expect(result.summary).toEqual({
+      status: "partial",
+      succeeded: ["x"],
+      failed: [{ platform: "bluesky", error: "Part 1: Rate limited" }],
+    });
+  });
+});
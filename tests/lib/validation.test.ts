@@ -1,11 +1,14 @@
-import { describe, test, expect } from "bun:test";
+import { describe, test, expect, spyOn } from "bun:test";
+import { rmSync, writeFileSync } from "node:fs";
 import {
   validatePlatforms,
   validateISODate,
   validateTimezone,
-  validateMutuallyExclusive
+  validateMutuallyExclusive,
+  validatePhotoFiles,
 } from "../../src/lib/validation";
-import { UserError } from "../../src/lib/errors";
+import { validatePlatformRequirements } from "../../src/lib/platforms";
+import { UserError, ValidationCollector } from "../../src/lib/errors";
 
 describe("Validation System", () => {
   test("validatePlatforms accepts valid platform names", () => {
@@ -73,4 +76,101 @@ describe("Validation System", () => {
     const options = { a: true, b: true, c: false };
     expect(() => validateMutuallyExclusive(options)).toThrow(UserError);
   });
+
+  test("validatePlatformRequirements reports every missing field", () => {
+    try {
+      validatePlatformRequirements(["facebook", "pinterest", "reddit", "x"], {});
+      throw new Error("expected validation to fail");
+    } catch (error) {
+      expect(error).toBeInstanceOf(UserError);
+      expect((error as UserError).errors?.map((e) => e.split("\n")[0])).toEqual([
+        "Facebook requires --facebook-page flag.",
+        "Pinterest requires --pinterest-board flag.",
+        "Reddit requires --reddit-subreddit flag.",
+      ]);
+    }
+  });
+
+  test("validatePhotoFiles reports every missing file", async () => {
+    await expect(validatePhotoFiles(["/tmp/missing-a.jpg", "/tmp/missing-b.jpg"])).rejects.toThrow(
+      "Found 2 problems:\n  - File not found: /tmp/missing-a.jpg\n  - File not found: /tmp/missing-b.jpg"
+    );
+  });
+
+  test("validatePhotoFiles detects the format from the contents", async () => {
+    const gif = new Uint8Array(32);
+    gif.set([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x40, 0x01, 0xf0, 0x00]); // GIF89a, 320x240
+    writeFileSync("/tmp/posterboy-test-renamed.png", gif);
+    const consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      const photos = await validatePhotoFiles(["/tmp/posterboy-test-renamed.png"]);
+      expect(photos[0].metadata).toEqual({ format: "gif", width: 320, height: 240, aspect_ratio: "4:3" });
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "Warning: /tmp/posterboy-test-renamed.png is a GIF image; rename it to .gif so it is uploaded with the right type"
+      );
+    } finally {
+      consoleErrorSpy.mockRestore();
+      rmSync("/tmp/posterboy-test-renamed.png", { force: true });
+    }
+  });
+
+  test("validatePhotoFiles warns about photos whose contents are not recognized", async () => {
+    writeFileSync("/tmp/posterboy-test-broken.jpg", "not an image");
+    const consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      const photos = await validatePhotoFiles(["/tmp/posterboy-test-broken.jpg"]);
+      expect(photos).toEqual([{ path: "/tmp/posterboy-test-broken.jpg", unreadable: true }]);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "Warning: /tmp/posterboy-test-broken.jpg does not contain a readable JPEG image; its size cannot be checked"
+      );
+    } finally {
+      consoleErrorSpy.mockRestore();
+      rmSync("/tmp/posterboy-test-broken.jpg", { force: true });
+    }
+  });
+});
+
+describe("ValidationCollector", () => {
+  test("does nothing when no problems were recorded", () => {
+    const errors = new ValidationCollector();
+    expect(errors.check(() => validateTimezone("UTC"))).toBe(true);
+    expect(() => errors.throwIfErrors()).not.toThrow();
+  });
+
+  test("rethrows a single problem unchanged", () => {
+    const errors = new ValidationCollector();
+    errors.check(() => validateTimezone("Not/A/Timezone"));
+
+    expect(() => errors.throwIfErrors()).toThrow(/^Invalid timezone: Not\/A\/Timezone/);
+  });
+
+  test("gathers problems from several checks into one error", () => {
+    const errors = new ValidationCollector();
+    expect(errors.check(() => validateISODate("not-a-date"))).toBeUndefined();
+    errors.check(() => validatePlatformRequirements(["facebook", "reddit"], {}));
+    errors.add("Text content cannot be empty");
+
+    let thrown: UserError | undefined;
+    try {
+      errors.throwIfErrors();
+    } catch (error) {
+      thrown = error as UserError;
+    }
+
+    expect(thrown?.errors).toHaveLength(4);
+    expect(thrown?.message).toStartWith("Found 4 problems:\n  - Invalid ISO-8601 date: not-a-date");
+    expect(thrown?.message).toContain("\n  - Facebook requires --facebook-page flag.\n    Tip:");
+    expect(thrown?.json()).toMatchObject({ success: false, code: "USER", errors: thrown?.errors });
+  });
+
+  test("lets errors other than UserError through", () => {
+    const errors = new ValidationCollector();
+    expect(() =>
+      errors.check(() => {
+        throw new TypeError("bug");
+      })
+    ).toThrow(TypeError);
+  });
 });
@@ -0,0 +1,16 @@
+// posterboy - Typed fetch mocks for tests
+
+import { mock, type Mock } from "bun:test";
+
+export type Fetch = (...args: Parameters<typeof fetch>) => ReturnType<typeof fetch>;
+
+/**
+ * Replace global fetch with a mock of the given implementation.
+ * tests/setup.ts puts the real fetch back after each test.
+ */
+export function mockFetch(impl: Fetch): Mock<Fetch> {
+  const fetchMock = mock(impl);
+  // Bun's fetch also has preconnect, which posterboy never calls
+  global.fetch = Object.assign(fetchMock, { preconnect: () => {} }) satisfies typeof fetch;
+  return fetchMock;
+}
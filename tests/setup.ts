@@ -0,0 +1,10 @@
+import { afterEach } from "bun:test";
+
+// Keep the local post ledger out of ~/.posterboy while tests submit posts
+process.env.POSTERBOY_LEDGER = ":memory:";
+
+// Tests mock fetch; give each test the real one back so a local server can be used
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});